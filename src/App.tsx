@@ -2,13 +2,16 @@ import React from 'react';
 import { Route, BrowserRouter as Router, Routes, useLocation } from 'react-router-dom';
 import NavBar from './components/NavBar';
 import ProtectedRoute from './components/ProtectedRoute';
+import { ToastProvider } from './components/Toast';
 import BacktesterPage from './pages/BacktesterPage';
 import BotsPage from './pages/BotsPage';
 import Counter from './pages/Counter';
 import HomePage from './pages/HomePage';
 import LoginPage from './pages/LoginPage';
 import PortfolioPage from './pages/PortfolioPage';
+import RanksPage from './pages/RanksPage';
 import ReportsPage from './pages/ReportsPage';
+import SharedWatchlistPage from './pages/SharedWatchlistPage';
 import SourdoughRecipes from './pages/SourdoughRecipes';
 import StakingPage from './pages/StakingPage';
 import ThermostatPage from './pages/ThermostatPage';
@@ -17,6 +20,7 @@ import WatchlistPage from './pages/WatchlistPage';
 import { SIWSProvider } from '@shawncoe/siws-auth/react';
 import { AuthProvider } from './context/AuthContext';
 import { ThemeProvider } from './context/ThemeContext';
+import { WatchlistAlertsProvider } from './context/WatchlistAlertsContext';
 import { MetaMaskProvider } from './providers/MetaMaskProvider';
 import { WalletAuthProvider } from './providers/WalletAuthProvider';
 
@@ -40,32 +44,38 @@ const App: React.FC = () => {
         <WalletAuthProvider>
           <AuthProvider>
             <ThemeProvider>
-            <Router
-              future={{
-                v7_relativeSplatPath: true,
-                v7_startTransition: true
-              }}
-            >
-              <RouteLogger />
-              <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-300">
-                <NavBar />
-                <div className="pt-16"> {/* Add padding-top to account for fixed navbar */}
-                  <Routes>
-                    <Route path="/" element={<HomePage />} />
-                    <Route path="/login" element={<LoginPage />} />
-                    <Route path="/reports" element={<ProtectedRoute element={<ReportsPage />} authorizedOnly={true} />} />
-                    <Route path="/staking" element={<ProtectedRoute element={<StakingPage />} walletOnly={true} />} />
-                    <Route path="/watchlist" element={<ProtectedRoute element={<WatchlistPage />} walletOnly={true} />} />
-                    <Route path="/portfolio" element={<ProtectedRoute element={<PortfolioPage />} walletOnly={true} />} />
-                    <Route path="/bots" element={<ProtectedRoute element={<BotsPage />} authorizedOnly={true} />} />
-                    <Route path="/backtester" element={<ProtectedRoute element={<BacktesterPage />} authorizedOnly={true} />} />
-                    <Route path="/thermostat" element={<ProtectedRoute element={<ThermostatPage />} authorizedOnly={true} />} />
-                    <Route path="/counter" element={<Counter />} />
-                    <Route path="/sourdough" element={<SourdoughRecipes />} />
-                  </Routes>
-                </div>
-              </div>
-            </Router>
+              <ToastProvider>
+                <WatchlistAlertsProvider>
+                  <Router
+                    future={{
+                      v7_relativeSplatPath: true,
+                      v7_startTransition: true
+                    }}
+                  >
+                    <RouteLogger />
+                    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-300">
+                      <NavBar />
+                      <div className="pt-16"> {/* Add padding-top to account for fixed navbar */}
+                        <Routes>
+                          <Route path="/" element={<HomePage />} />
+                          <Route path="/login" element={<LoginPage />} />
+                          <Route path="/reports" element={<ProtectedRoute element={<ReportsPage />} authorizedOnly={true} />} />
+                          <Route path="/staking" element={<ProtectedRoute element={<StakingPage />} walletOnly={true} />} />
+                          <Route path="/watchlist" element={<ProtectedRoute element={<WatchlistPage />} walletOnly={true} />} />
+                          <Route path="/watchlist/shared" element={<SharedWatchlistPage />} />
+                          <Route path="/portfolio" element={<ProtectedRoute element={<PortfolioPage />} walletOnly={true} />} />
+                          <Route path="/bots" element={<ProtectedRoute element={<BotsPage />} authorizedOnly={true} />} />
+                          <Route path="/backtester" element={<ProtectedRoute element={<BacktesterPage />} authorizedOnly={true} />} />
+                          <Route path="/ranks" element={<ProtectedRoute element={<RanksPage />} authorizedOnly={true} />} />
+                          <Route path="/thermostat" element={<ProtectedRoute element={<ThermostatPage />} authorizedOnly={true} />} />
+                          <Route path="/counter" element={<Counter />} />
+                          <Route path="/sourdough" element={<SourdoughRecipes />} />
+                        </Routes>
+                      </div>
+                    </div>
+                  </Router>
+                </WatchlistAlertsProvider>
+              </ToastProvider>
           </ThemeProvider>
         </AuthProvider>
       </WalletAuthProvider>
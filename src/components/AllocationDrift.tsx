@@ -0,0 +1,239 @@
+import { Save } from 'lucide-react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { computeAllocation } from '../lib/allocation';
+import { quantityDecimalsFor } from '../lib/assetClasses';
+import { currencyPrefix } from '../lib/fx';
+import { AssetClass } from '../types/portfolio';
+import ChartContainer from './ChartContainer';
+import PieChart from './PieChart';
+import { Badge } from './ui/badge';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Label } from './ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+
+interface AllocationDriftProps {
+  portfolioId: string;
+  assetClasses: Record<string, AssetClass>;
+  symbols: string[];
+  quantities: Record<string, number>;
+  prices: Record<string, number>; // in the base currency
+  baseCurrency: string;
+  targetWeights: Record<string, number>;
+  rebalanceTolerance: number;
+  onSaveTargets: (targetWeights: Record<string, number>, rebalanceTolerance: number) => Promise<void>;
+}
+
+const formatWeight = (value: number) => `${value.toFixed(1)}%`;
+
+export const AllocationDrift: React.FC<AllocationDriftProps> = ({
+  portfolioId,
+  assetClasses,
+  symbols,
+  quantities,
+  prices,
+  baseCurrency,
+  targetWeights,
+  rebalanceTolerance,
+  onSaveTargets,
+}) => {
+  const [draftTargets, setDraftTargets] = useState<Record<string, string>>({});
+  const [draftTolerance, setDraftTolerance] = useState(String(rebalanceTolerance));
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the editor whenever the saved targets change (compared by content, the parent passes a fresh object)
+  const savedTargetsKey = JSON.stringify(targetWeights);
+  useEffect(() => {
+    const draft: Record<string, string> = {};
+    symbols.forEach(symbol => {
+      draft[symbol] = targetWeights[symbol] !== undefined ? String(targetWeights[symbol]) : '';
+    });
+    setDraftTargets(draft);
+    setDraftTolerance(String(rebalanceTolerance));
+  }, [portfolioId, symbols.join(','), savedTargetsKey, rebalanceTolerance]);
+
+  const parsedTargets = useMemo(() => {
+    const parsed: Record<string, number> = {};
+    Object.entries(draftTargets).forEach(([symbol, value]) => {
+      const num = parseFloat(value);
+      if (Number.isFinite(num) && num >= 0) parsed[symbol] = num;
+    });
+    return parsed;
+  }, [draftTargets]);
+
+  const tolerance = Math.max(0, parseFloat(draftTolerance) || 0);
+  const quantityDecimals = useMemo(() => {
+    const decimals: Record<string, number> = {};
+    symbols.forEach(symbol => {
+      decimals[symbol] = quantityDecimalsFor(assetClasses[symbol] ?? 'stocks');
+    });
+    return decimals;
+  }, [symbols, assetClasses]);
+
+  const allocation = useMemo(
+    () => computeAllocation(symbols, quantities, prices, parsedTargets, tolerance, quantityDecimals),
+    [symbols, quantities, prices, parsedTargets, tolerance, quantityDecimals]
+  );
+
+  const hasTargets = Object.keys(parsedTargets).length > 0;
+  const targetsBalanced = Math.abs(allocation.targetTotal - 100) < 0.01;
+  const trades = allocation.rows.filter(r => r.tradeAction);
+
+  const chartData = {
+    tooltip: {
+      trigger: 'item',
+      formatter: '{a}<br/>{b}: {d}%'
+    },
+    series: [
+      {
+        name: 'Target',
+        type: 'pie',
+        radius: ['0%', '35%'],
+        label: { show: false },
+        data: allocation.rows.filter(r => r.targetWeight > 0).map(r => ({ name: r.symbol, value: r.targetWeight }))
+      },
+      {
+        name: 'Current',
+        type: 'pie',
+        radius: ['45%', '65%'],
+        label: { formatter: '{b}: {d}%' },
+        data: allocation.rows.filter(r => r.value > 0).map(r => ({ name: r.symbol, value: Math.round(r.value) }))
+      }
+    ]
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSaveTargets(parsedTargets, tolerance);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <ChartContainer>
+          <p className="text-sm text-muted-foreground mb-2">Inner ring: target · Outer ring: current</p>
+          <PieChart data={chartData} />
+        </ChartContainer>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="p-4 border rounded-lg">
+              <p className="text-xs text-muted-foreground">Portfolio Value</p>
+              <p className="text-xl font-semibold">{currencyPrefix(baseCurrency)}{allocation.totalValue.toFixed(0)}</p>
+            </div>
+            <div className="p-4 border rounded-lg">
+              <p className="text-xs text-muted-foreground">Max Drift</p>
+              <p className={`text-xl font-semibold ${allocation.maxAbsDrift > tolerance ? 'text-red-600' : 'text-green-600'}`}>
+                {allocation.maxAbsDrift.toFixed(1)} pp
+              </p>
+            </div>
+            <div className="p-4 border rounded-lg">
+              <p className="text-xs text-muted-foreground">Targets Total</p>
+              <p className={`text-xl font-semibold ${targetsBalanced ? '' : 'text-red-600'}`}>{formatWeight(allocation.targetTotal)}</p>
+            </div>
+          </div>
+
+          <div className="flex items-end gap-2">
+            <div className="space-y-2 flex-1">
+              <Label htmlFor={`tolerance-${portfolioId}`}>Tolerance Band (± percentage points)</Label>
+              <Input
+                id={`tolerance-${portfolioId}`}
+                type="number"
+                step="0.5"
+                min="0"
+                value={draftTolerance}
+                onChange={(e) => setDraftTolerance(e.target.value)}
+              />
+            </div>
+            <Button onClick={handleSave} disabled={isSaving}>
+              <Save className="h-4 w-4 mr-2" />
+              {isSaving ? 'Saving...' : 'Save Targets'}
+            </Button>
+          </div>
+          {hasTargets && !targetsBalanced && (
+            <p className="text-xs text-destructive">Target weights add up to {formatWeight(allocation.targetTotal)}, not 100%.</p>
+          )}
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Symbol</TableHead>
+            <TableHead className="text-right">Value</TableHead>
+            <TableHead className="text-right">Current</TableHead>
+            <TableHead className="text-right w-[120px]">Target %</TableHead>
+            <TableHead className="text-right">Drift</TableHead>
+            <TableHead>Status</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {allocation.rows.map(row => (
+            <TableRow key={row.symbol}>
+              <TableCell className="font-medium">{row.symbol}</TableCell>
+              <TableCell className="text-right">{row.price ? `${currencyPrefix(baseCurrency)}${row.value.toFixed(0)}` : 'N/A'}</TableCell>
+              <TableCell className="text-right">{formatWeight(row.currentWeight)}</TableCell>
+              <TableCell className="text-right">
+                <Input
+                  type="number"
+                  step="any"
+                  min="0"
+                  value={draftTargets[row.symbol] ?? ''}
+                  onChange={(e) => setDraftTargets(prev => ({ ...prev, [row.symbol]: e.target.value }))}
+                  placeholder="0"
+                  className="text-right h-8"
+                />
+              </TableCell>
+              <TableCell className={`text-right ${row.outOfBand ? 'text-red-600 font-medium' : ''}`}>
+                {row.drift >= 0 ? '+' : ''}{row.drift.toFixed(1)} pp
+              </TableCell>
+              <TableCell>
+                {row.outOfBand ? <Badge variant="destructive">Rebalance</Badge> : <Badge variant="secondary">In band</Badge>}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <div>
+        <h3 className="text-lg font-semibold mb-2">Rebalance Trades</h3>
+        {!hasTargets ? (
+          <p className="text-sm text-muted-foreground">Set target weights above to generate a rebalance trade list.</p>
+        ) : trades.length === 0 ? (
+          <p className="text-sm text-muted-foreground">All holdings are within ±{tolerance} pp of their targets.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Symbol</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead className="text-right">Quantity</TableHead>
+                <TableHead className="text-right">Price</TableHead>
+                <TableHead className="text-right">Est. Value</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {trades.map(trade => (
+                <TableRow key={trade.symbol}>
+                  <TableCell className="font-medium">{trade.symbol}</TableCell>
+                  <TableCell>
+                    <span className={trade.tradeAction === 'BUY' ? 'text-green-600 font-medium' : 'text-red-600 font-medium'}>
+                      {trade.tradeAction}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-right">{trade.tradeQuantity.toFixed(quantityDecimals[trade.symbol] || 0)}</TableCell>
+                  <TableCell className="text-right">{currencyPrefix(baseCurrency)}{trade.price?.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">{currencyPrefix(baseCurrency)}{trade.tradeValue.toFixed(0)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+};
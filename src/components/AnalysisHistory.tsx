@@ -0,0 +1,288 @@
+import * as echarts from 'echarts';
+import { Eye, History, Trash2, X } from 'lucide-react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ThemeContext } from '../context/ThemeContext';
+import { diffAnalyses, MAX_RUNS_PER_TICKER, parseDecisionScore, ReasonDiff, toScoreSeries } from '../lib/analysisHistory';
+import { AnalysisHistoryEntry } from '../types/analysis';
+import { Button } from './ui/Button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+
+interface AnalysisHistoryProps {
+  ticker: string;
+  entries: AnalysisHistoryEntry[]; // runs of the ticker, oldest first
+  onView: (entry: AnalysisHistoryEntry) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const formatTimestamp = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const formatChange = (change: number | null) => {
+  if (change === null) return 'N/A';
+  return `${change > 0 ? '+' : ''}${change.toFixed(1)}`;
+};
+
+// One side of a reason diff: reasons only on this side are highlighted, shared ones are plain
+const ReasonColumn: React.FC<{ changed: string[]; kept: string[]; tone: 'added' | 'removed' }> = ({ changed, kept, tone }) => (
+  <ul className="space-y-1 text-sm">
+    {changed.map((reason, idx) => (
+      <li
+        key={`changed-${idx}`}
+        className={tone === 'added' ? 'text-green-700 bg-green-500/10 rounded px-2 py-1' : 'text-red-700 bg-red-500/10 rounded px-2 py-1 line-through'}
+      >
+        {tone === 'added' ? '+ ' : '− '}{reason}
+      </li>
+    ))}
+    {kept.map((reason, idx) => (
+      <li key={`kept-${idx}`} className="text-muted-foreground px-2 py-1">{reason}</li>
+    ))}
+    {changed.length === 0 && kept.length === 0 && <li className="text-muted-foreground px-2 py-1">None</li>}
+  </ul>
+);
+
+const ReasonDiffRow: React.FC<{ title: string; diff: ReasonDiff; keptOlder: string[] }> = ({ title, diff, keptOlder }) => (
+  <div className="space-y-2">
+    <h4 className="text-sm font-semibold">
+      {title}: {diff.added.length} new, {diff.removed.length} dropped, {diff.kept.length} unchanged
+    </h4>
+    <div className="grid grid-cols-2 gap-4">
+      <ReasonColumn changed={diff.removed} kept={keptOlder} tone="removed" />
+      <ReasonColumn changed={diff.added} kept={diff.kept} tone="added" />
+    </div>
+  </div>
+);
+
+/**
+ * History of the AI analysis runs of one ticker: decision and sentiment scores over time and
+ * a side-by-side comparison of the reasons given by two runs
+ */
+export const AnalysisHistory: React.FC<AnalysisHistoryProps> = ({ ticker, entries, onView, onDelete, onClose }) => {
+  const chartRef = React.useRef<HTMLDivElement>(null);
+  const chartInstance = React.useRef<echarts.ECharts | null>(null);
+  const { theme } = React.useContext(ThemeContext);
+
+  // The two most recent runs are compared until the user picks others
+  const [selectedIds, setSelectedIds] = useState<string[]>(() => entries.slice(-2).map(e => e.id));
+
+  const series = useMemo(() => toScoreSeries(entries), [entries]);
+
+  const selected = entries.filter(e => selectedIds.includes(e.id));
+  const [older, newer] = selected.length === 2 ? selected : [null, null];
+  const diff = older && newer ? diffAnalyses(older.result, newer.result) : null;
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      if (prev.includes(id)) return prev.filter(s => s !== id);
+      // Picking a third run replaces the earlier pick
+      return [...prev, id].slice(-2);
+    });
+  };
+
+  const getThemeColors = useCallback(() => {
+    if (theme === 'dark') {
+      return {
+        textColor: '#ffffff',
+        backgroundColor: 'rgba(0, 0, 0, 0.8)',
+        borderColor: '#555555'
+      };
+    } else {
+      return {
+        textColor: '#000000',
+        backgroundColor: 'rgba(255, 255, 255, 0.95)',
+        borderColor: '#cccccc'
+      };
+    }
+  }, [theme]);
+
+  useEffect(() => {
+    if (!chartRef.current || series.length === 0) return;
+
+    if (!chartInstance.current) {
+      chartInstance.current = echarts.init(chartRef.current);
+    }
+
+    const themeColors = getThemeColors();
+    const option = {
+      animation: false,
+      legend: {
+        bottom: 0,
+        left: 'center',
+        data: ['Decision Score', 'Sentiment Score'],
+        textStyle: {
+          color: themeColors.textColor
+        }
+      },
+      tooltip: {
+        trigger: 'axis',
+        borderWidth: 1,
+        borderColor: themeColors.borderColor,
+        backgroundColor: themeColors.backgroundColor,
+        textStyle: {
+          color: themeColors.textColor
+        }
+      },
+      grid: {
+        left: 40,
+        right: 20,
+        top: 20,
+        bottom: 50
+      },
+      xAxis: {
+        type: 'category',
+        data: series.map(p => formatTimestamp(p.timestamp)),
+        axisLabel: {
+          color: themeColors.textColor
+        }
+      },
+      yAxis: {
+        type: 'value',
+        min: -10,
+        max: 10,
+        axisLabel: {
+          color: themeColors.textColor
+        }
+      },
+      series: [
+        {
+          name: 'Decision Score',
+          type: 'line',
+          data: series.map(p => p.decisionScore),
+          connectNulls: true,
+          lineStyle: {
+            width: 2
+          }
+        },
+        {
+          name: 'Sentiment Score',
+          type: 'line',
+          data: series.map(p => p.sentimentScore),
+          connectNulls: true,
+          lineStyle: {
+            type: 'dashed',
+            width: 2
+          }
+        }
+      ]
+    };
+
+    chartInstance.current.setOption(option, true);
+
+    // Cleanup
+    return () => {
+      if (chartInstance.current) {
+        chartInstance.current.dispose();
+        chartInstance.current = null;
+      }
+    };
+  }, [series, theme, getThemeColors]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="bg-background rounded-lg shadow-lg w-full max-w-5xl p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Analysis History: {ticker}
+          </h2>
+          <Button variant="ghost" size="icon" onClick={onClose}>
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">No analysis runs stored for {ticker} yet.</p>
+        ) : (
+          <div className="space-y-6">
+            <div ref={chartRef} className="w-full h-[260px]" />
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[60px]">Compare</TableHead>
+                  <TableHead>Run</TableHead>
+                  <TableHead className="text-right">Decision</TableHead>
+                  <TableHead className="text-right">Sentiment</TableHead>
+                  <TableHead className="text-right">Bullish</TableHead>
+                  <TableHead className="text-right">Bearish</TableHead>
+                  <TableHead className="w-[90px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...entries].reverse().map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell>
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(entry.id)}
+                        onChange={() => toggleSelected(entry.id)}
+                        aria-label={`Compare run of ${formatTimestamp(entry.timestamp)}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-sm">{formatTimestamp(entry.timestamp)}</TableCell>
+                    <TableCell className="text-right">{parseDecisionScore(entry.result.decision_score) ?? 'N/A'}</TableCell>
+                    <TableCell className="text-right">{entry.result.sentiment_score ?? 'N/A'}</TableCell>
+                    <TableCell className="text-right">{entry.result.positive_reasons.filter(r => r.trim()).length}</TableCell>
+                    <TableCell className="text-right">{entry.result.negative_reasons.filter(r => r.trim()).length}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onView(entry)} title="View analysis">
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onDelete(entry.id)} title="Delete run">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {older && newer && diff ? (
+              <div className="space-y-4 border rounded-md p-4">
+                <div className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <div className="font-semibold">Older: {formatTimestamp(older.timestamp)}</div>
+                    <div className="text-muted-foreground">
+                      Decision {older.result.decision_score}, sentiment {older.result.sentiment_score ?? 'N/A'}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="font-semibold">Newer: {formatTimestamp(newer.timestamp)}</div>
+                    <div className="text-muted-foreground">
+                      Decision {newer.result.decision_score} ({formatChange(diff.decisionChange)}),
+                      sentiment {newer.result.sentiment_score ?? 'N/A'} ({formatChange(diff.sentimentChange)})
+                    </div>
+                  </div>
+                </div>
+                <ReasonDiffRow
+                  title="Bullish factors"
+                  diff={diff.positive}
+                  keptOlder={older.result.positive_reasons.filter(r => r.trim() && !diff.positive.removed.includes(r))}
+                />
+                <ReasonDiffRow
+                  title="Bearish factors"
+                  diff={diff.negative}
+                  keptOlder={older.result.negative_reasons.filter(r => r.trim() && !diff.negative.removed.includes(r))}
+                />
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Select two runs to compare their reasons.</p>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              Runs are saved in this browser for the connected wallet, up to the latest {MAX_RUNS_PER_TICKER} per ticker.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -3,19 +3,7 @@ import React from 'react';
 import { Button } from './ui/Button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/Card';
 import { Badge } from './ui/badge';
-
-interface AnalysisResult {
-  ticker: string;
-  company: string;
-  asset_type: string;
-  timestamp: string;
-  sentiment_score: number | null;
-  sentiment_analysis: string | null;
-  news_items: string | null;
-  decision_score: string;
-  positive_reasons: string[];
-  negative_reasons: string[];
-}
+import { AnalysisResult } from '../types/analysis';
 
 interface AnalysisModalProps {
   isOpen: boolean;
@@ -1,7 +1,8 @@
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/Tabs";
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { FaSort, FaSortDown, FaSortUp, FaSync } from 'react-icons/fa';
 import { useAuth } from '../context/AuthContext';
+import { DataGrid, DataGridColumn } from './ui/data-grid';
 
 // API configuration
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '/api';
@@ -62,8 +63,6 @@ const Backtester: React.FC = () => {
   // Sorting states
   const [filesSortColumn, setFilesSortColumn] = useState<string>('name');
   const [filesSortDirection, setFilesSortDirection] = useState<SortDirection>('asc');
-  const [contentSortColumn, setContentSortColumn] = useState<string>('date');
-  const [contentSortDirection, setContentSortDirection] = useState<SortDirection>('desc');
 
   // Helper function to get a valid access token (refresh if expired)
   const getValidAccessToken = async (): Promise<string | null> => {
@@ -228,11 +227,61 @@ const Backtester: React.FC = () => {
     setFilesSortDirection(newDirection);
   };
 
-  const handleContentSort = (column: string) => {
-    const newDirection = contentSortColumn === column && contentSortDirection === 'asc' ? 'desc' : 'asc';
-    setContentSortColumn(column);
-    setContentSortDirection(newDirection);
-  };
+  // Find the decisions file for a strategy of the selected symbol and open it
+  const openStrategyFile = useCallback((strategyValue: string) => {
+    console.log('Looking for strategy:', strategyValue, 'for symbol:', selectedSymbol);
+    console.log('Available strategy files:', files.filter(f => f.level === 'strategy' && f.symbol === selectedSymbol));
+
+    // Try exact match first
+    let strategyFile = files.find(f =>
+      f.level === 'strategy' &&
+      f.symbol === selectedSymbol &&
+      f.strategy === strategyValue
+    );
+
+    // If no exact match, try partial match
+    if (!strategyFile) {
+      strategyFile = files.find(f =>
+        f.level === 'strategy' &&
+        f.symbol === selectedSymbol &&
+        f.strategy && f.strategy.includes(strategyValue)
+      );
+    }
+
+    // If still no match, try filename contains strategy
+    if (!strategyFile) {
+      strategyFile = files.find(f =>
+        f.level === 'strategy' &&
+        f.symbol === selectedSymbol &&
+        f.name.includes(strategyValue)
+      );
+    }
+
+    if (strategyFile) {
+      console.log('Found strategy file:', strategyFile.name);
+      // Change to overview mode and load the file
+      setViewMode('overview');
+      setSelectedFile(strategyFile.name);
+      setPreviousSymbol(selectedSymbol); // Remember the symbol for back navigation
+      setSelectedSymbol(''); // Clear symbol selection
+      setCameFromStrategies(true); // Track that we came from strategies mode
+    } else {
+      console.log('No strategy file found for:', strategyValue);
+      // Fallback: try to find any strategy file for this symbol
+      const anyStrategyFile = files.find(f =>
+        f.level === 'strategy' &&
+        f.symbol === selectedSymbol
+      );
+      if (anyStrategyFile) {
+        console.log('Using fallback strategy file:', anyStrategyFile.name);
+        setViewMode('overview');
+        setSelectedFile(anyStrategyFile.name);
+        setPreviousSymbol(selectedSymbol); // Remember the symbol for back navigation
+        setSelectedSymbol('');
+        setCameFromStrategies(true); // Track that we came from strategies mode
+      }
+    }
+  }, [files, selectedSymbol]);
 
   // Initialize data when component mounts
   useEffect(() => {
@@ -285,7 +334,41 @@ const Backtester: React.FC = () => {
 
   // Sorted data for tables
   const sortedFiles = sortData(files, filesSortColumn, filesSortDirection);
-  const sortedFileContent = sortData(fileContent, contentSortColumn, contentSortDirection);
+
+  // File content columns come from the first row; the first two stay pinned while scrolling
+  const contentColumns = useMemo((): DataGridColumn<DecisionData | PerformanceData>[] =>
+    Object.keys(fileContent[0] || {}).map((column, colIndex) => {
+      const isDate = column.toLowerCase().includes('date');
+      const isClickable = viewMode === 'strategies' && (column.toLowerCase() === 'strategy' || column.toLowerCase() === 'ticker') && !!selectedSymbol;
+
+      return {
+        id: column,
+        header: column.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase()),
+        // Parse numbers stored as strings, but keep date columns in their original format
+        accessor: (row) => {
+          const value = row[column];
+          if (typeof value === 'string' && !isDate) {
+            const numValue = parseFloat(value);
+            if (!isNaN(numValue) && isFinite(numValue)) return numValue;
+          }
+          return value;
+        },
+        format: (value) => (typeof value === 'number' ? value.toFixed(1) : String(value ?? '')),
+        cell: isClickable
+          ? (row, value) => (
+            <button
+              onClick={() => openStrategyFile(String(row[column]))}
+              className="text-blue-600 dark:text-blue-400 hover:text-blue-900 dark:hover:text-blue-300 underline"
+            >
+              {String(value)}
+            </button>
+          )
+          : undefined,
+        width: 160,
+        pinned: colIndex < 2,
+      };
+    }),
+  [fileContent, viewMode, selectedSymbol, openStrategyFile]);
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-8">
@@ -650,153 +733,15 @@ const Backtester: React.FC = () => {
                 : `${selectedFile} Content`}
             </h2>
             <div className="bg-white dark:bg-gray-800 shadow-md rounded-lg overflow-hidden">
-              <div className="overflow-x-auto max-h-[600px] overflow-y-auto">
-                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
-                  <thead className="bg-gray-50 dark:bg-gray-700 sticky top-0 z-10">
-                    <tr>
-                      {Object.keys(sortedFileContent[0] || {}).map((column, colIndex) => (
-                        <th
-                          key={column}
-                          className={`px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-600 ${
-                            colIndex < 2 ? 'sticky z-20 bg-gray-50 dark:bg-gray-700' : ''
-                          }`}
-                          style={colIndex < 2 ? { left: colIndex === 0 ? '0px' : '160px' } : {}}
-                          onClick={() => handleContentSort(column)}
-                        >
-                          <div className="flex items-center">
-                            {column.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}
-                            {contentSortColumn === column && (
-                              contentSortDirection === 'asc' ? <FaSortUp className="ml-1" /> : <FaSortDown className="ml-1" />
-                            )}
-                            {contentSortColumn !== column && <FaSort className="ml-1 opacity-50" />}
-                          </div>
-                        </th>
-                      ))}
-                    </tr>
-                  </thead>
-                  <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
-                    {loadingContent ? (
-                      <tr>
-                        <td colSpan={Object.keys(sortedFileContent[0] || {}).length} className="px-6 py-4 text-center text-sm text-gray-500 dark:text-gray-400">
-                          Loading content...
-                        </td>
-                      </tr>
-                    ) : sortedFileContent.length === 0 ? (
-                      <tr>
-                        <td colSpan={Object.keys(sortedFileContent[0] || {}).length} className="px-6 py-4 text-center text-sm text-gray-500 dark:text-gray-400">
-                          No content found
-                        </td>
-                      </tr>
-                    ) : (
-                      sortedFileContent.map((row, index) => (
-                        <tr key={index} className="hover:bg-gray-50 dark:hover:bg-gray-700">
-                          {Object.entries(row).map(([column, value], cellIndex) => {
-                            let displayValue = value;
-
-                            // Try to parse as number if it's a string that looks like a number
-                            // Skip date columns to preserve their original format
-                            if (typeof value === 'string' && !column.toLowerCase().includes('date')) {
-                              const numValue = parseFloat(value);
-                              if (!isNaN(numValue) && isFinite(numValue)) {
-                                displayValue = numValue;
-                              }
-                            }
-
-                            // In strategies mode, make strategy-related columns clickable
-                            if (viewMode === 'strategies' &&
-                                (column.toLowerCase() === 'strategy' || column.toLowerCase() === 'ticker') &&
-                                selectedSymbol) {
-                              return (
-                                <td
-                                  key={cellIndex}
-                                  className={`px-6 py-4 whitespace-nowrap text-sm ${
-                                    cellIndex < 2 ? 'sticky z-10 bg-white dark:bg-gray-800' : ''
-                                  }`}
-                                  style={cellIndex < 2 ? { left: cellIndex === 0 ? '0px' : '160px' } : {}}
-                                >
-                                  <button
-                                    onClick={() => {
-                                      // Find the decisions file for this strategy
-                                      const strategyValue = String(value);
-                                      console.log('Looking for strategy:', strategyValue, 'for symbol:', selectedSymbol);
-                                      console.log('Available strategy files:', files.filter(f => f.level === 'strategy' && f.symbol === selectedSymbol));
-
-                                      // Try exact match first
-                                      let strategyFile = files.find(f =>
-                                        f.level === 'strategy' &&
-                                        f.symbol === selectedSymbol &&
-                                        f.strategy === strategyValue
-                                      );
-
-                                      // If no exact match, try partial match
-                                      if (!strategyFile) {
-                                        strategyFile = files.find(f =>
-                                          f.level === 'strategy' &&
-                                          f.symbol === selectedSymbol &&
-                                          f.strategy && f.strategy.includes(strategyValue)
-                                        );
-                                      }
-
-                                      // If still no match, try filename contains strategy
-                                      if (!strategyFile) {
-                                        strategyFile = files.find(f =>
-                                          f.level === 'strategy' &&
-                                          f.symbol === selectedSymbol &&
-                                          f.name.includes(strategyValue)
-                                        );
-                                      }
-
-                                      if (strategyFile) {
-                                        console.log('Found strategy file:', strategyFile.name);
-                                        // Change to overview mode and load the file
-                                        setViewMode('overview');
-                                        setSelectedFile(strategyFile.name);
-                                        setPreviousSymbol(selectedSymbol); // Remember the symbol for back navigation
-                                        setSelectedSymbol(''); // Clear symbol selection
-                                        setCameFromStrategies(true); // Track that we came from strategies mode
-                                      } else {
-                                        console.log('No strategy file found for:', strategyValue);
-                                        // Fallback: try to find any strategy file for this symbol
-                                        const anyStrategyFile = files.find(f =>
-                                          f.level === 'strategy' &&
-                                          f.symbol === selectedSymbol
-                                        );
-                                        if (anyStrategyFile) {
-                                          console.log('Using fallback strategy file:', anyStrategyFile.name);
-                                          setViewMode('overview');
-                                          setSelectedFile(anyStrategyFile.name);
-                                          setPreviousSymbol(selectedSymbol); // Remember the symbol for back navigation
-                                          setSelectedSymbol('');
-                                          setCameFromStrategies(true); // Track that we came from strategies mode
-                                        }
-                                      }
-                                    }}
-                                    className="text-blue-600 dark:text-blue-400 hover:text-blue-900 dark:hover:text-blue-300 underline"
-                                  >
-                                    {String(displayValue)}
-                                  </button>
-                                </td>
-                              );
-                            }
-
-                            return (
-                              <td
-                                key={cellIndex}
-                                className={`px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400 ${
-                                  cellIndex < 2 ? 'sticky z-10 bg-white dark:bg-gray-800' : ''
-                                }`}
-                                style={cellIndex < 2 ? { left: cellIndex === 0 ? '0px' : '160px' } : {}}
-                              >
-                                {typeof displayValue === 'number' ? displayValue.toFixed(1) : String(displayValue)}
-                              </td>
-                            );
-                          })}
-                        </tr>
-                      ))
-                    )}
-                  </tbody>
-                </table>
-              </div>
+              <DataGrid
+                key={selectedFile}
+                rows={fileContent as Array<DecisionData | PerformanceData>}
+                columns={contentColumns}
+                initialSort={[{ columnId: 'date', direction: 'desc' }]}
+                loading={loadingContent}
+                emptyMessage="No content found"
+                className="border-0 rounded-none"
+              />
             </div>
           </div>
         )}
@@ -1,6 +1,7 @@
 import { Plus, RefreshCw, Save, Trash2, X } from 'lucide-react';
 import React, { useCallback, useEffect, useState } from 'react';
 import { useAuth } from '../context/AuthContext';
+import { useMarketData } from '../hooks/useMarketData';
 import { KrakenBotSymbol, KrakenBotSymbolsConfig, SchwabBotSymbol, SchwabBotSymbolsConfig } from '../types/trading';
 import { LoadingSkeleton } from './LoadingSkeleton';
 import { Button } from './ui/Button';
@@ -52,6 +53,7 @@ const sanitizeSchwabBotSymbol = (item: any): SchwabBotSymbol => {
 const Bots: React.FC = () => {
   // Get the authenticated user and auth state
   const { user, isAuthenticated, walletAddress } = useAuth();
+  const marketData = useMarketData();
 
   const [tradingSymbols, setTradingSymbols] = useState<KrakenBotSymbolsConfig>([]);
   const [schwabSymbols, setSchwabSymbols] = useState<SchwabBotSymbolsConfig>([]);
@@ -97,8 +99,8 @@ const Bots: React.FC = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [cryptoThresholds, setCryptoThresholds] = useState<{[key: string]: {min_entry_threshold: number, min_exit_threshold: number}}>({});
   const [stockThresholds, setStockThresholds] = useState<{[key: string]: {entry_threshold: number, exit_threshold: number}}>({});
-  const [cryptoPrices, setCryptoPrices] = useState<{[key: string]: {close: number, return30d: number}}>({});
-  const [stockPrices, setStockPrices] = useState<{[key: string]: {close: number, return30d: number}}>({});
+  const [cryptoPrices, setCryptoPrices] = useState<{[key: string]: {close: number, return30d: number | null}}>({});
+  const [stockPrices, setStockPrices] = useState<{[key: string]: {close: number, return30d: number | null}}>({});
   const [isDark, setIsDark] = useState(window.matchMedia('(prefers-color-scheme: dark)').matches);
 
   // Helper function
@@ -617,12 +619,12 @@ const Bots: React.FC = () => {
     try {
       const symbols = await fetchTradingConfig();
       const baseCurrencies: string[] = [...new Set(symbols.map((s: KrakenBotSymbol) => s.symbol.split('/')[0].toLowerCase()))];
-      await fetchCryptoThresholds(baseCurrencies);
+      await fetchCryptoThresholds(baseCurrencies, true);
       const schwabSymbols: SchwabBotSymbolsConfig = await fetchSchwabConfig();
       const stockSymbols: string[] = [...new Set(schwabSymbols.map((s: SchwabBotSymbol) => s.symbol))];
-      await fetchStockThresholds(stockSymbols);
-      await fetchLatestCryptoPrices(baseCurrencies);
-      await fetchLatestStockPrices(stockSymbols);
+      await fetchStockThresholds(stockSymbols, true);
+      await fetchLatestCryptoPrices(baseCurrencies, true);
+      await fetchLatestStockPrices(stockSymbols, true);
       showStatus('Configuration refreshed successfully!');
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
@@ -632,24 +634,15 @@ const Bots: React.FC = () => {
     }
   };
 
-  const fetchCryptoThresholds = useCallback(async (symbols: string[]) => {
+  // Thresholds and prices are keyed the way the tables look them up: lower-case base currency
+  // for the Kraken bot, the configured symbol for the Schwab bot
+  const fetchCryptoThresholds = useCallback(async (symbols: string[], fresh = false) => {
     if (symbols.length === 0) return;
 
     try {
-      const response = await fetch(`${API_BASE_URL}/crypto_thresholds?${symbols.map(s => `symbols=${encodeURIComponent(s)}`).join('&')}`, {
-        headers: {
-          'Authorization': `Bearer ${API_KEY}`,
-          'Content-Type': 'application/json'
-        }
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const data = await response.json();
+      const rows = await marketData.cryptoThresholds(symbols, { fresh });
       const thresholds: {[key: string]: {min_entry_threshold: number, min_exit_threshold: number}} = {};
-      data.forEach((item: any) => {
+      rows.forEach(item => {
         thresholds[item.baseCurrency.toLowerCase()] = {
           min_entry_threshold: item.min_entry_threshold,
           min_exit_threshold: item.min_exit_threshold
@@ -661,30 +654,22 @@ const Bots: React.FC = () => {
       // Don't show error for thresholds, just log it
       console.warn('Failed to fetch crypto thresholds');
     }
-  }, [API_BASE_URL, API_KEY]);
+  }, [marketData]);
 
-  const fetchStockThresholds = useCallback(async (symbols: string[]) => {
+  const fetchStockThresholds = useCallback(async (symbols: string[], fresh = false) => {
     if (symbols.length === 0) return;
 
     try {
-      const response = await fetch(`${API_BASE_URL}/stock_thresholds?${symbols.map(s => `symbols=${encodeURIComponent(s)}`).join('&')}`, {
-        headers: {
-          'Authorization': `Bearer ${API_KEY}`,
-          'Content-Type': 'application/json'
-        }
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const data = await response.json();
+      const rows = await marketData.stockThresholds(symbols, { fresh });
       const thresholds: {[key: string]: {entry_threshold: number, exit_threshold: number}} = {};
-      data.forEach((item: any) => {
-        thresholds[item.symbol] = {
-          entry_threshold: item.entry_threshold,
-          exit_threshold: item.exit_threshold
-        };
+      symbols.forEach(symbol => {
+        const item = rows.find(r => r.symbol === symbol.toUpperCase());
+        if (item) {
+          thresholds[symbol] = {
+            entry_threshold: item.entry_threshold,
+            exit_threshold: item.exit_threshold
+          };
+        }
       });
       setStockThresholds(thresholds);
     } catch (error) {
@@ -692,26 +677,15 @@ const Bots: React.FC = () => {
       // Don't show error for thresholds, just log it
       console.warn('Failed to fetch stock thresholds');
     }
-  }, [API_BASE_URL, API_KEY]);
+  }, [marketData]);
 
-  const fetchLatestCryptoPrices = useCallback(async (symbols: string[]) => {
+  const fetchLatestCryptoPrices = useCallback(async (symbols: string[], fresh = false) => {
     if (symbols.length === 0) return;
 
     try {
-      const response = await fetch(`${API_BASE_URL}/latest_crypto_price?${symbols.map(s => `symbols=${encodeURIComponent(s)}`).join('&')}`, {
-        headers: {
-          'Authorization': `Bearer ${API_KEY}`,
-          'Content-Type': 'application/json'
-        }
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const data = await response.json();
-      const prices: {[key: string]: {close: number, return30d: number}} = {};
-      data.forEach((item: any) => {
+      const quotes = await marketData.latestCryptoQuotes(symbols, { fresh });
+      const prices: {[key: string]: {close: number, return30d: number | null}} = {};
+      quotes.forEach(item => {
         prices[item.symbol.toLowerCase()] = {
           close: item.close,
           return30d: item.return30d
@@ -723,38 +697,30 @@ const Bots: React.FC = () => {
       // Don't show error for prices, just log it
       console.warn('Failed to fetch latest crypto prices');
     }
-  }, [API_BASE_URL, API_KEY]);
+  }, [marketData]);
 
-  const fetchLatestStockPrices = useCallback(async (symbols: string[]) => {
+  const fetchLatestStockPrices = useCallback(async (symbols: string[], fresh = false) => {
     if (symbols.length === 0) return;
 
     try {
-      const response = await fetch(`${API_BASE_URL}/latest_stock_price?${symbols.map(s => `symbols=${encodeURIComponent(s)}`).join('&')}`, {
-        headers: {
-          'Authorization': `Bearer ${API_KEY}`,
-          'Content-Type': 'application/json'
+      const quotes = await marketData.latestStockQuotes(symbols, { fresh });
+      const prices: {[key: string]: {close: number, return30d: number | null}} = {};
+      symbols.forEach(symbol => {
+        const item = quotes.find(q => q.symbol === symbol.toUpperCase());
+        if (item) {
+          prices[symbol] = {
+            close: item.close,
+            return30d: item.return30d
+          };
         }
       });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const data = await response.json();
-      const prices: {[key: string]: {close: number, return30d: number}} = {};
-      data.forEach((item: any) => {
-        prices[item.symbol] = {
-          close: item.close,
-          return30d: item.return30d
-        };
-      });
       setStockPrices(prices);
     } catch (error) {
       console.error('Error fetching latest stock prices:', error);
       // Don't show error for prices, just log it
       console.warn('Failed to fetch latest stock prices');
     }
-  }, [API_BASE_URL, API_KEY]);
+  }, [marketData]);
 
   return (
     <div className="min-h-screen bg-background">
@@ -0,0 +1,48 @@
+import { Cloud, CloudOff, RotateCcw } from 'lucide-react';
+import React from 'react';
+import { COLUMN_PRESETS, ColumnSyncStatus } from '../lib/columnConfig';
+import { Button } from './ui/Button';
+
+interface ColumnPresetsProps {
+  syncStatus: ColumnSyncStatus;
+  onApplyPreset: (presetId: string) => void;
+  onReset: () => void;
+}
+
+const SYNC_LABELS: Record<ColumnSyncStatus, string> = {
+  local: 'Saved in this browser',
+  syncing: 'Syncing...',
+  synced: 'Synced to your wallet',
+  offline: 'Saved in this browser, sync failed',
+};
+
+/**
+ * Preset and reset buttons shown above a table's column configuration, with where the
+ * layout is saved
+ */
+export const ColumnPresets: React.FC<ColumnPresetsProps> = ({ syncStatus, onApplyPreset, onReset }) => (
+  <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm text-muted-foreground">Presets:</span>
+      {COLUMN_PRESETS.map(preset => (
+        <Button key={preset.id} variant="outline" size="sm" onClick={() => onApplyPreset(preset.id)} title={preset.description}>
+          {preset.name}
+        </Button>
+      ))}
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => {
+          if (window.confirm('Reset the columns to the default layout on all your devices?')) onReset();
+        }}
+      >
+        <RotateCcw className="h-4 w-4 mr-1" />
+        Reset
+      </Button>
+    </div>
+    <span className={`flex items-center gap-1 text-xs ${syncStatus === 'offline' ? 'text-destructive' : 'text-muted-foreground'}`}>
+      {syncStatus === 'offline' || syncStatus === 'local' ? <CloudOff className="h-3 w-3" /> : <Cloud className="h-3 w-3" />}
+      {SYNC_LABELS[syncStatus]}
+    </span>
+  </div>
+);
@@ -0,0 +1,216 @@
+import { Plus, Save, Trash2, X } from 'lucide-react';
+import React, { useState } from 'react';
+import { BASE_CURRENCIES, normalizeCurrency } from '../lib/fx';
+import { FxRateTable } from '../types/portfolio';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Label } from './ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+
+interface CurrencySettingsProps {
+  portfolioId: string;
+  portfolioName: string;
+  baseCurrency: string;
+  fxRates: FxRateTable;
+  symbols: string[];
+  reportedCurrencies: Record<string, string>; // price currency before overrides, keyed by symbol
+  symbolCurrencyOverrides: Record<string, string>;
+  missingCurrencies: string[];
+  onSave: (baseCurrency: string, fxRates: FxRateTable, symbolCurrencies: Record<string, string>) => Promise<void>;
+  onClose: () => void;
+}
+
+interface RateRow {
+  currency: string;
+  date: string;
+  rate: string;
+}
+
+const selectClassName = 'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm';
+
+const toRateRows = (table: FxRateTable): RateRow[] =>
+  Object.entries(table).flatMap(([currency, rows]) =>
+    (rows || []).map(row => ({ currency, date: row.date, rate: String(row.rate) }))
+  );
+
+export const CurrencySettings: React.FC<CurrencySettingsProps> = ({
+  portfolioId,
+  portfolioName,
+  baseCurrency,
+  fxRates,
+  symbols,
+  reportedCurrencies,
+  symbolCurrencyOverrides,
+  missingCurrencies,
+  onSave,
+  onClose,
+}) => {
+  const [draftBase, setDraftBase] = useState(baseCurrency);
+  const [rateRows, setRateRows] = useState<RateRow[]>(() => toRateRows(fxRates));
+  const [overrides, setOverrides] = useState<Record<string, string>>(symbolCurrencyOverrides);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const baseOptions = BASE_CURRENCIES.includes(draftBase) ? BASE_CURRENCIES : [draftBase, ...BASE_CURRENCIES];
+  const baseChanged = draftBase !== baseCurrency && rateRows.length > 0;
+
+  const addRateRow = () => {
+    const today = new Date().toISOString().slice(0, 10);
+    setRateRows(prev => [...prev, { currency: missingCurrencies[0] || '', date: today, rate: '' }]);
+  };
+
+  const updateRateRow = (index: number, field: keyof RateRow, value: string) => {
+    setRateRows(prev => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const handleSave = async () => {
+    const table: FxRateTable = {};
+    rateRows.forEach(row => {
+      const currency = normalizeCurrency(row.currency);
+      const rate = parseFloat(row.rate);
+      if (!currency || currency === draftBase || !row.date || !Number.isFinite(rate) || rate <= 0) return;
+      (table[currency] = table[currency] || []).push({ date: row.date, rate });
+    });
+
+    const symbolCurrencies: Record<string, string> = {};
+    Object.entries(overrides).forEach(([symbol, value]) => {
+      const currency = normalizeCurrency(value);
+      if (currency) symbolCurrencies[symbol] = currency;
+    });
+
+    setIsSaving(true);
+    try {
+      await onSave(draftBase, table, symbolCurrencies);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="bg-background rounded-lg shadow-lg w-full max-w-3xl p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold">Currency Settings: {portfolioName}</h2>
+          <Button variant="ghost" size="icon" onClick={onClose}>
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+
+        <div className="space-y-6">
+          <div className="space-y-2 max-w-xs">
+            <Label htmlFor={`base-currency-${portfolioId}`}>Base Currency</Label>
+            <select
+              id={`base-currency-${portfolioId}`}
+              value={draftBase}
+              onChange={(e) => setDraftBase(e.target.value)}
+              className={selectClassName}
+            >
+              {baseOptions.map(code => (
+                <option key={code} value={code}>{code}</option>
+              ))}
+            </select>
+            <p className="text-xs text-muted-foreground">Values, cost basis and returns are reported in this currency.</p>
+          </div>
+
+          {missingCurrencies.length > 0 && (
+            <p className="text-sm text-destructive">
+              No FX rates for {missingCurrencies.join(', ')}. Amounts in these currencies are shown unconverted until you add rates below.
+            </p>
+          )}
+
+          <div>
+            <h3 className="text-lg font-semibold mb-2">Price Currency</h3>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Symbol</TableHead>
+                  <TableHead>Reported</TableHead>
+                  <TableHead className="w-[160px]">Override</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {symbols.map(symbol => (
+                  <TableRow key={symbol}>
+                    <TableCell className="font-medium">{symbol}</TableCell>
+                    <TableCell>{reportedCurrencies[symbol] || 'USD'}</TableCell>
+                    <TableCell>
+                      <Input
+                        value={overrides[symbol] || ''}
+                        onChange={(e) => setOverrides(prev => ({ ...prev, [symbol]: e.target.value.toUpperCase() }))}
+                        placeholder={reportedCurrencies[symbol] || 'USD'}
+                        className="h-8"
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <p className="text-xs text-muted-foreground mt-2">
+              Override the currency a symbol's quotes are in, e.g. for a stock quoted on a non-US listing.
+            </p>
+          </div>
+
+          <div>
+            <h3 className="text-lg font-semibold mb-2">Manual FX Rates</h3>
+            <p className="text-xs text-muted-foreground mb-2">
+              Each rate is the price of one unit of the currency in {draftBase}. Manual rates take precedence over the
+              rates loaded from the server on the same date.
+            </p>
+            {baseChanged && (
+              <p className="text-xs text-destructive mb-2">
+                The base currency changed; make sure the manual rates are quoted in {draftBase}.
+              </p>
+            )}
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Currency</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead className="w-[50px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rateRows.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-muted-foreground">No manual rates</TableCell>
+                  </TableRow>
+                )}
+                {rateRows.map((row, idx) => (
+                  <TableRow key={idx}>
+                    <TableCell>
+                      <Input value={row.currency} onChange={(e) => updateRateRow(idx, 'currency', e.target.value.toUpperCase())} placeholder="EUR" />
+                    </TableCell>
+                    <TableCell>
+                      <Input type="date" value={row.date} onChange={(e) => updateRateRow(idx, 'date', e.target.value)} />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Input type="number" step="any" min="0" value={row.rate} onChange={(e) => updateRateRow(idx, 'rate', e.target.value)} className="text-right" />
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="icon" onClick={() => setRateRows(prev => prev.filter((_, i) => i !== idx))}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between mt-4">
+          <Button variant="outline" onClick={addRateRow}>
+            <Plus className="h-4 w-4 mr-2" /> Add Rate
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={onClose}>Cancel</Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              <Save className="h-4 w-4 mr-2" />
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
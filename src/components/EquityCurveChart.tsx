@@ -0,0 +1,241 @@
+import { useQueryClient } from '@tanstack/react-query';
+import * as echarts from 'echarts';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ThemeContext } from '../context/ThemeContext';
+import { BENCHMARKS, BenchmarkSymbol, buildEquityCurve, EQUITY_RANGES, EquityRange } from '../lib/equityCurve';
+import { convertPriceHistory, currencyPrefix } from '../lib/fx';
+import { fetchPriceHistory } from '../lib/portfolioData';
+import { PerformancePoint } from '../lib/portfolioPerformance';
+import { CurrencyConversion, PricePoint } from '../types/portfolio';
+import { Button } from './ui/Button';
+
+interface EquityCurveChartProps {
+  series: PerformancePoint[]; // in the base currency
+  conversion: CurrencyConversion;
+}
+
+const selectClassName = 'flex h-9 rounded-md border border-input bg-background px-3 py-1 text-sm';
+
+export const EquityCurveChart: React.FC<EquityCurveChartProps> = ({ series, conversion }) => {
+  const chartRef = React.useRef<HTMLDivElement>(null);
+  const chartInstance = React.useRef<echarts.ECharts | null>(null);
+  const { theme } = React.useContext(ThemeContext);
+  const queryClient = useQueryClient();
+
+  const [range, setRange] = useState<EquityRange>('ALL');
+  const [benchmark, setBenchmark] = useState<BenchmarkSymbol | 'none'>('none');
+  const [benchmarkHistory, setBenchmarkHistory] = useState<Partial<Record<BenchmarkSymbol, PricePoint[]>>>({});
+  const [benchmarkError, setBenchmarkError] = useState<string | null>(null);
+
+  // Benchmark closes are loaded once per symbol and kept for the lifetime of the chart
+  useEffect(() => {
+    if (benchmark === 'none' || benchmarkHistory[benchmark]) return;
+
+    let cancelled = false;
+    setBenchmarkError(null);
+    fetchPriceHistory(queryClient, [benchmark], BENCHMARKS[benchmark])
+      .then(history => {
+        if (cancelled) return;
+        const closes = history[benchmark] || [];
+        if (closes.length === 0) {
+          setBenchmarkError(`No price history available for ${benchmark}`);
+        }
+        setBenchmarkHistory(prev => ({ ...prev, [benchmark]: closes }));
+      })
+      .catch(err => {
+        console.error('Error loading benchmark history:', err);
+        if (!cancelled) setBenchmarkError(`Failed to load ${benchmark}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [benchmark, benchmarkHistory, queryClient]);
+
+  // Benchmarks are quoted in USD and restated in the portfolio's base currency
+  const curve = useMemo(() => {
+    const closes = benchmark === 'none' ? undefined : benchmarkHistory[benchmark];
+    const converted = closes
+      ? convertPriceHistory({ [benchmark]: closes }, { ...conversion, symbolCurrencies: { [benchmark]: 'USD' } })[benchmark]
+      : undefined;
+    return buildEquityCurve(series, range, converted);
+  }, [series, range, benchmark, benchmarkHistory, conversion]);
+
+  const getThemeColors = useCallback(() => {
+    if (theme === 'dark') {
+      return {
+        textColor: '#ffffff',
+        backgroundColor: 'rgba(0, 0, 0, 0.8)',
+        borderColor: '#555555'
+      };
+    } else {
+      return {
+        textColor: '#000000',
+        backgroundColor: 'rgba(255, 255, 255, 0.95)',
+        borderColor: '#cccccc'
+      };
+    }
+  }, [theme]);
+
+  useEffect(() => {
+    if (!chartRef.current || curve.length === 0) return;
+
+    if (!chartInstance.current) {
+      chartInstance.current = echarts.init(chartRef.current);
+    }
+
+    const themeColors = getThemeColors();
+    const prefix = currencyPrefix(conversion.base);
+    const showBenchmark = benchmark !== 'none' && curve.some(p => p.benchmarkValue !== null);
+    const legendData = ['Market Value', 'Cost Basis', ...(showBenchmark ? [benchmark] : [])];
+
+    const option = {
+      animation: false,
+      legend: {
+        bottom: 10,
+        left: 'center',
+        data: legendData,
+        textStyle: {
+          color: themeColors.textColor
+        }
+      },
+      tooltip: {
+        trigger: 'axis',
+        borderWidth: 1,
+        borderColor: themeColors.borderColor,
+        backgroundColor: themeColors.backgroundColor,
+        padding: 10,
+        textStyle: {
+          color: themeColors.textColor
+        },
+        valueFormatter: (value: number | null) => (value === null || value === undefined ? 'N/A' : `${prefix}${Number(value).toFixed(0)}`)
+      },
+      grid: {
+        left: '10%',
+        right: '5%',
+        top: 20,
+        bottom: 90
+      },
+      xAxis: {
+        type: 'category',
+        data: curve.map(p => p.date),
+        boundaryGap: false,
+        axisLabel: {
+          color: themeColors.textColor
+        }
+      },
+      yAxis: {
+        type: 'value',
+        scale: true,
+        axisLabel: {
+          formatter: `${prefix}{value}`,
+          color: themeColors.textColor
+        }
+      },
+      dataZoom: [
+        {
+          type: 'inside',
+          start: 0,
+          end: 100
+        },
+        {
+          show: true,
+          type: 'slider',
+          bottom: 40,
+          start: 0,
+          end: 100
+        }
+      ],
+      series: [
+        {
+          name: 'Market Value',
+          type: 'line',
+          data: curve.map(p => Number(p.marketValue.toFixed(2))),
+          showSymbol: false,
+          areaStyle: {
+            opacity: 0.15
+          },
+          lineStyle: {
+            width: 2
+          }
+        },
+        {
+          name: 'Cost Basis',
+          type: 'line',
+          step: 'end',
+          data: curve.map(p => Number(p.costBasis.toFixed(2))),
+          showSymbol: false,
+          lineStyle: {
+            type: 'dashed',
+            opacity: 0.7
+          }
+        },
+        ...(showBenchmark
+          ? [
+              {
+                name: benchmark,
+                type: 'line',
+                data: curve.map(p => (p.benchmarkValue !== null ? Number(p.benchmarkValue.toFixed(2)) : null)),
+                showSymbol: false,
+                connectNulls: false,
+                lineStyle: {
+                  color: '#9370DB',
+                  width: 2,
+                  opacity: 0.8
+                },
+                itemStyle: {
+                  color: '#9370DB'
+                }
+              }
+            ]
+          : [])
+      ]
+    };
+
+    chartInstance.current.setOption(option, true);
+
+    // Cleanup
+    return () => {
+      if (chartInstance.current) {
+        chartInstance.current.dispose();
+        chartInstance.current = null;
+      }
+    };
+  }, [curve, benchmark, theme, getThemeColors, conversion.base]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex gap-1">
+          {EQUITY_RANGES.map(r => (
+            <Button key={r} size="sm" variant={range === r ? 'default' : 'outline'} onClick={() => setRange(r)}>
+              {r}
+            </Button>
+          ))}
+        </div>
+        <select
+          value={benchmark}
+          onChange={(e) => setBenchmark(e.target.value as BenchmarkSymbol | 'none')}
+          className={selectClassName}
+          aria-label="Benchmark"
+        >
+          <option value="none">No benchmark</option>
+          {(Object.keys(BENCHMARKS) as BenchmarkSymbol[]).map(symbol => (
+            <option key={symbol} value={symbol}>Compare with {symbol}</option>
+          ))}
+        </select>
+      </div>
+      {benchmarkError && <p className="text-xs text-destructive">{benchmarkError}</p>}
+      {curve.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-8 text-center">No portfolio history in this range.</p>
+      ) : (
+        <div ref={chartRef} className="w-full h-[400px]" />
+      )}
+      {benchmark !== 'none' && (
+        <p className="text-xs text-muted-foreground">
+          {benchmark} line shows the same deposits and withdrawals invested in {benchmark} instead.
+        </p>
+      )}
+    </div>
+  );
+};
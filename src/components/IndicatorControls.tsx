@@ -0,0 +1,79 @@
+import React from 'react';
+import { INDICATORS, IndicatorId, IndicatorSettings, setIndicatorParam } from '../lib/indicators';
+
+interface IndicatorControlsProps {
+  settings: IndicatorSettings;
+  onChange: (settings: IndicatorSettings) => void;
+  showLevels?: boolean; // undefined hides the levels toggle, for symbols without levels
+  onShowLevelsChange?: (show: boolean) => void;
+}
+
+/**
+ * Toggles for the chart indicators with the parameters of the enabled ones, plus the
+ * support/resistance and risk range levels when the symbol has them
+ */
+export const IndicatorControls: React.FC<IndicatorControlsProps> = ({
+  settings,
+  onChange,
+  showLevels,
+  onShowLevelsChange,
+}) => {
+  const toggle = (id: IndicatorId, enabled: boolean) => {
+    onChange({ ...settings, [id]: { ...settings[id], enabled } });
+  };
+
+  return (
+    <div className="space-y-3 mb-4">
+      <div className="flex flex-wrap items-center gap-4">
+        {INDICATORS.map(definition => (
+          <div key={definition.id} className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              id={`indicator-${definition.id}`}
+              checked={settings[definition.id].enabled}
+              onChange={(e) => toggle(definition.id, e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            <label htmlFor={`indicator-${definition.id}`} className="text-sm font-medium cursor-pointer">
+              {definition.label}
+            </label>
+          </div>
+        ))}
+        {showLevels !== undefined && onShowLevelsChange && (
+          <div className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              id="indicator-levels"
+              checked={showLevels}
+              onChange={(e) => onShowLevelsChange(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            <label htmlFor="indicator-levels" className="text-sm font-medium cursor-pointer">
+              Support/Resistance &amp; Risk Range
+            </label>
+          </div>
+        )}
+      </div>
+
+      {INDICATORS.filter(definition => settings[definition.id].enabled).map(definition => (
+        <div key={definition.id} className="flex flex-wrap items-center gap-3 text-sm">
+          <span className="font-medium w-32">{definition.label}</span>
+          {definition.params.map(param => (
+            <label key={param.key} className="flex items-center gap-1 text-muted-foreground">
+              {param.label}
+              <input
+                type="number"
+                min={param.min}
+                max={param.max}
+                step={param.step}
+                value={settings[definition.id].params[param.key]}
+                onChange={(e) => onChange(setIndicatorParam(settings, definition.id, param.key, parseFloat(e.target.value)))}
+                className="h-8 w-20 rounded-md border border-input bg-background px-2 text-sm text-foreground"
+              />
+            </label>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
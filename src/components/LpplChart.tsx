@@ -0,0 +1,176 @@
+import * as echarts from 'echarts';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ThemeContext } from '../context/ThemeContext';
+import {
+  confidencePeriods,
+  CryptoSignalRow,
+  DEFAULT_LPPL_CONFIDENCE_LEVEL,
+  lpplSideFlips,
+  toLpplSeries,
+} from '../lib/cryptoSignals';
+import { Input } from './ui/Input';
+import { Label } from './ui/label';
+
+const POSITIVE_COLOR = '#ef4444'; // positive bubble, a possible top
+const NEGATIVE_COLOR = '#22c55e'; // negative bubble, a possible bottom
+
+interface LpplChartProps {
+  rows: CryptoSignalRow[];
+  symbol: string;
+}
+
+/**
+ * Price with the positive and negative LPPL confidence of a coin. Periods where either
+ * confidence is at or above the chosen level are shaded and every change of `lppl_side` is
+ * marked on the price.
+ */
+export const LpplChart: React.FC<LpplChartProps> = ({ rows, symbol }) => {
+  const chartRef = useRef<HTMLDivElement>(null);
+  const chartInstance = useRef<echarts.ECharts | null>(null);
+  const { theme } = React.useContext(ThemeContext);
+  const [level, setLevel] = useState(DEFAULT_LPPL_CONFIDENCE_LEVEL);
+
+  const points = useMemo(() => toLpplSeries(rows), [rows]);
+  const flips = useMemo(() => lpplSideFlips(points), [points]);
+  const positivePeriods = useMemo(() => confidencePeriods(points, 'posConf', level), [points, level]);
+  const negativePeriods = useMemo(() => confidencePeriods(points, 'negConf', level), [points, level]);
+  const hasConfidence = points.some(p => p.posConf !== null || p.negConf !== null);
+
+  useEffect(() => {
+    if (!chartRef.current || !hasConfidence) return;
+    if (!chartInstance.current) {
+      chartInstance.current = echarts.init(chartRef.current);
+    }
+
+    const textColor = theme === 'dark' ? '#ffffff' : '#000000';
+    const dates = points.map(p => p.date);
+    const closeOn = new Map(points.map(p => [p.date, p.close]));
+    const maxConfidence = points.reduce((max, p) => Math.max(max, p.posConf ?? 0, p.negConf ?? 0), 0);
+
+    const shading = (periods: typeof positivePeriods, color: string) => ({
+      silent: true,
+      itemStyle: { color, opacity: 0.12 },
+      data: periods.map(period => [{ xAxis: period.start }, { xAxis: period.end }]),
+    });
+
+    chartInstance.current.setOption({
+      animation: false,
+      tooltip: { trigger: 'axis', axisPointer: { type: 'cross' } },
+      legend: { top: 0, textStyle: { color: textColor }, data: [symbol.toUpperCase(), 'LPPL +', 'LPPL -'] },
+      grid: { left: 60, right: 60, top: 40, bottom: 70 },
+      xAxis: { type: 'category', data: dates, boundaryGap: false, axisLabel: { color: textColor } },
+      yAxis: [
+        { type: 'value', scale: true, name: 'Price', nameTextStyle: { color: textColor }, axisLabel: { color: textColor } },
+        {
+          type: 'value',
+          name: 'Confidence',
+          min: 0,
+          max: Math.max(1, maxConfidence),
+          position: 'right',
+          splitLine: { show: false },
+          nameTextStyle: { color: textColor },
+          axisLabel: { color: textColor },
+        },
+      ],
+      dataZoom: [
+        { type: 'inside' },
+        { type: 'slider', bottom: 10 },
+      ],
+      series: [
+        {
+          name: symbol.toUpperCase(),
+          type: 'line',
+          data: points.map(p => p.close),
+          showSymbol: false,
+          connectNulls: true,
+          lineStyle: { color: textColor, width: 1.5 },
+          itemStyle: { color: textColor },
+          markPoint: {
+            symbol: 'pin',
+            symbolSize: 36,
+            label: { fontSize: 9, formatter: (param: { name: string }) => param.name.slice(0, 4) },
+            data: flips
+              .filter(flip => closeOn.get(flip.date) !== null && closeOn.get(flip.date) !== undefined)
+              .map(flip => ({
+                name: flip.to,
+                coord: [flip.date, closeOn.get(flip.date)],
+                value: `${flip.from} → ${flip.to}`,
+              })),
+          },
+        },
+        {
+          name: 'LPPL +',
+          type: 'line',
+          yAxisIndex: 1,
+          data: points.map(p => p.posConf),
+          showSymbol: false,
+          lineStyle: { color: POSITIVE_COLOR },
+          itemStyle: { color: POSITIVE_COLOR },
+          markArea: shading(positivePeriods, POSITIVE_COLOR),
+          markLine: {
+            silent: true,
+            symbol: 'none',
+            label: { formatter: `Level ${level}`, color: textColor },
+            lineStyle: { color: '#888', type: 'dashed' },
+            data: [{ yAxis: level }],
+          },
+        },
+        {
+          name: 'LPPL -',
+          type: 'line',
+          yAxisIndex: 1,
+          data: points.map(p => p.negConf),
+          showSymbol: false,
+          lineStyle: { color: NEGATIVE_COLOR },
+          itemStyle: { color: NEGATIVE_COLOR },
+          markArea: shading(negativePeriods, NEGATIVE_COLOR),
+        },
+      ],
+    }, true);
+
+    return () => {
+      if (chartInstance.current) {
+        chartInstance.current.dispose();
+        chartInstance.current = null;
+      }
+    };
+  }, [points, flips, positivePeriods, negativePeriods, hasConfidence, level, symbol, theme]);
+
+  if (!hasConfidence) {
+    return <p className="text-muted-foreground">No LPPL confidence published for {symbol.toUpperCase()}.</p>;
+  }
+
+  const latestFlip = flips[flips.length - 1];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="w-40">
+          <Label htmlFor="lppl-level">Shade confidence at or above</Label>
+          <Input
+            id="lppl-level"
+            type="number"
+            min={0}
+            step={0.05}
+            value={level}
+            onChange={(e) => {
+              const value = parseFloat(e.target.value);
+              if (Number.isFinite(value) && value >= 0) setLevel(value);
+            }}
+          />
+        </div>
+        <div className="text-sm text-muted-foreground text-right">
+          <div>
+            <span style={{ color: POSITIVE_COLOR }}>{positivePeriods.length}</span> positive and{' '}
+            <span style={{ color: NEGATIVE_COLOR }}>{negativePeriods.length}</span> negative periods above {level}
+          </div>
+          <div>
+            {flips.length} side {flips.length === 1 ? 'flip' : 'flips'}
+            {latestFlip && `, last on ${latestFlip.date} (${latestFlip.from} → ${latestFlip.to})`}
+          </div>
+        </div>
+      </div>
+      <div ref={chartRef} className="w-full h-[420px]" />
+    </div>
+  );
+};
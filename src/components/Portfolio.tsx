@@ -1,11 +1,65 @@
-import { ChevronDown, ChevronUp, Plus, RefreshCw, Save, Settings, Trash2, X } from 'lucide-react';
-import React, { useCallback, useEffect, useState } from 'react';
+import { Coins, FileUp, Plus, RefreshCw, Save, Settings, Trash2, X } from 'lucide-react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useAuth } from '../context/AuthContext';
+import { useColumnConfig } from '../hooks/useColumnConfig';
+import { useMarketData } from '../hooks/useMarketData';
+import { reorderColumns } from '../lib/columnConfig';
+import { placeRankedColumns, reconcileColumnOrder } from '../lib/dataGrid';
 import { abbreviateSectorIndustry } from '../lib/financialUtils';
-import { TableRowSkeleton } from './LoadingSkeleton';
+import {
+  ASSET_CLASS_LABELS,
+  ASSET_CLASSES,
+  quantityDecimalsFor,
+  resolveAssetClass,
+  resolveAssetClasses,
+  summarizeHoldings,
+} from '../lib/assetClasses';
+import {
+  collectCurrencies,
+  convertLedger,
+  convertPrices,
+  currencyPrefix,
+  DEFAULT_BASE_CURRENCY,
+  listMissingCurrencies,
+  mergeFxRates,
+  resolveSymbolCurrencies,
+} from '../lib/fx';
+import { indexXDays, matchesCryptoSymbol, toLatestPriceData } from '../lib/marketData';
+import {
+  addPortfolioSymbol,
+  fetchFxRates,
+  fetchPortfolioLedger,
+  fetchPortfolioTransactions,
+  savePortfolioCurrency,
+  savePortfolioTargets,
+  savePortfolioTransactions,
+} from '../lib/portfolioData';
+import { aggregateLedger, todayIsoDate } from '../lib/portfolioPerformance';
+import { assignLotIds, createTransactionId } from '../lib/taxLots';
+import { isCashAction, isDisposalAction, isLotOpeningAction, TRANSACTION_ACTION_LABELS, TRANSACTION_ACTIONS } from '../lib/transactionActions';
+import { WhatIfOrder } from '../lib/whatIf';
+import { CryptoRankData, CryptoXDaysData, LatestPriceData, RanksData, ReturnPeriod, StockXDaysData, XDaysCloses } from '../types/marketData';
+import {
+  AssetClass,
+  CurrencyConversion,
+  FxRateTable,
+  PortfolioLedger,
+  PortfolioTransactionInput,
+  PortfolioType,
+  TransactionAction,
+} from '../types/portfolio';
+import { AllocationDrift } from './AllocationDrift';
+import { ColumnPresets } from './ColumnPresets';
+import { CurrencySettings } from './CurrencySettings';
+import { PortfolioPerformance } from './PortfolioPerformance';
+import { PortfolioRisk, SymbolRiskInput } from './PortfolioRisk';
+import { TaxLotsReport } from './TaxLotsReport';
+import { TransactionImportWizard } from './TransactionImportWizard';
+import { WhatIfSimulator } from './WhatIfSimulator';
 import { Badge } from './ui/badge';
 import { Button } from './ui/Button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/Card';
+import { DataGrid, DataGridColumn } from './ui/data-grid';
 import { Input } from './ui/Input';
 import { Label } from './ui/label';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
@@ -19,255 +73,173 @@ const API_KEY = import.meta.env.VITE_API_KEY;
 interface Portfolio {
   id: string;
   name: string;
-  type: 'crypto' | 'stocks';
+  type: PortfolioType;
   symbols: string[];
+  asset_classes?: Record<string, AssetClass>; // mixed portfolios only, keyed by symbol
+  target_weights?: Record<string, number>; // percent per symbol
+  rebalance_tolerance?: number; // percentage points
+  base_currency?: string; // defaults to USD
+  fx_rates?: FxRateTable; // user-supplied rates, one unit of each currency in the base currency
+  symbol_currencies?: Record<string, string>; // price currency overrides keyed by symbol
   action?: 'BUY' | 'SELL';
   quantity?: number;
   price?: number;
 }
 
-interface CryptoXDaysData {
-  baseCurrency: string;
-  close_1d: number | null;
-  close_7d: number | null;
-  close_30d: number | null;
-  close_60d: number | null;
-  close_90d: number | null;
-  close_120d: number | null;
-}
+// Rank columns of each asset class, with their table headers. ivol, predicted_beta and
+// risk_contribution exist for both; a mixed portfolio shows them once, with the stock header.
+const STOCK_COLUMN_HEADERS: Record<string, string> = {
+  fundamental: 'Fundamental Rank',
+  technical: 'Technical Rank',
+  ivol: 'IVol',
+  predicted_beta: 'Predicted Beta',
+  risk_contribution: 'Risk Contribution',
+  industry: 'Industry',
+  sector: 'Sector',
+  mcap: 'Market Cap',
+  isADR: 'ADR',
+  isActive: 'Active',
+  reportingCurrency: 'Currency',
+  td_resistance: 'Resistance',
+  td_support: 'Support',
+  tec_riskRangeHigh: 'Risk Range High',
+  tec_riskRangeLow: 'Risk Range Low',
+  tag: 'Tag',
+};
 
-interface LatestPriceData {
-  symbol: string;
-  latestPrice: number;
-  returns: {
-    '1d': number | null;
-    '7d': number | null;
-    '30d': number | null;
-    '60d': number | null;
-    '90d': number | null;
-    '120d': number | null;
-  };
-}
+const CRYPTO_COLUMN_HEADERS: Record<string, string> = {
+  crypto_ranks: 'Crypto Rank',
+  lppl_side: 'LPPL Side',
+  lppl_pos_conf: 'LPPL Pos Conf',
+  lppl_neg_conf: 'LPPL Neg Conf',
+  strategy_side: 'Strategy Side',
+  strategy_profit_per_trade: 'Strategy P/T',
+  strategy_expectancy: 'Strategy Exp',
+  strategy_profit_factor: 'Strategy PF',
+  quoteCurrency: 'Quote Curr',
+  open: 'Open',
+  high: 'High',
+  low: 'Low',
+  close: 'Close',
+  volume: 'Volume',
+  ivol: 'IVol',
+  predicted_beta: 'Beta',
+  risk_contribution: 'Risk Contrib',
+};
 
-interface StockXDaysData {
-  symbol: string;
-  close_1d: number | null;
-  close_7d: number | null;
-  close_30d: number | null;
-  close_60d: number | null;
-  close_90d: number | null;
-  close_120d: number | null;
-}
+const RANK_COLUMN_HEADERS: Record<PortfolioType, Record<string, string>> = {
+  stocks: STOCK_COLUMN_HEADERS,
+  crypto: CRYPTO_COLUMN_HEADERS,
+  mixed: { ...CRYPTO_COLUMN_HEADERS, ...STOCK_COLUMN_HEADERS },
+};
 
-// Ranks data interface
-interface RanksData {
-  date?: string;
-  industry?: string;
-  isADR: boolean;
-  isActive: boolean;
-  mcap: number;
-  name: string;
-  permaTicker: string;
-  rankFundamental: number;
-  rankTechnical: number;
-  reportingCurrency: string;
-  sector: number;
-  statementLastUpdated: string;
-  tag: string;
-  td__Resistance: number;
-  td__Support: number;
-  tec_riskRangeHigh: number;
-  tec_riskRangeInd: number;
-  tec_riskRangeLow: number;
-  ticker: string;
-  ivol?: number;
-  predicted_beta?: number;
-  risk_contribution?: number;
-}
+const RETURN_PERIODS: ReturnPeriod[] = ['1d', '7d', '30d', '60d', '90d', '120d'];
 
-interface CryptoRankData {
-  baseCurrency: string;
-  date: string | null;
-  crypto_ranks: number | null;
-  lppl_side: string | number | null;
-  lppl_pos_conf: number | null;
-  lppl_neg_conf: number | null;
-  strategy_side: string | number | null;
-  strategy_profit_per_trade: number | null;
-  strategy_expectancy: number | null;
-  strategy_profit_factor: number | null;
-  quoteCurrency: string | null;
-  open: number | null;
-  high: number | null;
-  low: number | null;
-  close: number | null;
-  volume: number | null;
-  ivol: number | null;
-  predicted_beta: number | null;
-  risk_contribution: number | null;
+// A symbol of the active portfolio with the position and data shown in its row
+interface HoldingRow {
+  symbol: string;
+  assetClass: AssetClass;
+  latest: LatestPriceData | undefined;
+  closes: XDaysCloses | undefined;
+  quantity: number;
+  value: number; // in the base currency
+  costBasis: number;
+  unrealizedGain: number;
+  ranks: RanksData | undefined;
+  cryptoRanks: CryptoRankData | undefined;
 }
 
-const hasValue = (value: unknown): boolean => value !== null && value !== undefined;
-
-const parseNullableNumber = (value: unknown): number | null => {
-  if (!hasValue(value)) {
-    return null;
-  }
-  const num = Number(value);
-  return Number.isFinite(num) ? num : null;
+const formatReturn = (returnPct: number | null | undefined) => {
+  if (returnPct === null || returnPct === undefined) return '';
+  const sign = returnPct >= 0 ? '+' : '';
+  return `${sign}${returnPct.toFixed(2)}%`;
 };
 
-const parseNullableString = (value: unknown): string | null => {
-  if (typeof value === 'string') {
-    const trimmed = value.trim();
-    return trimmed.length > 0 ? trimmed : null;
-  }
-  if (value instanceof Date) {
-    return value.toISOString();
+// Value of a stock rank column, as sorted
+const stockColumnValue = (ranks: RanksData | undefined, key: string): unknown => {
+  if (!ranks) return null;
+  switch (key) {
+    case 'fundamental': return ranks.rankFundamental;
+    case 'technical': return ranks.rankTechnical;
+    case 'ivol': return ranks.ivol;
+    case 'predicted_beta': return ranks.predicted_beta;
+    case 'risk_contribution': return ranks.risk_contribution;
+    case 'industry': return ranks.industry;
+    case 'sector': return ranks.sector;
+    case 'mcap': return ranks.mcap;
+    case 'isADR': return ranks.isADR;
+    case 'isActive': return ranks.isActive;
+    case 'reportingCurrency': return ranks.reportingCurrency;
+    case 'td_resistance': return ranks.td__Resistance;
+    case 'td_support': return ranks.td__Support;
+    case 'tec_riskRangeHigh': return ranks.tec_riskRangeHigh;
+    case 'tec_riskRangeLow': return ranks.tec_riskRangeLow;
+    case 'tag': return ranks.tag;
+    default: return null;
   }
-  return null;
 };
 
-const getTimeValue = (value: unknown): number => {
-  if (value instanceof Date) {
-    return value.getTime();
-  }
-  if (typeof value === 'string' && value.trim().length > 0) {
-    const parsed = Date.parse(value);
-    return Number.isNaN(parsed) ? Number.NEGATIVE_INFINITY : parsed;
+const formatStockRankValue = (key: string, value: unknown): string => {
+  switch (key) {
+    case 'ivol':
+    case 'risk_contribution':
+      return value ? `${value}%` : 'N/A';
+    case 'industry':
+    case 'sector':
+      return abbreviateSectorIndustry(value ? String(value) : '', key === 'sector' ? 'sector' : 'industry');
+    case 'mcap':
+      return value ? `$${(Number(value) / 1e9).toFixed(1)}B` : 'N/A';
+    case 'isADR':
+    case 'isActive':
+      return value ? 'Yes' : 'No';
+    case 'td_resistance':
+    case 'td_support':
+    case 'tec_riskRangeHigh':
+    case 'tec_riskRangeLow':
+      return value ? `$${value}` : 'N/A';
+    default:
+      return value ? `${value}` : 'N/A';
   }
-  return Number.NEGATIVE_INFINITY;
 };
 
-const mergeCryptoRankEntries = (entries: any[], fallbackSymbol: string): CryptoRankData | null => {
-  if (!Array.isArray(entries) || entries.length === 0) {
-    return null;
+const formatCryptoRankValue = (key: string, value: unknown): string => {
+  const num = typeof value === 'number' ? value : null;
+  const fixed = (digits: number, prefix = '') => num !== null ? `${prefix}${num.toFixed(digits)}` : 'N/A';
+
+  switch (key) {
+    case 'crypto_ranks':
+      return fixed(1);
+    case 'lppl_pos_conf':
+    case 'lppl_neg_conf':
+    case 'strategy_profit_per_trade':
+    case 'strategy_expectancy':
+    case 'strategy_profit_factor':
+      return fixed(3);
+    case 'open':
+    case 'high':
+    case 'low':
+    case 'close':
+      return fixed(2, '$');
+    case 'volume':
+      return num !== null ? num.toLocaleString() : 'N/A';
+    case 'ivol':
+    case 'predicted_beta':
+    case 'risk_contribution':
+      return fixed(2);
+    default:
+      return value === null || value === undefined || value === '' ? 'N/A' : String(value);
   }
-
-  const normalizedSymbol = fallbackSymbol.toUpperCase();
-  const sortedEntries = [...entries].sort((a, b) => getTimeValue(b?.date) - getTimeValue(a?.date));
-
-  const merged: CryptoRankData = {
-    baseCurrency: normalizedSymbol,
-    date: null,
-    crypto_ranks: null,
-    lppl_side: null,
-    lppl_pos_conf: null,
-    lppl_neg_conf: null,
-    strategy_side: null,
-    strategy_profit_per_trade: null,
-    strategy_expectancy: null,
-    strategy_profit_factor: null,
-    quoteCurrency: null,
-    open: null,
-    high: null,
-    low: null,
-    close: null,
-    volume: null,
-    ivol: null,
-    predicted_beta: null,
-    risk_contribution: null,
-  };
-
-  sortedEntries.forEach((entry) => {
-    if (!entry) return;
-
-    const entrySymbol = typeof entry.baseCurrency === 'string' ? entry.baseCurrency.toUpperCase() : normalizedSymbol;
-    merged.baseCurrency = entrySymbol || normalizedSymbol;
-
-    const entryDate = parseNullableString(entry.date);
-    if (entryDate && getTimeValue(entryDate) > getTimeValue(merged.date)) {
-      merged.date = entryDate;
-    }
-
-    if (hasValue(entry.crypto_ranks) && merged.crypto_ranks == null) {
-      merged.crypto_ranks = parseNullableNumber(entry.crypto_ranks);
-    }
-
-    if (hasValue(entry.lppl_side) && merged.lppl_side == null) {
-      merged.lppl_side = entry.lppl_side;
-    }
-
-    if (hasValue(entry.lppl_pos_conf) && merged.lppl_pos_conf == null) {
-      merged.lppl_pos_conf = parseNullableNumber(entry.lppl_pos_conf);
-    }
-
-    if (hasValue(entry.lppl_neg_conf) && merged.lppl_neg_conf == null) {
-      merged.lppl_neg_conf = parseNullableNumber(entry.lppl_neg_conf);
-    }
-
-    if (hasValue(entry.strategy_side) && merged.strategy_side == null) {
-      merged.strategy_side = entry.strategy_side;
-    }
-
-    if (hasValue(entry.strategy_profit_per_trade) && merged.strategy_profit_per_trade == null) {
-      merged.strategy_profit_per_trade = parseNullableNumber(entry.strategy_profit_per_trade);
-    }
-
-    if (hasValue(entry.strategy_expectancy) && merged.strategy_expectancy == null) {
-      merged.strategy_expectancy = parseNullableNumber(entry.strategy_expectancy);
-    }
-
-    if (hasValue(entry.strategy_profit_factor) && merged.strategy_profit_factor == null) {
-      merged.strategy_profit_factor = parseNullableNumber(entry.strategy_profit_factor);
-    }
-
-    if (!merged.quoteCurrency && hasValue(entry.quoteCurrency)) {
-      merged.quoteCurrency = parseNullableString(entry.quoteCurrency);
-    }
-
-    if (hasValue(entry.open) && merged.open == null) {
-      merged.open = parseNullableNumber(entry.open);
-    }
-
-    if (hasValue(entry.high) && merged.high == null) {
-      merged.high = parseNullableNumber(entry.high);
-    }
-
-    if (hasValue(entry.low) && merged.low == null) {
-      merged.low = parseNullableNumber(entry.low);
-    }
-
-    if (hasValue(entry.close) && merged.close == null) {
-      merged.close = parseNullableNumber(entry.close);
-    }
-
-    if (hasValue(entry.volume) && merged.volume == null) {
-      merged.volume = parseNullableNumber(entry.volume);
-    }
-
-    if (hasValue(entry.ivol) && merged.ivol == null) {
-      merged.ivol = parseNullableNumber(entry.ivol);
-    }
-
-    if (hasValue(entry.predicted_beta) && merged.predicted_beta == null) {
-      merged.predicted_beta = parseNullableNumber(entry.predicted_beta);
-    }
-
-    if (hasValue(entry.risk_contribution) && merged.risk_contribution == null) {
-      merged.risk_contribution = parseNullableNumber(entry.risk_contribution);
-    }
-  });
-
-  return merged;
 };
 
-// Portfolio transactions per symbol
-interface PortfolioTransactionInput {
-  date: string; // YYYY-MM-DD
-  action: 'BUY' | 'SELL';
-  quantity: number;
-  price: number;
-}
-
-interface PortfolioAggregatePosition {
-  symbol: string;
-  total_quantity: number;
-  total_cost_basis: number;
-}
+const PORTFOLIO_TYPE_LABELS: Record<PortfolioType, string> = {
+  crypto: 'Cryptocurrency',
+  stocks: 'Stocks',
+  mixed: 'Mixed',
+};
 
 const Portfolio: React.FC = () => {
   const { user, walletAddress } = useAuth();
+  const marketData = useMarketData();
   // REMOVED for SIWS migration: const { getAccessToken } = useWalletAuthContext();
 
   const [portfolios, setPortfolios] = useState<Portfolio[]>([]);
@@ -278,6 +250,10 @@ const Portfolio: React.FC = () => {
   const [ranksData, setRanksData] = useState<RanksData[]>([]);
   const [cryptoRanksData, setCryptoRanksData] = useState<CryptoRankData[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [ranksProgress, setRanksProgress] = useState<{ done: number; total: number } | null>(null);
+  const refreshRunRef = useRef(0); // ignores results of a refresh superseded by a newer one
+  const activePortfolioIdRef = useRef(activePortfolioId); // ignores ledgers that arrive after a switch of portfolio
+  activePortfolioIdRef.current = activePortfolioId;
   const [isInitialLoading, setIsInitialLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -286,64 +262,35 @@ const Portfolio: React.FC = () => {
   const [txSymbol, setTxSymbol] = useState<string>('');
   const [txRows, setTxRows] = useState<PortfolioTransactionInput[]>([]);
 
-  // Aggregated positions per symbol
-  const [aggregates, setAggregates] = useState<Record<string, PortfolioAggregatePosition>>({});
+  // Broker CSV import wizard
+  const [showImportWizard, setShowImportWizard] = useState(false);
+
+  // Transactions of the active portfolio per symbol, in each row's own currency
+  const [ledger, setLedger] = useState<PortfolioLedger>({});
+
+  // FX history loaded from the backend for the base currency it was requested in
+  const [fxHistory, setFxHistory] = useState<{ base: string; rates: FxRateTable }>({ base: DEFAULT_BASE_CURRENCY, rates: {} });
+  const [showCurrencySettings, setShowCurrencySettings] = useState(false);
 
   // New portfolio form
   const [showNewPortfolioForm, setShowNewPortfolioForm] = useState(false);
   const [newPortfolioName, setNewPortfolioName] = useState('');
-  const [newPortfolioType, setNewPortfolioType] = useState<'crypto' | 'stocks'>('crypto');
+  const [newPortfolioType, setNewPortfolioType] = useState<PortfolioType>('crypto');
 
   // Add symbol form
   const [showAddSymbolForm, setShowAddSymbolForm] = useState(false);
   const [newSymbol, setNewSymbol] = useState('');
+  const [newSymbolAssetClass, setNewSymbolAssetClass] = useState<AssetClass>('stocks');
 
   // Status message
   const [statusMessage, setStatusMessage] = useState<{text: string, type: 'success' | 'error'} | null>(null);
 
-  // Sorting state
-  const [sortColumn, setSortColumn] = useState<string | null>(null);
-  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
-
   // Column configuration
   const [showColumnConfig, setShowColumnConfig] = useState(false);
-  const [columnConfig, setColumnConfig] = useState<Array<{key: string, visible: boolean, order: number}>>([
-    // Stock columns
-    { key: 'fundamental', visible: true, order: 0 },
-    { key: 'technical', visible: true, order: 1 },
-    { key: 'ivol', visible: true, order: 2 },
-    { key: 'predicted_beta', visible: true, order: 3 },
-    { key: 'risk_contribution', visible: true, order: 4 },
-    { key: 'industry', visible: false, order: 5 },
-    { key: 'sector', visible: false, order: 6 },
-    { key: 'mcap', visible: false, order: 7 },
-    { key: 'isADR', visible: false, order: 8 },
-    { key: 'isActive', visible: false, order: 9 },
-    { key: 'reportingCurrency', visible: false, order: 10 },
-    { key: 'td_resistance', visible: false, order: 11 },
-    { key: 'td_support', visible: false, order: 12 },
-    { key: 'tec_riskRangeHigh', visible: false, order: 13 },
-    { key: 'tec_riskRangeLow', visible: false, order: 14 },
-    { key: 'tag', visible: false, order: 15 },
-    // Crypto columns
-    { key: 'crypto_ranks', visible: true, order: 16 },
-    { key: 'lppl_side', visible: false, order: 17 },
-    { key: 'lppl_pos_conf', visible: false, order: 18 },
-    { key: 'lppl_neg_conf', visible: false, order: 19 },
-    { key: 'strategy_side', visible: false, order: 20 },
-    { key: 'strategy_profit_per_trade', visible: false, order: 21 },
-    { key: 'strategy_expectancy', visible: false, order: 22 },
-    { key: 'strategy_profit_factor', visible: false, order: 23 },
-    { key: 'quoteCurrency', visible: false, order: 24 },
-    { key: 'open', visible: false, order: 25 },
-    { key: 'high', visible: false, order: 26 },
-    { key: 'low', visible: false, order: 27 },
-    { key: 'close', visible: false, order: 28 },
-    { key: 'volume', visible: false, order: 29 },
-  ]);
-
-  // Drag and drop state
-  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const { columns: columnConfig, setColumns: saveColumnConfig, applyPreset, reset: resetColumnConfig, syncStatus: columnSyncStatus } = useColumnConfig('portfolio');
+
+  // Column order of the holdings grid; rank columns follow the saved layout
+  const [gridOrder, setGridOrder] = useState<string[]>([]);
 
   // Helper function
   const showStatus = useCallback((text: string, type: 'success' | 'error' = 'success') => {
@@ -351,80 +298,6 @@ const Portfolio: React.FC = () => {
     setTimeout(() => setStatusMessage(null), 3000);
   }, []);
 
-  // Load column configuration from localStorage
-  const loadColumnConfig = () => {
-    const saved = localStorage.getItem('portfolio-column-config');
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        // Handle both old format (Record<string, boolean>) and new format (Array)
-        if (Array.isArray(parsed)) {
-          // Merge saved config with default config to ensure all columns are present
-          const defaultConfig = [
-            // Stock columns
-            { key: 'fundamental', visible: true, order: 0 },
-            { key: 'technical', visible: true, order: 1 },
-            { key: 'ivol', visible: true, order: 2 },
-            { key: 'predicted_beta', visible: true, order: 3 },
-            { key: 'risk_contribution', visible: true, order: 4 },
-            { key: 'industry', visible: false, order: 5 },
-            { key: 'sector', visible: false, order: 6 },
-            { key: 'mcap', visible: false, order: 7 },
-            { key: 'isADR', visible: false, order: 8 },
-            { key: 'isActive', visible: false, order: 9 },
-            { key: 'reportingCurrency', visible: false, order: 10 },
-            { key: 'td_resistance', visible: false, order: 11 },
-            { key: 'td_support', visible: false, order: 12 },
-            { key: 'tec_riskRangeHigh', visible: false, order: 13 },
-            { key: 'tec_riskRangeLow', visible: false, order: 14 },
-            { key: 'tag', visible: false, order: 15 },
-            // Crypto columns
-            { key: 'crypto_ranks', visible: true, order: 16 },
-            { key: 'lppl_side', visible: false, order: 17 },
-            { key: 'lppl_pos_conf', visible: false, order: 18 },
-            { key: 'lppl_neg_conf', visible: false, order: 19 },
-            { key: 'strategy_side', visible: false, order: 20 },
-            { key: 'strategy_profit_per_trade', visible: false, order: 21 },
-            { key: 'strategy_expectancy', visible: false, order: 22 },
-            { key: 'strategy_profit_factor', visible: false, order: 23 },
-            { key: 'quoteCurrency', visible: false, order: 24 },
-            { key: 'open', visible: false, order: 25 },
-            { key: 'high', visible: false, order: 26 },
-            { key: 'low', visible: false, order: 27 },
-            { key: 'close', visible: false, order: 28 },
-            { key: 'volume', visible: false, order: 29 },
-          ];
-
-          // Create a map of saved columns for quick lookup
-          const savedMap = new Map(parsed.map((col: any) => [col.key, col]));
-
-          // Merge: use saved settings where available, otherwise use defaults
-          const mergedConfig = defaultConfig.map(defaultCol => {
-            const savedCol = savedMap.get(defaultCol.key);
-            return savedCol ? { ...defaultCol, ...savedCol } : defaultCol;
-          });
-
-          setColumnConfig(mergedConfig);
-        } else {
-          // Convert old format to new format
-          const newConfig = columnConfig.map(col => ({
-            ...col,
-            visible: parsed[col.key] !== undefined ? parsed[col.key] : col.visible
-          }));
-          setColumnConfig(newConfig);
-        }
-      } catch (error) {
-        console.error('Error loading column config:', error);
-      }
-    }
-  };
-
-  // Save column configuration to localStorage
-  const saveColumnConfig = (config: Array<{key: string, visible: boolean, order: number}>) => {
-    localStorage.setItem('portfolio-column-config', JSON.stringify(config));
-    setColumnConfig(config);
-  };
-
   // Get visible columns as a record for easier access
   const getVisibleColumns = () => {
     const visible: Record<string, boolean> = {};
@@ -434,166 +307,6 @@ const Portfolio: React.FC = () => {
     return visible;
   };
 
-  // Drag and drop handlers
-  const handleDragStart = (e: React.DragEvent, index: number) => {
-    setDraggedIndex(index);
-    e.dataTransfer.effectAllowed = 'move';
-  };
-
-  const handleDragOver = (e: React.DragEvent) => {
-    e.preventDefault();
-    e.dataTransfer.dropEffect = 'move';
-  };
-
-  const handleDrop = (e: React.DragEvent, dropIndex: number) => {
-    e.preventDefault();
-    if (draggedIndex === null || draggedIndex === dropIndex) return;
-
-    const newConfig = [...columnConfig];
-    const draggedItem = newConfig[draggedIndex];
-
-    // Remove dragged item
-    newConfig.splice(draggedIndex, 1);
-    // Insert at new position
-    newConfig.splice(dropIndex, 0, draggedItem);
-
-    // Update orders
-    newConfig.forEach((item, index) => {
-      item.order = index;
-    });
-
-    saveColumnConfig(newConfig);
-    setDraggedIndex(null);
-  };
-
-  const handleDragEnd = () => {
-    setDraggedIndex(null);
-  };
-
-  // Load column config on mount
-  useEffect(() => {
-    loadColumnConfig();
-  }, []);
-
-  // Sorting function
-  const handleSort = (column: string) => {
-    if (sortColumn === column) {
-      // Toggle direction if same column
-      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
-    } else {
-      // New column, default to ascending
-      setSortColumn(column);
-      setSortDirection('asc');
-    }
-  };
-
-  // Get sorted symbols for the active portfolio
-  const getSortedSymbols = (symbols: string[]) => {
-    if (!sortColumn || !activePortfolio) return symbols;
-
-    return [...symbols].sort((a, b) => {
-      let aValue: any = null;
-      let bValue: any = null;
-
-      const aData = displayData.find(d =>
-        (activePortfolio.type === 'crypto' && 'baseCurrency' in d && d.baseCurrency === a) ||
-        (activePortfolio.type === 'stocks' && 'symbol' in d && d.symbol === a)
-      );
-      const bData = displayData.find(d =>
-        (activePortfolio.type === 'crypto' && 'baseCurrency' in d && d.baseCurrency === b) ||
-        (activePortfolio.type === 'stocks' && 'symbol' in d && d.symbol === b)
-      );
-
-      const aLatest = latestPrices.find(lp => lp.symbol === a);
-      const bLatest = latestPrices.find(lp => lp.symbol === b);
-
-      const aAgg = aggregates[a] || { symbol: a, total_quantity: 0, total_cost_basis: 0 };
-      const bAgg = aggregates[b] || { symbol: b, total_quantity: 0, total_cost_basis: 0 };
-
-      switch (sortColumn) {
-        case 'symbol':
-          aValue = a;
-          bValue = b;
-          break;
-        case 'latest':
-          aValue = aLatest?.latestPrice || 0;
-          bValue = bLatest?.latestPrice || 0;
-          break;
-        case 'costBasis':
-          aValue = aAgg.total_cost_basis;
-          bValue = bAgg.total_cost_basis;
-          break;
-        case 'unrealizedGain':
-          const aLatestPrice = aLatest?.latestPrice || 0;
-          const bLatestPrice = bLatest?.latestPrice || 0;
-          aValue = (aAgg.total_quantity * aLatestPrice) - aAgg.total_cost_basis;
-          bValue = (bAgg.total_quantity * bLatestPrice) - bAgg.total_cost_basis;
-          break;
-        case '1d':
-          aValue = aLatest?.returns['1d'] || 0;
-          bValue = bLatest?.returns['1d'] || 0;
-          break;
-        case '7d':
-          aValue = aLatest?.returns['7d'] || 0;
-          bValue = bLatest?.returns['7d'] || 0;
-          break;
-        case '30d':
-          aValue = aLatest?.returns['30d'] || 0;
-          bValue = bLatest?.returns['30d'] || 0;
-          break;
-        case '60d':
-          aValue = aLatest?.returns['60d'] || 0;
-          bValue = bLatest?.returns['60d'] || 0;
-          break;
-        case '90d':
-          aValue = aLatest?.returns['90d'] || 0;
-          bValue = bLatest?.returns['90d'] || 0;
-          break;
-        case '120d':
-          aValue = aLatest?.returns['120d'] || 0;
-          bValue = bLatest?.returns['120d'] || 0;
-          break;
-        default:
-          return 0;
-      }
-
-      // Handle null/undefined values
-      if (aValue === null || aValue === undefined) aValue = sortColumn === 'symbol' ? '' : -Infinity;
-      if (bValue === null || bValue === undefined) bValue = sortColumn === 'symbol' ? '' : -Infinity;
-
-      if (aValue < bValue) return sortDirection === 'asc' ? -1 : 1;
-      if (aValue > bValue) return sortDirection === 'asc' ? 1 : -1;
-      return 0;
-    });
-  };
-
-  // Sortable header component
-  const SortableHeader: React.FC<{ column: string; children: React.ReactNode; className?: string }> = ({
-    column,
-    children,
-    className = ""
-  }) => {
-    const isActive = sortColumn === column;
-    return (
-      <TableHead
-        className={`cursor-pointer hover:bg-muted/50 select-none ${className}`}
-        onClick={() => handleSort(column)}
-      >
-        <div className="flex items-center justify-end gap-1">
-          <span>{children}</span>
-          <div className="flex flex-col">
-            <ChevronUp
-              className={`h-3 w-3 ${isActive && sortDirection === 'asc' ? 'text-foreground' : 'text-muted-foreground'}`}
-            />
-            <ChevronDown
-              className={`h-3 w-3 -mt-1 ${isActive && sortDirection === 'desc' ? 'text-foreground' : 'text-muted-foreground'}`}
-            />
-          </div>
-        </div>
-      </TableHead>
-    );
-  };
-
   // Load portfolios from backend API
   useEffect(() => {
     if (walletAddress) {
@@ -661,197 +374,38 @@ const Portfolio: React.FC = () => {
     setPortfolios(newPortfolios);
   }, []);
 
-  // Fetch crypto data
-  const fetchCryptoData = useCallback(async (symbols: string[]): Promise<CryptoXDaysData[]> => {
-    if (symbols.length === 0) return [];
-
-    try {
-      const params = new URLSearchParams();
-      symbols.forEach(symbol => params.append('baseCurrencies', symbol));
-
-      const response = await fetch(`${API_BASE_URL}/crypto_xdays?${params.toString()}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${API_KEY}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`Failed to fetch crypto data: ${response.status}`);
-      }
-
-      const data = await response.json();
-      const normalizedData: CryptoXDaysData[] = Array.isArray(data) ? data : [];
-      setCryptoData(normalizedData);
-      return normalizedData;
-    } catch (err) {
-      console.error('Error fetching crypto data:', err);
-      showStatus(`Failed to load crypto data: ${err instanceof Error ? err.message : 'Unknown error'}`, 'error');
-      return [];
-    }
-  }, [showStatus]);
-
-  // Fetch latest prices from backend
-  const fetchLatestPrices = useCallback(async (symbols: string[], historicalData: CryptoXDaysData[] = []) => {
-    if (symbols.length === 0) return;
-
-    try {
-      const params = new URLSearchParams();
-      symbols.forEach(symbol => params.append('symbols', symbol));
-
-      const response = await fetch(`${API_BASE_URL}/latest_crypto_price?${params.toString()}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${API_KEY}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`Failed to fetch latest prices: ${response.status}`);
-      }
-
-      const data = await response.json();
-
-      // Convert to expected format and calculate returns from cryptoData
-      const result = data.map((item: any) => {
-        const symbol = item.symbol.toUpperCase();
-        const currentPrice = item.close;
-        const historical = historicalData.find(h => h.baseCurrency === symbol);
-
-        // Calculate returns from historical data
-        const calculateReturn = (historicalPrice: number | null) => {
-          if (!historicalPrice || historicalPrice === 0) return null;
-          return ((currentPrice - historicalPrice) / historicalPrice) * 100;
-        };
-
-        return {
-          symbol: symbol,
-          latestPrice: currentPrice,
-          returns: {
-            '1d': calculateReturn(historical?.close_1d || null),
-            '7d': calculateReturn(historical?.close_7d || null),
-            '30d': calculateReturn(historical?.close_30d || null),
-            '60d': calculateReturn(historical?.close_60d || null),
-            '90d': calculateReturn(historical?.close_90d || null),
-            '120d': calculateReturn(historical?.close_120d || null),
-          }
-        };
-      });
-
-      setLatestPrices(result);
-    } catch (err) {
-      console.error('Error fetching latest prices:', err);
-      showStatus(`Failed to load latest prices: ${err instanceof Error ? err.message : 'Unknown error'}`, 'error');
-    }
-  }, [showStatus]);
-
-  // Fetch stock data
-  const fetchStockData = useCallback(async (symbols: string[]) => {
-    if (symbols.length === 0) return;
-
-    try {
-      const params = new URLSearchParams();
-      symbols.forEach(symbol => params.append('symbols', symbol));
-
-      const response = await fetch(`${API_BASE_URL}/stock_xdays?${params.toString()}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${API_KEY}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`Failed to fetch stock data: ${response.status}`);
-      }
-
-      const data = await response.json();
-      setStockData(data || []);
-    } catch (err) {
-      console.error('Error fetching stock data:', err);
-      showStatus(`Failed to load stock data: ${err instanceof Error ? err.message : 'Unknown error'}`, 'error');
-    }
-  }, [showStatus]);
-
-  // Fetch ranks data
-  const fetchRanksData = useCallback(async (symbols: string[]) => {
-    if (symbols.length === 0) return;
-
-    try {
-      const allRanksData: any[] = [];
-
-      // Fetch ranks for each symbol individually since the endpoint only accepts one ticker
-      for (const symbol of symbols) {
-        try {
-          const response = await fetch(`${API_BASE_URL}/ranks?ticker=${encodeURIComponent(symbol)}`, {
-            method: 'GET',
-            headers: {
-              'Authorization': `Bearer ${API_KEY}`,
-            },
-          });
-
-          if (response.ok) {
-            const data = await response.json();
-            if (data && data.length > 0) {
-              allRanksData.push(...data);
-            }
-          }
-        } catch (symbolError) {
-          console.warn(`Failed to fetch ranks for ${symbol}:`, symbolError);
-          // Continue with other symbols
-        }
-      }
-
-      setRanksData(allRanksData);
-    } catch (err) {
-      console.error('Error fetching ranks data:', err);
-      showStatus(`Failed to load stock ranks: ${err instanceof Error ? err.message : 'Unknown error'}`, 'error');
-    }
-  }, [showStatus]);
-
-  // Fetch crypto ranks data
-  const fetchCryptoRanksData = useCallback(async (symbols: string[]) => {
-    if (symbols.length === 0) return;
+  // Load the transactions behind the aggregated positions of the current portfolio. Positions are
+  // rebuilt from the ledger on the client because the server aggregate only understands BUY and SELL
+  // rows, and because cost basis has to be converted to the base currency row by row. A failed load
+  // keeps the positions already shown rather than showing a failed symbol as empty.
+  const loadLedger = useCallback(async (symbols: string[]) => {
+    const activePortfolio = portfolios.find(w => w.id === activePortfolioId);
+    if (!activePortfolio || !walletAddress || symbols.length === 0) return;
 
     try {
-      const aggregatedEntries = new Map<string, CryptoRankData>();
-
-      // Fetch ranks for each symbol individually since the endpoint only accepts one baseCurrency
-      for (const symbol of symbols) {
-        const symbolUpper = symbol.toUpperCase();
-        const symbolLower = symbol.toLowerCase();
-        try {
-          const response = await fetch(`${API_BASE_URL}/crypto_ranks?baseCurrency=${encodeURIComponent(symbolLower)}`, {
-            method: 'GET',
-            headers: {
-              'Authorization': `Bearer ${API_KEY}`,
-            },
-          });
-
-          if (response.ok) {
-            const data = await response.json();
-            const mergedEntry = mergeCryptoRankEntries(data, symbolUpper);
-            if (mergedEntry) {
-              aggregatedEntries.set(mergedEntry.baseCurrency, mergedEntry);
-            }
-          }
-        } catch (symbolError) {
-          console.warn(`Failed to fetch crypto ranks for ${symbolUpper}:`, symbolError);
-          // Continue with other symbols
-        }
-      }
+      const loaded = await fetchPortfolioLedger(activePortfolio.id, symbols);
+      if (activePortfolioIdRef.current !== activePortfolio.id) return;
 
-      setCryptoRanksData(Array.from(aggregatedEntries.values()));
+      // A partial reload (e.g. after editing one symbol) only replaces those symbols
+      const isFullReload = activePortfolio.symbols.every(symbol => loaded[symbol.toUpperCase()]);
+      setLedger(prev => (isFullReload ? loaded : { ...prev, ...loaded }));
     } catch (err) {
-      console.error('Error fetching crypto ranks data:', err);
-      showStatus(`Failed to load crypto ranks: ${err instanceof Error ? err.message : 'Unknown error'}`, 'error');
+      console.error('Error loading transactions:', err);
+      if (activePortfolioIdRef.current !== activePortfolio.id) return;
+      showStatus(`Failed to load portfolio aggregates: ${err instanceof Error ? err.message : 'Unknown error'}`, 'error');
     }
-  }, [showStatus]);
+  }, [activePortfolioId, portfolios, walletAddress, showStatus]);
 
-  // Refresh data for active portfolio
-  const refreshData = useCallback(async () => {
+  // Refresh data for active portfolio. Rows come from the shared market data cache unless
+  // `fresh` is set, which the Refresh button uses to bypass it. Prices, ranks and the ledger load
+  // side by side, and ranks rows are rendered as they arrive rather than after the slowest ticker.
+  const refreshData = useCallback(async (fresh = false) => {
     const activePortfolio = portfolios.find(w => w.id === activePortfolioId);
     if (!activePortfolio) return;
 
+    const run = ++refreshRunRef.current;
+    const isCurrentRun = () => run === refreshRunRef.current;
+
     setIsLoading(true);
     setError(null);
     setLatestPrices([]); // Clear latest prices while refreshing
@@ -859,68 +413,81 @@ const Portfolio: React.FC = () => {
     setCryptoRanksData([]); // Clear crypto ranks data while refreshing
 
     try {
-      if (activePortfolio.type === 'crypto') {
-        const historicalData = await fetchCryptoData(activePortfolio.symbols);
-        await fetchLatestPrices(activePortfolio.symbols, historicalData);
-        // Fetch crypto ranks data for crypto portfolios
-        await fetchCryptoRanksData(activePortfolio.symbols);
-      } else {
-        await fetchStockData(activePortfolio.symbols);
-        // Only fetch ranks data for stocks, not crypto
-        await fetchRanksData(activePortfolio.symbols);
+      // Mixed portfolios read each symbol from the endpoints of its own asset class
+      const cryptoSymbols = activePortfolio.symbols.filter(s => resolveAssetClass(activePortfolio.type, activePortfolio.asset_classes, s) === 'crypto');
+      const stockSymbols = activePortfolio.symbols.filter(s => resolveAssetClass(activePortfolio.type, activePortfolio.asset_classes, s) === 'stocks');
+      const prices: Record<AssetClass, LatestPriceData[]> = { crypto: [], stocks: [] };
+      const ranksDone: Record<AssetClass, number> = { crypto: 0, stocks: 0 };
+      const ranksTotal = cryptoSymbols.length + stockSymbols.length;
+      setRanksProgress({ done: 0, total: ranksTotal });
+
+      const reportRanks = (assetClass: AssetClass, done: number) => {
+        ranksDone[assetClass] = done;
+        setRanksProgress({ done: ranksDone.crypto + ranksDone.stocks, total: ranksTotal });
+      };
+      const showPrices = (assetClass: AssetClass, loaded: LatestPriceData[]) => {
+        prices[assetClass] = loaded;
+        if (isCurrentRun()) setLatestPrices([...prices.crypto, ...prices.stocks]);
+      };
+
+      const tasks: Promise<void>[] = [loadLedger(activePortfolio.symbols)];
+      if (cryptoSymbols.length > 0) {
+        tasks.push((async () => {
+          try {
+            const [historicalData, quotes] = await Promise.all([
+              marketData.cryptoXDays(cryptoSymbols, { fresh }),
+              marketData.latestCryptoQuotes(cryptoSymbols, { fresh }),
+            ]);
+            if (!isCurrentRun()) return;
+            setCryptoData(historicalData);
+            showPrices('crypto', toLatestPriceData(quotes, indexXDays(historicalData)));
+          } catch (err) {
+            console.error('Error fetching crypto prices:', err);
+            showStatus(`Failed to load crypto prices: ${err instanceof Error ? err.message : 'Unknown error'}`, 'error');
+          }
+        })());
+        tasks.push(marketData.cryptoRanks(cryptoSymbols, {
+          fresh,
+          onProgress: ({ rows, done }) => {
+            if (!isCurrentRun()) return;
+            setCryptoRanksData(rows);
+            reportRanks('crypto', done);
+          },
+        }).then(() => undefined));
       }
-      // Load aggregates after price data (for Value column calculation)
-      await loadAggregates(activePortfolio.symbols);
-    } finally {
-      setIsLoading(false);
-    }
-  }, [activePortfolioId, portfolios, fetchCryptoData, fetchStockData, fetchRanksData, fetchCryptoRanksData, fetchLatestPrices]);
-
-  // Load aggregated positions for current portfolio
-  const loadAggregates = useCallback(async (symbols: string[]) => {
-    const activePortfolio = portfolios.find(w => w.id === activePortfolioId);
-    if (!activePortfolio || !walletAddress || symbols.length === 0) return;
-
-    const username = walletAddress || '';
-    if (!username) {
-      showStatus('Unable to load aggregates: missing username', 'error');
-      return;
-    }
-
-    try {
-      const params = new URLSearchParams();
-      params.append('username', username);
-      symbols.forEach(symbol => params.append('symbols', symbol));
-
-      const response = await fetch(`${API_BASE_URL}/portfolios/${activePortfolioId}/transactions/aggregate?${params.toString()}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        if (response.status === 404) {
-          setAggregates({});
-          return;
-        }
-        throw new Error(`Failed to load aggregates: ${response.status}`);
+      if (stockSymbols.length > 0) {
+        tasks.push((async () => {
+          try {
+            const [historicalData, quotes] = await Promise.all([
+              marketData.stockXDays(stockSymbols, { fresh }),
+              marketData.latestStockQuotes(stockSymbols, { fresh }),
+            ]);
+            if (!isCurrentRun()) return;
+            setStockData(historicalData);
+            showPrices('stocks', toLatestPriceData(quotes, indexXDays(historicalData)));
+          } catch (err) {
+            console.error('Error fetching stock prices:', err);
+            showStatus(`Failed to load stock prices: ${err instanceof Error ? err.message : 'Unknown error'}`, 'error');
+          }
+        })());
+        tasks.push(marketData.stockRanks(stockSymbols, {
+          fresh,
+          onProgress: ({ rows, done }) => {
+            if (!isCurrentRun()) return;
+            setRanksData(rows);
+            reportRanks('stocks', done);
+          },
+        }).then(() => undefined));
       }
 
-      const data = await response.json();
-      const aggregatesMap: Record<string, any> = {};
-      (data || []).forEach((item: any) => {
-        if (item?.symbol) {
-          aggregatesMap[item.symbol.toUpperCase()] = item;
-        }
-      });
-      setAggregates(aggregatesMap);
-    } catch (err) {
-      console.error('Error loading aggregates:', err);
-      showStatus(`Failed to load portfolio aggregates: ${err instanceof Error ? err.message : 'Unknown error'}`, 'error');
+      await Promise.all(tasks);
+    } finally {
+      if (isCurrentRun()) {
+        setIsLoading(false);
+        setRanksProgress(null);
+      }
     }
-  }, [activePortfolioId, portfolios, walletAddress, user, showStatus]);
+  }, [activePortfolioId, portfolios, marketData, loadLedger, showStatus]);
 
   // Open transactions modal for a symbol
   const openTransactionsModal = async (symbol: string) => {
@@ -930,23 +497,12 @@ const Portfolio: React.FC = () => {
     if (!walletAddress) return;
 
     try {
-      const response = await fetch(`${API_BASE_URL}/portfolios/${activePortfolioId}/transactions/${symbol}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`Failed to load transactions: ${response.status}`);
-      }
-
-      const data = await response.json();
-      setTxRows(data.transactions || []);
+      setTxRows(await fetchPortfolioTransactions(activePortfolioId, symbol));
     } catch (err) {
+      // Saving replaces the symbol's ledger, so the editor never opens on rows that did not load
       console.error('Error loading transactions:', err);
       setTxRows([]);
+      setShowTxModal(false);
       showStatus(`Failed to load transactions: ${err instanceof Error ? err.message : 'Unknown error'}`, 'error');
     }
   };
@@ -956,13 +512,27 @@ const Portfolio: React.FC = () => {
     const yyyy = today.getFullYear();
     const mm = String(today.getMonth() + 1).padStart(2, '0');
     const dd = String(today.getDate()).padStart(2, '0');
-    setTxRows(prev => [...prev, { date: `${yyyy}-${mm}-${dd}`, action: 'BUY', quantity: 0, price: 0 }]);
+    setTxRows(prev => [...prev, { id: createTransactionId(), date: `${yyyy}-${mm}-${dd}`, action: 'BUY', quantity: 0, price: 0 }]);
   };
 
   const updateTxRow = (index: number, field: keyof PortfolioTransactionInput, value: any) => {
-    setTxRows(prev => prev.map((r, i) => i === index ? { ...r, [field]: field === 'quantity' || field === 'price' ? parseFloat(value) || 0 : value } : r));
+    setTxRows(prev => prev.map((r, i) => i === index ? { ...r, [field]: field === 'quantity' || field === 'price' || field === 'amount' ? parseFloat(value) || 0 : value } : r));
+  };
+
+  // Switching action keeps only the fields the new action uses
+  const updateTxAction = (index: number, action: TransactionAction) => {
+    setTxRows(prev => prev.map((r, i) => {
+      if (i !== index) return r;
+      const { amount, lot_id, ...rest } = r;
+      if (isCashAction(action)) return { ...rest, action, quantity: 0, price: 0, amount: amount ?? 0 };
+      if (action === 'SPLIT') return { ...rest, action, price: 0 };
+      return { ...rest, action, ...(isDisposalAction(action) && lot_id ? { lot_id } : {}) };
+    }));
   };
 
+  // Lot ids of lot-opening rows, used to pick a lot for disposals under specific identification
+  const txLotIds = assignLotIds(txRows);
+
   const removeTxRow = (index: number) => {
     setTxRows(prev => prev.filter((_, i) => i !== index));
   };
@@ -971,28 +541,11 @@ const Portfolio: React.FC = () => {
     if (!walletAddress || !txSymbol) return;
 
     try {
-      const username = walletAddress || '';
-      const response = await fetch(`${API_BASE_URL}/portfolios/${activePortfolioId}/transactions`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          username: username,
-          symbol: txSymbol,
-          transactions: txRows
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Failed to save transactions: ${response.status}`);
-      }
-
+      await savePortfolioTransactions(activePortfolioId, walletAddress, txSymbol, txRows);
       showStatus(`Transactions saved for ${txSymbol}`, 'success');
       setShowTxModal(false);
       // Refresh aggregates after saving transactions
-      await loadAggregates([txSymbol]);
+      await loadLedger([txSymbol]);
     } catch (err) {
       console.error('Error saving transactions:', err);
       showStatus(`Failed to save transactions: ${err instanceof Error ? err.message : 'Unknown error'}`, 'error');
@@ -1114,17 +667,7 @@ const Portfolio: React.FC = () => {
 
       // Add symbols one by one since the API only accepts one symbol at a time
       for (const symbol of symbols) {
-        const response = await fetch(`${API_BASE_URL}/portfolios/${activePortfolioId}/symbols?username=${encodeURIComponent(username)}&symbol=${encodeURIComponent(symbol)}`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${API_KEY}`,
-            'Content-Type': 'application/json',
-          },
-        });
-
-        if (!response.ok) {
-          throw new Error(`Failed to add symbol ${symbol}: ${response.status}`);
-        }
+        await addPortfolioSymbol(activePortfolioId, username, symbol, activePortfolio.type === 'mixed' ? newSymbolAssetClass : undefined);
       }
 
       // Get updated portfolio after adding all symbols
@@ -1196,13 +739,225 @@ const Portfolio: React.FC = () => {
   }, [activePortfolioId, refreshData]);
 
   const activePortfolio = portfolios.find(w => w.id === activePortfolioId);
-  const displayData = activePortfolio?.type === 'crypto' ? cryptoData : stockData;
+
+  // Historical closes of a symbol from the data set of its asset class
+  const findXDaysData = (symbol: string, assetClass: AssetClass): CryptoXDaysData | StockXDaysData | undefined =>
+    assetClass === 'crypto' ? cryptoData.find(d => d.baseCurrency === symbol) : stockData.find(d => d.symbol === symbol);
+
+  const activeAssetClasses = useMemo(
+    () => (activePortfolio ? resolveAssetClasses(activePortfolio.type, activePortfolio.symbols, activePortfolio.asset_classes) : {}),
+    [activePortfolio?.type, activePortfolio?.symbols, activePortfolio?.asset_classes]
+  );
+
+  const baseCurrency = activePortfolio?.base_currency || DEFAULT_BASE_CURRENCY;
+
+  // Currency each symbol is quoted in before overrides: crypto in its quote currency, stocks in
+  // USD, the currency of the US listings the stock price endpoints serve. reportingCurrency is the
+  // currency of the fundamentals only (SPOT reports in EUR but trades in USD).
+  const reportedCurrencies = useMemo(() => {
+    const reported: Record<string, string | null> = {};
+    Object.entries(activeAssetClasses).forEach(([symbol, assetClass]) => {
+      reported[symbol] = assetClass === 'crypto'
+        ? cryptoRanksData.find(c => matchesCryptoSymbol(symbol, c.baseCurrency || ''))?.quoteCurrency ?? null
+        : 'USD';
+    });
+    return resolveSymbolCurrencies(activeAssetClasses, reported);
+  }, [activeAssetClasses, cryptoRanksData]);
+
+  const conversion: CurrencyConversion = useMemo(() => ({
+    base: baseCurrency,
+    rates: mergeFxRates(fxHistory.base === baseCurrency ? fxHistory.rates : {}, activePortfolio?.fx_rates),
+    symbolCurrencies: resolveSymbolCurrencies(activeAssetClasses, reportedCurrencies, activePortfolio?.symbol_currencies),
+  }), [baseCurrency, fxHistory, activePortfolio?.fx_rates, activePortfolio?.symbol_currencies, activeAssetClasses, reportedCurrencies]);
+
+  // Non-base currencies in use; USD is always included so the USD benchmarks can be converted
+  const neededCurrencies = useMemo(() => {
+    const currencies = collectCurrencies({ ...conversion, rates: {} }, ledger);
+    if (baseCurrency !== 'USD' && !currencies.includes('USD')) currencies.push('USD');
+    return currencies.sort();
+  }, [conversion.symbolCurrencies, baseCurrency, ledger]);
+
+  // Load FX history for currencies not requested yet; a failed currency is stored empty so it
+  // is not requested again and shows up as missing instead
+  useEffect(() => {
+    const toLoad = neededCurrencies.filter(c => fxHistory.base !== baseCurrency || !fxHistory.rates[c]);
+    if (toLoad.length === 0) return;
+
+    let cancelled = false;
+    fetchFxRates(toLoad, baseCurrency).then(loaded => {
+      if (cancelled) return;
+      setFxHistory(prev => {
+        const rates: FxRateTable = prev.base === baseCurrency ? { ...prev.rates } : {};
+        toLoad.forEach(c => {
+          rates[c] = loaded[c] || [];
+        });
+        return { base: baseCurrency, rates };
+      });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [baseCurrency, neededCurrencies.join(',')]);
+
+  const missingCurrencies = useMemo(() => listMissingCurrencies(conversion, ledger), [conversion, ledger]);
+
+  // Aggregated positions per symbol, with cost basis in the base currency
+  const aggregates = useMemo(() => aggregateLedger(convertLedger(ledger, conversion)), [ledger, conversion]);
+
+  // Latest price per symbol for the performance engine's final valuation
+  const latestPriceMap = useMemo(() => {
+    const map: Record<string, number> = {};
+    latestPrices.forEach(lp => {
+      if (lp.latestPrice) map[lp.symbol] = lp.latestPrice;
+    });
+    return map;
+  }, [latestPrices]);
+
+  // Held quantity and best available price per symbol for the allocation and risk views
+  const quantityMap = useMemo(() => {
+    const map: Record<string, number> = {};
+    Object.values(aggregates).forEach(agg => {
+      map[agg.symbol] = agg.total_quantity;
+    });
+    return map;
+  }, [aggregates]);
+
+  const costBasisMap = useMemo(() => {
+    const map: Record<string, number> = {};
+    Object.values(aggregates).forEach(agg => {
+      map[agg.symbol] = agg.total_cost_basis;
+    });
+    return map;
+  }, [aggregates]);
+
+  const currentPriceMap = useMemo(() => {
+    const map: Record<string, number> = {};
+    Object.entries(activeAssetClasses).forEach(([symbol, assetClass]) => {
+      const data = assetClass === 'crypto' ? cryptoData.find(d => d.baseCurrency === symbol) : stockData.find(d => d.symbol === symbol);
+      if (data?.close_1d) map[symbol] = data.close_1d;
+    });
+    return convertPrices({ ...map, ...latestPriceMap }, conversion, todayIsoDate());
+  }, [activeAssetClasses, cryptoData, stockData, latestPriceMap, conversion]);
+
+  // Latest prices in the base currency for the holdings table
+  const baseLatestPriceMap = useMemo(
+    () => convertPrices(latestPriceMap, conversion, todayIsoDate()),
+    [latestPriceMap, conversion]
+  );
+
+  // Combined and per-asset-class totals of the holdings table
+  const holdingsSummary = useMemo(() => summarizeHoldings(
+    Object.entries(activeAssetClasses).map(([symbol, assetClass]) => {
+      const agg = aggregates[symbol];
+      return {
+        assetClass,
+        value: (agg?.total_quantity || 0) * (baseLatestPriceMap[symbol] || 0),
+        costBasis: agg?.total_cost_basis || 0,
+      };
+    })
+  ), [activeAssetClasses, aggregates, baseLatestPriceMap]);
+
+  // Per-symbol risk inputs from the ranks endpoints for the risk panel
+  const riskInputMap = useMemo(() => {
+    const map: Record<string, SymbolRiskInput> = {};
+    Object.entries(activeAssetClasses).forEach(([symbol, assetClass]) => {
+      if (assetClass === 'crypto') {
+        const r = cryptoRanksData.find(c => matchesCryptoSymbol(symbol, c.baseCurrency || ''));
+        if (r) map[symbol] = { ivol: r.ivol, predicted_beta: r.predicted_beta, risk_contribution: r.risk_contribution };
+      } else {
+        const r = ranksData.find(c => c.ticker?.toUpperCase() === symbol);
+        if (r) map[symbol] = { ivol: r.ivol ?? null, predicted_beta: r.predicted_beta ?? null, risk_contribution: r.risk_contribution ?? null };
+      }
+    });
+    return map;
+  }, [activeAssetClasses, ranksData, cryptoRanksData]);
+
+  // Sector per stock symbol for the what-if sector mix
+  const sectorMap = useMemo(() => {
+    const map: Record<string, string | null> = {};
+    Object.entries(activeAssetClasses).forEach(([symbol, assetClass]) => {
+      if (assetClass !== 'stocks') return;
+      const sector = ranksData.find(r => r.ticker?.toUpperCase() === symbol)?.sector;
+      map[symbol] = sector !== null && sector !== undefined && String(sector) ? String(sector) : null;
+    });
+    return map;
+  }, [activeAssetClasses, ranksData]);
+
+  // Appends simulated orders to each symbol's ledger as transactions dated today, in the base currency.
+  // The endpoint replaces a symbol's ledger, so nothing is saved unless every existing ledger loaded.
+  const handleCommitOrders = async (orders: WhatIfOrder[]): Promise<string[]> => {
+    if (!activePortfolio || !walletAddress) return [];
+
+    const bySymbol = new Map<string, PortfolioTransactionInput[]>();
+    orders.forEach(order => {
+      const rows = bySymbol.get(order.symbol) || [];
+      rows.push({ date: todayIsoDate(), action: order.action, quantity: order.quantity, price: order.price, currency: baseCurrency });
+      bySymbol.set(order.symbol, rows);
+    });
+
+    const symbols = Array.from(bySymbol.keys());
+    let existing: PortfolioLedger;
+    try {
+      existing = await fetchPortfolioLedger(activePortfolio.id, symbols);
+    } catch (err) {
+      console.error('Error loading transactions before committing orders:', err);
+      showStatus(`Orders not committed: ${err instanceof Error ? err.message : 'Unknown error'}`, 'error');
+      return [];
+    }
+
+    const saved: string[] = [];
+    try {
+      for (const symbol of symbols) {
+        await savePortfolioTransactions(activePortfolio.id, walletAddress, symbol, [...existing[symbol.toUpperCase()], ...(bySymbol.get(symbol) || [])]);
+        saved.push(symbol);
+      }
+      showStatus(`Recorded ${orders.length} order(s) as transactions`, 'success');
+    } catch (err) {
+      console.error('Error committing simulated orders:', err);
+      const partial = saved.length > 0 ? ` (already recorded for ${saved.join(', ')})` : '';
+      showStatus(`Failed to commit orders${partial}: ${err instanceof Error ? err.message : 'Unknown error'}`, 'error');
+    }
+    if (saved.length > 0) await loadLedger(saved);
+    return saved;
+  };
+
+  const handleSaveTargets = async (targetWeights: Record<string, number>, rebalanceTolerance: number) => {
+    if (!activePortfolio || !walletAddress) return;
+
+    try {
+      await savePortfolioTargets(activePortfolio.id, walletAddress, targetWeights, rebalanceTolerance);
+      setPortfolios(prev => prev.map(p =>
+        p.id === activePortfolio.id ? { ...p, target_weights: targetWeights, rebalance_tolerance: rebalanceTolerance } : p
+      ));
+      showStatus(`Saved target weights for ${activePortfolio.name}`);
+    } catch (err) {
+      console.error('Error saving target weights:', err);
+      showStatus(`Failed to save target weights: ${err instanceof Error ? err.message : 'Unknown error'}`, 'error');
+    }
+  };
+
+  const handleSaveCurrency = async (nextBase: string, fxRates: FxRateTable, symbolCurrencies: Record<string, string>) => {
+    if (!activePortfolio || !walletAddress) return;
+
+    try {
+      await savePortfolioCurrency(activePortfolio.id, walletAddress, nextBase, fxRates, symbolCurrencies);
+      setPortfolios(prev => prev.map(p =>
+        p.id === activePortfolio.id ? { ...p, base_currency: nextBase, fx_rates: fxRates, symbol_currencies: symbolCurrencies } : p
+      ));
+      setShowCurrencySettings(false);
+      showStatus(`Saved currency settings for ${activePortfolio.name}`);
+    } catch (err) {
+      console.error('Error saving currency settings:', err);
+      showStatus(`Failed to save currency settings: ${err instanceof Error ? err.message : 'Unknown error'}`, 'error');
+    }
+  };
 
   // Helper function to format numbers based on column and portfolio type
-  const formatNumber = (value: number, column: 'qty' | 'value' | 'costBasis' | 'unrealizedGain', portfolioType: 'crypto' | 'stocks'): string => {
+  const formatNumber = (value: number, column: 'qty' | 'value' | 'costBasis' | 'unrealizedGain', assetClass: AssetClass): string => {
     if (column === 'qty') {
       // Qty: 0 decimals for stocks, 4 decimals for crypto
-      const decimals = portfolioType === 'crypto' ? 4 : 0;
+      const decimals = quantityDecimalsFor(assetClass);
       return value.toFixed(decimals);
     } else {
       // Value, Cost Basis, Unrealized Gain: 0 decimals
@@ -1211,9 +966,171 @@ const Portfolio: React.FC = () => {
   };
 
   // Helper function to format currency values
-  const formatCurrency = (value: number, column: 'value' | 'costBasis' | 'unrealizedGain', portfolioType: 'crypto' | 'stocks'): string => {
-    const formatted = formatNumber(value, column, portfolioType);
-    return `$${formatted}`;
+  const formatCurrency = (value: number, column: 'value' | 'costBasis' | 'unrealizedGain', assetClass: AssetClass): string => {
+    const formatted = formatNumber(value, column, assetClass);
+    return `${currencyPrefix(baseCurrency)}${formatted}`;
+  };
+
+  // Prices are shown in the currency the symbol is quoted in
+  const formatPrice = (symbol: string, price: number | null | undefined) =>
+    price ? `${currencyPrefix(conversion.symbolCurrencies[symbol] || DEFAULT_BASE_CURRENCY)}${price.toFixed(2)}` : 'N/A';
+
+  const holdingRows = useMemo((): HoldingRow[] => {
+    if (!activePortfolio) return [];
+    return activePortfolio.symbols.map((symbol) => {
+      const assetClass = resolveAssetClass(activePortfolio.type, activePortfolio.asset_classes, symbol);
+      const agg = aggregates[symbol] || { symbol, total_quantity: 0, total_cost_basis: 0 };
+      const value = agg.total_quantity * (baseLatestPriceMap[symbol] || 0);
+      return {
+        symbol,
+        assetClass,
+        latest: latestPrices.find(lp => lp.symbol === symbol),
+        closes: findXDaysData(symbol, assetClass),
+        quantity: agg.total_quantity,
+        value,
+        costBasis: agg.total_cost_basis,
+        unrealizedGain: value - agg.total_cost_basis,
+        ranks: assetClass === 'stocks' ? ranksData.find(r => r.ticker?.toUpperCase() === symbol) : undefined,
+        cryptoRanks: assetClass === 'crypto' ? cryptoRanksData.find(r => matchesCryptoSymbol(symbol, r.baseCurrency || '')) : undefined,
+      };
+    });
+  }, [activePortfolio, aggregates, baseLatestPriceMap, latestPrices, cryptoData, stockData, ranksData, cryptoRanksData]);
+
+  // Rank columns of the active portfolio's type that are shown, in the saved order
+  const rankColumnHeaders = RANK_COLUMN_HEADERS[activePortfolio?.type ?? 'stocks'];
+  const rankColumnKeys = columnConfig
+    .filter(col => col.visible && col.key in rankColumnHeaders)
+    .sort((a, b) => a.order - b.order)
+    .map(col => col.key);
+
+  const holdingColumns: DataGridColumn<HoldingRow>[] = [
+    {
+      id: 'actions',
+      header: '',
+      accessor: () => null,
+      cell: row => (
+        <Button
+          onClick={() => removeSymbol(row.symbol)}
+          size="icon"
+          variant="ghost"
+          className="h-6 w-6 text-destructive hover:text-destructive hover:bg-destructive/10"
+        >
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      ),
+      width: 50,
+      sortable: false,
+      pinned: true,
+    },
+    {
+      id: 'symbol',
+      header: 'Symbol',
+      accessor: row => row.symbol,
+      cell: row => (
+        <span className="font-medium">
+          <button className="underline hover:text-primary" onClick={() => openTransactionsModal(row.symbol)}>
+            {row.symbol}
+          </button>
+          {activePortfolio?.type === 'mixed' && (
+            <Badge variant="outline" className="ml-2 text-xs">{ASSET_CLASS_LABELS[row.assetClass]}</Badge>
+          )}
+        </span>
+      ),
+      width: activePortfolio?.type === 'mixed' ? 160 : 100,
+      pinned: true,
+    },
+    // A row only fills the rank columns of its own asset class
+    ...rankColumnKeys.map((key): DataGridColumn<HoldingRow> => {
+      const hasColumn = (row: HoldingRow) => key in (row.assetClass === 'crypto' ? CRYPTO_COLUMN_HEADERS : STOCK_COLUMN_HEADERS);
+      return {
+        id: key,
+        header: rankColumnHeaders[key],
+        accessor: (row) => {
+          if (!hasColumn(row)) return null;
+          return row.assetClass === 'crypto' ? row.cryptoRanks?.[key as keyof CryptoRankData] ?? null : stockColumnValue(row.ranks, key);
+        },
+        format: (value, row) => {
+          if (!hasColumn(row)) return '—';
+          return row.assetClass === 'crypto' ? formatCryptoRankValue(key, value) : formatStockRankValue(key, value);
+        },
+        cell: (row, value) => {
+          if (!hasColumn(row)) return <span className="text-muted-foreground">—</span>;
+          return row.assetClass === 'crypto' ? formatCryptoRankValue(key, value) : formatStockRankValue(key, value);
+        },
+        width: key === 'industry' || key === 'sector' ? 150 : 130,
+        align: key === 'industry' || key === 'sector' ? 'left' : 'right',
+      };
+    }),
+    {
+      id: 'quantity',
+      header: 'Qty',
+      accessor: row => row.quantity,
+      format: (value, row) => formatNumber(row.quantity, 'qty', row.assetClass),
+      width: 110,
+      align: 'right',
+    },
+    {
+      id: 'value',
+      header: 'Value',
+      accessor: row => row.value,
+      format: (value, row) => (row.value ? formatCurrency(row.value, 'value', row.assetClass) : `${currencyPrefix(baseCurrency)}0`),
+      width: 110,
+      align: 'right',
+    },
+    {
+      id: 'costBasis',
+      header: 'Cost Basis',
+      accessor: row => row.costBasis,
+      format: (value, row) => (row.costBasis ? formatCurrency(row.costBasis, 'costBasis', row.assetClass) : `${currencyPrefix(baseCurrency)}0`),
+      width: 110,
+      align: 'right',
+    },
+    {
+      id: 'unrealizedGain',
+      header: 'PnL',
+      accessor: row => row.unrealizedGain,
+      format: (value, row) =>
+        `${row.unrealizedGain >= 0 ? '+' : ''}${currencyPrefix(baseCurrency)}${formatNumber(row.unrealizedGain, 'unrealizedGain', row.assetClass)}`,
+      cell: (row) => (
+        <span className={`font-medium ${row.unrealizedGain >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+          {row.unrealizedGain >= 0 ? '+' : ''}{currencyPrefix(baseCurrency)}{formatNumber(row.unrealizedGain, 'unrealizedGain', row.assetClass)}
+        </span>
+      ),
+      width: 110,
+      align: 'right',
+    },
+    {
+      id: 'latest',
+      header: 'Latest',
+      accessor: row => row.latest?.latestPrice ?? null,
+      format: (value, row) => formatPrice(row.symbol, value as number | null),
+      width: 110,
+      align: 'right',
+    },
+    ...RETURN_PERIODS.map((period): DataGridColumn<HoldingRow> => ({
+      id: period,
+      header: period,
+      accessor: row => row.latest?.returns[period] ?? null,
+      format: value => formatReturn(value as number | null),
+      cell: (row, value) => (
+        <div className="flex flex-col items-end">
+          <span className={`text-sm font-medium ${typeof value === 'number' && value >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+            {formatReturn(value as number | null)}
+          </span>
+          <span className="text-xs text-muted-foreground">{formatPrice(row.symbol, row.closes?.[`close_${period}` as const])}</span>
+        </div>
+      ),
+      width: 100,
+      align: 'right',
+    })),
+  ];
+
+  const holdingColumnOrder = placeRankedColumns(reconcileColumnOrder(gridOrder, holdingColumns.map(c => c.id)), rankColumnKeys);
+
+  // Dragging a rank column's header moves it in the saved layout
+  const handleColumnOrderChange = (order: string[]) => {
+    setGridOrder(order);
+    saveColumnConfig(reorderColumns(columnConfig, order.filter(id => rankColumnKeys.includes(id))));
   };
 
   return (
@@ -1232,7 +1149,7 @@ const Portfolio: React.FC = () => {
             </Button>
 
             <Button
-              onClick={refreshData}
+              onClick={() => refreshData(true)}
               disabled={isLoading || !activePortfolio}
               variant="outline"
               size="sm"
@@ -1241,6 +1158,12 @@ const Portfolio: React.FC = () => {
               Refresh Data
             </Button>
 
+            {ranksProgress && ranksProgress.total > 0 && (
+              <span className="self-center text-xs text-muted-foreground">
+                Loading ranks {ranksProgress.done}/{ranksProgress.total}
+              </span>
+            )}
+
             {activePortfolio && (
               <Button
                 onClick={() => setShowColumnConfig(!showColumnConfig)}
@@ -1252,6 +1175,28 @@ const Portfolio: React.FC = () => {
               </Button>
             )}
 
+            {activePortfolio && (
+              <Button
+                onClick={() => setShowCurrencySettings(true)}
+                variant="outline"
+                size="sm"
+              >
+                <Coins className="h-4 w-4 mr-2" />
+                Currency
+              </Button>
+            )}
+
+            {activePortfolio && (
+              <Button
+                onClick={() => setShowImportWizard(true)}
+                variant="outline"
+                size="sm"
+              >
+                <FileUp className="h-4 w-4 mr-2" />
+                Import CSV
+              </Button>
+            )}
+
             {activePortfolio && (
               <Button
                 onClick={() => setShowAddSymbolForm(!showAddSymbolForm)}
@@ -1296,11 +1241,12 @@ const Portfolio: React.FC = () => {
                   <select
                     id="portfolioType"
                     value={newPortfolioType}
-                    onChange={(e) => setNewPortfolioType(e.target.value as 'crypto' | 'stocks')}
+                    onChange={(e) => setNewPortfolioType(e.target.value as PortfolioType)}
                     className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
                   >
                     <option value="crypto">Crypto</option>
                     <option value="stocks">Stocks</option>
+                    <option value="mixed">Mixed (stocks and crypto)</option>
                   </select>
                 </div>
 
@@ -1333,9 +1279,21 @@ const Portfolio: React.FC = () => {
                   type="text"
                   value={newSymbol}
                   onChange={(e) => setNewSymbol(e.target.value.toUpperCase())}
-                  placeholder={activePortfolio.type === 'crypto' ? 'BTC, ETH, DOT' : 'AAPL, MSFT, GOOGL'}
+                  placeholder={(activePortfolio.type === 'mixed' ? newSymbolAssetClass : activePortfolio.type) === 'crypto' ? 'BTC, ETH, DOT' : 'AAPL, MSFT, GOOGL'}
                   className="flex-1"
                 />
+                {activePortfolio.type === 'mixed' && (
+                  <select
+                    value={newSymbolAssetClass}
+                    onChange={(e) => setNewSymbolAssetClass(e.target.value as AssetClass)}
+                    className="flex h-10 w-40 rounded-md border border-input bg-background px-3 py-2 text-sm"
+                    aria-label="Asset class"
+                  >
+                    {ASSET_CLASSES.map(assetClass => (
+                      <option key={assetClass} value={assetClass}>{ASSET_CLASS_LABELS[assetClass]}</option>
+                    ))}
+                  </select>
+                )}
                 <Button type="button" onClick={addSymbol}>
                   <Plus className="h-4 w-4 mr-2" />
                   Add
@@ -1355,37 +1313,20 @@ const Portfolio: React.FC = () => {
           <Card className="mb-8">
             <CardHeader>
               <CardTitle>Column Configuration</CardTitle>
-              <p className="text-sm text-muted-foreground">Choose which rank columns to display and drag to reorder them for {activePortfolio?.type === 'crypto' ? 'crypto' : 'stock'} portfolios</p>
+              <p className="text-sm text-muted-foreground">Choose which rank columns to display for {activePortfolio?.type === 'crypto' ? 'crypto' : activePortfolio?.type === 'mixed' ? 'mixed' : 'stock'} portfolios; drag the table headers to reorder them</p>
             </CardHeader>
             <CardContent>
+              <ColumnPresets syncStatus={columnSyncStatus} onApplyPreset={applyPreset} onReset={resetColumnConfig} />
               <div className="space-y-2">
                 {columnConfig
-                  .filter(col => {
-                    if (activePortfolio?.type === 'crypto') {
-                      // Crypto columns
-                      return ['crypto_ranks', 'lppl_side', 'lppl_pos_conf', 'lppl_neg_conf', 'strategy_side', 'strategy_profit_per_trade', 'strategy_expectancy', 'strategy_profit_factor', 'quoteCurrency', 'open', 'high', 'low', 'close', 'volume', 'ivol', 'predicted_beta', 'risk_contribution'].includes(col.key);
-                    } else {
-                      // Stock columns
-                      return !['crypto_ranks', 'lppl_side', 'lppl_pos_conf', 'lppl_neg_conf', 'strategy_side', 'strategy_profit_per_trade', 'strategy_expectancy', 'strategy_profit_factor', 'quoteCurrency', 'open', 'high', 'low', 'close', 'volume'].includes(col.key);
-                    }
-                  })
+                  .filter(col => col.key in rankColumnHeaders)
                   .sort((a, b) => a.order - b.order)
-                  .map((col, index) => (
+                  .map(col => (
                   <div
                     key={col.key}
-                    draggable
-                    onDragStart={(e) => handleDragStart(e, index)}
-                    onDragOver={handleDragOver}
-                    onDrop={(e) => handleDrop(e, index)}
-                    onDragEnd={handleDragEnd}
-                    className={`flex items-center justify-between p-3 border rounded cursor-move transition-colors ${
-                      draggedIndex === index ? 'opacity-50 bg-muted' : 'hover:bg-muted/50'
-                    }`}
+                    className="flex items-center justify-between p-3 border rounded transition-colors hover:bg-muted/50"
                   >
                     <div className="flex items-center space-x-3">
-                      <div className="text-muted-foreground cursor-grab active:cursor-grabbing">
-                        ⋮⋮
-                      </div>
                       <input
                         type="checkbox"
                         id={`col-${col.key}`}
@@ -1478,9 +1419,12 @@ const Portfolio: React.FC = () => {
                   <CardHeader>
                     <CardTitle className="flex items-center justify-between">
                       <span>{portfolio.name}</span>
-                      <Badge variant={portfolio.type === 'crypto' ? 'default' : 'secondary'}>
-                        {portfolio.type === 'crypto' ? 'Cryptocurrency' : 'Stocks'}
-                      </Badge>
+                      <span className="flex items-center gap-2">
+                        <Badge variant="outline">{portfolio.base_currency || DEFAULT_BASE_CURRENCY}</Badge>
+                        <Badge variant={portfolio.type === 'crypto' ? 'default' : portfolio.type === 'mixed' ? 'outline' : 'secondary'}>
+                          {PORTFOLIO_TYPE_LABELS[portfolio.type]}
+                        </Badge>
+                      </span>
                     </CardTitle>
                   </CardHeader>
                   <CardContent>
@@ -1496,314 +1440,116 @@ const Portfolio: React.FC = () => {
                           Add Your First Symbol
                         </Button>
                       </div>
-                    ) : isInitialLoading ? (
-                      <Table>
-                        <TableHeader>
-                          <TableRow>
-                            <TableHead className="w-[50px]"></TableHead>
-                            <SortableHeader column="symbol">Symbol</SortableHeader>
-                            <TableHead className="text-right">Qty</TableHead>
-                            <TableHead className="text-right">Value</TableHead>
-                            <TableHead className="text-right">Cost Basis</TableHead>
-                            <TableHead className="text-right">PnL</TableHead>
-                            <SortableHeader column="latest" className="text-right">Latest</SortableHeader>
-                            <SortableHeader column="1d" className="text-right">1d</SortableHeader>
-                            <SortableHeader column="7d" className="text-right">7d</SortableHeader>
-                            <SortableHeader column="30d" className="text-right">30d</SortableHeader>
-                            <SortableHeader column="60d" className="text-right">60d</SortableHeader>
-                            <SortableHeader column="90d" className="text-right">90d</SortableHeader>
-                            <SortableHeader column="120d" className="text-right">120d</SortableHeader>
-                          </TableRow>
-                        </TableHeader>
-                        <TableBody>
-                          {Array.from({ length: Math.min(portfolio.symbols.length, 5) }).map((_, i) => (
-                            <TableRowSkeleton key={i} />
-                          ))}
-                        </TableBody>
-                      </Table>
                     ) : (
-                      <Table>
-                        <TableHeader>
-                          <TableRow>
-                            <TableHead className="w-[50px]"></TableHead>
-                            <SortableHeader column="symbol">Symbol</SortableHeader>
-                            {portfolio.type === 'stocks' && columnConfig
-                              .filter(col => col.visible)
-                              .sort((a, b) => a.order - b.order)
-                              .map(col => (
-                                <TableHead key={col.key} className={col.key === 'industry' || col.key === 'sector' ? 'text-left' : 'text-right'}>
-                                  {col.key === 'fundamental' && 'Fundamental Rank'}
-                                  {col.key === 'technical' && 'Technical Rank'}
-                                  {col.key === 'ivol' && 'IVol'}
-                                  {col.key === 'predicted_beta' && 'Predicted Beta'}
-                                  {col.key === 'risk_contribution' && 'Risk Contribution'}
-                                  {col.key === 'industry' && 'Industry'}
-                                  {col.key === 'sector' && 'Sector'}
-                                  {col.key === 'mcap' && 'Market Cap'}
-                                  {col.key === 'isADR' && 'ADR'}
-                                  {col.key === 'isActive' && 'Active'}
-                                  {col.key === 'reportingCurrency' && 'Currency'}
-                                  {col.key === 'td_resistance' && 'Resistance'}
-                                  {col.key === 'td_support' && 'Support'}
-                                  {col.key === 'tec_riskRangeHigh' && 'Risk Range High'}
-                                  {col.key === 'tec_riskRangeLow' && 'Risk Range Low'}
-                                  {col.key === 'tag' && 'Tag'}
-                                </TableHead>
-                              ))}
-                            {portfolio.type === 'crypto' && columnConfig
-                              .filter(col => ['crypto_ranks', 'lppl_side', 'lppl_pos_conf', 'lppl_neg_conf', 'strategy_side', 'strategy_profit_per_trade', 'strategy_expectancy', 'strategy_profit_factor', 'quoteCurrency', 'open', 'high', 'low', 'close', 'volume', 'ivol', 'predicted_beta', 'risk_contribution'].includes(col.key) && col.visible)
-                              .sort((a, b) => a.order - b.order)
-                              .map(col => (
-                                <TableHead key={col.key} className="text-right">
-                                  {col.key === 'crypto_ranks' && 'Crypto Rank'}
-                                  {col.key === 'lppl_side' && 'LPPL Side'}
-                                  {col.key === 'lppl_pos_conf' && 'LPPL Pos Conf'}
-                                  {col.key === 'lppl_neg_conf' && 'LPPL Neg Conf'}
-                                  {col.key === 'strategy_side' && 'Strategy Side'}
-                                  {col.key === 'strategy_profit_per_trade' && 'Strategy P/T'}
-                                  {col.key === 'strategy_expectancy' && 'Strategy Exp'}
-                                  {col.key === 'strategy_profit_factor' && 'Strategy PF'}
-                                  {col.key === 'quoteCurrency' && 'Quote Curr'}
-                                  {col.key === 'open' && 'Open'}
-                                  {col.key === 'high' && 'High'}
-                                  {col.key === 'low' && 'Low'}
-                                  {col.key === 'close' && 'Close'}
-                                  {col.key === 'volume' && 'Volume'}
-                                  {col.key === 'ivol' && 'IVol'}
-                                  {col.key === 'predicted_beta' && 'Beta'}
-                                  {col.key === 'risk_contribution' && 'Risk Contrib'}
-                                </TableHead>
-                              ))}
-                            <TableHead className="text-right">Qty</TableHead>
-                            <TableHead className="text-right">Value</TableHead>
-                            <SortableHeader column="costBasis" className="text-right">Cost Basis</SortableHeader>
-                            <SortableHeader column="unrealizedGain" className="text-right">PnL</SortableHeader>
-                            <SortableHeader column="latest" className="text-right">Latest</SortableHeader>
-                            <SortableHeader column="1d" className="text-right">1d</SortableHeader>
-                            <SortableHeader column="7d" className="text-right">7d</SortableHeader>
-                            <SortableHeader column="30d" className="text-right">30d</SortableHeader>
-                            <SortableHeader column="60d" className="text-right">60d</SortableHeader>
-                            <SortableHeader column="90d" className="text-right">90d</SortableHeader>
-                            <SortableHeader column="120d" className="text-right">120d</SortableHeader>
-                          </TableRow>
-                        </TableHeader>
-                        <TableBody>
-                          {getSortedSymbols(portfolio.symbols).map((symbol) => {
-                            const data = displayData.find(d =>
-                              (portfolio.type === 'crypto' && 'baseCurrency' in d && d.baseCurrency === symbol) ||
-                              (portfolio.type === 'stocks' && 'symbol' in d && d.symbol === symbol)
-                            );
-
-                            const latestData = latestPrices.find(lp => lp.symbol === symbol);
-                            const agg = aggregates[symbol] || { symbol, total_quantity: 0, total_cost_basis: 0 };
-                            const latest = latestData?.latestPrice || 0;
-                            const currentValue = agg.total_quantity * latest;
-                            const costBasis = agg.total_cost_basis;
-                            const unrealizedGain = currentValue - costBasis;
-
-                            // Get ranks data for stocks
-                            const ranksDataItem = portfolio.type === 'stocks' ? ranksData.find(r => r.ticker?.toUpperCase() === symbol) : null;
-
-                            // Get crypto ranks data for crypto
-                            const cryptoRanksDataItem = portfolio.type === 'crypto' ? cryptoRanksData.find(r => r.baseCurrency?.toUpperCase() === symbol) : null;
-
-                            const formatPrice = (price: number | null) => price ? `$${price.toFixed(2)}` : 'N/A';
-                            const formatReturn = (returnPct: number | null) => {
-                              if (returnPct === null) return '';
-                              const sign = returnPct >= 0 ? '+' : '';
-                              return `${sign}${returnPct.toFixed(2)}%`;
-                            };
-
-                            return (
-                              <TableRow key={symbol}>
-                                <TableCell>
-                                  <Button
-                                    onClick={() => removeSymbol(symbol)}
-                                    size="icon"
-                                    variant="ghost"
-                                    className="h-6 w-6 text-destructive hover:text-destructive hover:bg-destructive/10"
-                                  >
-                                    <Trash2 className="h-3 w-3" />
-                                  </Button>
-                                </TableCell>
-                                <TableCell className="font-medium">
-                                  <button className="underline hover:text-primary" onClick={() => openTransactionsModal(symbol)}>
-                                    {symbol}
-                                  </button>
-                                </TableCell>
-                                {portfolio.type === 'stocks' && columnConfig
-                                  .filter(col => col.visible)
-                                  .sort((a, b) => a.order - b.order)
-                                  .map(col => {
-                                    const rankData = ranksData.find(r => r.ticker?.toUpperCase() === symbol);
-                                    const value = rankData?.[col.key === 'fundamental' ? 'rankFundamental' :
-                                                     col.key === 'technical' ? 'rankTechnical' :
-                                                     col.key === 'ivol' ? 'ivol' :
-                                                     col.key === 'predicted_beta' ? 'predicted_beta' :
-                                                     col.key === 'risk_contribution' ? 'risk_contribution' :
-                                                     col.key === 'industry' ? 'industry' :
-                                                     col.key === 'sector' ? 'sector' :
-                                                     col.key === 'mcap' ? 'mcap' :
-                                                     col.key === 'isADR' ? 'isADR' :
-                                                     col.key === 'isActive' ? 'isActive' :
-                                                     col.key === 'reportingCurrency' ? 'reportingCurrency' :
-                                                     col.key === 'td_resistance' ? 'td__Resistance' :
-                                                     col.key === 'td_support' ? 'td__Support' :
-                                                     col.key === 'tec_riskRangeHigh' ? 'tec_riskRangeHigh' :
-                                                     col.key === 'tec_riskRangeLow' ? 'tec_riskRangeLow' :
-                                                     col.key === 'tag' ? 'tag' : col.key as keyof typeof rankData];
-
-                                    return (
-                                      <TableCell key={col.key} className={col.key === 'industry' || col.key === 'sector' ? 'text-left' : 'text-right'}>
-                                        {col.key === 'fundamental' && (value ? `${value}` : 'N/A')}
-                                        {col.key === 'technical' && (value ? `${value}` : 'N/A')}
-                                        {col.key === 'ivol' && (value ? `${value}%` : 'N/A')}
-                                        {col.key === 'predicted_beta' && (value ? `${value}` : 'N/A')}
-                                        {col.key === 'risk_contribution' && (value ? `${value}%` : 'N/A')}
-                                        {col.key === 'industry' && abbreviateSectorIndustry(value as string || '', 'industry')}
-                                        {col.key === 'sector' && abbreviateSectorIndustry(value as string || '', 'sector')}
-                                        {col.key === 'mcap' && (value ? `$${(value as number / 1e9).toFixed(1)}B` : 'N/A')}
-                                        {col.key === 'isADR' && (value ? 'Yes' : 'No')}
-                                        {col.key === 'isActive' && (value ? 'Yes' : 'No')}
-                                        {col.key === 'reportingCurrency' && (value || 'N/A')}
-                                        {col.key === 'td_resistance' && (value ? `$${value}` : 'N/A')}
-                                        {col.key === 'td_support' && (value ? `$${value}` : 'N/A')}
-                                        {col.key === 'tec_riskRangeHigh' && (value ? `$${value}` : 'N/A')}
-                                        {col.key === 'tec_riskRangeLow' && (value ? `$${value}` : 'N/A')}
-                                        {col.key === 'tag' && (value || 'N/A')}
-                                      </TableCell>
-                                    );
-                                  })}
-                                {portfolio.type === 'crypto' && columnConfig
-                                  .filter(col => ['crypto_ranks', 'lppl_side', 'lppl_pos_conf', 'lppl_neg_conf', 'strategy_side', 'strategy_profit_per_trade', 'strategy_expectancy', 'strategy_profit_factor', 'quoteCurrency', 'open', 'high', 'low', 'close', 'volume', 'ivol', 'predicted_beta', 'risk_contribution'].includes(col.key) && col.visible)
-                                  .sort((a, b) => a.order - b.order)
-                                  .map(col => {
-                                    let cellContent: React.ReactNode = 'N/A';
-
-                                    switch (col.key) {
-                                      case 'crypto_ranks':
-                                        cellContent = cryptoRanksDataItem?.crypto_ranks !== null && cryptoRanksDataItem?.crypto_ranks !== undefined ? cryptoRanksDataItem.crypto_ranks.toFixed(1) : 'N/A';
-                                        break;
-                                      case 'lppl_side':
-                                        cellContent = cryptoRanksDataItem?.lppl_side || 'N/A';
-                                        break;
-                                      case 'lppl_pos_conf':
-                                        cellContent = cryptoRanksDataItem?.lppl_pos_conf !== null && cryptoRanksDataItem?.lppl_pos_conf !== undefined ? cryptoRanksDataItem.lppl_pos_conf.toFixed(3) : 'N/A';
-                                        break;
-                                      case 'lppl_neg_conf':
-                                        cellContent = cryptoRanksDataItem?.lppl_neg_conf !== null && cryptoRanksDataItem?.lppl_neg_conf !== undefined ? cryptoRanksDataItem.lppl_neg_conf.toFixed(3) : 'N/A';
-                                        break;
-                                      case 'strategy_side':
-                                        cellContent = cryptoRanksDataItem?.strategy_side || 'N/A';
-                                        break;
-                                      case 'strategy_profit_per_trade':
-                                        cellContent = cryptoRanksDataItem?.strategy_profit_per_trade !== null && cryptoRanksDataItem?.strategy_profit_per_trade !== undefined ? cryptoRanksDataItem.strategy_profit_per_trade.toFixed(3) : 'N/A';
-                                        break;
-                                      case 'strategy_expectancy':
-                                        cellContent = cryptoRanksDataItem?.strategy_expectancy !== null && cryptoRanksDataItem?.strategy_expectancy !== undefined ? cryptoRanksDataItem.strategy_expectancy.toFixed(3) : 'N/A';
-                                        break;
-                                      case 'strategy_profit_factor':
-                                        cellContent = cryptoRanksDataItem?.strategy_profit_factor !== null && cryptoRanksDataItem?.strategy_profit_factor !== undefined ? cryptoRanksDataItem.strategy_profit_factor.toFixed(3) : 'N/A';
-                                        break;
-                                      case 'quoteCurrency':
-                                        cellContent = cryptoRanksDataItem?.quoteCurrency || 'N/A';
-                                        break;
-                                      case 'open':
-                                        cellContent = cryptoRanksDataItem?.open !== null && cryptoRanksDataItem?.open !== undefined ? `$${cryptoRanksDataItem.open.toFixed(2)}` : 'N/A';
-                                        break;
-                                      case 'high':
-                                        cellContent = cryptoRanksDataItem?.high !== null && cryptoRanksDataItem?.high !== undefined ? `$${cryptoRanksDataItem.high.toFixed(2)}` : 'N/A';
-                                        break;
-                                      case 'low':
-                                        cellContent = cryptoRanksDataItem?.low !== null && cryptoRanksDataItem?.low !== undefined ? `$${cryptoRanksDataItem.low.toFixed(2)}` : 'N/A';
-                                        break;
-                                      case 'close':
-                                        cellContent = cryptoRanksDataItem?.close !== null && cryptoRanksDataItem?.close !== undefined ? `$${cryptoRanksDataItem.close.toFixed(2)}` : 'N/A';
-                                        break;
-                                      case 'volume':
-                                        cellContent = cryptoRanksDataItem?.volume !== null && cryptoRanksDataItem?.volume !== undefined ? cryptoRanksDataItem.volume.toLocaleString() : 'N/A';
-                                        break;
-                                      case 'ivol':
-                                        cellContent = cryptoRanksDataItem?.ivol !== null && cryptoRanksDataItem?.ivol !== undefined ? cryptoRanksDataItem.ivol.toFixed(2) : 'N/A';
-                                        break;
-                                      case 'predicted_beta':
-                                        cellContent = cryptoRanksDataItem?.predicted_beta !== null && cryptoRanksDataItem?.predicted_beta !== undefined ? cryptoRanksDataItem.predicted_beta.toFixed(2) : 'N/A';
-                                        break;
-                                      case 'risk_contribution':
-                                        cellContent = cryptoRanksDataItem?.risk_contribution !== null && cryptoRanksDataItem?.risk_contribution !== undefined ? cryptoRanksDataItem.risk_contribution.toFixed(2) : 'N/A';
-                                        break;
-                                    }
-
-                                    return (
-                                      <TableCell key={col.key} className="text-right">
-                                        {cellContent}
-                                      </TableCell>
-                                    );
-                                  })}
-                                <TableCell className="text-right">{formatNumber(agg.total_quantity, 'qty', portfolio.type)}</TableCell>
-                                <TableCell className="text-right">{currentValue ? formatCurrency(currentValue, 'value', portfolio.type) : '$0'}</TableCell>
-                                <TableCell className="text-right">{costBasis ? formatCurrency(costBasis, 'costBasis', portfolio.type) : '$0'}</TableCell>
-                                <TableCell className="text-right">
-                                  <span className={`font-medium ${unrealizedGain >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                                    {unrealizedGain >= 0 ? '+' : ''}${formatNumber(unrealizedGain, 'unrealizedGain', portfolio.type)}
-                                  </span>
-                                </TableCell>
-                                <TableCell className="text-right">
-                                  {formatPrice(latestData?.latestPrice || null)}
-                                </TableCell>
-                                <TableCell className="text-right">
-                                  <div className="flex flex-col items-end">
-                                    <span className={`text-sm font-medium ${latestData?.returns['1d'] && latestData.returns['1d'] >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                                      {formatReturn(latestData?.returns['1d'] || null)}
-                                    </span>
-                                    <span className="text-xs text-muted-foreground">{formatPrice(data?.close_1d || null)}</span>
-                                  </div>
-                                </TableCell>
-                                <TableCell className="text-right">
-                                  <div className="flex flex-col items-end">
-                                    <span className={`text-sm font-medium ${latestData?.returns['7d'] && latestData.returns['7d'] >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                                      {formatReturn(latestData?.returns['7d'] || null)}
-                                    </span>
-                                    <span className="text-xs text-muted-foreground">{formatPrice(data?.close_7d || null)}</span>
-                                  </div>
-                                </TableCell>
-                                <TableCell className="text-right">
-                                  <div className="flex flex-col items-end">
-                                    <span className={`text-sm font-medium ${latestData?.returns['30d'] && latestData.returns['30d'] >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                                      {formatReturn(latestData?.returns['30d'] || null)}
-                                    </span>
-                                    <span className="text-xs text-muted-foreground">{formatPrice(data?.close_30d || null)}</span>
+                      <Tabs defaultValue="holdings" className="w-full">
+                        <TabsList className="mb-4">
+                          <TabsTrigger value="holdings">Holdings</TabsTrigger>
+                          <TabsTrigger value="allocation">Allocation</TabsTrigger>
+                          <TabsTrigger value="risk">Risk</TabsTrigger>
+                          <TabsTrigger value="whatif">What-If</TabsTrigger>
+                          <TabsTrigger value="performance">Performance</TabsTrigger>
+                          <TabsTrigger value="taxlots">Tax Lots</TabsTrigger>
+                        </TabsList>
+                        <TabsContent value="holdings" className="p-0 border-0">
+                          {missingCurrencies.length > 0 && (
+                            <p className="text-sm text-destructive mb-4">
+                              No FX rates for {missingCurrencies.join(', ')}; those amounts are not converted to {baseCurrency}.{' '}
+                              <button className="underline" onClick={() => setShowCurrencySettings(true)}>Add rates</button>
+                            </p>
+                          )}
+                          {!isInitialLoading && holdingsSummary.total.count > 0 && (
+                            <div className={`grid grid-cols-1 gap-4 mb-4 ${portfolio.type === 'mixed' ? 'md:grid-cols-3' : 'md:grid-cols-1'}`}>
+                              {[
+                                { label: 'Total', totals: holdingsSummary.total },
+                                ...(portfolio.type === 'mixed'
+                                  ? ASSET_CLASSES.map(assetClass => ({ label: ASSET_CLASS_LABELS[assetClass], totals: holdingsSummary.byAssetClass[assetClass] }))
+                                  : []),
+                              ].map(({ label, totals }) => (
+                                <div key={label} className="p-4 border rounded-lg">
+                                  <div className="flex items-center justify-between">
+                                    <p className="text-xs text-muted-foreground">{label} · {totals.count} symbol(s)</p>
+                                    {label !== 'Total' && holdingsSummary.total.value > 0 && (
+                                      <p className="text-xs text-muted-foreground">{((totals.value / holdingsSummary.total.value) * 100).toFixed(1)}% of value</p>
+                                    )}
                                   </div>
-                                </TableCell>
-                                <TableCell className="text-right">
-                                  <div className="flex flex-col items-end">
-                                    <span className={`text-sm font-medium ${latestData?.returns['60d'] && latestData.returns['60d'] >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                                      {formatReturn(latestData?.returns['60d'] || null)}
+                                  <p className="text-xl font-semibold">{currencyPrefix(baseCurrency)}{totals.value.toFixed(0)}</p>
+                                  <p className="text-xs text-muted-foreground">
+                                    Cost {currencyPrefix(baseCurrency)}{totals.costBasis.toFixed(0)} ·{' '}
+                                    <span className={totals.unrealizedGain >= 0 ? 'text-green-600' : 'text-red-600'}>
+                                      {totals.unrealizedGain >= 0 ? '+' : '-'}{currencyPrefix(baseCurrency)}{Math.abs(totals.unrealizedGain).toFixed(0)}
                                     </span>
-                                    <span className="text-xs text-muted-foreground">{formatPrice(data?.close_60d || null)}</span>
-                                  </div>
-                                </TableCell>
-                                <TableCell className="text-right">
-                                  <div className="flex flex-col items-end">
-                                    <span className={`text-sm font-medium ${latestData?.returns['90d'] && latestData.returns['90d'] >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                                      {formatReturn(latestData?.returns['90d'] || null)}
-                                    </span>
-                                    <span className="text-xs text-muted-foreground">{formatPrice(data?.close_90d || null)}</span>
-                                  </div>
-                                </TableCell>
-                                <TableCell className="text-right">
-                                  <div className="flex flex-col items-end">
-                                    <span className={`text-sm font-medium ${latestData?.returns['120d'] && latestData.returns['120d'] >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                                      {formatReturn(latestData?.returns['120d'] || null)}
-                                    </span>
-                                    <span className="text-xs text-muted-foreground">{formatPrice(data?.close_120d || null)}</span>
-                                  </div>
-                                </TableCell>
-                              </TableRow>
-                            );
-                          })}
-                        </TableBody>
-                      </Table>
+                                  </p>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                          <DataGrid
+                            rows={holdingRows}
+                            columns={holdingColumns}
+                            getRowKey={row => row.symbol}
+                            columnOrder={holdingColumnOrder}
+                            onColumnOrderChange={handleColumnOrderChange}
+                            rowHeight={52}
+                            loading={isInitialLoading}
+                          />
+                        </TabsContent>
+                        <TabsContent value="allocation" className="p-0 border-0">
+                          <AllocationDrift
+                            portfolioId={portfolio.id}
+                            assetClasses={activeAssetClasses}
+                            symbols={portfolio.symbols}
+                            quantities={quantityMap}
+                            prices={currentPriceMap}
+                            baseCurrency={baseCurrency}
+                            targetWeights={portfolio.target_weights || {}}
+                            rebalanceTolerance={portfolio.rebalance_tolerance ?? 5}
+                            onSaveTargets={handleSaveTargets}
+                          />
+                        </TabsContent>
+                        <TabsContent value="risk" className="p-0 border-0">
+                          <PortfolioRisk
+                            portfolioId={portfolio.id}
+                            assetClasses={activeAssetClasses}
+                            symbols={portfolio.symbols}
+                            quantities={quantityMap}
+                            prices={currentPriceMap}
+                            conversion={conversion}
+                            riskInputs={riskInputMap}
+                          />
+                        </TabsContent>
+                        <TabsContent value="whatif" className="p-0 border-0">
+                          <WhatIfSimulator
+                            portfolioId={portfolio.id}
+                            baseCurrency={baseCurrency}
+                            assetClasses={activeAssetClasses}
+                            symbols={portfolio.symbols}
+                            quantities={quantityMap}
+                            costBases={costBasisMap}
+                            prices={currentPriceMap}
+                            riskInputs={riskInputMap}
+                            sectors={sectorMap}
+                            onCommit={handleCommitOrders}
+                          />
+                        </TabsContent>
+                        <TabsContent value="performance" className="p-0 border-0">
+                          <PortfolioPerformance
+                            portfolioId={portfolio.id}
+                            assetClasses={activeAssetClasses}
+                            symbols={portfolio.symbols}
+                            latestPrices={latestPriceMap}
+                            conversion={conversion}
+                          />
+                        </TabsContent>
+                        <TabsContent value="taxlots" className="p-0 border-0">
+                          <TaxLotsReport
+                            portfolioId={portfolio.id}
+                            portfolioName={portfolio.name}
+                            assetClasses={activeAssetClasses}
+                            symbols={portfolio.symbols}
+                            conversion={conversion}
+                          />
+                        </TabsContent>
+                      </Tabs>
                     )}
                   </CardContent>
                 </Card>
@@ -1851,7 +1597,7 @@ const Portfolio: React.FC = () => {
 
       {showTxModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
-          <div className="bg-background rounded-lg shadow-lg w-full max-w-3xl p-6">
+          <div className="bg-background rounded-lg shadow-lg w-full max-w-4xl p-6">
             <div className="flex items-center justify-between mb-4">
               <h2 className="text-xl font-semibold">Edit Transactions: {txSymbol}</h2>
               <Button variant="ghost" size="icon" onClick={() => setShowTxModal(false)}>
@@ -1864,15 +1610,17 @@ const Portfolio: React.FC = () => {
                   <TableRow>
                     <TableHead>Date</TableHead>
                     <TableHead>Action</TableHead>
-                    <TableHead className="text-right">Quantity</TableHead>
-                    <TableHead className="text-right">Price</TableHead>
+                    <TableHead className="text-right">Quantity / Ratio</TableHead>
+                    <TableHead className="text-right">Price / Amount</TableHead>
+                    <TableHead className="w-[90px]">Currency</TableHead>
+                    <TableHead>Lot</TableHead>
                     <TableHead className="w-[50px]"></TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {txRows.length === 0 && (
                     <TableRow>
-                      <TableCell colSpan={5} className="text-center text-muted-foreground">No transactions yet</TableCell>
+                      <TableCell colSpan={7} className="text-center text-muted-foreground">No transactions yet</TableCell>
                     </TableRow>
                   )}
                   {txRows.map((row, idx) => (
@@ -1883,18 +1631,72 @@ const Portfolio: React.FC = () => {
                       <TableCell>
                         <select
                           value={row.action}
-                          onChange={(e) => updateTxRow(idx, 'action', e.target.value as 'BUY' | 'SELL')}
+                          onChange={(e) => updateTxAction(idx, e.target.value as TransactionAction)}
                           className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
                         >
-                          <option value="BUY">BUY</option>
-                          <option value="SELL">SELL</option>
+                          {TRANSACTION_ACTIONS.map(action => (
+                            <option key={action} value={action}>{TRANSACTION_ACTION_LABELS[action]}</option>
+                          ))}
                         </select>
                       </TableCell>
                       <TableCell className="text-right">
-                        <Input type="number" step="any" value={row.quantity} onChange={(e) => updateTxRow(idx, 'quantity', e.target.value)} className="text-right" />
+                        {isCashAction(row.action) ? (
+                          <span className="text-muted-foreground">—</span>
+                        ) : (
+                          <Input
+                            type="number"
+                            step="any"
+                            value={row.quantity}
+                            onChange={(e) => updateTxRow(idx, 'quantity', e.target.value)}
+                            className="text-right"
+                            title={row.action === 'SPLIT' ? 'New shares per old share, e.g. 4 for a 4-for-1 split' : undefined}
+                          />
+                        )}
                       </TableCell>
                       <TableCell className="text-right">
-                        <Input type="number" step="any" value={row.price} onChange={(e) => updateTxRow(idx, 'price', e.target.value)} className="text-right" />
+                        {isCashAction(row.action) ? (
+                          <Input type="number" step="any" value={row.amount ?? 0} onChange={(e) => updateTxRow(idx, 'amount', e.target.value)} className="text-right" />
+                        ) : row.action === 'SPLIT' ? (
+                          <span className="text-muted-foreground">—</span>
+                        ) : (
+                          <Input
+                            type="number"
+                            step="any"
+                            value={row.price}
+                            onChange={(e) => updateTxRow(idx, 'price', e.target.value)}
+                            className="text-right"
+                            title={row.action === 'STAKING_REWARD' ? 'Fair value per unit when received' : row.action === 'TRANSFER_IN' ? 'Carried-over cost per unit' : undefined}
+                          />
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {row.action === 'SPLIT' ? (
+                          <span className="text-muted-foreground">—</span>
+                        ) : (
+                          <Input
+                            value={row.currency || ''}
+                            onChange={(e) => updateTxRow(idx, 'currency', e.target.value.toUpperCase() || undefined)}
+                            placeholder={conversion.symbolCurrencies[txSymbol] || baseCurrency}
+                          />
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {isLotOpeningAction(row.action) ? (
+                          <span className="text-xs text-muted-foreground">{txLotIds[idx]}</span>
+                        ) : isDisposalAction(row.action) ? (
+                          <select
+                            value={row.lot_id || ''}
+                            onChange={(e) => updateTxRow(idx, 'lot_id', e.target.value || undefined)}
+                            className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                          >
+                            <option value="">Default</option>
+                            {txRows.map((buy, buyIdx) => txLotIds[buyIdx] && buy.date <= row.date ? (
+                              <option key={txLotIds[buyIdx]!} value={txLotIds[buyIdx]!}>
+                                {buy.date} ({buy.quantity} @ {buy.price})
+                              </option>
+                            ) : null)}
+                          </select>
+                        ) : null}
                       </TableCell>
                       <TableCell>
                         <Button variant="ghost" size="icon" onClick={() => removeTxRow(idx)}>
@@ -1908,9 +1710,14 @@ const Portfolio: React.FC = () => {
             </div>
 
             <div className="flex items-center justify-between mt-4">
-              <Button variant="outline" onClick={addTxRow}>
-                <Plus className="h-4 w-4 mr-2" /> Add Row
-              </Button>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={addTxRow}>
+                  <Plus className="h-4 w-4 mr-2" /> Add Row
+                </Button>
+                <Button variant="ghost" onClick={() => { setShowTxModal(false); setShowImportWizard(true); }}>
+                  <FileUp className="h-4 w-4 mr-2" /> Import CSV
+                </Button>
+              </div>
               <div className="flex gap-2">
                 <Button variant="outline" onClick={() => setShowTxModal(false)}>Cancel</Button>
                 <Button onClick={saveTransactions}>
@@ -1921,6 +1728,37 @@ const Portfolio: React.FC = () => {
           </div>
         </div>
       )}
+      {showCurrencySettings && activePortfolio && (
+        <CurrencySettings
+          portfolioId={activePortfolio.id}
+          portfolioName={activePortfolio.name}
+          baseCurrency={baseCurrency}
+          fxRates={activePortfolio.fx_rates || {}}
+          symbols={activePortfolio.symbols}
+          reportedCurrencies={reportedCurrencies}
+          symbolCurrencyOverrides={activePortfolio.symbol_currencies || {}}
+          missingCurrencies={missingCurrencies}
+          onSave={handleSaveCurrency}
+          onClose={() => setShowCurrencySettings(false)}
+        />
+      )}
+      {showImportWizard && activePortfolio && walletAddress && (
+        <TransactionImportWizard
+          portfolioId={activePortfolio.id}
+          portfolioName={activePortfolio.name}
+          portfolioType={activePortfolio.type}
+          portfolioSymbols={activePortfolio.symbols}
+          assetClasses={activeAssetClasses}
+          username={walletAddress}
+          onClose={() => setShowImportWizard(false)}
+          onImported={async (message) => {
+            setShowImportWizard(false);
+            showStatus(message, 'success');
+            // Reload portfolios so newly added symbols appear, which also refreshes prices and aggregates
+            await loadPortfolios();
+          }}
+        />
+      )}
     </div>
   );
 };
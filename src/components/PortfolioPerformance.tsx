@@ -0,0 +1,174 @@
+import { useQueryClient } from '@tanstack/react-query';
+import { RefreshCw } from 'lucide-react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { quantityDecimalsFor } from '../lib/assetClasses';
+import { convertLedger, convertPrices, convertPriceHistory, currencyPrefix } from '../lib/fx';
+import { fetchPortfolioLedger, fetchPriceHistoryByAssetClass } from '../lib/portfolioData';
+import { computePortfolioPerformance, todayIsoDate } from '../lib/portfolioPerformance';
+import { AssetClass, CurrencyConversion, PortfolioLedger, PriceHistory } from '../types/portfolio';
+import { EquityCurveChart } from './EquityCurveChart';
+import { TableRowSkeleton } from './LoadingSkeleton';
+import { Button } from './ui/Button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+
+interface PortfolioPerformanceProps {
+  portfolioId: string;
+  assetClasses: Record<string, AssetClass>;
+  symbols: string[];
+  latestPrices: Record<string, number>; // in each symbol's own currency
+  conversion: CurrencyConversion;
+}
+
+const formatPercent = (value: number | null) => {
+  if (value === null || !Number.isFinite(value)) return 'N/A';
+  const pct = value * 100;
+  return `${pct >= 0 ? '+' : ''}${pct.toFixed(2)}%`;
+};
+
+const formatMoney = (value: number, currency: string) => {
+  const sign = value < 0 ? '-' : '';
+  return `${sign}${currencyPrefix(currency)}${Math.abs(value).toFixed(0)}`;
+};
+
+const gainClass = (value: number | null) =>
+  value === null || !Number.isFinite(value) ? 'text-muted-foreground' : value >= 0 ? 'text-green-600' : 'text-red-600';
+
+export const PortfolioPerformance: React.FC<PortfolioPerformanceProps> = ({
+  portfolioId,
+  assetClasses,
+  symbols,
+  latestPrices,
+  conversion,
+}) => {
+  const queryClient = useQueryClient();
+  const [ledger, setLedger] = useState<PortfolioLedger>({});
+  const [priceHistory, setPriceHistory] = useState<PriceHistory>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadData = useCallback(async () => {
+    if (!portfolioId || symbols.length === 0) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [ledgerData, historyData] = await Promise.all([
+        fetchPortfolioLedger(portfolioId, symbols),
+        fetchPriceHistoryByAssetClass(queryClient, assetClasses),
+      ]);
+      setLedger(ledgerData);
+      setPriceHistory(historyData);
+    } catch (err) {
+      console.error('Error loading performance data:', err);
+      setError(`Failed to load performance data: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [portfolioId, JSON.stringify(assetClasses), symbols.join(','), queryClient]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  // The engine runs entirely in the base currency: trades at the rate of their date, closes at the rate of theirs
+  const performance = useMemo(
+    () => computePortfolioPerformance(
+      convertLedger(ledger, conversion),
+      convertPriceHistory(priceHistory, conversion),
+      convertPrices(latestPrices, conversion, todayIsoDate())
+    ),
+    [ledger, priceHistory, latestPrices, conversion]
+  );
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        {Array.from({ length: Math.min(symbols.length, 5) }).map((_, i) => (
+          <TableRowSkeleton key={i} columns={6} />
+        ))}
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-destructive">{error}</p>;
+  }
+
+  if (!performance) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <p>No transactions recorded for this portfolio yet. Add transactions from the holdings table to see performance.</p>
+      </div>
+    );
+  }
+
+  const stats: Array<{ label: string; value: string; className: string; hint?: string }> = [
+    { label: 'Time-Weighted Return', value: formatPercent(performance.twr), className: gainClass(performance.twr), hint: performance.annualizedTwr !== null ? `${formatPercent(performance.annualizedTwr)} annualized` : undefined },
+    { label: 'Money-Weighted Return (XIRR)', value: formatPercent(performance.xirr), className: gainClass(performance.xirr), hint: 'annualized' },
+    { label: 'Realized P&L', value: formatMoney(performance.realizedPnl, conversion.base), className: gainClass(performance.realizedPnl) },
+    { label: 'Unrealized P&L', value: formatMoney(performance.unrealizedPnl, conversion.base), className: gainClass(performance.unrealizedPnl) },
+    { label: 'Income', value: formatMoney(performance.income, conversion.base), className: '', hint: 'dividends, interest, rewards' },
+    { label: 'Fees', value: formatMoney(performance.fees, conversion.base), className: performance.fees > 0 ? 'text-red-600' : '' },
+    { label: 'Market Value', value: formatMoney(performance.marketValue, conversion.base), className: '' },
+    { label: 'Cost Basis', value: formatMoney(performance.costBasis, conversion.base), className: '' },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {performance.startDate} to {performance.endDate} · average cost basis · {conversion.base}
+        </p>
+        <Button onClick={loadData} variant="outline" size="sm">
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Recalculate
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {stats.map(stat => (
+          <div key={stat.label} className="p-4 border rounded-lg">
+            <p className="text-xs text-muted-foreground">{stat.label}</p>
+            <p className={`text-xl font-semibold ${stat.className}`}>{stat.value}</p>
+            {stat.hint && <p className="text-xs text-muted-foreground">{stat.hint}</p>}
+          </div>
+        ))}
+      </div>
+
+      <EquityCurveChart series={performance.series} conversion={conversion} />
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Symbol</TableHead>
+            <TableHead className="text-right">Qty</TableHead>
+            <TableHead className="text-right">Value</TableHead>
+            <TableHead className="text-right">Cost Basis</TableHead>
+            <TableHead className="text-right">Realized</TableHead>
+            <TableHead className="text-right">Unrealized</TableHead>
+            <TableHead className="text-right">Income − Fees</TableHead>
+            <TableHead className="text-right">Total P&L</TableHead>
+            <TableHead className="text-right">Contribution</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {[...performance.symbols]
+            .sort((a, b) => b.contribution - a.contribution)
+            .map(row => (
+              <TableRow key={row.symbol}>
+                <TableCell className="font-medium">{row.symbol}</TableCell>
+                <TableCell className="text-right">{row.quantity.toFixed(quantityDecimalsFor(assetClasses[row.symbol] ?? 'stocks'))}</TableCell>
+                <TableCell className="text-right">{formatMoney(row.marketValue, conversion.base)}</TableCell>
+                <TableCell className="text-right">{formatMoney(row.costBasis, conversion.base)}</TableCell>
+                <TableCell className={`text-right ${gainClass(row.realizedPnl)}`}>{formatMoney(row.realizedPnl, conversion.base)}</TableCell>
+                <TableCell className={`text-right ${gainClass(row.unrealizedPnl)}`}>{formatMoney(row.unrealizedPnl, conversion.base)}</TableCell>
+                <TableCell className="text-right">{formatMoney(row.income - row.fees, conversion.base)}</TableCell>
+                <TableCell className={`text-right font-medium ${gainClass(row.totalPnl)}`}>{formatMoney(row.totalPnl, conversion.base)}</TableCell>
+                <TableCell className={`text-right ${gainClass(row.contribution)}`}>{formatPercent(row.contribution)}</TableCell>
+              </TableRow>
+            ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
@@ -0,0 +1,274 @@
+import { useQueryClient } from '@tanstack/react-query';
+import { AlertTriangle, RefreshCw } from 'lucide-react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { convertPriceHistory, currencyPrefix } from '../lib/fx';
+import { fetchPriceHistoryByAssetClass } from '../lib/portfolioData';
+import { computeHistoricalVaR, computePortfolioRisk, computeWeightedDailyReturns, RiskHolding } from '../lib/portfolioRisk';
+import { AssetClass, CurrencyConversion, PriceHistory } from '../types/portfolio';
+import BarChart from './BarChart';
+import ChartContainer from './ChartContainer';
+import { Badge } from './ui/badge';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Label } from './ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+
+export interface SymbolRiskInput {
+  ivol: number | null;
+  predicted_beta: number | null;
+  risk_contribution: number | null;
+}
+
+interface PortfolioRiskProps {
+  portfolioId: string;
+  assetClasses: Record<string, AssetClass>;
+  symbols: string[];
+  quantities: Record<string, number>;
+  prices: Record<string, number>; // in the base currency
+  conversion: CurrencyConversion;
+  riskInputs: Record<string, SymbolRiskInput>;
+}
+
+const selectClassName = 'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm';
+
+const formatPercent = (value: number | null, decimals: number = 2) =>
+  value === null || !Number.isFinite(value) ? 'N/A' : `${(value * 100).toFixed(decimals)}%`;
+
+const formatMoney = (value: number | null, currency: string) =>
+  value === null || !Number.isFinite(value) ? 'N/A' : `${currencyPrefix(currency)}${value.toFixed(0)}`;
+
+export const PortfolioRisk: React.FC<PortfolioRiskProps> = ({
+  portfolioId,
+  assetClasses,
+  symbols,
+  quantities,
+  prices,
+  conversion,
+  riskInputs,
+}) => {
+  const queryClient = useQueryClient();
+  const [priceHistory, setPriceHistory] = useState<PriceHistory>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const assetClassList = symbols.map(symbol => assetClasses[symbol] ?? 'stocks');
+  const allCrypto = assetClassList.length > 0 && assetClassList.every(c => c === 'crypto');
+  const anyCrypto = assetClassList.some(c => c === 'crypto');
+  const [marketVolatility, setMarketVolatility] = useState(allCrypto ? '60' : '16');
+  const [concentrationThreshold, setConcentrationThreshold] = useState('25');
+  const [confidence, setConfidence] = useState(0.95);
+
+  const loadHistory = useCallback(async () => {
+    if (symbols.length === 0) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      setPriceHistory(await fetchPriceHistoryByAssetClass(queryClient, assetClasses));
+    } catch (err) {
+      console.error('Error loading price history:', err);
+      setError(`Failed to load price history: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [portfolioId, JSON.stringify(assetClasses), symbols.join(','), queryClient]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const threshold = Math.max(0, parseFloat(concentrationThreshold) || 0) / 100;
+
+  const holdings: RiskHolding[] = useMemo(() => symbols.map(symbol => {
+    const input = riskInputs[symbol];
+    return {
+      symbol,
+      value: (quantities[symbol] || 0) * (prices[symbol] || 0),
+      ivol: input?.ivol ?? null,
+      beta: input?.predicted_beta ?? null,
+      reportedRiskContribution: input?.risk_contribution ?? null,
+    };
+  }), [symbols, quantities, prices, riskInputs]);
+
+  const risk = useMemo(
+    () => computePortfolioRisk(holdings, Math.max(0, parseFloat(marketVolatility) || 0) / 100, threshold),
+    [holdings, marketVolatility, threshold]
+  );
+
+  const historical = useMemo(() => {
+    const weights: Record<string, number> = {};
+    risk.rows.forEach(row => {
+      weights[row.symbol.toUpperCase()] = row.weight;
+    });
+    // Returns are measured in the base currency, so currency moves count as risk
+    const returns = computeWeightedDailyReturns(weights, convertPriceHistory(priceHistory, conversion));
+    // Crypto trades every calendar day, so any crypto holding puts the series on a 365-day year
+    return computeHistoricalVaR(returns, confidence, anyCrypto ? 365 : 252);
+  }, [risk.rows, priceHistory, conversion, confidence, anyCrypto]);
+
+  if (risk.totalValue <= 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <p>Risk analytics need holdings with a quantity and a price. Add transactions from the holdings table first.</p>
+      </div>
+    );
+  }
+
+  const chartRows = [...risk.rows].filter(r => r.weight > 0).sort((a, b) => (b.riskShare ?? 0) - (a.riskShare ?? 0));
+  const chartData = {
+    tooltip: {
+      trigger: 'axis',
+      valueFormatter: (value: number) => `${value}%`
+    },
+    xAxis: {
+      type: 'category',
+      data: chartRows.map(r => r.symbol)
+    },
+    yAxis: {
+      type: 'value',
+      axisLabel: { formatter: '{value}%' }
+    },
+    series: [
+      {
+        name: 'Weight',
+        type: 'bar',
+        data: chartRows.map(r => Number((r.weight * 100).toFixed(2)))
+      },
+      {
+        name: 'Risk Contribution',
+        type: 'bar',
+        data: chartRows.map(r => (r.riskShare !== null ? Number((r.riskShare * 100).toFixed(2)) : null)),
+        markLine: {
+          symbol: 'none',
+          label: { formatter: 'Threshold' },
+          lineStyle: { type: 'dashed', color: '#dc2626' },
+          data: [{ yAxis: threshold * 100 }]
+        }
+      }
+    ]
+  };
+
+  const stats: Array<{ label: string; value: string; hint?: string }> = [
+    { label: 'Portfolio Beta', value: risk.beta !== null ? risk.beta.toFixed(2) : 'N/A', hint: `${formatPercent(risk.coverage, 0)} of value covered` },
+    { label: 'Est. Volatility', value: formatPercent(risk.volatility), hint: risk.systematicShare !== null ? `${formatPercent(risk.systematicShare, 0)} systematic` : 'annualized' },
+    { label: 'Realized Volatility', value: formatPercent(historical.realizedVolatility), hint: 'annualized, current weights' },
+    { label: `1-Day VaR (${(confidence * 100).toFixed(0)}%)`, value: formatPercent(historical.var), hint: historical.var !== null ? formatMoney(historical.var * risk.totalValue, conversion.base) : undefined },
+    { label: `1-Day CVaR (${(confidence * 100).toFixed(0)}%)`, value: formatPercent(historical.cvar), hint: historical.cvar !== null ? formatMoney(historical.cvar * risk.totalValue, conversion.base) : undefined },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor={`market-vol-${portfolioId}`}>Market Volatility (%)</Label>
+            <Input
+              id={`market-vol-${portfolioId}`}
+              type="number"
+              step="1"
+              min="0"
+              value={marketVolatility}
+              onChange={(e) => setMarketVolatility(e.target.value)}
+              className="w-32"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`concentration-${portfolioId}`}>Concentration Threshold (%)</Label>
+            <Input
+              id={`concentration-${portfolioId}`}
+              type="number"
+              step="1"
+              min="0"
+              value={concentrationThreshold}
+              onChange={(e) => setConcentrationThreshold(e.target.value)}
+              className="w-32"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`var-confidence-${portfolioId}`}>VaR Confidence</Label>
+            <select
+              id={`var-confidence-${portfolioId}`}
+              value={confidence}
+              onChange={(e) => setConfidence(Number(e.target.value))}
+              className={selectClassName}
+            >
+              <option value={0.95}>95%</option>
+              <option value={0.99}>99%</option>
+            </select>
+          </div>
+        </div>
+        <Button onClick={loadHistory} variant="outline" size="sm" disabled={isLoading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+          Reload History
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {risk.concentrated.length > 0 && (
+        <div className="flex items-start gap-2 p-4 border border-red-300 rounded-lg bg-red-50 dark:bg-red-950/30 text-sm">
+          <AlertTriangle className="h-4 w-4 mt-0.5 text-red-600" />
+          <span>
+            Concentrated risk: {risk.concentrated.map(r => `${r.symbol} (${formatPercent(r.riskShare, 1)})`).join(', ')} each
+            contribute more than {formatPercent(threshold, 0)} of portfolio risk.
+          </span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
+        {stats.map(stat => (
+          <div key={stat.label} className="p-4 border rounded-lg">
+            <p className="text-xs text-muted-foreground">{stat.label}</p>
+            <p className="text-xl font-semibold">{stat.value}</p>
+            {stat.hint && <p className="text-xs text-muted-foreground">{stat.hint}</p>}
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {historical.observations > 0
+          ? `Historical VaR from ${historical.observations} daily returns (${historical.startDate} to ${historical.endDate}) at current weights.`
+          : isLoading ? 'Loading daily closes...' : 'No daily closes available for historical VaR.'}
+      </p>
+
+      <ChartContainer>
+        <BarChart data={chartData} />
+      </ChartContainer>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Symbol</TableHead>
+            <TableHead className="text-right">Weight</TableHead>
+            <TableHead className="text-right">Beta</TableHead>
+            <TableHead className="text-right">IVol</TableHead>
+            <TableHead className="text-right">Marginal Risk</TableHead>
+            <TableHead className="text-right">Risk Contribution</TableHead>
+            <TableHead className="text-right">Reported</TableHead>
+            <TableHead>Status</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {[...risk.rows].sort((a, b) => (b.riskShare ?? -1) - (a.riskShare ?? -1)).map(row => (
+            <TableRow key={row.symbol}>
+              <TableCell className="font-medium">{row.symbol}</TableCell>
+              <TableCell className="text-right">{formatPercent(row.weight, 1)}</TableCell>
+              <TableCell className="text-right">{row.beta !== null ? row.beta.toFixed(2) : 'N/A'}</TableCell>
+              <TableCell className="text-right">{row.ivol !== null ? `${row.ivol.toFixed(2)}%` : 'N/A'}</TableCell>
+              <TableCell className="text-right">{formatPercent(row.marginalRisk)}</TableCell>
+              <TableCell className={`text-right ${row.concentrated ? 'text-red-600 font-medium' : ''}`}>{formatPercent(row.riskShare, 1)}</TableCell>
+              <TableCell className="text-right">{row.reportedRiskContribution !== null ? `${row.reportedRiskContribution.toFixed(2)}%` : 'N/A'}</TableCell>
+              <TableCell>
+                {row.riskShare === null ? (
+                  <Badge variant="outline">No data</Badge>
+                ) : row.concentrated ? (
+                  <Badge variant="destructive">Concentrated</Badge>
+                ) : (
+                  <Badge variant="secondary">OK</Badge>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
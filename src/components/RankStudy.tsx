@@ -0,0 +1,416 @@
+import * as echarts from 'echarts';
+import { Play } from 'lucide-react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ThemeContext } from '../context/ThemeContext';
+import { useMarketData } from '../hooks/useMarketData';
+import {
+  buildRankStudy,
+  RankStudy as RankStudyResult,
+  RankStudyMetric,
+  STUDY_HORIZONS,
+  toRankObservations,
+} from '../lib/rankStudy';
+import { RankHistoryPoint, RanksData } from '../types/marketData';
+import { Button } from './ui/Button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/Card';
+import { Input } from './ui/Input';
+import { Label } from './ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+
+const selectClassName = 'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm';
+
+const SECTOR_SIZES = [10, 25, 50];
+
+const METRIC_LABELS: Record<RankStudyMetric, string> = {
+  rankFundamental: 'Fundamental Rank',
+  rankTechnical: 'Technical Rank',
+};
+
+type StudyScope = 'ticker' | 'sector';
+
+const formatPercent = (value: number | null, signed = false) => {
+  if (value === null) return 'N/A';
+  const percent = value * 100;
+  return `${signed && percent > 0 ? '+' : ''}${percent.toFixed(2)}%`;
+};
+
+const returnClassName = (value: number | null) =>
+  value === null || value === 0 ? 'text-muted-foreground' : value > 0 ? 'text-green-600' : 'text-red-600';
+
+interface StudyChartProps {
+  study: RankStudyResult;
+  horizon: number;
+}
+
+// Average forward return per decile above, monthly IC and hit rate below
+const StudyChart: React.FC<StudyChartProps> = ({ study, horizon }) => {
+  const chartRef = useRef<HTMLDivElement>(null);
+  const chartInstance = useRef<echarts.ECharts | null>(null);
+  const { theme } = React.useContext(ThemeContext);
+
+  useEffect(() => {
+    if (!chartRef.current) return;
+    if (!chartInstance.current) {
+      chartInstance.current = echarts.init(chartRef.current);
+    }
+
+    const textColor = theme === 'dark' ? '#ffffff' : '#000000';
+    const periods = study.horizons.find(h => h.horizon === horizon)?.periods ?? [];
+
+    chartInstance.current.setOption({
+      animation: false,
+      tooltip: { trigger: 'axis' },
+      legend: { bottom: 0, textStyle: { color: textColor }, data: ['Avg return', 'IC', 'Hit rate'] },
+      grid: [
+        { left: 60, right: 60, top: 30, height: 150 },
+        { left: 60, right: 60, top: 240, height: 150 },
+      ],
+      xAxis: [
+        {
+          type: 'category',
+          data: study.deciles.map(d => `D${d.decile}`),
+          name: 'Rank decile',
+          nameLocation: 'middle',
+          nameGap: 25,
+          nameTextStyle: { color: textColor },
+          axisLabel: { color: textColor },
+        },
+        {
+          type: 'category',
+          gridIndex: 1,
+          data: periods.map(p => p.period),
+          axisLabel: { color: textColor },
+        },
+      ],
+      yAxis: [
+        {
+          type: 'value',
+          name: `${horizon}d return`,
+          nameTextStyle: { color: textColor },
+          axisLabel: { color: textColor, formatter: (value: number) => `${(value * 100).toFixed(1)}%` },
+        },
+        {
+          type: 'value',
+          gridIndex: 1,
+          name: 'IC',
+          min: -1,
+          max: 1,
+          nameTextStyle: { color: textColor },
+          axisLabel: { color: textColor },
+        },
+        {
+          type: 'value',
+          gridIndex: 1,
+          name: 'Hit rate',
+          min: 0,
+          max: 1,
+          position: 'right',
+          splitLine: { show: false },
+          nameTextStyle: { color: textColor },
+          axisLabel: { color: textColor, formatter: (value: number) => `${Math.round(value * 100)}%` },
+        },
+      ],
+      series: [
+        {
+          name: 'Avg return',
+          type: 'bar',
+          data: study.deciles.map(d => d.averageReturn[horizon]),
+          itemStyle: {
+            color: (param: { value: number | null }) => ((param.value ?? 0) >= 0 ? '#16a34a' : '#dc2626'),
+          },
+        },
+        {
+          name: 'IC',
+          type: 'bar',
+          xAxisIndex: 1,
+          yAxisIndex: 1,
+          data: periods.map(p => p.ic),
+          itemStyle: { color: '#3b82f6' },
+        },
+        {
+          name: 'Hit rate',
+          type: 'line',
+          xAxisIndex: 1,
+          yAxisIndex: 2,
+          data: periods.map(p => p.hitRate),
+          showSymbol: false,
+          connectNulls: false,
+          lineStyle: { color: '#f59e0b' },
+          itemStyle: { color: '#f59e0b' },
+          markLine: {
+            silent: true,
+            symbol: 'none',
+            label: { show: false },
+            lineStyle: { color: '#888', type: 'dashed' },
+            data: [{ yAxis: 0.5 }],
+          },
+        },
+      ],
+    }, true);
+
+    return () => {
+      if (chartInstance.current) {
+        chartInstance.current.dispose();
+        chartInstance.current = null;
+      }
+    };
+  }, [study, horizon, theme]);
+
+  return <div ref={chartRef} className="w-full h-[440px]" />;
+};
+
+interface RankStudyProps {
+  defaultTicker?: string;
+}
+
+/**
+ * Whether the ranks predicted returns: historical ranks of a ticker, or of the largest names
+ * of a sector, bucketed into deciles against the 5, 20 and 60 trading-day returns that
+ * followed, with the hit rate and information coefficient month by month
+ */
+export const RankStudy: React.FC<RankStudyProps> = ({ defaultTicker = '' }) => {
+  const marketData = useMarketData();
+
+  const [scope, setScope] = useState<StudyScope>('ticker');
+  const [ticker, setTicker] = useState(defaultTicker);
+  const [sector, setSector] = useState('');
+  const [sectorSize, setSectorSize] = useState(25);
+  const [metric, setMetric] = useState<RankStudyMetric>('rankFundamental');
+  const [horizon, setHorizon] = useState(STUDY_HORIZONS[1]);
+  const [universe, setUniverse] = useState<RanksData[]>([]);
+  const [histories, setHistories] = useState<Record<string, RankHistoryPoint[]>>({});
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isLoading = progress !== null;
+
+  useEffect(() => {
+    if (scope !== 'sector' || universe.length > 0) return;
+    marketData.stockRanksUniverse()
+      .then(setUniverse)
+      .catch((err) => {
+        console.error('Error loading the ranks universe for the study:', err);
+        setError(`Failed to load sectors: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      });
+  }, [scope, universe.length, marketData]);
+
+  const sectors = useMemo(
+    () => Array.from(new Set(universe.map(row => row.sector).filter((s): s is string => !!s))).sort((a, b) => a.localeCompare(b)),
+    [universe]
+  );
+
+  // Largest names of the sector by market cap
+  const sectorTickers = useMemo(
+    () => universe
+      .filter(row => row.sector === sector)
+      .sort((a, b) => (b.mcap ?? 0) - (a.mcap ?? 0))
+      .slice(0, sectorSize)
+      .map(row => row.ticker),
+    [universe, sector, sectorSize]
+  );
+
+  const runStudy = useCallback(async () => {
+    const tickers = scope === 'ticker' ? [ticker.trim()] : sectorTickers;
+    if (tickers.length === 0 || !tickers[0]) return;
+
+    setError(null);
+    setHistories({});
+    setProgress({ done: 0, total: tickers.length });
+    try {
+      const loaded = await marketData.stockRankHistories(tickers, {
+        onProgress: ({ done, total }) => setProgress({ done, total }),
+      });
+      if (Object.keys(loaded).length === 0) {
+        throw new Error(`No rank history loaded for ${tickers.join(', ').toUpperCase()}`);
+      }
+      setHistories(loaded);
+    } catch (err) {
+      console.error('Error running the rank study:', err);
+      setError(`Failed to run the study: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setProgress(null);
+    }
+  }, [scope, ticker, sectorTickers, marketData]);
+
+  const study = useMemo(() => {
+    const observations = Object.entries(histories).flatMap(([symbol, history]) => toRankObservations(symbol, history, metric));
+    return observations.length > 0 ? buildRankStudy(observations) : null;
+  }, [histories, metric]);
+
+  const canRun = scope === 'ticker' ? ticker.trim().length > 0 : sectorTickers.length > 0;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Rank vs Forward Return</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              runStudy();
+            }}
+            className="grid grid-cols-2 md:grid-cols-6 gap-4 items-end"
+          >
+            <div>
+              <Label htmlFor="study-scope">Universe</Label>
+              <select id="study-scope" className={selectClassName} value={scope} onChange={(e) => setScope(e.target.value as StudyScope)}>
+                <option value="ticker">Single ticker</option>
+                <option value="sector">Sector</option>
+              </select>
+            </div>
+            {scope === 'ticker' ? (
+              <div className="md:col-span-2">
+                <Label htmlFor="study-ticker">Symbol</Label>
+                <Input
+                  id="study-ticker"
+                  type="text"
+                  value={ticker}
+                  onChange={(e) => setTicker(e.target.value.toLowerCase())}
+                  placeholder="Enter symbol (e.g., AMZN)"
+                  disabled={isLoading}
+                />
+              </div>
+            ) : (
+              <>
+                <div>
+                  <Label htmlFor="study-sector">Sector</Label>
+                  <select id="study-sector" className={selectClassName} value={sector} onChange={(e) => setSector(e.target.value)}>
+                    <option value="">Select a sector</option>
+                    {sectors.map(s => <option key={s} value={s}>{s}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <Label htmlFor="study-sector-size">Names</Label>
+                  <select
+                    id="study-sector-size"
+                    className={selectClassName}
+                    value={sectorSize}
+                    onChange={(e) => setSectorSize(Number(e.target.value))}
+                  >
+                    {SECTOR_SIZES.map(n => <option key={n} value={n}>Largest {n}</option>)}
+                  </select>
+                </div>
+              </>
+            )}
+            <div>
+              <Label htmlFor="study-metric">Rank</Label>
+              <select id="study-metric" className={selectClassName} value={metric} onChange={(e) => setMetric(e.target.value as RankStudyMetric)}>
+                {(Object.keys(METRIC_LABELS) as RankStudyMetric[]).map(m => (
+                  <option key={m} value={m}>{METRIC_LABELS[m]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="study-horizon">Chart horizon</Label>
+              <select id="study-horizon" className={selectClassName} value={horizon} onChange={(e) => setHorizon(Number(e.target.value))}>
+                {STUDY_HORIZONS.map(h => <option key={h} value={h}>{h} trading days</option>)}
+              </select>
+            </div>
+            <div>
+              <Button type="submit" className="w-full" disabled={isLoading || !canRun}>
+                <Play className="h-4 w-4 mr-2" />
+                {progress ? `Loading ${progress.done}/${progress.total}...` : 'Run Study'}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Card className="border-destructive bg-destructive/10">
+          <CardContent className="pt-6">
+            <p className="text-sm text-destructive">{error}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {!isLoading && Object.keys(histories).length > 0 && !study && (
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-muted-foreground">No days with both a {METRIC_LABELS[metric].toLowerCase()} and a closing price.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {study && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {study.horizons.map(summary => (
+              <Card key={summary.horizon}>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">{summary.horizon}-day forward return</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-1 text-sm">
+                  <div className="flex justify-between">
+                    <span>Information coefficient</span>
+                    <span className={`font-medium ${returnClassName(summary.ic)}`}>{summary.ic === null ? 'N/A' : summary.ic.toFixed(3)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Hit rate</span>
+                    <span className="font-medium">{formatPercent(summary.hitRate)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Top - bottom decile</span>
+                    <span className={`font-medium ${returnClassName(summary.spread)}`}>{formatPercent(summary.spread, true)}</span>
+                  </div>
+                  <div className="flex justify-between text-muted-foreground">
+                    <span>Observations</span>
+                    <span>{summary.observations}</span>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardContent className="pt-6">
+              <StudyChart study={study} horizon={horizon} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Deciles</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Decile</TableHead>
+                    <TableHead>Ranks</TableHead>
+                    <TableHead className="text-right">Days</TableHead>
+                    {STUDY_HORIZONS.map(h => (
+                      <TableHead key={h} className="text-right">{h}d avg (up)</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {[...study.deciles].reverse().map(decile => (
+                    <TableRow key={decile.decile}>
+                      <TableCell className="font-medium">D{decile.decile}</TableCell>
+                      <TableCell>{decile.minRank.toFixed(1)} - {decile.maxRank.toFixed(1)}</TableCell>
+                      <TableCell className="text-right">{decile.count}</TableCell>
+                      {STUDY_HORIZONS.map(h => (
+                        <TableCell key={h} className="text-right">
+                          <span className={returnClassName(decile.averageReturn[h])}>{formatPercent(decile.averageReturn[h], true)}</span>
+                          <span className="text-muted-foreground"> ({formatPercent(decile.positiveRate[h])})</span>
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <p className="text-xs text-muted-foreground mt-4">
+                {study.symbols} {study.symbols === 1 ? 'symbol' : 'symbols'}, {study.observations} ranked days. Higher deciles hold
+                higher ranks. The hit rate counts a rank above the median ({study.medianRank?.toFixed(2) ?? 'N/A'}) as a call for
+                a rise and one below it as a call for a fall. Forward returns of consecutive days overlap.
+              </p>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,7 +1,28 @@
 import * as echarts from 'echarts';
-import React, { useCallback, useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { ThemeContext } from '../context/ThemeContext';
 import { abbreviateSectorIndustry } from '../lib/financialUtils';
+import {
+  INDICATORS,
+  IndicatorSettings,
+  calculateATR,
+  calculateBollingerBands,
+  calculateEMA,
+  calculateIchimoku,
+  calculateMACD,
+  calculateRSI,
+  calculateSMA,
+  calculateVWAP,
+  defaultIndicatorSettings,
+  toOHLCVSeries,
+} from '../lib/indicators';
+import { OHLCVData } from '../types/marketData';
+import { IndicatorControls } from './IndicatorControls';
+import { LpplChart } from './LpplChart';
+import { RankStudy } from './RankStudy';
+import { RanksComparison } from './RanksComparison';
+import { RanksLeaderboard } from './RanksLeaderboard';
+import { StrategyTrackRecord } from './StrategyTrackRecord';
 import { Button } from './ui/Button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/Card';
 import { Input } from './ui/Input';
@@ -66,15 +87,6 @@ interface CryptoRankData {
   risk_contribution?: number;
 }
 
-interface OHLCVData {
-  date: string;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  volume: number;
-}
-
 const upColor = '#00da3c';
 const downColor = '#ec0000';
 
@@ -97,20 +109,86 @@ function splitData(rawData: OHLCVData[]) {
   };
 }
 
-function calculateMA(dayCount: number, data: { values: number[][] }) {
-  var result: (number | string)[] = [];
-  for (var i = 0, len = data.values.length; i < len; i++) {
-    if (i < dayCount) {
-      result.push('-');
-      continue;
-    }
-    var sum = 0;
-    for (var j = 0; j < dayCount; j++) {
-      sum += data.values[i - j][1]; // close price
-    }
-    result.push(+(sum / dayCount).toFixed(3));
+// Chart layout in pixels; every enabled indicator pane adds PANE_HEIGHT + PANE_GAP below the volume grid
+const VOLUME_TOP = 315;
+const VOLUME_HEIGHT = 80;
+const PANE_HEIGHT = 90;
+const PANE_GAP = 30;
+const BASE_CHART_HEIGHT = 500;
+
+interface PriceLevels {
+  support: number | null;
+  resistance: number | null;
+  riskRangeLow: number | null;
+  riskRangeHigh: number | null;
+}
+
+function latestPriceLevels(rankData: RankData[]): PriceLevels | null {
+  const toLevel = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : null);
+  const newestFirst = rankData
+    .filter(item => item.date)
+    .sort((a, b) => (b.date as string).localeCompare(a.date as string));
+
+  // Most recent row that publishes any level
+  for (const item of newestFirst) {
+    const levels = {
+      support: toLevel(item.td__Support),
+      resistance: toLevel(item.td__Resistance),
+      riskRangeLow: toLevel(item.tec_riskRangeLow),
+      riskRangeHigh: toLevel(item.tec_riskRangeHigh),
+    };
+    if (Object.values(levels).some(value => value !== null)) return levels;
+  }
+  return null;
+}
+
+function buildLevelMarks(levels: PriceLevels) {
+  const bands: object[] = [];
+  if (levels.riskRangeLow !== null && levels.riskRangeHigh !== null) {
+    bands.push([
+      { name: 'Risk Range', yAxis: levels.riskRangeLow, itemStyle: { color: 'rgba(255, 215, 0, 0.08)' } },
+      { yAxis: levels.riskRangeHigh }
+    ]);
+  }
+  if (levels.support !== null && levels.resistance !== null) {
+    bands.push([
+      { name: 'Support/Resistance', yAxis: levels.support, itemStyle: { color: 'rgba(100, 149, 237, 0.08)' } },
+      { yAxis: levels.resistance }
+    ]);
   }
-  return result;
+
+  const lines = [
+    { name: 'Resistance', yAxis: levels.resistance, lineStyle: { color: downColor } },
+    { name: 'Support', yAxis: levels.support, lineStyle: { color: upColor } },
+    { name: 'Range High', yAxis: levels.riskRangeHigh, lineStyle: { color: '#ffd700', type: 'dashed' } },
+    { name: 'Range Low', yAxis: levels.riskRangeLow, lineStyle: { color: '#ffd700', type: 'dashed' } }
+  ].filter(line => line.yAxis !== null);
+
+  return {
+    markArea: {
+      silent: true,
+      label: { color: '#fff', position: 'insideTopLeft' },
+      data: bands
+    },
+    markLine: {
+      silent: true,
+      symbol: 'none',
+      label: { formatter: '{b}: {c}', position: 'insideEndTop', color: '#fff' },
+      data: lines
+    }
+  };
+}
+
+function indicatorLine(name: string, data: (number | null)[], color: string, extra: object = {}) {
+  return {
+    name,
+    type: 'line',
+    data,
+    showSymbol: false,
+    lineStyle: { color, width: 1 },
+    itemStyle: { color },
+    ...extra
+  };
 }
 
 function alignRankDataWithOHLC(ohlcDates: string[], rankData: RankData[]) {
@@ -168,6 +246,8 @@ interface CandlestickChartProps {
 const CandlestickChart: React.FC<CandlestickChartProps> = ({ data, symbol, rankData = [], cryptoRankData = [] }) => {
   const chartRef = React.useRef<HTMLDivElement>(null);
   const chartInstance = React.useRef<echarts.ECharts | null>(null);
+  const [indicatorSettings, setIndicatorSettings] = useState<IndicatorSettings>(defaultIndicatorSettings);
+  const [showLevels, setShowLevels] = useState(true);
 
   // Get theme from context
   const { theme } = React.useContext(ThemeContext);
@@ -175,6 +255,14 @@ const CandlestickChart: React.FC<CandlestickChartProps> = ({ data, symbol, rankD
   // Determine if this is crypto data
   const isCrypto = cryptoRankData.length > 0;
 
+  // Support/resistance and risk range are only published for stocks
+  const priceLevels = useMemo(() => (isCrypto ? null : latestPriceLevels(rankData)), [isCrypto, rankData]);
+
+  const paneIds = useMemo(() => INDICATORS
+    .filter(definition => definition.placement === 'pane' && indicatorSettings[definition.id].enabled)
+    .map(definition => definition.id), [indicatorSettings]);
+  const chartHeight = BASE_CHART_HEIGHT + paneIds.length * (PANE_HEIGHT + PANE_GAP);
+
   // Get theme-aware colors for tooltip
   const getThemeColors = useCallback(() => {
     const root = document.documentElement;
@@ -210,10 +298,123 @@ const CandlestickChart: React.FC<CandlestickChartProps> = ({ data, symbol, rankD
     // Get theme-aware colors
     const themeColors = getThemeColors();
 
+    // Indicators drawn over the price grid
+    const overlaySeries: object[] = [];
+    const { ema, bollinger, vwap, ichimoku } = indicatorSettings;
+    if (ema.enabled) {
+      overlaySeries.push(indicatorLine(`EMA${ema.params.period}`, calculateEMA(data, ema.params.period), '#ffa500'));
+    }
+    if (bollinger.enabled) {
+      const bands = calculateBollingerBands(data, bollinger.params.period, bollinger.params.multiplier);
+      overlaySeries.push(
+        indicatorLine('BB Upper', bands.upper, '#87cefa'),
+        indicatorLine('BB Middle', bands.middle, '#87cefa', { lineStyle: { color: '#87cefa', width: 1, type: 'dashed' } }),
+        indicatorLine('BB Lower', bands.lower, '#87cefa')
+      );
+    }
+    if (vwap.enabled) {
+      overlaySeries.push(indicatorLine('VWAP', calculateVWAP(data, vwap.params.period), '#ff69b4'));
+    }
+    if (ichimoku.enabled) {
+      const lines = calculateIchimoku(
+        data,
+        ichimoku.params.conversion,
+        ichimoku.params.base,
+        ichimoku.params.spanB,
+        ichimoku.params.displacement
+      );
+      overlaySeries.push(
+        indicatorLine('Tenkan', lines.conversion, '#1e90ff'),
+        indicatorLine('Kijun', lines.base, '#dc143c'),
+        indicatorLine('Senkou A', lines.spanA, '#32cd32', { lineStyle: { color: '#32cd32', width: 1, opacity: 0.6 } }),
+        indicatorLine('Senkou B', lines.spanB, '#ff6347', { lineStyle: { color: '#ff6347', width: 1, opacity: 0.6 } }),
+        indicatorLine('Chikou', lines.lagging, '#aaaaaa', { lineStyle: { color: '#aaaaaa', width: 1, opacity: 0.6 } })
+      );
+    }
+
+    // Indicators in panes of their own below the volume grid, each with its own axes
+    const paneGrids: object[] = [];
+    const paneXAxes: object[] = [];
+    const paneYAxes: object[] = [];
+    const paneSeries: object[] = [];
+    paneIds.forEach((id, paneIndex) => {
+      const gridIndex = paneIndex + 2;
+      const axes = { xAxisIndex: gridIndex, yAxisIndex: paneIndex + 3 };
+      const { params } = indicatorSettings[id];
+
+      paneGrids.push({
+        left: '10%',
+        right: '8%',
+        top: VOLUME_TOP + VOLUME_HEIGHT + PANE_GAP + paneIndex * (PANE_HEIGHT + PANE_GAP),
+        height: PANE_HEIGHT
+      });
+      paneXAxes.push({
+        type: 'category',
+        gridIndex,
+        data: chartData.categoryData,
+        boundaryGap: false,
+        axisLine: { onZero: false },
+        axisTick: { show: false },
+        splitLine: { show: false },
+        axisLabel: { show: false },
+        min: 'dataMin',
+        max: 'dataMax'
+      });
+      paneYAxes.push({
+        scale: id !== 'rsi',
+        gridIndex,
+        splitNumber: 2,
+        ...(id === 'rsi' ? { min: 0, max: 100 } : {}),
+        name: id.toUpperCase(),
+        nameLocation: 'middle',
+        nameGap: 40,
+        nameTextStyle: { color: '#fff' },
+        axisLabel: { color: '#fff' },
+        splitLine: { show: false }
+      });
+
+      if (id === 'rsi') {
+        paneSeries.push(indicatorLine(`RSI${params.period}`, calculateRSI(data, params.period), '#ba55d3', {
+          ...axes,
+          markLine: {
+            silent: true,
+            symbol: 'none',
+            label: { show: false },
+            lineStyle: { color: '#888', type: 'dashed' },
+            data: [{ yAxis: 30 }, { yAxis: 70 }]
+          }
+        }));
+      } else if (id === 'macd') {
+        const macd = calculateMACD(data, params.fast, params.slow, params.signal);
+        paneSeries.push(
+          indicatorLine('MACD', macd.macd, '#1e90ff', axes),
+          indicatorLine('Signal', macd.signal, '#ffa500', axes),
+          {
+            name: 'Histogram',
+            type: 'bar',
+            ...axes,
+            data: macd.histogram,
+            itemStyle: {
+              color: (param: { value: number | null }) => ((param.value ?? 0) >= 0 ? upColor : downColor)
+            }
+          }
+        );
+      } else if (id === 'atr') {
+        paneSeries.push(indicatorLine(`ATR${params.period}`, calculateATR(data, params.period), '#20b2aa', axes));
+      }
+    });
+
+    const levels = showLevels ? priceLevels : null;
+    const levelValues = levels
+      ? Object.values(levels).filter((value): value is number => value !== null)
+      : [];
+    const indicatorNames = [...overlaySeries, ...paneSeries].map(series => (series as { name: string }).name);
+    const xAxisIndices = [0, 1, ...paneIds.map((_, paneIndex) => paneIndex + 2)];
+
     // Prepare legend data based on whether this is crypto or stock
     const legendData = isCrypto
-      ? [`${symbol.toUpperCase()}`, 'MA5', 'MA10', 'MA20', 'MA30', 'Crypto Rank']
-      : [`${symbol.toUpperCase()}`, 'MA5', 'MA10', 'MA20', 'MA30', 'Rank Fundamental', 'Rank Technical'];
+      ? [`${symbol.toUpperCase()}`, 'MA5', 'MA10', 'MA20', 'MA30', 'Crypto Rank', ...indicatorNames]
+      : [`${symbol.toUpperCase()}`, 'MA5', 'MA10', 'MA20', 'MA30', 'Rank Fundamental', 'Rank Technical', ...indicatorNames];
 
     const option = {
       animation: false,
@@ -291,14 +492,16 @@ const CandlestickChart: React.FC<CandlestickChartProps> = ({ data, symbol, rankD
         {
           left: '10%',
           right: '8%',
-          height: '50%'
+          top: 60,
+          height: VOLUME_TOP - 65
         },
         {
           left: '10%',
           right: '8%',
-          top: '63%',
-          height: '16%'
-        }
+          top: VOLUME_TOP,
+          height: VOLUME_HEIGHT
+        },
+        ...paneGrids
       ],
       xAxis: [
         {
@@ -327,11 +530,19 @@ const CandlestickChart: React.FC<CandlestickChartProps> = ({ data, symbol, rankD
           axisLabel: { show: false },
           min: 'dataMin',
           max: 'dataMax'
-        }
+        },
+        ...paneXAxes
       ],
       yAxis: [
         {
           scale: true,
+          // Keep the level bands in view even when the price has moved away from them
+          ...(levelValues.length > 0
+            ? {
+                min: (value: { min: number }) => Math.min(value.min, ...levelValues),
+                max: (value: { max: number }) => Math.max(value.max, ...levelValues)
+              }
+            : {}),
           splitArea: {
             show: true,
             areaStyle: {
@@ -366,20 +577,21 @@ const CandlestickChart: React.FC<CandlestickChartProps> = ({ data, symbol, rankD
           nameTextStyle: {
             color: '#fff'
           }
-        }
+        },
+        ...paneYAxes
       ],
       dataZoom: [
         {
           type: 'inside',
-          xAxisIndex: [0, 1],
+          xAxisIndex: xAxisIndices,
           start: 0,
           end: 100
         },
         {
           show: true,
-          xAxisIndex: [0, 1],
+          xAxisIndex: xAxisIndices,
           type: 'slider',
-          top: '85%',
+          top: chartHeight - 75,
           start: 0,
           end: 100
         }
@@ -394,12 +606,13 @@ const CandlestickChart: React.FC<CandlestickChartProps> = ({ data, symbol, rankD
             color0: downColor,
             borderColor: undefined,
             borderColor0: undefined
-          }
+          },
+          ...(levels ? buildLevelMarks(levels) : {})
         },
         {
           name: 'MA5',
           type: 'line',
-          data: calculateMA(5, chartData),
+          data: calculateSMA(data, 5),
           smooth: true,
           lineStyle: {
             opacity: 0.5
@@ -408,7 +621,7 @@ const CandlestickChart: React.FC<CandlestickChartProps> = ({ data, symbol, rankD
         {
           name: 'MA10',
           type: 'line',
-          data: calculateMA(10, chartData),
+          data: calculateSMA(data, 10),
           smooth: true,
           lineStyle: {
             opacity: 0.5
@@ -417,7 +630,7 @@ const CandlestickChart: React.FC<CandlestickChartProps> = ({ data, symbol, rankD
         {
           name: 'MA20',
           type: 'line',
-          data: calculateMA(20, chartData),
+          data: calculateSMA(data, 20),
           smooth: true,
           lineStyle: {
             opacity: 0.5
@@ -426,7 +639,7 @@ const CandlestickChart: React.FC<CandlestickChartProps> = ({ data, symbol, rankD
         {
           name: 'MA30',
           type: 'line',
-          data: calculateMA(30, chartData),
+          data: calculateSMA(data, 30),
           smooth: true,
           lineStyle: {
             opacity: 0.5
@@ -496,7 +709,9 @@ const CandlestickChart: React.FC<CandlestickChartProps> = ({ data, symbol, rankD
                 connectNulls: false
               }
             ]
-        )
+        ),
+        ...overlaySeries,
+        ...paneSeries
       ]
     };
 
@@ -509,11 +724,17 @@ const CandlestickChart: React.FC<CandlestickChartProps> = ({ data, symbol, rankD
         chartInstance.current = null;
       }
     };
-  }, [data, symbol, rankData, cryptoRankData, isCrypto, theme, getThemeColors]);
+  }, [data, symbol, rankData, cryptoRankData, isCrypto, theme, getThemeColors, indicatorSettings, showLevels, priceLevels, paneIds, chartHeight]);
 
   return (
     <div className="w-full">
-      <div ref={chartRef} className="w-full h-[500px]" />
+      <IndicatorControls
+        settings={indicatorSettings}
+        onChange={setIndicatorSettings}
+        showLevels={priceLevels ? showLevels : undefined}
+        onShowLevelsChange={setShowLevels}
+      />
+      <div ref={chartRef} className="w-full" style={{ height: chartHeight }} />
     </div>
   );
 };
@@ -800,6 +1021,30 @@ const CryptoRanksTab: React.FC<{
         </Card>
       )}
 
+      {/* LPPL Bubble Signal */}
+      {!isLoading && !error && cryptoRankData.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>LPPL Bubble Signal</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <LpplChart rows={cryptoRankData} symbol={baseCurrency} />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Strategy Track Record */}
+      {!isLoading && !error && cryptoRankData.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Strategy Track Record</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <StrategyTrackRecord rows={cryptoRankData} symbol={baseCurrency} />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Data Table */}
       {!isLoading && !error && (
         <>
@@ -897,7 +1142,7 @@ const Ranks: React.FC = () => {
 
       const data = await response.json();
       setStockData(data || []);
-      setStockOHLCVData([]); // OHLC data is included in the main data array
+      setStockOHLCVData(toOHLCVSeries(data || [])); // OHLC data is included in the main data array
     } catch (err) {
       console.error('Error fetching stock rank data:', err);
       setStockError(`Failed to load stock rank data: ${err instanceof Error ? err.message : 'Unknown error'}`);
@@ -926,7 +1171,7 @@ const Ranks: React.FC = () => {
 
       const data = await response.json();
       setCryptoData(data || []);
-      setCryptoOHLCVData([]); // OHLC data is included in the main data array
+      setCryptoOHLCVData(toOHLCVSeries(data || [])); // OHLC data is included in the main data array
     } catch (err) {
       console.error('Error fetching crypto rank data:', err);
       setCryptoError(`Failed to load crypto rank data: ${err instanceof Error ? err.message : 'Unknown error'}`);
@@ -980,12 +1225,19 @@ const Ranks: React.FC = () => {
           <h1 className="text-3xl font-bold text-foreground">Ranks</h1>
         </div>
 
-        <Tabs defaultValue="stocks" className="w-full">
+        <Tabs defaultValue="leaderboard" className="w-full">
           <TabsList className="mb-6">
+            <TabsTrigger value="leaderboard">Leaderboard</TabsTrigger>
             <TabsTrigger value="stocks">Stocks</TabsTrigger>
             <TabsTrigger value="crypto">Crypto</TabsTrigger>
+            <TabsTrigger value="compare">Compare</TabsTrigger>
+            <TabsTrigger value="study">Study</TabsTrigger>
           </TabsList>
 
+          <TabsContent value="leaderboard">
+            <RanksLeaderboard />
+          </TabsContent>
+
           <TabsContent value="stocks">
             <RanksTab
               title="Stock Ranks"
@@ -1016,6 +1268,14 @@ const Ranks: React.FC = () => {
               formatNumber={formatNumber}
             />
           </TabsContent>
+
+          <TabsContent value="compare">
+            <RanksComparison />
+          </TabsContent>
+
+          <TabsContent value="study">
+            <RankStudy defaultTicker={stockTicker} />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
@@ -0,0 +1,384 @@
+import * as echarts from 'echarts';
+import { Plus, X } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ThemeContext } from '../context/ThemeContext';
+import { useMarketData } from '../hooks/useMarketData';
+import {
+  addComparisonAsset,
+  alignComparison,
+  AlignedComparison,
+  ComparisonAsset,
+  ComparisonAssetType,
+  comparisonKey,
+  ComparisonSeries,
+  cryptoComparisonSeries,
+  MAX_COMPARISON_SYMBOLS,
+  stockComparisonSeries,
+} from '../lib/comparison';
+import { abbreviateSectorIndustry } from '../lib/financialUtils';
+import { CryptoRankData, CryptoRankHistoryPoint, RankHistoryPoint, RanksData } from '../types/marketData';
+import { Button } from './ui/Button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/Card';
+import { Input } from './ui/Input';
+import { Label } from './ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+
+const selectClassName = 'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm';
+
+const SERIES_COLORS = ['#3b82f6', '#f59e0b', '#10b981', '#ef4444', '#8b5cf6', '#ec4899', '#14b8a6', '#a3a3a3'];
+
+type StockRankMetric = 'rankFundamental' | 'rankTechnical';
+
+// Everything loaded for one compared symbol
+interface LoadedAsset {
+  history: RankHistoryPoint[] | CryptoRankHistoryPoint[];
+  latest: RanksData | CryptoRankData | null;
+}
+
+const formatValue = (value: number | null | undefined, decimals = 2, prefix = '') =>
+  value !== null && value !== undefined ? `${prefix}${value.toFixed(decimals)}` : 'N/A';
+
+// Rows of the side-by-side table; a field a stock or a coin does not have shows a dash
+const COMPARISON_FIELDS: Array<{
+  label: string;
+  stock?: (row: RanksData) => React.ReactNode;
+  crypto?: (row: CryptoRankData) => React.ReactNode;
+}> = [
+  { label: 'Date', stock: row => row.date?.slice(0, 10) || 'N/A', crypto: row => row.date?.slice(0, 10) || 'N/A' },
+  { label: 'Name', stock: row => row.name || 'N/A' },
+  { label: 'Sector', stock: row => abbreviateSectorIndustry(row.sector, 'sector') },
+  { label: 'Industry', stock: row => abbreviateSectorIndustry(row.industry || null, 'industry') },
+  { label: 'Size', stock: row => row.tag || 'N/A' },
+  { label: 'Market Cap', stock: row => (row.mcap !== null ? `$${(row.mcap / 1000000).toFixed(1)}M` : 'N/A') },
+  { label: 'Fundamental Rank', stock: row => formatValue(row.rankFundamental) },
+  { label: 'Technical Rank', stock: row => formatValue(row.rankTechnical) },
+  { label: 'Crypto Rank', crypto: row => formatValue(row.crypto_ranks) },
+  { label: 'Close', crypto: row => formatValue(row.close, 2, '$') },
+  { label: 'Support', stock: row => formatValue(row.td__Support, 2, '$') },
+  { label: 'Resistance', stock: row => formatValue(row.td__Resistance, 2, '$') },
+  { label: 'Range Low', stock: row => formatValue(row.tec_riskRangeLow, 2, '$') },
+  { label: 'Range High', stock: row => formatValue(row.tec_riskRangeHigh, 2, '$') },
+  { label: 'LPPL Side', crypto: row => row.lppl_side ?? 'N/A' },
+  { label: 'LPPL Confidence +/-', crypto: row => `${formatValue(row.lppl_pos_conf)} / ${formatValue(row.lppl_neg_conf)}` },
+  { label: 'Strategy Side', crypto: row => row.strategy_side ?? 'N/A' },
+  { label: 'Strategy Expectancy', crypto: row => formatValue(row.strategy_expectancy) },
+  { label: 'Strategy Profit Factor', crypto: row => formatValue(row.strategy_profit_factor) },
+  { label: 'IVol', stock: row => formatValue(row.ivol), crypto: row => formatValue(row.ivol) },
+  { label: 'Beta', stock: row => formatValue(row.predicted_beta), crypto: row => formatValue(row.predicted_beta) },
+  { label: 'Risk Contribution', stock: row => formatValue(row.risk_contribution), crypto: row => formatValue(row.risk_contribution) },
+  { label: 'AI Decision', stock: row => row.ai_decision ?? 'N/A', crypto: row => row.ai_decision ?? 'N/A' },
+];
+
+interface ComparisonChartProps {
+  series: ComparisonSeries[];
+  aligned: AlignedComparison;
+}
+
+// Rebased prices above, rank trajectories below, on one zoomable date axis
+const ComparisonChart: React.FC<ComparisonChartProps> = ({ series, aligned }) => {
+  const chartRef = useRef<HTMLDivElement>(null);
+  const chartInstance = useRef<echarts.ECharts | null>(null);
+  const { theme } = React.useContext(ThemeContext);
+
+  useEffect(() => {
+    if (!chartRef.current) return;
+    if (!chartInstance.current) {
+      chartInstance.current = echarts.init(chartRef.current);
+    }
+
+    const textColor = theme === 'dark' ? '#ffffff' : '#000000';
+    const names = series.map(s => `${s.symbol}${s.assetType === 'crypto' ? ' (crypto)' : ''}`);
+
+    chartInstance.current.setOption({
+      animation: false,
+      tooltip: { trigger: 'axis', axisPointer: { type: 'cross' } },
+      axisPointer: { link: [{ xAxisIndex: 'all' }] },
+      legend: { top: 0, data: names, textStyle: { color: textColor } },
+      grid: [
+        { left: 60, right: 40, top: 40, height: 220 },
+        { left: 60, right: 40, top: 310, height: 130 },
+      ],
+      xAxis: [
+        { type: 'category', data: aligned.dates, boundaryGap: false, axisLabel: { show: false } },
+        { type: 'category', gridIndex: 1, data: aligned.dates, boundaryGap: false, axisLabel: { color: textColor } },
+      ],
+      yAxis: [
+        { type: 'value', scale: true, name: 'Performance (start = 100)', nameTextStyle: { color: textColor }, axisLabel: { color: textColor } },
+        { type: 'value', gridIndex: 1, name: 'Rank', min: 1, max: 10, nameTextStyle: { color: textColor }, axisLabel: { color: textColor } },
+      ],
+      dataZoom: [
+        { type: 'inside', xAxisIndex: [0, 1] },
+        { type: 'slider', xAxisIndex: [0, 1], top: 470 },
+      ],
+      series: series.flatMap((s, i) => {
+        const color = SERIES_COLORS[i % SERIES_COLORS.length];
+        const common = { name: names[i], type: 'line', showSymbol: false, connectNulls: true, lineStyle: { color }, itemStyle: { color } };
+        return [
+          { ...common, data: aligned.performance[comparisonKey(s)] },
+          { ...common, xAxisIndex: 1, yAxisIndex: 1, data: aligned.ranks[comparisonKey(s)] },
+        ];
+      }),
+    }, true);
+
+    return () => {
+      if (chartInstance.current) {
+        chartInstance.current.dispose();
+        chartInstance.current = null;
+      }
+    };
+  }, [series, aligned, theme]);
+
+  return <div ref={chartRef} className="w-full h-[520px]" />;
+};
+
+/**
+ * Up to MAX_COMPARISON_SYMBOLS stocks and coins side by side: price performance rebased to
+ * their first common day, rank trajectories and the latest ranks fields of each
+ */
+export const RanksComparison: React.FC = () => {
+  const marketData = useMarketData();
+
+  const [assets, setAssets] = useState<ComparisonAsset[]>([]);
+  const [symbolInput, setSymbolInput] = useState('');
+  const [assetType, setAssetType] = useState<ComparisonAssetType>('stock');
+  const [metric, setMetric] = useState<StockRankMetric>('rankFundamental');
+  const [loaded, setLoaded] = useState<Record<string, LoadedAsset>>({});
+  const [loadingKeys, setLoadingKeys] = useState<string[]>([]);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [inputError, setInputError] = useState<string | null>(null);
+
+  // Load the history and latest row of each newly added symbol
+  useEffect(() => {
+    const pending = assets.filter(a => !loaded[comparisonKey(a)] && !errors[comparisonKey(a)] && !loadingKeys.includes(comparisonKey(a)));
+    if (pending.length === 0) return;
+
+    setLoadingKeys(prev => [...prev, ...pending.map(comparisonKey)]);
+    pending.forEach(async (asset) => {
+      const key = comparisonKey(asset);
+      try {
+        let entry: LoadedAsset;
+        if (asset.assetType === 'stock') {
+          const [history, rows] = await Promise.all([
+            marketData.stockRankHistory(asset.symbol),
+            marketData.stockRanks([asset.symbol]),
+          ]);
+          const latest = [...rows].sort((a, b) => (b.date ?? '').localeCompare(a.date ?? ''))[0] ?? null;
+          entry = { history, latest };
+        } else {
+          const [history, rows] = await Promise.all([
+            marketData.cryptoRankHistory(asset.symbol),
+            marketData.cryptoRanks([asset.symbol]),
+          ]);
+          entry = { history, latest: rows[0] ?? null };
+        }
+        if (entry.history.length === 0) {
+          throw new Error('No rank history');
+        }
+        setLoaded(prev => ({ ...prev, [key]: entry }));
+      } catch (err) {
+        console.error(`Error loading comparison data for ${asset.symbol}:`, err);
+        setErrors(prev => ({ ...prev, [key]: err instanceof Error ? err.message : 'Unknown error' }));
+      } finally {
+        setLoadingKeys(prev => prev.filter(k => k !== key));
+      }
+    });
+  }, [assets, loaded, errors, loadingKeys, marketData]);
+
+  const series = useMemo(
+    () => assets
+      .filter(a => loaded[comparisonKey(a)])
+      .map((a) => {
+        const { history } = loaded[comparisonKey(a)];
+        return a.assetType === 'stock'
+          ? stockComparisonSeries(a.symbol, history as RankHistoryPoint[], metric)
+          : cryptoComparisonSeries(a.symbol, history as CryptoRankHistoryPoint[]);
+      }),
+    [assets, loaded, metric]
+  );
+  const aligned = useMemo(() => alignComparison(series), [series]);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setAssets(addComparisonAsset(assets, symbolInput, assetType));
+      setSymbolInput('');
+      setInputError(null);
+    } catch (err) {
+      setInputError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  const handleRemove = (asset: ComparisonAsset) => {
+    const key = comparisonKey(asset);
+    setAssets(prev => prev.filter(a => comparisonKey(a) !== key));
+    // Forget a failed load so adding the symbol again retries it
+    setErrors(prev => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+  };
+
+  const failed = assets.filter(a => errors[comparisonKey(a)]);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Compare Symbols</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handleAdd} className="grid grid-cols-2 md:grid-cols-5 gap-4 items-end">
+            <div className="md:col-span-2">
+              <Label htmlFor="compare-symbol">Symbol</Label>
+              <Input
+                id="compare-symbol"
+                type="text"
+                value={symbolInput}
+                onChange={(e) => setSymbolInput(e.target.value)}
+                placeholder={assetType === 'stock' ? 'e.g. AMZN' : 'e.g. BTC'}
+                disabled={assets.length >= MAX_COMPARISON_SYMBOLS}
+              />
+            </div>
+            <div>
+              <Label htmlFor="compare-type">Type</Label>
+              <select id="compare-type" className={selectClassName} value={assetType} onChange={(e) => setAssetType(e.target.value as ComparisonAssetType)}>
+                <option value="stock">Stock</option>
+                <option value="crypto">Crypto</option>
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="compare-metric">Stock rank</Label>
+              <select id="compare-metric" className={selectClassName} value={metric} onChange={(e) => setMetric(e.target.value as StockRankMetric)}>
+                <option value="rankFundamental">Fundamental</option>
+                <option value="rankTechnical">Technical</option>
+              </select>
+            </div>
+            <Button type="submit" disabled={!symbolInput.trim() || assets.length >= MAX_COMPARISON_SYMBOLS}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add ({assets.length}/{MAX_COMPARISON_SYMBOLS})
+            </Button>
+          </form>
+          {inputError && <p className="text-sm text-destructive">{inputError}</p>}
+
+          {assets.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {assets.map((asset) => {
+                const key = comparisonKey(asset);
+                const index = series.findIndex(s => comparisonKey(s) === key);
+                return (
+                  <span
+                    key={key}
+                    className={`inline-flex items-center gap-1 rounded-full border px-3 py-1 text-sm ${errors[key] ? 'border-destructive text-destructive' : ''}`}
+                    title={errors[key]}
+                  >
+                    {index >= 0 && (
+                      <span className="h-2 w-2 rounded-full" style={{ backgroundColor: SERIES_COLORS[index % SERIES_COLORS.length] }} />
+                    )}
+                    {asset.symbol}
+                    <span className="text-xs text-muted-foreground">{asset.assetType === 'crypto' ? 'crypto' : 'stock'}</span>
+                    {loadingKeys.includes(key) && <span className="text-xs text-muted-foreground">loading...</span>}
+                    <button type="button" onClick={() => handleRemove(asset)} aria-label={`Remove ${asset.symbol}`}>
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {failed.length > 0 && (
+        <Card className="border-destructive bg-destructive/10">
+          <CardContent className="pt-6 space-y-1">
+            {failed.map(a => (
+              <p key={comparisonKey(a)} className="text-sm text-destructive">
+                Failed to load {a.symbol}: {errors[comparisonKey(a)]}
+              </p>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {assets.length === 0 && (
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-muted-foreground">Add up to {MAX_COMPARISON_SYMBOLS} stocks or coins to compare them.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {series.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">
+              Performance and Ranks{aligned.startDate ? ` since ${aligned.startDate}` : ''}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {aligned.startDate ? (
+              <ComparisonChart series={series} aligned={aligned} />
+            ) : (
+              <p className="text-muted-foreground">Not every symbol has a closing price to compare from.</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {series.length > 0 && (
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Field</TableHead>
+                  {series.map(s => (
+                    <TableHead key={comparisonKey(s)} className="text-right">{s.symbol}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                <TableRow>
+                  <TableCell className="font-medium">Performance</TableCell>
+                  {series.map((s) => {
+                    const values = aligned.performance[comparisonKey(s)] ?? [];
+                    const last = [...values].reverse().find((v): v is number => v !== null) ?? null;
+                    const change = last !== null ? last - 100 : null;
+                    return (
+                      <TableCell
+                        key={comparisonKey(s)}
+                        className={`text-right ${change === null ? '' : change >= 0 ? 'text-green-600' : 'text-red-600'}`}
+                      >
+                        {change !== null ? `${change >= 0 ? '+' : ''}${change.toFixed(2)}%` : 'N/A'}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+                {COMPARISON_FIELDS
+                  .filter(field => series.some(s => (s.assetType === 'stock' ? field.stock : field.crypto)))
+                  .map(field => (
+                    <TableRow key={field.label}>
+                      <TableCell className="font-medium">{field.label}</TableCell>
+                      {series.map((s) => {
+                        const latest = loaded[comparisonKey(s)]?.latest;
+                        let content: React.ReactNode = '-';
+                        if (latest && s.assetType === 'stock' && field.stock) {
+                          content = field.stock(latest as RanksData);
+                        } else if (latest && s.assetType === 'crypto' && field.crypto) {
+                          content = field.crypto(latest as CryptoRankData);
+                        }
+                        return (
+                          <TableCell key={comparisonKey(s)} className="text-right">{content}</TableCell>
+                        );
+                      })}
+                    </TableRow>
+                  ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
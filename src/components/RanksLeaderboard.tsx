@@ -0,0 +1,299 @@
+import { ArrowDown, ArrowUp, RefreshCw } from 'lucide-react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { useMarketData } from '../hooks/useMarketData';
+import { abbreviateSectorIndustry } from '../lib/financialUtils';
+import {
+  EMPTY_LEADERBOARD_FILTERS,
+  filterLeaderboard,
+  LEADERBOARD_METRIC_LABELS,
+  LeaderboardAssetType,
+  LeaderboardEntry,
+  LeaderboardFilters,
+  LeaderboardMetric,
+  leaderboardOptions,
+  toCryptoLeaderboard,
+  toStockLeaderboard,
+  topAndBottom,
+} from '../lib/leaderboard';
+import { addWatchlistSymbol, fetchWatchlists, StoredWatchlist } from '../lib/watchlistData';
+import { useToast } from './Toast';
+import { Button } from './ui/Button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/Card';
+import { Label } from './ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+
+const selectClassName = 'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm';
+
+const LEADERBOARD_SIZES = [10, 25, 50, 100];
+
+const formatChange = (change: number | null) => {
+  if (change === null) return <span className="text-muted-foreground">-</span>;
+  if (change === 0) return <span className="text-muted-foreground">0.0</span>;
+  return (
+    <span className={`inline-flex items-center gap-0.5 ${change > 0 ? 'text-green-600' : 'text-red-600'}`}>
+      {change > 0 ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />}
+      {Math.abs(change).toFixed(1)}
+    </span>
+  );
+};
+
+interface LeaderboardTableProps {
+  title: string;
+  entries: LeaderboardEntry[];
+  assetType: LeaderboardAssetType;
+  watchlists: StoredWatchlist[];
+  onAdd: (entry: LeaderboardEntry, watchlist: StoredWatchlist) => void;
+}
+
+const LeaderboardTable: React.FC<LeaderboardTableProps> = ({ title, entries, assetType, watchlists, onAdd }) => (
+  <Card>
+    <CardHeader>
+      <CardTitle className="text-lg">{title}</CardTitle>
+    </CardHeader>
+    <CardContent>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-[40px]">#</TableHead>
+            <TableHead>Symbol</TableHead>
+            {assetType === 'stocks' && <TableHead>Sector / Industry</TableHead>}
+            {assetType === 'stocks' && <TableHead>Tag</TableHead>}
+            <TableHead className="text-right">Rank</TableHead>
+            <TableHead className="text-right">1d</TableHead>
+            <TableHead className="w-[130px]"></TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {entries.map((entry, index) => {
+            const targets = watchlists.filter(w => w.type === assetType && !w.symbols.some(s => s.toUpperCase() === entry.symbol));
+            return (
+              <TableRow key={entry.symbol}>
+                <TableCell className="text-muted-foreground">{index + 1}</TableCell>
+                <TableCell>
+                  <div className="font-medium">{entry.symbol}</div>
+                  {entry.name !== entry.symbol && <div className="text-xs text-muted-foreground truncate max-w-[160px]">{entry.name}</div>}
+                </TableCell>
+                {assetType === 'stocks' && (
+                  <TableCell className="text-xs" title={[entry.sector, entry.industry].filter(Boolean).join(' / ')}>
+                    {abbreviateSectorIndustry(entry.sector, 'sector')} / {abbreviateSectorIndustry(entry.industry, 'industry')}
+                  </TableCell>
+                )}
+                {assetType === 'stocks' && <TableCell className="text-xs">{entry.tag || 'N/A'}</TableCell>}
+                <TableCell className="text-right">{entry.value.toFixed(1)}</TableCell>
+                <TableCell className="text-right">{formatChange(entry.change)}</TableCell>
+                <TableCell>
+                  <select
+                    className="h-8 w-full rounded-md border border-input bg-background px-2 text-xs"
+                    value=""
+                    disabled={targets.length === 0}
+                    onChange={(e) => {
+                      const watchlist = targets.find(w => w.id === e.target.value);
+                      if (watchlist) onAdd(entry, watchlist);
+                    }}
+                    aria-label={`Add ${entry.symbol} to a watchlist`}
+                  >
+                    <option value="">{targets.length === 0 ? 'In all lists' : '+ Watchlist'}</option>
+                    {targets.map(w => (
+                      <option key={w.id} value={w.id}>{w.name}</option>
+                    ))}
+                  </select>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+          {entries.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={7} className="text-center text-muted-foreground">No symbols match the filters</TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </CardContent>
+  </Card>
+);
+
+/**
+ * Universe-wide leaderboard of the best and worst ranked stocks or coins, with the change
+ * since the previous day and a shortcut to add a symbol to one of the wallet's watchlists
+ */
+export const RanksLeaderboard: React.FC = () => {
+  const marketData = useMarketData();
+  const { walletAddress } = useAuth();
+  const { showToast } = useToast();
+
+  const [assetType, setAssetType] = useState<LeaderboardAssetType>('stocks');
+  const [metric, setMetric] = useState<'rankFundamental' | 'rankTechnical'>('rankFundamental');
+  const [size, setSize] = useState(25);
+  const [filters, setFilters] = useState<LeaderboardFilters>(EMPTY_LEADERBOARD_FILTERS);
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [watchlists, setWatchlists] = useState<StoredWatchlist[]>([]);
+
+  const activeMetric: LeaderboardMetric = assetType === 'crypto' ? 'crypto_ranks' : metric;
+
+  const loadEntries = useCallback(async (fresh = false) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setEntries(assetType === 'crypto'
+        ? toCryptoLeaderboard(await marketData.cryptoRanksUniverseWithPrevious({ fresh }))
+        : toStockLeaderboard(await marketData.stockRanksUniverseWithPrevious({ fresh }), metric));
+    } catch (err) {
+      console.error('Error loading leaderboard:', err);
+      setError(`Failed to load the ranks universe: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      setEntries([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [assetType, metric, marketData]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  useEffect(() => {
+    if (!walletAddress) return;
+    fetchWatchlists(walletAddress)
+      .then(setWatchlists)
+      .catch(err => console.warn('Failed to load watchlists for the leaderboard:', err));
+  }, [walletAddress]);
+
+  const filtered = useMemo(() => filterLeaderboard(entries, filters), [entries, filters]);
+  const { top, bottom } = useMemo(() => topAndBottom(filtered, size), [filtered, size]);
+  const sectors = useMemo(() => leaderboardOptions(entries, 'sector'), [entries]);
+  // The industry list narrows to the chosen sector
+  const industries = useMemo(
+    () => leaderboardOptions(filters.sector ? entries.filter(e => e.sector === filters.sector) : entries, 'industry'),
+    [entries, filters.sector]
+  );
+  const tags = useMemo(() => leaderboardOptions(entries, 'tag'), [entries]);
+
+  const handleAdd = async (entry: LeaderboardEntry, watchlist: StoredWatchlist) => {
+    if (!walletAddress) return;
+    try {
+      await addWatchlistSymbol(walletAddress, watchlist.id, entry.symbol);
+      setWatchlists(prev => prev.map(w => (w.id === watchlist.id ? { ...w, symbols: [...w.symbols, entry.symbol] } : w)));
+      showToast({ type: 'success', message: `Added ${entry.symbol} to ${watchlist.name}` });
+    } catch (err) {
+      console.error('Error adding symbol from leaderboard:', err);
+      showToast({ type: 'error', message: `Failed to add ${entry.symbol}`, description: err instanceof Error ? err.message : 'Unknown error' });
+    }
+  };
+
+  const latestDate = entries.reduce<string | null>((latest, e) => (e.date && (!latest || e.date > latest) ? e.date : latest), null);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-4 items-end">
+            <div>
+              <Label htmlFor="leaderboard-asset">Assets</Label>
+              <select
+                id="leaderboard-asset"
+                className={selectClassName}
+                value={assetType}
+                onChange={(e) => {
+                  setAssetType(e.target.value as LeaderboardAssetType);
+                  setFilters(EMPTY_LEADERBOARD_FILTERS);
+                }}
+              >
+                <option value="stocks">Stocks</option>
+                <option value="crypto">Crypto</option>
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="leaderboard-metric">Rank</Label>
+              <select
+                id="leaderboard-metric"
+                className={selectClassName}
+                value={activeMetric}
+                disabled={assetType === 'crypto'}
+                onChange={(e) => setMetric(e.target.value as 'rankFundamental' | 'rankTechnical')}
+              >
+                {(assetType === 'crypto' ? ['crypto_ranks'] : ['rankFundamental', 'rankTechnical']).map(m => (
+                  <option key={m} value={m}>{LEADERBOARD_METRIC_LABELS[m as LeaderboardMetric]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="leaderboard-size">Show</Label>
+              <select id="leaderboard-size" className={selectClassName} value={size} onChange={(e) => setSize(Number(e.target.value))}>
+                {LEADERBOARD_SIZES.map(n => (
+                  <option key={n} value={n}>Top / bottom {n}</option>
+                ))}
+              </select>
+            </div>
+            {assetType === 'stocks' && (
+              <>
+                <div>
+                  <Label htmlFor="leaderboard-sector">Sector</Label>
+                  <select
+                    id="leaderboard-sector"
+                    className={selectClassName}
+                    value={filters.sector}
+                    onChange={(e) => setFilters(prev => ({ ...prev, sector: e.target.value, industry: '' }))}
+                  >
+                    <option value="">All sectors</option>
+                    {sectors.map(s => <option key={s} value={s}>{s}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <Label htmlFor="leaderboard-industry">Industry</Label>
+                  <select
+                    id="leaderboard-industry"
+                    className={selectClassName}
+                    value={filters.industry}
+                    onChange={(e) => setFilters(prev => ({ ...prev, industry: e.target.value }))}
+                  >
+                    <option value="">All industries</option>
+                    {industries.map(i => <option key={i} value={i}>{i}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <Label htmlFor="leaderboard-tag">Size</Label>
+                  <select
+                    id="leaderboard-tag"
+                    className={selectClassName}
+                    value={filters.tag}
+                    onChange={(e) => setFilters(prev => ({ ...prev, tag: e.target.value }))}
+                  >
+                    <option value="">All sizes</option>
+                    {tags.map(t => <option key={t} value={t}>{t}</option>)}
+                  </select>
+                </div>
+              </>
+            )}
+          </div>
+          <div className="flex items-center justify-between mt-4 text-sm text-muted-foreground">
+            <span>
+              {isLoading ? 'Loading ranks...' : `${filtered.length} of ${entries.length} ranked${latestDate ? `, as of ${latestDate.slice(0, 10)}` : ''}`}
+              {!walletAddress && ' · Connect a wallet to add symbols to your watchlists'}
+            </span>
+            <Button variant="outline" size="sm" onClick={() => loadEntries(true)} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Card className="border-destructive bg-destructive/10">
+          <CardContent className="pt-6">
+            <p className="text-sm text-destructive">{error}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {!error && (
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+          <LeaderboardTable title={`Top ${size}`} entries={top} assetType={assetType} watchlists={watchlists} onAdd={handleAdd} />
+          <LeaderboardTable title={`Bottom ${size}`} entries={bottom} assetType={assetType} watchlists={watchlists} onAdd={handleAdd} />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,173 @@
+import { Copy } from 'lucide-react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { useMarketData } from '../hooks/useMarketData';
+import { storeImportedColumnConfig } from '../lib/columnConfig';
+import { indexXDays, toLatestPriceData } from '../lib/marketData';
+import { createWatchlistFromExport } from '../lib/watchlistData';
+import { decodeShareHash, WatchlistExport } from '../lib/watchlistTransfer';
+import { LatestPriceData } from '../types/marketData';
+import { Badge } from './ui/badge';
+import { Button } from './ui/Button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/Card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+
+/**
+ * Read-only view of a watchlist opened from a share link, with latest prices and an option
+ * to clone it into the connected wallet's watchlists
+ */
+const SharedWatchlist: React.FC = () => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { walletAddress } = useAuth();
+  const marketData = useMarketData();
+
+  const decoded = useMemo((): { watchlist: WatchlistExport | null; error: string | null } => {
+    try {
+      return { watchlist: decodeShareHash(location.hash), error: null };
+    } catch (err) {
+      return { watchlist: null, error: err instanceof Error ? err.message : 'Unknown error' };
+    }
+  }, [location.hash]);
+  const watchlist = decoded.watchlist;
+
+  const [latestPrices, setLatestPrices] = useState<LatestPriceData[]>([]);
+  const [applyColumns, setApplyColumns] = useState(true);
+  const [isCloning, setIsCloning] = useState(false);
+  const [cloneError, setCloneError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!watchlist || watchlist.symbols.length === 0) return;
+    let cancelled = false;
+
+    const loadPrices = async () => {
+      try {
+        const isCrypto = watchlist.type === 'crypto';
+        const [history, quotes] = await Promise.all([
+          isCrypto ? marketData.cryptoXDays(watchlist.symbols) : marketData.stockXDays(watchlist.symbols),
+          isCrypto ? marketData.latestCryptoQuotes(watchlist.symbols) : marketData.latestStockQuotes(watchlist.symbols),
+        ]);
+        if (!cancelled) setLatestPrices(toLatestPriceData(quotes, indexXDays(history)));
+      } catch (err) {
+        console.warn('Failed to load prices for shared watchlist:', err);
+      }
+    };
+
+    loadPrices();
+    return () => {
+      cancelled = true;
+    };
+  }, [watchlist, marketData]);
+
+  const handleClone = async () => {
+    if (!watchlist || !walletAddress) return;
+
+    setIsCloning(true);
+    setCloneError(null);
+    try {
+      await createWatchlistFromExport(walletAddress, watchlist);
+      if (applyColumns && watchlist.columnConfig) {
+        storeImportedColumnConfig(walletAddress, watchlist.columnConfig);
+      }
+      navigate('/watchlist');
+    } catch (err) {
+      console.error('Error cloning watchlist:', err);
+      setCloneError(`Failed to clone watchlist: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsCloning(false);
+    }
+  };
+
+  const formatReturn = (returnPct: number | null | undefined) => {
+    if (returnPct === null || returnPct === undefined) return '';
+    const sign = returnPct >= 0 ? '+' : '';
+    return `${sign}${returnPct.toFixed(2)}%`;
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <h1 className="text-3xl font-bold mb-8">Shared Watchlist</h1>
+
+        {decoded.error && (
+          <Card className="mb-6 border-destructive bg-destructive/10">
+            <CardContent className="pt-6">
+              <p className="text-sm text-destructive">{decoded.error}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {watchlist && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span>{watchlist.name}</span>
+                <Badge variant={watchlist.type === 'crypto' ? 'default' : 'secondary'}>
+                  {watchlist.type === 'crypto' ? 'Cryptocurrency' : 'Stocks'}
+                </Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="text-sm text-muted-foreground">
+                  {walletAddress
+                    ? 'Clone this list to add it to your watchlists. The copy is yours to edit.'
+                    : 'Connect a wallet to clone this list into your own watchlists.'}
+                </p>
+                <div className="flex items-center gap-4">
+                  {watchlist.columnConfig && (
+                    <label className="flex items-center gap-2 text-sm">
+                      <input type="checkbox" checked={applyColumns} onChange={(e) => setApplyColumns(e.target.checked)} />
+                      Use the shared column layout
+                    </label>
+                  )}
+                  <Button onClick={handleClone} disabled={!walletAddress || isCloning}>
+                    <Copy className="h-4 w-4 mr-2" />
+                    {isCloning ? 'Cloning...' : 'Clone to my watchlists'}
+                  </Button>
+                </div>
+              </div>
+              {cloneError && <p className="text-sm text-destructive">{cloneError}</p>}
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Symbol</TableHead>
+                    <TableHead className="text-right">Latest</TableHead>
+                    <TableHead className="text-right">1d</TableHead>
+                    <TableHead className="text-right">30d</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {watchlist.symbols.map((symbol) => {
+                    const latestData = latestPrices.find(lp => lp.symbol === symbol);
+                    return (
+                      <TableRow key={symbol}>
+                        <TableCell className="font-medium">{symbol}</TableCell>
+                        <TableCell className="text-right">{latestData ? `$${latestData.latestPrice.toFixed(2)}` : 'N/A'}</TableCell>
+                        <TableCell className={`text-right ${(latestData?.returns['1d'] ?? 0) >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {formatReturn(latestData?.returns['1d'])}
+                        </TableCell>
+                        <TableCell className={`text-right ${(latestData?.returns['30d'] ?? 0) >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {formatReturn(latestData?.returns['30d'])}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                  {watchlist.symbols.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-muted-foreground">This list has no symbols</TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SharedWatchlist;
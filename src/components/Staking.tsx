@@ -3,6 +3,7 @@ import * as echarts from 'echarts';
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { FaExternalLinkAlt, FaPlusSquare, FaSave, FaTimes, FaTrash, FaUndo } from 'react-icons/fa';
 import { useAuth } from '../context/AuthContext';
+import { DataGrid, DataGridColumn } from './ui/data-grid';
 
 
 // Check your interface definition to ensure all required fields are present
@@ -38,6 +39,52 @@ const APP_VERSION = '1.0.0';
 // API configuration (similar to Ranks.tsx)
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '/api';
 const API_KEY = import.meta.env.VITE_API_KEY;
+interface StakingRow {
+  item: StakingItem;
+  idx: number; // position in the staking (or deleted) list
+  totalQuantity: number;
+  itemValue: number;
+  percentOfTotal: number;
+}
+
+// Return of an item over the selected period, as published (a percentage)
+const periodReturn = (item: StakingItem, period: '7d' | '30d' | '60d' | '90d' | '120d'): number | null => {
+  const value = {
+    '7d': item.return7d,
+    '30d': item.return30d,
+    '60d': item.return60d,
+    '90d': item.return90d,
+    '120d': item.return120d,
+  }[period];
+  return value ? parseFloat(value) : null;
+};
+
+const returnColumn = (
+  selectedReturnPeriod: '7d' | '30d' | '60d' | '90d' | '120d',
+  formatNumber: (value: number, decimals?: number) => string
+): DataGridColumn<StakingRow> => ({
+  id: 'return',
+  header: `${selectedReturnPeriod} Return`,
+  accessor: row => periodReturn(row.item, selectedReturnPeriod),
+  format: value => (typeof value === 'number' ? `${value >= 0 ? '+' : ''}${formatNumber(value, 2)}%` : 'N/A'),
+  cell: (row, value) => (typeof value === 'number' ? (
+    <span className={value >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+      {value >= 0 ? '+' : ''}{formatNumber(value, 2)}%
+    </span>
+  ) : (
+    <span className="text-gray-400">N/A</span>
+  )),
+  width: 110,
+  align: 'right',
+});
+
+const StakingTotal: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="flex justify-between px-2 py-2 text-xs font-medium text-gray-900 dark:text-white bg-gray-50 dark:bg-gray-700">
+    <strong>{label}</strong>
+    <strong>{value}</strong>
+  </div>
+);
+
 const StakingTableContent: React.FC<{
   filteredStakingItems: Array<{ item: StakingItem; idx: number }>;
   filteredCalculatedValues: Array<{ totalQuantity: number; itemValue: number }>;
@@ -70,152 +117,174 @@ const StakingTableContent: React.FC<{
   removeStakingItem,
   startEditing,
   formatNumber
-}) => (
-  <div className="bg-white dark:bg-gray-800 shadow overflow-hidden sm:rounded-lg">
-    <div className="overflow-x-auto">
-      <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-xs">
-        <thead className="bg-gray-50 dark:bg-gray-700">
-          <tr>
-            <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300"></th>
-            <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Ticker</th>
-            <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Staked</th>
-            <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Unclaimed</th>
-            <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Total</th>
-            <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Price</th>
-            <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">{selectedReturnPeriod} Return</th>
-            <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Value</th>
-            <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">%</th>
-            <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Link</th>
-            <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Account</th>
-          </tr>
-        </thead>
-        <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
-          {filteredStakingItems.map(({ item, idx }) => {
-            const { totalQuantity, itemValue } = filteredCalculatedValues[filteredStakingItems.findIndex(f => f.idx === idx)];
-            const percentOfTotal = filteredTotalValue > 0 ? (itemValue / filteredTotalValue) * 100 : 0;
-
-            return (
-              <tr key={idx} className="hover:bg-gray-50 dark:hover:bg-gray-700">
-                <td className="px-2 py-2 whitespace-nowrap text-xs">
-                  {editIndex === idx ? (
-                    <div className="flex space-x-1">
-                      <button
-                        onClick={saveEdit}
-                        className="inline-flex items-center px-1 py-1 border border-transparent text-xs rounded text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-1 focus:ring-green-500"
-                      >
-                        {FaSave({ style: { fontSize: '10px' } })}
-                      </button>
-                      <button
-                        onClick={cancelEditing}
-                        className="inline-flex items-center px-1 py-1 border border-transparent text-xs rounded text-white bg-gray-600 hover:bg-gray-700 focus:outline-none focus:ring-1 focus:ring-gray-500"
-                      >
-                        {FaTimes({ style: { fontSize: '10px' } })}
-                      </button>
-                    </div>
-                  ) : (
-                    <button
-                      onClick={() => removeStakingItem(idx)}
-                      className="inline-flex items-center px-1 py-1 border border-transparent text-xs rounded text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-1 focus:ring-red-500"
-                    >
-                      {FaTrash({ style: { fontSize: '10px' } })}
-                    </button>
-                  )}
-                </td>
-                <td className="px-2 py-2 whitespace-nowrap text-xs font-medium text-gray-900 dark:text-white">{renderEditableCell('ticker', item, idx)}</td>
-                <td className="px-2 py-2 whitespace-nowrap text-xs text-gray-900 dark:text-white text-right">{renderEditableCell('stakedQuantity', item, idx, true, true)}</td>
-                <td className="px-2 py-2 whitespace-nowrap text-xs text-gray-900 dark:text-white text-right">{renderEditableCell('unclaimedQuantity', item, idx, true, true)}</td>
-                <td className="px-2 py-2 whitespace-nowrap text-xs text-gray-900 dark:text-white text-right">{hideValues ? '***' : formatNumber(totalQuantity, 2)}</td>
-                <td className="px-2 py-2 whitespace-nowrap text-xs text-gray-900 dark:text-white text-right">
-                  {renderEditableCell('price', item, idx, true)}
-                </td>
-                <td className="px-2 py-2 whitespace-nowrap text-xs text-gray-900 dark:text-white text-right">
-                  {(() => {
-                    const returnValue = (() => {
-                      switch (selectedReturnPeriod) {
-                        case '7d': return item.return7d;
-                        case '30d': return item.return30d;
-                        case '60d': return item.return60d;
-                        case '90d': return item.return90d;
-                        case '120d': return item.return120d;
-                        default: return undefined;
-                      }
-                    })();
-                    return returnValue ? (
-                      <span className={parseFloat(returnValue) >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
-                        {parseFloat(returnValue) >= 0 ? '+' : ''}{formatNumber(parseFloat(returnValue), 2)}%
-                      </span>
-                    ) : (
-                      <span className="text-gray-400">N/A</span>
-                    );
-                  })()}
-                </td>
-                <td className="px-2 py-2 whitespace-nowrap text-xs font-medium text-gray-900 dark:text-white text-right">{hideValues ? '***' : `$${formatNumber(itemValue)}`}</td>
-                <td className="px-2 py-2 whitespace-nowrap text-xs text-gray-900 dark:text-white text-right">{formatNumber(percentOfTotal, 1)}%</td>
-                <td className="px-2 py-2 whitespace-nowrap text-xs text-gray-900 dark:text-white">
-                  {editIndex === idx && editItem ? (
-                    <input
-                      type="text"
-                      name="stakingUrl"
-                      value={editItem.stakingUrl}
-                      onChange={(e) => editItem && setEditItem({...editItem, stakingUrl: e.target.value})}
-                      placeholder="https://..."
-                      className="w-full px-1 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
-                    />
-                  ) : (
-                    item.stakingUrl ? (
-                      <a href={item.stakingUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 text-xs">
-                        {FaExternalLinkAlt({ style: { fontSize: '10px' } })} Visit
-                      </a>
-                    ) : (
-                      <div
-                        onClick={() => startEditing(idx)}
-                        className="cursor-pointer text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 editable-cell text-xs"
-                      >
-                        Add
-                      </div>
-                    )
-                  )}
-                </td>
-                <td className="px-2 py-2 whitespace-nowrap text-xs text-gray-900 dark:text-white">
-                  {editIndex === idx && editItem ? (
-                    <input
-                      type="text"
-                      name="account"
-                      value={editItem.account}
-                      onChange={(e) => editItem && setEditItem({...editItem, account: e.target.value})}
-                      className="w-full px-1 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
-                    />
-                  ) : (
-                    <div
-                      onClick={() => startEditing(idx)}
-                      className="cursor-pointer editable-cell hover:bg-gray-100 dark:hover:bg-gray-600 rounded px-1 py-1"
-                      title={item.account ? `Full account: ${item.account}` : 'No account specified'}
-                    >
-                      {item.account && item.account.length > 12
-                        ? item.account.substring(0, 12) + '...'
-                        : item.account || 'N/A'
-                      }
-                    </div>
-                  )}
-                </td>
-              </tr>
-            );
-          })}
-        </tbody>
-        <tfoot className="bg-gray-50 dark:bg-gray-700">
-          <tr>
-            <td colSpan={6} className="px-2 py-2 text-xs font-medium text-gray-900 dark:text-white">
-              <strong>Total {activeTab.charAt(0).toUpperCase() + activeTab.slice(1)} Value:</strong>
-            </td>
-            <td colSpan={4} className="px-2 py-2 text-xs font-medium text-gray-900 dark:text-white">
-              <strong>{hideValues ? '***' : `$${formatNumber(filteredTotalValue)}`}</strong>
-            </td>
-          </tr>
-        </tfoot>
-      </table>
+}) => {
+  const rows = useMemo((): StakingRow[] => filteredStakingItems.map(({ item, idx }, position) => {
+    const { totalQuantity, itemValue } = filteredCalculatedValues[position];
+    const percentOfTotal = filteredTotalValue > 0 ? (itemValue / filteredTotalValue) * 100 : 0;
+    return { item, idx, totalQuantity, itemValue, percentOfTotal };
+  }), [filteredStakingItems, filteredCalculatedValues, filteredTotalValue]);
+
+  const columns: DataGridColumn<StakingRow>[] = [
+    {
+      id: 'actions',
+      header: '',
+      accessor: () => null,
+      cell: ({ idx }) => (editIndex === idx ? (
+        <div className="flex space-x-1">
+          <button
+            onClick={saveEdit}
+            className="inline-flex items-center px-1 py-1 border border-transparent text-xs rounded text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-1 focus:ring-green-500"
+          >
+            {FaSave({ style: { fontSize: '10px' } })}
+          </button>
+          <button
+            onClick={cancelEditing}
+            className="inline-flex items-center px-1 py-1 border border-transparent text-xs rounded text-white bg-gray-600 hover:bg-gray-700 focus:outline-none focus:ring-1 focus:ring-gray-500"
+          >
+            {FaTimes({ style: { fontSize: '10px' } })}
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={() => removeStakingItem(idx)}
+          className="inline-flex items-center px-1 py-1 border border-transparent text-xs rounded text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-1 focus:ring-red-500"
+        >
+          {FaTrash({ style: { fontSize: '10px' } })}
+        </button>
+      )),
+      width: 70,
+      sortable: false,
+      pinned: true,
+    },
+    {
+      id: 'ticker',
+      header: 'Ticker',
+      accessor: row => row.item.ticker,
+      cell: row => <span className="font-medium">{renderEditableCell('ticker', row.item, row.idx)}</span>,
+      width: 100,
+      pinned: true,
+    },
+    {
+      id: 'stakedQuantity',
+      header: 'Staked',
+      accessor: row => parseFloat(row.item.stakedQuantity || '0'),
+      format: value => (hideValues ? '***' : formatNumber(value as number, 2)),
+      cell: row => renderEditableCell('stakedQuantity', row.item, row.idx, true, true),
+      width: 110,
+      align: 'right',
+    },
+    {
+      id: 'unclaimedQuantity',
+      header: 'Unclaimed',
+      accessor: row => parseFloat(row.item.unclaimedQuantity || '0'),
+      format: value => (hideValues ? '***' : formatNumber(value as number, 2)),
+      cell: row => renderEditableCell('unclaimedQuantity', row.item, row.idx, true, true),
+      width: 110,
+      align: 'right',
+    },
+    {
+      id: 'totalQuantity',
+      header: 'Total',
+      accessor: row => row.totalQuantity,
+      format: value => (hideValues ? '***' : formatNumber(value as number, 2)),
+      width: 110,
+      align: 'right',
+    },
+    {
+      id: 'price',
+      header: 'Price',
+      accessor: row => parseFloat(row.item.price || '0'),
+      format: value => `$${formatNumber(value as number, 2)}`,
+      cell: row => renderEditableCell('price', row.item, row.idx, true),
+      width: 100,
+      align: 'right',
+    },
+    returnColumn(selectedReturnPeriod, formatNumber),
+    {
+      id: 'itemValue',
+      header: 'Value',
+      accessor: row => row.itemValue,
+      format: value => (hideValues ? '***' : `$${formatNumber(value as number)}`),
+      cell: row => <span className="font-medium">{hideValues ? '***' : `$${formatNumber(row.itemValue)}`}</span>,
+      width: 120,
+      align: 'right',
+    },
+    {
+      id: 'percentOfTotal',
+      header: '%',
+      accessor: row => row.percentOfTotal,
+      format: value => `${formatNumber(value as number, 1)}%`,
+      width: 80,
+      align: 'right',
+    },
+    {
+      id: 'stakingUrl',
+      header: 'Link',
+      accessor: row => row.item.stakingUrl,
+      cell: ({ item, idx }) => (editIndex === idx && editItem ? (
+        <input
+          type="text"
+          name="stakingUrl"
+          value={editItem.stakingUrl}
+          onChange={(e) => editItem && setEditItem({...editItem, stakingUrl: e.target.value})}
+          placeholder="https://..."
+          className="w-full px-1 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+        />
+      ) : (
+        item.stakingUrl ? (
+          <a href={item.stakingUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 text-xs">
+            {FaExternalLinkAlt({ style: { fontSize: '10px' } })} Visit
+          </a>
+        ) : (
+          <div
+            onClick={() => startEditing(idx)}
+            className="cursor-pointer text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 editable-cell text-xs"
+          >
+            Add
+          </div>
+        )
+      )),
+      width: 140,
+      sortable: false,
+    },
+    {
+      id: 'account',
+      header: 'Account',
+      accessor: row => row.item.account,
+      cell: ({ item, idx }) => (editIndex === idx && editItem ? (
+        <input
+          type="text"
+          name="account"
+          value={editItem.account}
+          onChange={(e) => editItem && setEditItem({...editItem, account: e.target.value})}
+          className="w-full px-1 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+        />
+      ) : (
+        <div
+          onClick={() => startEditing(idx)}
+          className="cursor-pointer editable-cell hover:bg-gray-100 dark:hover:bg-gray-600 rounded px-1 py-1"
+          title={item.account ? `Full account: ${item.account}` : 'No account specified'}
+        >
+          {item.account && item.account.length > 12
+            ? item.account.substring(0, 12) + '...'
+            : item.account || 'N/A'
+          }
+        </div>
+      )),
+      width: 140,
+    },
+  ];
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow overflow-hidden sm:rounded-lg text-xs">
+      <DataGrid rows={rows} columns={columns} getRowKey={row => row.idx} />
+      <StakingTotal
+        label={`Total ${activeTab.charAt(0).toUpperCase() + activeTab.slice(1)} Value:`}
+        value={hideValues ? '***' : `$${formatNumber(filteredTotalValue)}`}
+      />
     </div>
-  </div>
-);
+  );
+};
 
 // Treemap component for staking data
 const StakingTreemap: React.FC<{
@@ -347,7 +416,6 @@ const StakingTreemap: React.FC<{
 
 const DeletedStakingTableContent: React.FC<{
   filteredStakingItems: Array<{ item: StakingItem; idx: number }>;
-  filteredCalculatedValues: Array<{ totalQuantity: number; itemValue: number }>;
   filteredTotalValue: number;
   selectedReturnPeriod: '7d' | '30d' | '60d' | '90d' | '120d';
   hideValues: boolean;
@@ -355,92 +423,110 @@ const DeletedStakingTableContent: React.FC<{
   formatNumber: (value: number, decimals?: number) => string;
 }> = ({
   filteredStakingItems,
-  filteredCalculatedValues,
   filteredTotalValue,
   selectedReturnPeriod,
   hideValues,
   restoreStakingItems,
   formatNumber
-}) => (
-  <div className="bg-white dark:bg-gray-800 shadow overflow-hidden sm:rounded-lg">
-    <div className="overflow-x-auto">
-      <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-xs">
-        <thead className="bg-gray-50 dark:bg-gray-700">
-          <tr>
-            <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300"></th>
-            <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Ticker</th>
-            <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Staked</th>
-            <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Unclaimed</th>
-            <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Total</th>
-            <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Price</th>
-            <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">{selectedReturnPeriod} Return</th>
-            <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Value</th>
-            <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">%</th>
-            <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Account</th>
-          </tr>
-        </thead>
-        <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
-          {filteredStakingItems.map(({ item, idx }) => {
-            const { totalQuantity, itemValue } = filteredCalculatedValues[filteredStakingItems.findIndex(f => f.idx === idx)];
-            const percentOfTotal = filteredTotalValue > 0 ? (itemValue / filteredTotalValue) * 100 : 0;
-
-            return (
-              <tr key={idx} className="hover:bg-gray-50 dark:hover:bg-gray-700">
-                <td className="px-2 py-2 whitespace-nowrap text-xs">
-                  <button
-                    onClick={() => restoreStakingItems(idx)}
-                    className="inline-flex items-center px-1 py-1 border border-transparent text-xs rounded text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-1 focus:ring-green-500"
-                  >
-                    {FaUndo({ style: { fontSize: '10px' } })}
-                  </button>
-                </td>
-                <td className="px-2 py-2 whitespace-nowrap text-xs font-medium text-gray-900 dark:text-white">{item.ticker}</td>
-                <td className="px-2 py-2 whitespace-nowrap text-xs text-gray-900 dark:text-white text-right">{hideValues ? '***' : formatNumber(parseFloat(item.stakedQuantity || '0'), 2)}</td>
-                <td className="px-2 py-2 whitespace-nowrap text-xs text-gray-900 dark:text-white text-right">{hideValues ? '***' : formatNumber(parseFloat(item.unclaimedQuantity || '0'), 2)}</td>
-                <td className="px-2 py-2 whitespace-nowrap text-xs text-gray-900 dark:text-white text-right">{hideValues ? '***' : formatNumber(totalQuantity, 2)}</td>
-                <td className="px-2 py-2 whitespace-nowrap text-xs text-gray-900 dark:text-white text-right">{hideValues ? '***' : `$${formatNumber(parseFloat(item.price || '0'), 2)}`}</td>
-                <td className="px-2 py-2 whitespace-nowrap text-xs text-gray-900 dark:text-white text-right">
-                  {(() => {
-                    const returnValue = (() => {
-                      switch (selectedReturnPeriod) {
-                        case '7d': return item.return7d;
-                        case '30d': return item.return30d;
-                        case '60d': return item.return60d;
-                        case '90d': return item.return90d;
-                        case '120d': return item.return120d;
-                        default: return undefined;
-                      }
-                    })();
-                    return returnValue ? (
-                      <span className={parseFloat(returnValue) >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
-                        {parseFloat(returnValue) >= 0 ? '+' : ''}{formatNumber(parseFloat(returnValue), 2)}%
-                      </span>
-                    ) : (
-                      <span className="text-gray-400">N/A</span>
-                    );
-                  })()}
-                </td>
-                <td className="px-2 py-2 whitespace-nowrap text-xs font-medium text-gray-900 dark:text-white text-right">{hideValues ? '***' : `$${formatNumber(itemValue)}`}</td>
-                <td className="px-2 py-2 whitespace-nowrap text-xs text-gray-900 dark:text-white text-right">{formatNumber(percentOfTotal, 1)}%</td>
-                <td className="px-2 py-2 whitespace-nowrap text-xs text-gray-900 dark:text-white">{item.account}</td>
-              </tr>
-            );
-          })}
-        </tbody>
-        <tfoot className="bg-gray-50 dark:bg-gray-700">
-          <tr>
-            <td colSpan={6} className="px-2 py-2 text-xs font-medium text-gray-900 dark:text-white">
-              <strong>Total Deleted Value:</strong>
-            </td>
-            <td colSpan={4} className="px-2 py-2 text-xs font-medium text-gray-900 dark:text-white">
-              <strong>{hideValues ? '***' : `$${formatNumber(filteredTotalValue)}`}</strong>
-            </td>
-          </tr>
-        </tfoot>
-      </table>
+}) => {
+  // Deleted items come sorted by value, so each row's totals are worked out from the item itself
+  const rows = useMemo((): StakingRow[] => filteredStakingItems.map(({ item, idx }) => {
+    const totalQuantity = parseFloat(item.stakedQuantity || '0') + parseFloat(item.unclaimedQuantity || '0');
+    const itemValue = totalQuantity * parseFloat(item.price || '0');
+    const percentOfTotal = filteredTotalValue > 0 ? (itemValue / filteredTotalValue) * 100 : 0;
+    return { item, idx, totalQuantity, itemValue, percentOfTotal };
+  }), [filteredStakingItems, filteredTotalValue]);
+
+  const columns: DataGridColumn<StakingRow>[] = [
+    {
+      id: 'actions',
+      header: '',
+      accessor: () => null,
+      cell: ({ idx }) => (
+        <button
+          onClick={() => restoreStakingItems(idx)}
+          className="inline-flex items-center px-1 py-1 border border-transparent text-xs rounded text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-1 focus:ring-green-500"
+        >
+          {FaUndo({ style: { fontSize: '10px' } })}
+        </button>
+      ),
+      width: 50,
+      sortable: false,
+      pinned: true,
+    },
+    {
+      id: 'ticker',
+      header: 'Ticker',
+      accessor: row => row.item.ticker,
+      cell: row => <span className="font-medium">{row.item.ticker}</span>,
+      width: 100,
+      pinned: true,
+    },
+    {
+      id: 'stakedQuantity',
+      header: 'Staked',
+      accessor: row => parseFloat(row.item.stakedQuantity || '0'),
+      format: value => (hideValues ? '***' : formatNumber(value as number, 2)),
+      width: 110,
+      align: 'right',
+    },
+    {
+      id: 'unclaimedQuantity',
+      header: 'Unclaimed',
+      accessor: row => parseFloat(row.item.unclaimedQuantity || '0'),
+      format: value => (hideValues ? '***' : formatNumber(value as number, 2)),
+      width: 110,
+      align: 'right',
+    },
+    {
+      id: 'totalQuantity',
+      header: 'Total',
+      accessor: row => row.totalQuantity,
+      format: value => (hideValues ? '***' : formatNumber(value as number, 2)),
+      width: 110,
+      align: 'right',
+    },
+    {
+      id: 'price',
+      header: 'Price',
+      accessor: row => parseFloat(row.item.price || '0'),
+      format: value => (hideValues ? '***' : `$${formatNumber(value as number, 2)}`),
+      width: 100,
+      align: 'right',
+    },
+    returnColumn(selectedReturnPeriod, formatNumber),
+    {
+      id: 'itemValue',
+      header: 'Value',
+      accessor: row => row.itemValue,
+      format: value => (hideValues ? '***' : `$${formatNumber(value as number)}`),
+      cell: row => <span className="font-medium">{hideValues ? '***' : `$${formatNumber(row.itemValue)}`}</span>,
+      width: 120,
+      align: 'right',
+    },
+    {
+      id: 'percentOfTotal',
+      header: '%',
+      accessor: row => row.percentOfTotal,
+      format: value => `${formatNumber(value as number, 1)}%`,
+      width: 80,
+      align: 'right',
+    },
+    {
+      id: 'account',
+      header: 'Account',
+      accessor: row => row.item.account,
+      width: 160,
+    },
+  ];
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow overflow-hidden sm:rounded-lg text-xs">
+      <DataGrid rows={rows} columns={columns} getRowKey={row => row.idx} />
+      <StakingTotal label="Total Deleted Value:" value={hideValues ? '***' : `$${formatNumber(filteredTotalValue)}`} />
     </div>
-  </div>
-);
+  );
+};
 
 const Staking: React.FC = () => {
   // Get the authenticated user and wallet address
@@ -1355,7 +1441,6 @@ const Staking: React.FC = () => {
             <TabsContent value="deleted" className="mt-6">
               <DeletedStakingTableContent
                 filteredStakingItems={filteredStakingItems}
-                filteredCalculatedValues={filteredCalculatedValues}
                 filteredTotalValue={filteredTotalValue}
                 selectedReturnPeriod={selectedReturnPeriod}
                 hideValues={hideValues}
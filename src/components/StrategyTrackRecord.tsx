@@ -0,0 +1,243 @@
+import * as echarts from 'echarts';
+import React, { useEffect, useMemo, useRef } from 'react';
+import { ThemeContext } from '../context/ThemeContext';
+import {
+  buildStrategyTrackRecord,
+  compareStat,
+  CryptoSignalRow,
+  readReportedExpectancy,
+  StatComparison,
+  StrategyEquityPoint,
+} from '../lib/cryptoSignals';
+import { Badge } from './ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+
+// How far a rebuilt stat may drift from the published one and still count as matching
+const RELATIVE_TOLERANCE = 0.1;
+
+const formatPercent = (value: number | null, signed = false) => {
+  if (value === null) return 'N/A';
+  const percent = value * 100;
+  return `${signed && percent > 0 ? '+' : ''}${percent.toFixed(2)}%`;
+};
+
+const valueClassName = (value: number | null) =>
+  value === null || value === 0 ? '' : value > 0 ? 'text-green-600' : 'text-red-600';
+
+const MatchBadge: React.FC<{ comparison: StatComparison }> = ({ comparison }) => {
+  if (comparison.matches === null) return <Badge variant="outline">Not comparable</Badge>;
+  return comparison.matches
+    ? <Badge variant="secondary">Matches</Badge>
+    : <Badge variant="destructive">Differs</Badge>;
+};
+
+// Realized equity above, drawdown below
+const EquityChart: React.FC<{ equity: StrategyEquityPoint[] }> = ({ equity }) => {
+  const chartRef = useRef<HTMLDivElement>(null);
+  const chartInstance = useRef<echarts.ECharts | null>(null);
+  const { theme } = React.useContext(ThemeContext);
+
+  useEffect(() => {
+    if (!chartRef.current) return;
+    if (!chartInstance.current) {
+      chartInstance.current = echarts.init(chartRef.current);
+    }
+
+    const textColor = theme === 'dark' ? '#ffffff' : '#000000';
+    const dates = equity.map(p => p.date);
+
+    chartInstance.current.setOption({
+      animation: false,
+      tooltip: { trigger: 'axis' },
+      axisPointer: { link: [{ xAxisIndex: 'all' }] },
+      grid: [
+        { left: 60, right: 30, top: 20, height: 170 },
+        { left: 60, right: 30, top: 230, height: 80 },
+      ],
+      xAxis: [
+        { type: 'category', data: dates, boundaryGap: false, axisLabel: { show: false } },
+        { type: 'category', gridIndex: 1, data: dates, boundaryGap: false, axisLabel: { color: textColor } },
+      ],
+      yAxis: [
+        { type: 'value', scale: true, name: 'Equity', nameTextStyle: { color: textColor }, axisLabel: { color: textColor } },
+        {
+          type: 'value',
+          gridIndex: 1,
+          max: 0,
+          name: 'Drawdown',
+          nameTextStyle: { color: textColor },
+          axisLabel: { color: textColor, formatter: (value: number) => `${Math.round(value * 100)}%` },
+        },
+      ],
+      series: [
+        {
+          name: 'Equity',
+          type: 'line',
+          step: 'end',
+          data: equity.map(p => p.equity),
+          showSymbol: false,
+          lineStyle: { color: '#3b82f6' },
+          itemStyle: { color: '#3b82f6' },
+        },
+        {
+          name: 'Drawdown',
+          type: 'line',
+          step: 'end',
+          xAxisIndex: 1,
+          yAxisIndex: 1,
+          data: equity.map(p => p.drawdown),
+          showSymbol: false,
+          lineStyle: { color: '#ef4444' },
+          itemStyle: { color: '#ef4444' },
+          areaStyle: { color: '#ef4444', opacity: 0.2 },
+        },
+      ],
+    }, true);
+
+    return () => {
+      if (chartInstance.current) {
+        chartInstance.current.dispose();
+        chartInstance.current = null;
+      }
+    };
+  }, [equity, theme]);
+
+  return <div ref={chartRef} className="w-full h-[340px]" />;
+};
+
+interface StrategyTrackRecordProps {
+  rows: CryptoSignalRow[];
+  symbol: string;
+}
+
+/**
+ * Trades implied by a coin's day-by-day strategy_side, with the realized equity, drawdown
+ * and win rate they add up to, checked against the expectancy and profit factor the backend
+ * publishes for the strategy
+ */
+export const StrategyTrackRecord: React.FC<StrategyTrackRecordProps> = ({ rows, symbol }) => {
+  const record = useMemo(() => buildStrategyTrackRecord(rows), [rows]);
+  const { reported } = record;
+
+  const expectancyReadings = readReportedExpectancy(record.expectancy, reported.expectancy);
+  const profitFactorComparison = compareStat(record.profitFactor, reported.profitFactor, RELATIVE_TOLERANCE);
+
+  if (record.trades.length === 0) {
+    return <p className="text-muted-foreground">No long or short strategy side published for {symbol.toUpperCase()}.</p>;
+  }
+
+  const openTrade = record.trades.find(trade => trade.open);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+        <div>
+          <div className="text-muted-foreground">Closed trades</div>
+          <div className="text-lg font-semibold">{record.closedTrades}</div>
+          <div className="text-xs text-muted-foreground">{record.wins} won, {record.losses} lost</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Win rate</div>
+          <div className="text-lg font-semibold">{formatPercent(record.winRate)}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Realized return</div>
+          <div className={`text-lg font-semibold ${valueClassName(record.totalReturn)}`}>{formatPercent(record.totalReturn, true)}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Max drawdown</div>
+          <div className="text-lg font-semibold text-red-600">{formatPercent(record.maxDrawdown)}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Open trade</div>
+          {openTrade ? (
+            <>
+              <div className={`text-lg font-semibold ${valueClassName(openTrade.return)}`}>{formatPercent(openTrade.return, true)}</div>
+              <div className="text-xs text-muted-foreground">{openTrade.direction} since {openTrade.entryDate}</div>
+            </>
+          ) : (
+            <div className="text-lg font-semibold">Flat</div>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="font-medium">
+          Rebuilt vs reported{reported.date ? <span className="text-sm text-muted-foreground font-normal"> (reported on {reported.date})</span> : null}
+        </h3>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Stat</TableHead>
+              <TableHead className="text-right">Rebuilt</TableHead>
+              <TableHead className="text-right">Reported</TableHead>
+              <TableHead className="text-right">Difference</TableHead>
+              <TableHead className="text-right"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {([['percent', 'as a percentage'], ['fraction', 'as a fraction']] as const).map(([unit, label]) => (
+              <TableRow key={unit}>
+                <TableCell className="font-medium">Expectancy <span className="text-muted-foreground font-normal">({label})</span></TableCell>
+                <TableCell className="text-right">{formatPercent(record.expectancy)}</TableCell>
+                <TableCell className="text-right">{formatPercent(expectancyReadings[unit].reported)}</TableCell>
+                <TableCell className="text-right">{formatPercent(expectancyReadings[unit].difference, true)}</TableCell>
+                <TableCell className="text-right"><Badge variant="outline">Unit unknown</Badge></TableCell>
+              </TableRow>
+            ))}
+            <TableRow>
+              <TableCell className="font-medium">Profit factor</TableCell>
+              <TableCell className="text-right">{record.profitFactor === null ? 'N/A' : record.profitFactor.toFixed(2)}</TableCell>
+              <TableCell className="text-right">{reported.profitFactor === null ? 'N/A' : reported.profitFactor.toFixed(2)}</TableCell>
+              <TableCell className="text-right">
+                {profitFactorComparison.difference === null ? 'N/A' : profitFactorComparison.difference.toFixed(2)}
+              </TableCell>
+              <TableCell className="text-right"><MatchBadge comparison={profitFactorComparison} /></TableCell>
+            </TableRow>
+            <TableRow>
+              <TableCell className="font-medium">Profit per trade</TableCell>
+              <TableCell className="text-right text-muted-foreground">-</TableCell>
+              <TableCell className="text-right">{reported.profitPerTrade === null ? 'N/A' : reported.profitPerTrade.toFixed(2)}</TableCell>
+              <TableCell className="text-right text-muted-foreground">-</TableCell>
+              <TableCell className="text-right"></TableCell>
+            </TableRow>
+          </TableBody>
+        </Table>
+        <p className="text-xs text-muted-foreground">
+          Trades open and close at the daily close on the day the side changes. Stats count closed trades only and match
+          when within {RELATIVE_TOLERANCE * 100}% of the reported value. The endpoint does not say whether the reported
+          expectancy is a percentage or a fraction per trade, so it is shown both ways and not matched.
+        </p>
+      </div>
+
+      {record.equity.length > 1 && <EquityChart equity={record.equity} />}
+
+      <div className="max-h-[400px] overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Direction</TableHead>
+              <TableHead>Entry</TableHead>
+              <TableHead className="text-right">Entry Price</TableHead>
+              <TableHead>Exit</TableHead>
+              <TableHead className="text-right">Exit Price</TableHead>
+              <TableHead className="text-right">Return</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {[...record.trades].reverse().map(trade => (
+              <TableRow key={trade.entryDate}>
+                <TableCell className="capitalize">{trade.direction}</TableCell>
+                <TableCell>{trade.entryDate}</TableCell>
+                <TableCell className="text-right">${trade.entryPrice.toFixed(2)}</TableCell>
+                <TableCell>{trade.exitDate ?? <span className="text-muted-foreground">Open</span>}</TableCell>
+                <TableCell className="text-right">${trade.exitPrice.toFixed(2)}</TableCell>
+                <TableCell className={`text-right ${valueClassName(trade.return)}`}>{formatPercent(trade.return, true)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
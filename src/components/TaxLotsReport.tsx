@@ -0,0 +1,252 @@
+import { Download, RefreshCw } from 'lucide-react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { quantityDecimalsFor } from '../lib/assetClasses';
+import { downloadTextFile } from '../lib/csv';
+import { convertLedger, currencyPrefix } from '../lib/fx';
+import { fetchPortfolioLedger } from '../lib/portfolioData';
+import {
+  filterByTaxYear,
+  getTaxYears,
+  LOT_METHOD_LABELS,
+  LotMethod,
+  matchTaxLots,
+  realizedGainsToCsv,
+  summarizeRealizedGains,
+} from '../lib/taxLots';
+import { AssetClass, CurrencyConversion, PortfolioLedger } from '../types/portfolio';
+import { TableRowSkeleton } from './LoadingSkeleton';
+import { Badge } from './ui/badge';
+import { Button } from './ui/Button';
+import { Label } from './ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+
+interface TaxLotsReportProps {
+  portfolioId: string;
+  portfolioName: string;
+  assetClasses: Record<string, AssetClass>;
+  symbols: string[];
+  conversion: CurrencyConversion;
+}
+
+const formatMoney = (value: number, currency: string) => {
+  const sign = value < 0 ? '-' : '';
+  return `${sign}${currencyPrefix(currency)}${Math.abs(value).toFixed(2)}`;
+};
+
+const gainClass = (value: number) => (value >= 0 ? 'text-green-600' : 'text-red-600');
+
+const selectClassName = 'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm';
+
+export const TaxLotsReport: React.FC<TaxLotsReportProps> = ({
+  portfolioId,
+  portfolioName,
+  assetClasses,
+  symbols,
+  conversion,
+}) => {
+  const [ledger, setLedger] = useState<PortfolioLedger>({});
+  const [method, setMethod] = useState<LotMethod>('FIFO');
+  const [taxYear, setTaxYear] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadLedger = useCallback(async () => {
+    if (!portfolioId || symbols.length === 0) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      setLedger(await fetchPortfolioLedger(portfolioId, symbols));
+    } catch (err) {
+      console.error('Error loading tax lots:', err);
+      setError(`Failed to load transactions: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [portfolioId, symbols.join(',')]);
+
+  useEffect(() => {
+    loadLedger();
+  }, [loadLedger]);
+
+  // Lots carry their cost in the base currency at the acquisition date's rate, proceeds at the sale date's
+  const lotResult = useMemo(() => matchTaxLots(convertLedger(ledger, conversion), method), [ledger, conversion, method]);
+  const taxYears = useMemo(() => getTaxYears(lotResult.realized), [lotResult]);
+
+  // Default to the most recent year with disposals
+  useEffect(() => {
+    if (taxYear === null || !taxYears.includes(taxYear)) {
+      setTaxYear(taxYears.length > 0 ? taxYears[0] : null);
+    }
+  }, [taxYears, taxYear]);
+
+  const yearRealized = useMemo(() => filterByTaxYear(lotResult.realized, taxYear), [lotResult, taxYear]);
+  const summary = useMemo(() => summarizeRealizedGains(yearRealized), [yearRealized]);
+
+  const exportCsv = () => {
+    const safeName = portfolioName.replace(/[^a-z0-9]+/gi, '_').toLowerCase();
+    downloadTextFile(realizedGainsToCsv(yearRealized), `${safeName}_realized_gains_${taxYear ?? 'all'}_${method.toLowerCase()}.csv`);
+  };
+
+  const quantityDecimals = (symbol: string) => quantityDecimalsFor(assetClasses[symbol] ?? 'stocks');
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        {Array.from({ length: Math.min(symbols.length, 5) }).map((_, i) => (
+          <TableRowSkeleton key={i} columns={6} />
+        ))}
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-destructive">{error}</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+        <div className="space-y-2">
+          <Label htmlFor={`lot-method-${portfolioId}`}>Lot Method</Label>
+          <select
+            id={`lot-method-${portfolioId}`}
+            value={method}
+            onChange={(e) => setMethod(e.target.value as LotMethod)}
+            className={selectClassName}
+          >
+            {(Object.keys(LOT_METHOD_LABELS) as LotMethod[]).map(key => (
+              <option key={key} value={key}>{LOT_METHOD_LABELS[key]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`tax-year-${portfolioId}`}>Tax Year</Label>
+          <select
+            id={`tax-year-${portfolioId}`}
+            value={taxYear ?? ''}
+            onChange={(e) => setTaxYear(e.target.value ? Number(e.target.value) : null)}
+            className={selectClassName}
+            disabled={taxYears.length === 0}
+          >
+            {taxYears.length === 0 && <option value="">No disposals</option>}
+            {taxYears.map(year => (
+              <option key={year} value={year}>{year}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex gap-2 md:col-span-2 md:justify-end">
+          <Button onClick={loadLedger} variant="outline" size="sm">
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Reload
+          </Button>
+          <Button onClick={exportCsv} variant="outline" size="sm" disabled={yearRealized.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      {method === 'SPECIFIC' && (
+        <p className="text-xs text-muted-foreground">
+          Sells relieve the lot chosen in the transactions editor first; sells without a chosen lot fall back to FIFO.
+        </p>
+      )}
+
+      {lotResult.unmatchedSells.length > 0 && (
+        <p className="text-sm text-destructive">
+          {lotResult.unmatchedSells.map(s => `${s.symbol} ${s.date}: ${s.quantity.toFixed(quantityDecimals(s.symbol))}`).join(', ')} sold without a matching open lot.
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {[
+          { label: 'Short-Term Gain', value: summary.shortTermGain },
+          { label: 'Long-Term Gain', value: summary.longTermGain },
+          { label: 'Total Realized', value: summary.totalGain },
+          { label: 'Proceeds', value: summary.proceeds, neutral: true },
+          { label: 'Cost Basis', value: summary.costBasis, neutral: true },
+        ].map(stat => (
+          <div key={stat.label} className="p-4 border rounded-lg">
+            <p className="text-xs text-muted-foreground">{stat.label}</p>
+            <p className={`text-xl font-semibold ${stat.neutral ? '' : gainClass(stat.value)}`}>{formatMoney(stat.value, conversion.base)}</p>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <h3 className="text-lg font-semibold mb-2">Realized Gains {taxYear ?? ''}</h3>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Symbol</TableHead>
+              <TableHead>Lot</TableHead>
+              <TableHead>Acquired</TableHead>
+              <TableHead>Sold</TableHead>
+              <TableHead className="text-right">Qty</TableHead>
+              <TableHead className="text-right">Proceeds</TableHead>
+              <TableHead className="text-right">Cost Basis</TableHead>
+              <TableHead className="text-right">Gain/Loss</TableHead>
+              <TableHead>Term</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {yearRealized.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={9} className="text-center text-muted-foreground">No realized gains</TableCell>
+              </TableRow>
+            )}
+            {yearRealized.map((r, idx) => (
+              <TableRow key={`${r.symbol}-${r.lotId}-${r.sold}-${idx}`}>
+                <TableCell className="font-medium">{r.symbol}</TableCell>
+                <TableCell className="text-xs text-muted-foreground">{r.lotId}</TableCell>
+                <TableCell>{r.acquired}</TableCell>
+                <TableCell>{r.sold}</TableCell>
+                <TableCell className="text-right">{r.quantity.toFixed(quantityDecimals(r.symbol))}</TableCell>
+                <TableCell className="text-right">{formatMoney(r.proceeds, conversion.base)}</TableCell>
+                <TableCell className="text-right">{formatMoney(r.costBasis, conversion.base)}</TableCell>
+                <TableCell className={`text-right font-medium ${gainClass(r.gain)}`}>{formatMoney(r.gain, conversion.base)}</TableCell>
+                <TableCell>
+                  <Badge variant={r.term === 'long' ? 'default' : 'secondary'}>{r.term === 'long' ? 'Long' : 'Short'}</Badge>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div>
+        <h3 className="text-lg font-semibold mb-2">Open Lots</h3>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Symbol</TableHead>
+              <TableHead>Lot</TableHead>
+              <TableHead>Acquired</TableHead>
+              <TableHead className="text-right">Remaining</TableHead>
+              <TableHead className="text-right">Cost/Unit</TableHead>
+              <TableHead className="text-right">Cost Basis</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {lotResult.openLots.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">No open lots</TableCell>
+              </TableRow>
+            )}
+            {lotResult.openLots.map(lot => (
+              <TableRow key={`${lot.symbol}-${lot.id}`}>
+                <TableCell className="font-medium">{lot.symbol}</TableCell>
+                <TableCell className="text-xs text-muted-foreground">{lot.id}</TableCell>
+                <TableCell>{lot.acquired}</TableCell>
+                <TableCell className="text-right">{lot.remaining.toFixed(quantityDecimals(lot.symbol))}</TableCell>
+                <TableCell className="text-right">{formatMoney(lot.costPerUnit, conversion.base)}</TableCell>
+                <TableCell className="text-right">{formatMoney(lot.remaining * lot.costPerUnit, conversion.base)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
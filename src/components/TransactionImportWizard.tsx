@@ -0,0 +1,362 @@
+import { FileUp, Upload, X } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { ASSET_CLASS_LABELS, quantityDecimalsFor } from '../lib/assetClasses';
+import {
+  BROKER_FORMAT_LABELS,
+  BrokerFormat,
+  BrokerImportResult,
+  DuplicateSource,
+  findDuplicateImports,
+  ImportedTransaction,
+  parseBrokerCsv,
+} from '../lib/brokerImport';
+import { addPortfolioSymbol, fetchPortfolioLedger, savePortfolioTransactions } from '../lib/portfolioData';
+import { createTransactionId } from '../lib/taxLots';
+import { AssetClass, PortfolioLedger, PortfolioTransactionInput, PortfolioType } from '../types/portfolio';
+import { Badge } from './ui/badge';
+import { Button } from './ui/Button';
+import { Label } from './ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+
+interface TransactionImportWizardProps {
+  portfolioId: string;
+  portfolioName: string;
+  portfolioType: PortfolioType;
+  portfolioSymbols: string[];
+  assetClasses: Record<string, AssetClass>;
+  username: string;
+  onClose: () => void;
+  onImported: (message: string) => void;
+}
+
+type WizardStep = 'upload' | 'preview' | 'saving';
+
+const selectClassName = 'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm';
+
+const DUPLICATE_LABELS: Record<DuplicateSource, string> = {
+  ledger: 'Duplicate',
+  file: 'Repeated in file',
+  possible: 'Possible repeat',
+};
+
+// Rows already in the ledger or repeated under the same broker id start deselected
+const isCertainDuplicate = (source: DuplicateSource | undefined) => source === 'ledger' || source === 'file';
+
+// Rows get their id here, so they keep it if a retry saves the symbol again
+const toTransactionInput = (tx: ImportedTransaction): PortfolioTransactionInput => ({
+  id: createTransactionId(),
+  date: tx.date,
+  action: tx.action,
+  quantity: tx.quantity,
+  price: tx.price,
+  currency: tx.currency,
+});
+
+export const TransactionImportWizard: React.FC<TransactionImportWizardProps> = ({
+  portfolioId,
+  portfolioName,
+  portfolioType,
+  portfolioSymbols,
+  assetClasses,
+  username,
+  onClose,
+  onImported,
+}) => {
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [format, setFormat] = useState<BrokerFormat | 'auto'>('auto');
+  const [fileName, setFileName] = useState('');
+  const [result, setResult] = useState<BrokerImportResult | null>(null);
+  const [ledger, setLedger] = useState<PortfolioLedger>({});
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [importedRows, setImportedRows] = useState<Set<number>>(new Set()); // rows of the current file already saved
+  const [importedTotal, setImportedTotal] = useState(0); // rows saved by runs that failed part way
+  const [addedSymbols, setAddedSymbols] = useState<string[]>([]); // added to the portfolio by this wizard
+  const [addNewSymbols, setAddNewSymbols] = useState(true);
+  const [showSkipped, setShowSkipped] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState('');
+
+  const portfolioSymbolSet = useMemo(
+    () => new Set([...portfolioSymbols, ...addedSymbols].map(s => s.toUpperCase())),
+    [portfolioSymbols, addedSymbols]
+  );
+  const duplicates = useMemo(
+    () => (result ? findDuplicateImports(result.transactions, ledger) : new Map<number, DuplicateSource>()),
+    [result, ledger]
+  );
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError(null);
+    setFileName(file.name);
+    try {
+      const parsed = parseBrokerCsv(await file.text(), format === 'auto' ? undefined : format);
+      if (parsed.transactions.length === 0) {
+        throw new Error(`No trades found in ${file.name} (${parsed.skipped.length} rows skipped)`);
+      }
+
+      // Load existing rows of every imported symbol so duplicates can be flagged. The import sends
+      // them back with the new rows, so a symbol whose rows fail to load stops the preview.
+      const symbols = Array.from(new Set(parsed.transactions.map(tx => tx.symbol)));
+      let existing: PortfolioLedger;
+      try {
+        existing = await fetchPortfolioLedger(portfolioId, symbols.filter(s => portfolioSymbolSet.has(s)));
+      } catch (ledgerError) {
+        throw new Error(`Could not load existing transactions to check for duplicates: ${ledgerError instanceof Error ? ledgerError.message : 'Unknown error'}`);
+      }
+      const dupes = findDuplicateImports(parsed.transactions, existing);
+
+      setLedger(existing);
+      setResult(parsed);
+      setImportedRows(new Set());
+      setSelected(new Set(parsed.transactions.map((_, i) => i).filter(i => !isCertainDuplicate(dupes.get(i)))));
+      setStep('preview');
+    } catch (err) {
+      console.error('Error parsing import file:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read file');
+    } finally {
+      e.target.value = '';
+    }
+  };
+
+  const toggleRow = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  // Kraken exports only hold crypto, the other brokers only stocks; single-class portfolios keep their own type
+  const importAssetClass: AssetClass = portfolioType !== 'mixed'
+    ? portfolioType
+    : result?.format === 'kraken_trades' || result?.format === 'kraken_ledger' ? 'crypto' : 'stocks';
+
+  const importSelected = async () => {
+    if (!result) return;
+
+    // Indexes of the selected rows of each symbol
+    const bySymbol = new Map<string, number[]>();
+    result.transactions.forEach((tx, index) => {
+      if (!selected.has(index)) return;
+      if (!portfolioSymbolSet.has(tx.symbol) && !addNewSymbols) return;
+      bySymbol.set(tx.symbol, [...(bySymbol.get(tx.symbol) || []), index]);
+    });
+
+    if (bySymbol.size === 0) {
+      setError('Nothing selected to import');
+      return;
+    }
+
+    setStep('saving');
+    setError(null);
+    const failures: string[] = [];
+    // What this run saved, so a retry neither adds a symbol twice nor saves from a stale ledger
+    const added: string[] = [];
+    const saved: PortfolioLedger = { ...ledger };
+    const done = new Set(importedRows);
+
+    for (const [symbol, indexes] of Array.from(bySymbol.entries())) {
+      setProgress(`Saving ${symbol}...`);
+      try {
+        if (!portfolioSymbolSet.has(symbol)) {
+          await addPortfolioSymbol(portfolioId, username, symbol, portfolioType === 'mixed' ? importAssetClass : undefined);
+          added.push(symbol);
+          saved[symbol] = [];
+        }
+        // The endpoint replaces the symbol's ledger, so send existing rows along with the new ones
+        if (!saved[symbol]) {
+          throw new Error(`Existing transactions of ${symbol} were not loaded`);
+        }
+        const merged = [...saved[symbol], ...indexes.map(i => toTransactionInput(result.transactions[i]))]
+          .sort((a, b) => a.date.localeCompare(b.date));
+        await savePortfolioTransactions(portfolioId, username, symbol, merged);
+        saved[symbol] = merged;
+        indexes.forEach(i => done.add(i));
+      } catch (err) {
+        console.error(`Error importing ${symbol}:`, err);
+        failures.push(symbol);
+      }
+    }
+
+    const importedCount = done.size - importedRows.size;
+    if (failures.length > 0) {
+      setAddedSymbols(prev => [...prev, ...added]);
+      setLedger(saved);
+      setImportedRows(done);
+      setImportedTotal(prev => prev + importedCount);
+      setSelected(prev => new Set(Array.from(prev).filter(i => !done.has(i))));
+      setError(`Imported ${importedCount} transaction(s); failed for ${failures.join(', ')}`);
+      setStep('preview');
+      return;
+    }
+
+    onImported(`Imported ${importedTotal + importedCount} transaction(s) into ${portfolioName}`);
+  };
+
+  // Rows saved before a failed run are in the portfolio even if the rest is abandoned
+  const close = () => {
+    if (importedTotal > 0 || addedSymbols.length > 0) {
+      onImported(`Imported ${importedTotal} transaction(s) into ${portfolioName}`);
+    } else {
+      onClose();
+    }
+  };
+
+  const quantityDecimals = (symbol: string) => quantityDecimalsFor(assetClasses[symbol] ?? importAssetClass);
+  const selectedCount = result
+    ? result.transactions.filter((tx, i) => selected.has(i) && (addNewSymbols || portfolioSymbolSet.has(tx.symbol))).length
+    : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="bg-background rounded-lg shadow-lg w-full max-w-4xl p-6 max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold">Import Transactions: {portfolioName}</h2>
+          <Button variant="ghost" size="icon" onClick={close}>
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-destructive mb-4">{error}</p>}
+
+        {step === 'upload' && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="import-format">Broker Format</Label>
+              <select
+                id="import-format"
+                value={format}
+                onChange={(e) => setFormat(e.target.value as BrokerFormat | 'auto')}
+                className={selectClassName}
+              >
+                <option value="auto">Detect automatically</option>
+                {(Object.keys(BROKER_FORMAT_LABELS) as BrokerFormat[]).map(key => (
+                  <option key={key} value={key}>{BROKER_FORMAT_LABELS[key]}</option>
+                ))}
+              </select>
+            </div>
+            <label className="flex flex-col items-center justify-center gap-2 p-8 border-2 border-dashed rounded-lg cursor-pointer hover:bg-muted/50">
+              <FileUp className="h-8 w-8 text-muted-foreground" />
+              <span className="text-sm">{fileName || 'Choose a CSV export'}</span>
+              <span className="text-xs text-muted-foreground">
+                Fees are folded into the price. Trades keep the currency they settled in.
+              </span>
+              <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleFile} />
+            </label>
+          </div>
+        )}
+
+        {step !== 'upload' && result && (
+          <>
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-2 text-sm">
+              <span>
+                {BROKER_FORMAT_LABELS[result.format]} · {result.transactions.length} trade(s) · {Array.from(duplicates.values()).filter(isCertainDuplicate).length} duplicate(s) · {result.skipped.length} skipped
+              </span>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={addNewSymbols}
+                  onChange={(e) => setAddNewSymbols(e.target.checked)}
+                  className="rounded border-gray-300"
+                />
+                Add symbols not yet in this portfolio
+              </label>
+            </div>
+
+            <div className="overflow-auto flex-1">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[40px]"></TableHead>
+                    <TableHead>Line</TableHead>
+                    <TableHead>Symbol</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead className="text-right">Quantity</TableHead>
+                    <TableHead className="text-right">Price</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.transactions.map((tx, index) => {
+                    const isNewSymbol = !portfolioSymbolSet.has(tx.symbol);
+                    const isImported = importedRows.has(index);
+                    return (
+                      <TableRow key={`${tx.line}-${index}`} className={selected.has(index) ? '' : 'opacity-50'}>
+                        <TableCell>
+                          <input
+                            type="checkbox"
+                            checked={selected.has(index)}
+                            onChange={() => toggleRow(index)}
+                            disabled={step === 'saving' || isImported}
+                            className="rounded border-gray-300"
+                          />
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground">{tx.line}</TableCell>
+                        <TableCell className="font-medium">{tx.symbol}</TableCell>
+                        <TableCell>{tx.date}</TableCell>
+                        <TableCell>{tx.action}</TableCell>
+                        <TableCell className="text-right">{tx.quantity.toFixed(quantityDecimals(tx.symbol))}</TableCell>
+                        <TableCell className="text-right">{tx.price.toFixed(2)} {tx.currency}</TableCell>
+                        <TableCell>
+                          {isImported ? (
+                            <Badge>Imported</Badge>
+                          ) : duplicates.has(index) ? (
+                            <Badge variant={duplicates.get(index) === 'possible' ? 'outline' : 'secondary'}>
+                              {DUPLICATE_LABELS[duplicates.get(index) as DuplicateSource]}
+                            </Badge>
+                          ) : isNewSymbol ? (
+                            <Badge variant="outline">
+                              {portfolioType === 'mixed' ? `New ${ASSET_CLASS_LABELS[importAssetClass].toLowerCase()} symbol` : 'New symbol'}
+                            </Badge>
+                          ) : (
+                            <Badge>New</Badge>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+
+              {result.skipped.length > 0 && (
+                <div className="mt-4 text-sm">
+                  <button className="underline hover:text-primary" onClick={() => setShowSkipped(!showSkipped)}>
+                    {showSkipped ? 'Hide' : 'Show'} {result.skipped.length} skipped row(s)
+                  </button>
+                  {showSkipped && (
+                    <ul className="mt-2 space-y-1 text-muted-foreground">
+                      {result.skipped.map(row => (
+                        <li key={row.line}>Line {row.line}: {row.reason}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between mt-4">
+              <Button variant="outline" onClick={() => { setStep('upload'); setResult(null); setError(null); }} disabled={step === 'saving'}>
+                Back
+              </Button>
+              <div className="flex items-center gap-2">
+                {step === 'saving' && <span className="text-sm text-muted-foreground">{progress}</span>}
+                <Button variant="outline" onClick={close} disabled={step === 'saving'}>Cancel</Button>
+                <Button onClick={importSelected} disabled={step === 'saving' || selectedCount === 0}>
+                  <Upload className="h-4 w-4 mr-2" /> Import {selectedCount}
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,15 +1,30 @@
-import { ChevronDown, ChevronUp, Plus, RefreshCw, Save, Settings, Sparkles, Trash2, X } from 'lucide-react';
-import React, { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, Bell, History, Plus, RefreshCw, Save, Settings, Share2, Sparkles, Trash2, X } from 'lucide-react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useAuth } from '../context/AuthContext';
+import { useWatchlistAlerts } from '../context/WatchlistAlertsContext';
+import { useAnalysisHistory } from '../hooks/useAnalysisHistory';
+import { useColumnConfig } from '../hooks/useColumnConfig';
+import { useMarketData } from '../hooks/useMarketData';
+import { reorderColumns } from '../lib/columnConfig';
+import { placeRankedColumns, reconcileColumnOrder } from '../lib/dataGrid';
 import { abbreviateSectorIndustry } from '../lib/financialUtils';
+import { indexXDays, matchesCryptoSymbol, toLatestPriceData } from '../lib/marketData';
+import { matchesScreen, ScreenerCondition, toCryptoScreenerRow, toStockScreenerRow } from '../lib/screener';
+import { CryptoRankData, CryptoXDaysData, LatestPriceData, RanksData, ReturnPeriod, StockXDaysData, XDaysCloses } from '../types/marketData';
+import { historyForTicker, parseDecisionScore } from '../lib/analysisHistory';
+import { AnalysisJob, createAnalysisJobs, requeueUnfinished, runAnalysisQueue, runAnalysisRequest } from '../lib/analysisQueue';
+import { AnalysisHistory } from './AnalysisHistory';
 import { AnalysisModal } from './AnalysisModal';
-import { TableRowSkeleton } from './LoadingSkeleton';
+import { ColumnPresets } from './ColumnPresets';
+import { WatchlistAlerts } from './WatchlistAlerts';
+import { WatchlistScreener } from './WatchlistScreener';
+import { WatchlistTransfer } from './WatchlistTransfer';
 import { Badge } from './ui/badge';
 import { Button } from './ui/Button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/Card';
+import { DataGrid, DataGridColumn } from './ui/data-grid';
 import { Input } from './ui/Input';
 import { Label } from './ui/label';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/Tabs';
 
 // API configuration
@@ -24,285 +39,154 @@ interface Watchlist {
   symbols: string[];
 }
 
-interface CryptoXDaysData {
-  baseCurrency: string;
-  close_1d: number | null;
-  close_7d: number | null;
-  close_30d: number | null;
-  close_60d: number | null;
-  close_90d: number | null;
-  close_120d: number | null;
-}
+// Rank columns each kind of watchlist can show, with their table headers
+const STOCK_COLUMN_HEADERS: Record<string, string> = {
+  fundamental: 'Fund. Rank',
+  technical: 'Tech. Rank',
+  ivol: 'IVol',
+  predicted_beta: 'Beta',
+  risk_contribution: 'Risk Contrib.',
+  ai_sentiment: 'AI Sentiment',
+  ai_decision: 'AI Decision',
+  ai_age: 'AI Age',
+  industry: 'Industry',
+  sector: 'Sector',
+  mcap: 'Market Cap',
+  isADR: 'ADR',
+  isActive: 'Active',
+  reportingCurrency: 'Currency',
+  td_resistance: 'Resistance',
+  td_support: 'Support',
+  tec_riskRangeHigh: 'Risk Range High',
+  tec_riskRangeLow: 'Risk Range Low',
+  tag: 'Tag',
+};
 
-interface LatestPriceData {
-  symbol: string;
-  latestPrice: number;
-  returns: {
-    '1d': number | null;
-    '7d': number | null;
-    '30d': number | null;
-    '60d': number | null;
-    '90d': number | null;
-    '120d': number | null;
-  };
-}
+const CRYPTO_COLUMN_HEADERS: Record<string, string> = {
+  crypto_ranks: 'Crypto Rank',
+  lppl_side: 'LPPL Side',
+  lppl_pos_conf: 'LPPL Pos Conf',
+  lppl_neg_conf: 'LPPL Neg Conf',
+  strategy_side: 'Strategy Side',
+  strategy_profit_per_trade: 'Strategy P/T',
+  strategy_expectancy: 'Strategy Exp',
+  strategy_profit_factor: 'Strategy PF',
+  quoteCurrency: 'Quote Curr',
+  open: 'Open',
+  high: 'High',
+  low: 'Low',
+  close: 'Close',
+  volume: 'Volume',
+  ivol: 'IVol',
+  predicted_beta: 'Beta',
+  risk_contribution: 'Risk Contrib',
+  ai_sentiment: 'AI Sentiment',
+  ai_decision: 'AI Decision',
+  ai_age: 'AI Age',
+};
 
-interface RanksData {
-  date?: string;
-  industry?: string;
-  isADR: boolean;
-  isActive: boolean;
-  mcap: number;
-  name: string;
-  permaTicker: string;
-  rankFundamental: number;
-  rankTechnical: number;
-  reportingCurrency: string;
-  sector: number;
-  statementLastUpdated: string;
-  tag: string;
-  td__Resistance: number;
-  td__Support: number;
-  tec_riskRangeHigh: number;
-  tec_riskRangeInd: number;
-  tec_riskRangeLow: number;
-  ticker: string;
-  ivol?: number;
-  predicted_beta?: number;
-  risk_contribution?: number;
-  ai_sentiment?: number;
-  ai_decision?: number;
-  ai_age?: string;
-}
+const RETURN_PERIODS: ReturnPeriod[] = ['1d', '7d', '30d', '60d', '90d', '120d'];
 
-interface StockXDaysData {
+// A symbol of the active watchlist with the data shown in its row
+interface WatchlistRow {
   symbol: string;
-  close_1d: number | null;
-  close_7d: number | null;
-  close_30d: number | null;
-  close_60d: number | null;
-  close_90d: number | null;
-  close_120d: number | null;
-}
-
-interface CryptoRankData {
-  baseCurrency: string;
-  date?: string | null;
-  crypto_ranks?: number | null;
-  lppl_side?: number | string | null;
-  lppl_pos_conf?: number | null;
-  lppl_neg_conf?: number | null;
-  strategy_side?: number | string | null;
-  strategy_profit_per_trade?: number | null;
-  strategy_expectancy?: number | null;
-  strategy_profit_factor?: number | null;
-  quoteCurrency?: string | null;
-  open?: number | null;
-  high?: number | null;
-  low?: number | null;
-  close?: number | null;
-  volume?: number | null;
-  ivol?: number | null;
-  predicted_beta?: number | null;
-  risk_contribution?: number | null;
-  ai_sentiment?: number;
-  ai_decision?: number;
-  ai_age?: string;
+  latest: LatestPriceData | undefined;
+  closes: XDaysCloses | undefined;
+  ranks: RanksData | undefined;
+  cryptoRanks: CryptoRankData | undefined;
+  decision: { score: number | null; timestamp: string } | undefined;
+  analysisJob: AnalysisJob | undefined;
 }
 
-const hasValue = (value: unknown): boolean => value !== null && value !== undefined;
-
-// Helper function to match crypto symbols with different formats
-// e.g., 'BTC' matches 'btcusd', 'BTCUSDT', 'btc', etc.
-const matchesCryptoSymbol = (symbol: string, targetSymbol: string): boolean => {
-  const normalizedSymbol = symbol.toUpperCase();
-  const normalizedTarget = targetSymbol.toUpperCase();
-
-  // Exact match
-  if (normalizedSymbol === normalizedTarget) return true;
-
-  // Check if target starts with symbol (e.g., 'BTC' matches 'BTCUSD')
-  if (normalizedTarget.startsWith(normalizedSymbol)) {
-    // Check if the remainder is a known quote currency suffix
-    const remainder = normalizedTarget.slice(normalizedSymbol.length);
-    const quoteCurrencies = ['USD', 'USDT', 'USDC', 'BTC', 'ETH'];
-    return quoteCurrencies.includes(remainder);
-  }
+const formatPrice = (price: number | null | undefined) => price ? `$${price.toFixed(2)}` : 'N/A';
 
-  return false;
+const formatReturn = (returnPct: number | null | undefined) => {
+  if (returnPct === null || returnPct === undefined) return '';
+  const sign = returnPct >= 0 ? '+' : '';
+  return `${sign}${returnPct.toFixed(2)}%`;
 };
 
-const parseNullableNumber = (value: unknown): number | null => {
-  if (!hasValue(value)) {
-    return null;
-  }
-  const num = Number(value);
-  return Number.isFinite(num) ? num : null;
-};
-
-const parseNullableString = (value: unknown): string | null => {
-  if (typeof value === 'string') {
-    const trimmed = value.trim();
-    return trimmed.length > 0 ? trimmed : null;
-  }
-  if (value instanceof Date) {
-    return value.toISOString();
+// Value of a stock rank column, as sorted
+const stockColumnValue = (ranks: RanksData | undefined, key: string): unknown => {
+  if (!ranks) return null;
+  switch (key) {
+    case 'fundamental': return ranks.rankFundamental;
+    case 'technical': return ranks.rankTechnical;
+    case 'ivol': return ranks.ivol;
+    case 'predicted_beta': return ranks.predicted_beta;
+    case 'risk_contribution': return ranks.risk_contribution;
+    case 'ai_sentiment': return ranks.ai_sentiment;
+    case 'ai_decision': return ranks.ai_decision;
+    case 'ai_age': return ranks.ai_age;
+    case 'industry': return ranks.industry;
+    case 'sector': return ranks.sector;
+    case 'mcap': return ranks.mcap;
+    case 'isADR': return ranks.isADR;
+    case 'isActive': return ranks.isActive;
+    case 'reportingCurrency': return ranks.reportingCurrency;
+    case 'td_resistance': return ranks.td__Resistance;
+    case 'td_support': return ranks.td__Support;
+    case 'tec_riskRangeHigh': return ranks.tec_riskRangeHigh;
+    case 'tec_riskRangeLow': return ranks.tec_riskRangeLow;
+    case 'tag': return ranks.tag;
+    default: return null;
   }
-  return null;
 };
 
-const getTimeValue = (value: unknown): number => {
-  if (value instanceof Date) {
-    return value.getTime();
+// Value of a crypto rank column, as sorted; every column is a field of the merged row
+const cryptoColumnValue = (ranks: CryptoRankData | undefined, key: string): unknown =>
+  ranks ? ranks[key as keyof CryptoRankData] : null;
+
+const formatRankValue = (key: string, value: unknown): string => {
+  const num = typeof value === 'number' ? value : null;
+  const fixed = (digits: number, prefix = '') => num !== null ? `${prefix}${num.toFixed(digits)}` : 'N/A';
+
+  switch (key) {
+    case 'fundamental':
+    case 'technical':
+    case 'crypto_ranks':
+      return fixed(1);
+    case 'ivol':
+    case 'predicted_beta':
+    case 'risk_contribution':
+      return fixed(2);
+    case 'lppl_pos_conf':
+    case 'lppl_neg_conf':
+    case 'strategy_profit_per_trade':
+    case 'strategy_expectancy':
+    case 'strategy_profit_factor':
+      return fixed(3);
+    case 'td_resistance':
+    case 'td_support':
+    case 'tec_riskRangeHigh':
+    case 'tec_riskRangeLow':
+    case 'open':
+    case 'high':
+    case 'low':
+    case 'close':
+      return fixed(2, '$');
+    case 'mcap':
+      return num !== null ? `$${(num / 1000000).toFixed(1)}M` : 'N/A';
+    case 'volume':
+      return num !== null ? num.toLocaleString() : 'N/A';
+    case 'isADR':
+      return value ? 'Yes' : 'No';
+    case 'isActive':
+      return value ? 'Active' : 'Inactive';
+    case 'industry':
+      return abbreviateSectorIndustry(value ? String(value) : null, 'industry');
+    case 'sector':
+      return abbreviateSectorIndustry(String(value || ''), 'sector');
+    default:
+      return value === null || value === undefined || value === '' ? 'N/A' : String(value);
   }
-  if (typeof value === 'string' && value.trim().length > 0) {
-    const parsed = Date.parse(value);
-    return Number.isNaN(parsed) ? Number.NEGATIVE_INFINITY : parsed;
-  }
-  return Number.NEGATIVE_INFINITY;
-};
-
-const mergeCryptoRankEntries = (entries: any[], fallbackSymbol: string): CryptoRankData | null => {
-  if (!Array.isArray(entries) || entries.length === 0) {
-    return null;
-  }
-
-  const normalizedSymbol = fallbackSymbol.toUpperCase();
-  const sortedEntries = [...entries].sort((a, b) => getTimeValue(b?.date) - getTimeValue(a?.date));
-
-  const merged: CryptoRankData = {
-    baseCurrency: normalizedSymbol,
-    date: null,
-    crypto_ranks: null,
-    lppl_side: null,
-    lppl_pos_conf: null,
-    lppl_neg_conf: null,
-    strategy_side: null,
-    strategy_profit_per_trade: null,
-    strategy_expectancy: null,
-    strategy_profit_factor: null,
-    quoteCurrency: null,
-    open: null,
-    high: null,
-    low: null,
-    close: null,
-    volume: null,
-    ivol: null,
-    predicted_beta: null,
-    risk_contribution: null,
-    ai_sentiment: undefined,
-    ai_decision: undefined,
-    ai_age: undefined,
-  };
-
-  sortedEntries.forEach((entry) => {
-    if (!entry) return;
-
-    const entrySymbol = typeof entry.baseCurrency === 'string' ? entry.baseCurrency.toUpperCase() : normalizedSymbol;
-    merged.baseCurrency = entrySymbol || normalizedSymbol;
-
-    const entryDate = parseNullableString(entry.date);
-    if (entryDate && getTimeValue(entryDate) > getTimeValue(merged.date)) {
-      merged.date = entryDate;
-    }
-
-    if (hasValue(entry.crypto_ranks) && merged.crypto_ranks == null) {
-      merged.crypto_ranks = parseNullableNumber(entry.crypto_ranks);
-    }
-
-    if (hasValue(entry.lppl_side) && merged.lppl_side == null) {
-      merged.lppl_side = entry.lppl_side;
-    }
-
-    if (hasValue(entry.lppl_pos_conf) && merged.lppl_pos_conf == null) {
-      merged.lppl_pos_conf = parseNullableNumber(entry.lppl_pos_conf);
-    }
-
-    if (hasValue(entry.lppl_neg_conf) && merged.lppl_neg_conf == null) {
-      merged.lppl_neg_conf = parseNullableNumber(entry.lppl_neg_conf);
-    }
-
-    if (hasValue(entry.strategy_side) && merged.strategy_side == null) {
-      merged.strategy_side = entry.strategy_side;
-    }
-
-    if (hasValue(entry.strategy_profit_per_trade) && merged.strategy_profit_per_trade == null) {
-      merged.strategy_profit_per_trade = parseNullableNumber(entry.strategy_profit_per_trade);
-    }
-
-    if (hasValue(entry.strategy_expectancy) && merged.strategy_expectancy == null) {
-      merged.strategy_expectancy = parseNullableNumber(entry.strategy_expectancy);
-    }
-
-    if (hasValue(entry.strategy_profit_factor) && merged.strategy_profit_factor == null) {
-      merged.strategy_profit_factor = parseNullableNumber(entry.strategy_profit_factor);
-    }
-
-    if (!merged.quoteCurrency && hasValue(entry.quoteCurrency)) {
-      merged.quoteCurrency = parseNullableString(entry.quoteCurrency);
-    }
-
-    if (hasValue(entry.open) && merged.open == null) {
-      merged.open = parseNullableNumber(entry.open);
-    }
-
-    if (hasValue(entry.high) && merged.high == null) {
-      merged.high = parseNullableNumber(entry.high);
-    }
-
-    if (hasValue(entry.low) && merged.low == null) {
-      merged.low = parseNullableNumber(entry.low);
-    }
-
-    if (hasValue(entry.close) && merged.close == null) {
-      merged.close = parseNullableNumber(entry.close);
-    }
-
-    if (hasValue(entry.volume) && merged.volume == null) {
-      merged.volume = parseNullableNumber(entry.volume);
-    }
-
-    if (hasValue(entry.ivol) && merged.ivol == null) {
-      merged.ivol = parseNullableNumber(entry.ivol);
-    }
-
-    if (hasValue(entry.predicted_beta) && merged.predicted_beta == null) {
-      merged.predicted_beta = parseNullableNumber(entry.predicted_beta);
-    }
-
-    if (hasValue(entry.risk_contribution) && merged.risk_contribution == null) {
-      merged.risk_contribution = parseNullableNumber(entry.risk_contribution);
-    }
-
-    // AI fields - map from database column names to display names
-    // Database has: decision, sentiment, age (possibly with date prefix)
-    if (merged.ai_sentiment == null) {
-      const sentimentValue = entry.sentiment ?? entry.ai_sentiment;
-      if (hasValue(sentimentValue)) {
-        merged.ai_sentiment = parseNullableNumber(sentimentValue);
-      }
-    }
-
-    if (merged.ai_decision == null) {
-      const decisionValue = entry.decision ?? entry.ai_decision;
-      if (hasValue(decisionValue)) {
-        merged.ai_decision = parseNullableNumber(decisionValue);
-      }
-    }
-
-    if (merged.ai_age == null) {
-      const ageValue = entry.age ?? entry.ai_age;
-      if (hasValue(ageValue)) {
-        merged.ai_age = parseNullableString(ageValue) || undefined;
-      }
-    }
-  });
-
-  return merged;
 };
 
 const Watchlist: React.FC = () => {
   const { user, walletAddress } = useAuth();
+  const marketData = useMarketData();
+  const { rules: alertRules, removeRulesFor } = useWatchlistAlerts();
+  const { entries: analysisEntries, addResult: addAnalysisResult, removeEntry: removeAnalysisEntry } = useAnalysisHistory();
 
   console.log('Watchlist component rendering with:', { user, walletAddress });
 
@@ -314,6 +198,8 @@ const Watchlist: React.FC = () => {
   const [ranksData, setRanksData] = useState<RanksData[]>([]);
   const [cryptoRanksData, setCryptoRanksData] = useState<CryptoRankData[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [ranksProgress, setRanksProgress] = useState<{ done: number; total: number } | null>(null);
+  const refreshRunRef = useRef(0); // ignores results of a refresh superseded by a newer one
   const [isInitialLoading, setIsInitialLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -334,53 +220,23 @@ const Watchlist: React.FC = () => {
   const [analysisResult, setAnalysisResult] = useState<any>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const [historyTarget, setHistoryTarget] = useState<{ symbol: string; assetType: 'crypto' | 'stocks' } | null>(null);
 
-  // Sorting state
-  const [sortColumn, setSortColumn] = useState<string | null>(null);
-  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
+  // "Analyze all" queue; null when no batch has been started or its summary was dismissed
+  const [analysisJobs, setAnalysisJobs] = useState<AnalysisJob[] | null>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
 
   // Column configuration
   const [showColumnConfig, setShowColumnConfig] = useState(false);
-  const [columnConfig, setColumnConfig] = useState<Array<{key: string, visible: boolean, order: number}>>([
-    // Stock columns
-    { key: 'fundamental', visible: true, order: 0 },
-    { key: 'technical', visible: true, order: 1 },
-    { key: 'ivol', visible: true, order: 2 },
-    { key: 'predicted_beta', visible: true, order: 3 },
-    { key: 'risk_contribution', visible: true, order: 4 },
-    { key: 'ai_sentiment', visible: true, order: 5 },
-    { key: 'ai_decision', visible: true, order: 6 },
-    { key: 'ai_age', visible: true, order: 7 },
-    { key: 'industry', visible: false, order: 8 },
-    { key: 'sector', visible: false, order: 9 },
-    { key: 'mcap', visible: false, order: 10 },
-    { key: 'isADR', visible: false, order: 11 },
-    { key: 'isActive', visible: false, order: 12 },
-    { key: 'reportingCurrency', visible: false, order: 13 },
-    { key: 'td_resistance', visible: false, order: 14 },
-    { key: 'td_support', visible: false, order: 15 },
-    { key: 'tec_riskRangeHigh', visible: false, order: 16 },
-    { key: 'tec_riskRangeLow', visible: false, order: 17 },
-    { key: 'tag', visible: false, order: 18 },
-    // Crypto columns
-    { key: 'crypto_ranks', visible: true, order: 19 },
-    { key: 'lppl_side', visible: false, order: 20 },
-    { key: 'lppl_pos_conf', visible: false, order: 21 },
-    { key: 'lppl_neg_conf', visible: false, order: 22 },
-    { key: 'strategy_side', visible: false, order: 23 },
-    { key: 'strategy_profit_per_trade', visible: false, order: 24 },
-    { key: 'strategy_expectancy', visible: false, order: 25 },
-    { key: 'strategy_profit_factor', visible: false, order: 26 },
-    { key: 'quoteCurrency', visible: false, order: 27 },
-    { key: 'open', visible: false, order: 28 },
-    { key: 'high', visible: false, order: 29 },
-    { key: 'low', visible: false, order: 30 },
-    { key: 'close', visible: false, order: 31 },
-    { key: 'volume', visible: false, order: 32 },
-  ]);
-
-  // Drag and drop state
-  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [showAlerts, setShowAlerts] = useState(false);
+  const [showTransfer, setShowTransfer] = useState(false);
+
+  // Screener conditions, applied to the watchlist they were built for
+  const [screen, setScreen] = useState<{ watchlistId: string; conditions: ScreenerCondition[] }>({ watchlistId: '', conditions: [] });
+  const { columns: columnConfig, setColumns: saveColumnConfig, applyPreset, reset: resetColumnConfig, syncStatus: columnSyncStatus } = useColumnConfig('watchlist');
+
+  // Column order of the grid; rank columns follow the saved layout
+  const [gridOrder, setGridOrder] = useState<string[]>([]);
 
   // Helper function
   const showStatus = useCallback((text: string, type: 'success' | 'error' = 'success') => {
@@ -388,83 +244,6 @@ const Watchlist: React.FC = () => {
     setTimeout(() => setStatusMessage(null), 3000);
   }, []);
 
-  // Load column configuration from localStorage
-  const loadColumnConfig = () => {
-    const saved = localStorage.getItem('watchlist-column-config');
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        // Handle both old format (Record<string, boolean>) and new format (Array)
-        if (Array.isArray(parsed)) {
-          // Merge saved config with default config to ensure all columns are present
-          const defaultConfig = [
-            // Stock columns
-            { key: 'fundamental', visible: true, order: 0 },
-            { key: 'technical', visible: true, order: 1 },
-            { key: 'ivol', visible: true, order: 2 },
-            { key: 'predicted_beta', visible: true, order: 3 },
-            { key: 'risk_contribution', visible: true, order: 4 },
-            { key: 'ai_sentiment', visible: true, order: 5 },
-            { key: 'ai_decision', visible: true, order: 6 },
-            { key: 'ai_age', visible: true, order: 7 },
-            { key: 'industry', visible: false, order: 8 },
-            { key: 'sector', visible: false, order: 9 },
-            { key: 'mcap', visible: false, order: 10 },
-            { key: 'isADR', visible: false, order: 11 },
-            { key: 'isActive', visible: false, order: 12 },
-            { key: 'reportingCurrency', visible: false, order: 13 },
-            { key: 'td_resistance', visible: false, order: 14 },
-            { key: 'td_support', visible: false, order: 15 },
-            { key: 'tec_riskRangeHigh', visible: false, order: 16 },
-            { key: 'tec_riskRangeLow', visible: false, order: 17 },
-            { key: 'tag', visible: false, order: 18 },
-            // Crypto columns
-            { key: 'crypto_ranks', visible: true, order: 19 },
-            { key: 'lppl_side', visible: false, order: 20 },
-            { key: 'lppl_pos_conf', visible: false, order: 21 },
-            { key: 'lppl_neg_conf', visible: false, order: 22 },
-            { key: 'strategy_side', visible: false, order: 23 },
-            { key: 'strategy_profit_per_trade', visible: false, order: 24 },
-            { key: 'strategy_expectancy', visible: false, order: 25 },
-            { key: 'strategy_profit_factor', visible: false, order: 26 },
-            { key: 'quoteCurrency', visible: false, order: 27 },
-            { key: 'open', visible: false, order: 28 },
-            { key: 'high', visible: false, order: 29 },
-            { key: 'low', visible: false, order: 30 },
-            { key: 'close', visible: false, order: 31 },
-            { key: 'volume', visible: false, order: 32 },
-          ];
-
-          // Create a map of saved columns for quick lookup
-          const savedMap = new Map(parsed.map((col: any) => [col.key, col]));
-
-          // Merge: use saved settings where available, otherwise use defaults
-          const mergedConfig = defaultConfig.map(defaultCol => {
-            const savedCol = savedMap.get(defaultCol.key);
-            return savedCol ? { ...defaultCol, ...savedCol } : defaultCol;
-          });
-
-          setColumnConfig(mergedConfig);
-        } else {
-          // Convert old format to new format
-          const newConfig = columnConfig.map(col => ({
-            ...col,
-            visible: parsed[col.key] !== undefined ? parsed[col.key] : col.visible
-          }));
-          setColumnConfig(newConfig);
-        }
-      } catch (error) {
-        console.error('Error loading column config:', error);
-      }
-    }
-  };
-
-  // Save column configuration to localStorage
-  const saveColumnConfig = (config: Array<{key: string, visible: boolean, order: number}>) => {
-    localStorage.setItem('watchlist-column-config', JSON.stringify(config));
-    setColumnConfig(config);
-  };
-
   // Get visible columns as a record for easier access
   const getVisibleColumns = () => {
     const visible: Record<string, boolean> = {};
@@ -474,220 +253,18 @@ const Watchlist: React.FC = () => {
     return visible;
   };
 
-  // Drag and drop handlers
-  const handleDragStart = (e: React.DragEvent, index: number) => {
-    setDraggedIndex(index);
-    e.dataTransfer.effectAllowed = 'move';
-  };
-
-  const handleDragOver = (e: React.DragEvent) => {
-    e.preventDefault();
-    e.dataTransfer.dropEffect = 'move';
-  };
-
-  const handleDrop = (e: React.DragEvent, dropIndex: number) => {
-    e.preventDefault();
-    if (draggedIndex === null || draggedIndex === dropIndex) return;
-
-    const newConfig = [...columnConfig];
-    const draggedItem = newConfig[draggedIndex];
-
-    // Remove dragged item
-    newConfig.splice(draggedIndex, 1);
-    // Insert at new position
-    newConfig.splice(dropIndex, 0, draggedItem);
-
-    // Update orders
-    newConfig.forEach((item, index) => {
-      item.order = index;
-    });
-
-    saveColumnConfig(newConfig);
-    setDraggedIndex(null);
-  };
-
-  const handleDragEnd = () => {
-    setDraggedIndex(null);
-  };
-
-  // Load column config on mount
-  useEffect(() => {
-    loadColumnConfig();
-  }, []);
-
-  // Sorting function
-  const handleSort = (column: string) => {
-    if (sortColumn === column) {
-      // Toggle direction if same column
-      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
-    } else {
-      // New column, default to ascending
-      setSortColumn(column);
-      setSortDirection('asc');
-    }
-  };
-
-  // Get sorted symbols for the active watchlist
-  const getSortedSymbols = (symbols: string[]) => {
-    if (!sortColumn || !activeWatchlist) return symbols;
-
-    return [...symbols].sort((a, b) => {
-      let aValue: any = null;
-      let bValue: any = null;
-
-      const aData = displayData.find(d =>
-        (activeWatchlist.type === 'crypto' && 'baseCurrency' in d && d.baseCurrency === a) ||
-        (activeWatchlist.type === 'stocks' && 'symbol' in d && d.symbol === a)
-      );
-      const bData = displayData.find(d =>
-        (activeWatchlist.type === 'crypto' && 'baseCurrency' in d && d.baseCurrency === b) ||
-        (activeWatchlist.type === 'stocks' && 'symbol' in d && d.symbol === b)
-      );
-
-      const aLatest = latestPrices.find(lp => lp.symbol === a);
-      const bLatest = latestPrices.find(lp => lp.symbol === b);
-
-      // For stocks, also get ranks data
-      const aRanks = activeWatchlist.type === 'stocks' ? ranksData.find(r => r.ticker?.toUpperCase() === a) : null;
-      const bRanks = activeWatchlist.type === 'stocks' ? ranksData.find(r => r.ticker?.toUpperCase() === b) : null;
-
-      switch (sortColumn) {
-        case 'symbol':
-          aValue = a;
-          bValue = b;
-          break;
-        case 'latest':
-          aValue = aLatest?.latestPrice || 0;
-          bValue = bLatest?.latestPrice || 0;
-          break;
-        case '1d':
-          aValue = aLatest?.returns['1d'] || 0;
-          bValue = bLatest?.returns['1d'] || 0;
-          break;
-        case '7d':
-          aValue = aLatest?.returns['7d'] || 0;
-          bValue = bLatest?.returns['7d'] || 0;
-          break;
-        case '30d':
-          aValue = aLatest?.returns['30d'] || 0;
-          bValue = bLatest?.returns['30d'] || 0;
-          break;
-        case '60d':
-          aValue = aLatest?.returns['60d'] || 0;
-          bValue = bLatest?.returns['60d'] || 0;
-          break;
-        case '90d':
-          aValue = aLatest?.returns['90d'] || 0;
-          bValue = bLatest?.returns['90d'] || 0;
-          break;
-        case '120d':
-          aValue = aLatest?.returns['120d'] || 0;
-          bValue = bLatest?.returns['120d'] || 0;
-          break;
-        case 'fundamental':
-          aValue = aRanks?.rankFundamental || 0;
-          bValue = bRanks?.rankFundamental || 0;
-          break;
-        case 'technical':
-          aValue = aRanks?.rankTechnical || 0;
-          bValue = bRanks?.rankTechnical || 0;
-          break;
-        case 'ivol':
-          aValue = aRanks?.ivol || 0;
-          bValue = bRanks?.ivol || 0;
-          break;
-        case 'predicted_beta':
-          aValue = aRanks?.predicted_beta || 0;
-          bValue = bRanks?.predicted_beta || 0;
-          break;
-        case 'risk_contribution':
-          aValue = aRanks?.risk_contribution || 0;
-          bValue = bRanks?.risk_contribution || 0;
-          break;
-        case 'industry':
-          aValue = aRanks?.industry || '';
-          bValue = bRanks?.industry || '';
-          break;
-        case 'sector':
-          aValue = aRanks?.sector || 0;
-          bValue = bRanks?.sector || 0;
-          break;
-        case 'mcap':
-          aValue = aRanks?.mcap || 0;
-          bValue = bRanks?.mcap || 0;
-          break;
-        case 'isADR':
-          aValue = aRanks?.isADR ? 1 : 0;
-          bValue = bRanks?.isADR ? 1 : 0;
-          break;
-        case 'isActive':
-          aValue = aRanks?.isActive ? 1 : 0;
-          bValue = bRanks?.isActive ? 1 : 0;
-          break;
-        case 'reportingCurrency':
-          aValue = aRanks?.reportingCurrency || '';
-          bValue = bRanks?.reportingCurrency || '';
-          break;
-        case 'td_resistance':
-          aValue = aRanks?.td__Resistance || 0;
-          bValue = bRanks?.td__Resistance || 0;
-          break;
-        case 'td_support':
-          aValue = aRanks?.td__Support || 0;
-          bValue = bRanks?.td__Support || 0;
-          break;
-        case 'tec_riskRangeHigh':
-          aValue = aRanks?.tec_riskRangeHigh || 0;
-          bValue = bRanks?.tec_riskRangeHigh || 0;
-          break;
-        case 'tec_riskRangeLow':
-          aValue = aRanks?.tec_riskRangeLow || 0;
-          bValue = bRanks?.tec_riskRangeLow || 0;
-          break;
-        case 'tag':
-          aValue = aRanks?.tag || '';
-          bValue = bRanks?.tag || '';
-          break;
-        default:
-          return 0;
+  // Decision score of the latest stored analysis run per symbol
+  const latestDecisionScores = useMemo(() => {
+    const scores = new Map<string, { score: number | null; timestamp: string }>();
+    analysisEntries.forEach((entry) => {
+      const key = `${entry.assetType}:${entry.ticker}`;
+      const previous = scores.get(key);
+      if (!previous || Date.parse(entry.timestamp) >= Date.parse(previous.timestamp)) {
+        scores.set(key, { score: parseDecisionScore(entry.result.decision_score), timestamp: entry.timestamp });
       }
-
-      // Handle null/undefined values
-      if (aValue === null || aValue === undefined) aValue = sortColumn === 'symbol' ? '' : -Infinity;
-      if (bValue === null || bValue === undefined) bValue = sortColumn === 'symbol' ? '' : -Infinity;
-
-      if (aValue < bValue) return sortDirection === 'asc' ? -1 : 1;
-      if (aValue > bValue) return sortDirection === 'asc' ? 1 : -1;
-      return 0;
     });
-  };
-
-  // Sortable header component
-  const SortableHeader: React.FC<{ column: string; children: React.ReactNode; className?: string }> = ({
-    column,
-    children,
-    className = ""
-  }) => {
-    const isActive = sortColumn === column;
-    return (
-      <TableHead
-        className={`cursor-pointer hover:bg-muted/50 select-none ${className}`}
-        onClick={() => handleSort(column)}
-      >
-        <div className="flex items-center justify-end gap-1">
-          <span>{children}</span>
-          <div className="flex flex-col">
-            <ChevronUp
-              className={`h-3 w-3 ${isActive && sortDirection === 'asc' ? 'text-foreground' : 'text-muted-foreground'}`}
-            />
-            <ChevronDown
-              className={`h-3 w-3 -mt-1 ${isActive && sortDirection === 'desc' ? 'text-foreground' : 'text-muted-foreground'}`}
-            />
-          </div>
-        </div>
-      </TableHead>
-    );
-  };
+    return scores;
+  }, [analysisEntries]);
 
   // Load watchlists from backend API
   useEffect(() => {
@@ -753,228 +330,83 @@ const Watchlist: React.FC = () => {
     setWatchlists(newWatchlists);
   }, []);
 
-  // Fetch crypto data
-  const fetchCryptoData = useCallback(async (symbols: string[]) => {
-    if (symbols.length === 0) return [] as CryptoXDaysData[];
-
-    try {
-      const params = new URLSearchParams();
-      symbols.forEach(symbol => params.append('baseCurrencies', symbol));
-
-      const response = await fetch(`${API_BASE_URL}/crypto_xdays?${params.toString()}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${API_KEY}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`Failed to fetch crypto data: ${response.status}`);
-      }
-
-      const data = await response.json();
-      setCryptoData(data || []);
-      return data || [];
-    } catch (err) {
-      console.error('Error fetching crypto data:', err);
-      showStatus(`Failed to load crypto data: ${err instanceof Error ? err.message : 'Unknown error'}`, 'error');
-      return [];
-    }
-  }, [showStatus]);
-
-  // Fetch latest prices from backend
-  const fetchLatestPrices = useCallback(async (symbols: string[], historicalData: CryptoXDaysData[]) => {
-    if (symbols.length === 0) return;
-
-    try {
-      const params = new URLSearchParams();
-      symbols.forEach(symbol => params.append('symbols', symbol));
-
-      const response = await fetch(`${API_BASE_URL}/latest_crypto_price?${params.toString()}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${API_KEY}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`Failed to fetch latest prices: ${response.status}`);
-      }
-
-      const data = await response.json();
-
-      // Convert to expected format and calculate returns from cryptoData
-      const result = data.map((item: any) => {
-        const symbol = item.symbol.toUpperCase();
-        const currentPrice = item.close;
-        const historical = historicalData.find(h => h.baseCurrency === symbol);
-
-        // Calculate returns from historical data
-        const calculateReturn = (historicalPrice: number | null) => {
-          if (!historicalPrice || historicalPrice === 0) return null;
-          return ((currentPrice - historicalPrice) / historicalPrice) * 100;
-        };
-
-        return {
-          symbol: symbol,
-          latestPrice: currentPrice,
-          returns: {
-            '1d': calculateReturn(historical?.close_1d || null),
-            '7d': calculateReturn(historical?.close_7d || null),
-            '30d': calculateReturn(historical?.close_30d || null),
-            '60d': calculateReturn(historical?.close_60d || null),
-            '90d': calculateReturn(historical?.close_90d || null),
-            '120d': calculateReturn(historical?.close_120d || null),
-          }
-        };
-      });
-
-      setLatestPrices(result);
-    } catch (err) {
-      console.error('Error fetching latest prices:', err);
-      showStatus(`Failed to load latest prices: ${err instanceof Error ? err.message : 'Unknown error'}`, 'error');
-    }
-  }, [showStatus]);
-
-  // Fetch stock data
-  const fetchStockData = useCallback(async (symbols: string[]) => {
-    if (symbols.length === 0) return;
-
-    try {
-      const params = new URLSearchParams();
-      symbols.forEach(symbol => params.append('symbols', symbol));
-
-      const response = await fetch(`${API_BASE_URL}/stock_xdays?${params.toString()}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${API_KEY}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`Failed to fetch stock data: ${response.status}`);
-      }
-
-      const data = await response.json();
-      setStockData(data || []);
-    } catch (err) {
-      console.error('Error fetching stock data:', err);
-      showStatus(`Failed to load stock data: ${err instanceof Error ? err.message : 'Unknown error'}`, 'error');
-    }
-  }, [showStatus]);
-
-  // Fetch ranks data
-  const fetchRanksData = useCallback(async (symbols: string[]) => {
-    if (symbols.length === 0) return;
-
-    try {
-      const allRanksData: any[] = [];
-
-      // Fetch ranks for each symbol individually since the endpoint only accepts one ticker
-      for (const symbol of symbols) {
-        try {
-          const response = await fetch(`${API_BASE_URL}/ranks?ticker=${encodeURIComponent(symbol)}`, {
-            method: 'GET',
-            headers: {
-              'Authorization': `Bearer ${API_KEY}`,
-            },
-          });
-
-          if (response.ok) {
-            const data = await response.json();
-            if (data && data.length > 0) {
-              allRanksData.push(...data);
-            }
-          }
-        } catch (symbolError) {
-          console.warn(`Failed to fetch ranks for ${symbol}:`, symbolError);
-          // Continue with other symbols
-        }
-      }
-
-      setRanksData(allRanksData);
-    } catch (err) {
-      console.error('Error fetching ranks data:', err);
-      showStatus(`Failed to load stock ranks: ${err instanceof Error ? err.message : 'Unknown error'}`, 'error');
-    }
-  }, [showStatus]);
-
-  // Fetch crypto ranks data
-  const fetchCryptoRanksData = useCallback(async (symbols: string[]) => {
-    if (symbols.length === 0) return;
-
-    try {
-      const aggregatedEntries = new Map<string, CryptoRankData>();
-
-      // Fetch ranks for each symbol individually since the endpoint only accepts one baseCurrency
-      for (const symbol of symbols) {
-        const symbolUpper = symbol.toUpperCase();
-        const symbolLower = symbol.toLowerCase();
-        try {
-          console.log(`Fetching crypto ranks for ${symbolLower}...`);
-          const response = await fetch(`${API_BASE_URL}/crypto_ranks?baseCurrency=${encodeURIComponent(symbolLower)}`, {
-            method: 'GET',
-            headers: {
-              'Authorization': `Bearer ${API_KEY}`,
-            },
-          });
-
-          if (response.ok) {
-            const data = await response.json();
-            console.log(`Crypto ranks data for ${symbolLower}:`, data);
-            // Log first entry to see available fields
-            if (data && data.length > 0) {
-              console.log(`Sample entry for ${symbolLower}:`, data[0]);
-              console.log(`Available keys:`, Object.keys(data[0]));
-            }
-            const mergedEntry = mergeCryptoRankEntries(data, symbolUpper);
-            console.log(`Merged entry for ${symbolUpper}:`, mergedEntry);
-            if (mergedEntry) {
-              aggregatedEntries.set(mergedEntry.baseCurrency, mergedEntry);
-            }
-          } else {
-            console.warn(`Failed to fetch crypto ranks for ${symbolUpper}: ${response.status}`);
-          }
-        } catch (symbolError) {
-          console.warn(`Failed to fetch crypto ranks for ${symbolUpper}:`, symbolError);
-          // Continue with other symbols
-        }
-      }
-
-      console.log('All crypto ranks data:', Array.from(aggregatedEntries.values()));
-      setCryptoRanksData(Array.from(aggregatedEntries.values()));
-    } catch (err) {
-      console.error('Error fetching crypto ranks data:', err);
-      showStatus(`Failed to load crypto ranks: ${err instanceof Error ? err.message : 'Unknown error'}`, 'error');
-    }
-  }, [showStatus]);
-
-  // Refresh data for active watchlist
-  const refreshData = useCallback(async () => {
+  // Refresh data for active watchlist. Rows come from the shared market data cache unless
+  // `fresh` is set, which the Refresh button uses to bypass it. Ranks rows are rendered as
+  // they arrive rather than after the slowest ticker.
+  const refreshData = useCallback(async (fresh = false) => {
     const activeWatchlist = watchlists.find(w => w.id === activeWatchlistId);
     if (!activeWatchlist) return;
 
+    const run = ++refreshRunRef.current;
+    const isCurrentRun = () => run === refreshRunRef.current;
+
     setIsLoading(true);
     setError(null);
     setLatestPrices([]); // Clear latest prices while refreshing
     setRanksData([]); // Clear ranks data while refreshing
     setCryptoRanksData([]); // Clear crypto ranks data while refreshing
+    setRanksProgress({ done: 0, total: activeWatchlist.symbols.length });
+
+    const reportRanks = (done: number) => setRanksProgress({ done, total: activeWatchlist.symbols.length });
 
     try {
       if (activeWatchlist.type === 'crypto') {
-        const historicalData = await fetchCryptoData(activeWatchlist.symbols);
-        await fetchLatestPrices(activeWatchlist.symbols, historicalData);
+        const loadPrices = async () => {
+          try {
+            const [historicalData, quotes] = await Promise.all([
+              marketData.cryptoXDays(activeWatchlist.symbols, { fresh }),
+              marketData.latestCryptoQuotes(activeWatchlist.symbols, { fresh }),
+            ]);
+            if (!isCurrentRun()) return;
+            setCryptoData(historicalData);
+            setLatestPrices(toLatestPriceData(quotes, indexXDays(historicalData)));
+          } catch (err) {
+            console.error('Error fetching crypto prices:', err);
+            showStatus(`Failed to load crypto prices: ${err instanceof Error ? err.message : 'Unknown error'}`, 'error');
+          }
+        };
         // Fetch crypto ranks data for crypto watchlists
-        await fetchCryptoRanksData(activeWatchlist.symbols);
+        await Promise.all([
+          loadPrices(),
+          marketData.cryptoRanks(activeWatchlist.symbols, {
+            fresh,
+            onProgress: ({ rows, done }) => {
+              if (!isCurrentRun()) return;
+              setCryptoRanksData(rows);
+              reportRanks(done);
+            },
+          }),
+        ]);
       } else {
-        await fetchStockData(activeWatchlist.symbols);
+        const loadStockData = async () => {
+          try {
+            const historicalData = await marketData.stockXDays(activeWatchlist.symbols, { fresh });
+            if (isCurrentRun()) setStockData(historicalData);
+          } catch (err) {
+            console.error('Error fetching stock data:', err);
+            showStatus(`Failed to load stock data: ${err instanceof Error ? err.message : 'Unknown error'}`, 'error');
+          }
+        };
         // Only fetch ranks data for stocks, not crypto
-        await fetchRanksData(activeWatchlist.symbols);
+        await Promise.all([
+          loadStockData(),
+          marketData.stockRanks(activeWatchlist.symbols, {
+            fresh,
+            onProgress: ({ rows, done }) => {
+              if (!isCurrentRun()) return;
+              setRanksData(rows);
+              reportRanks(done);
+            },
+          }),
+        ]);
       }
     } finally {
-      setIsLoading(false);
+      if (isCurrentRun()) {
+        setIsLoading(false);
+        setRanksProgress(null);
+      }
     }
-  }, [activeWatchlistId, watchlists, fetchCryptoData, fetchStockData, fetchRanksData, fetchCryptoRanksData, fetchLatestPrices]);
+  }, [activeWatchlistId, watchlists, marketData, showStatus]);
 
   // Create new watchlist
   const createWatchlist = async () => {
@@ -1049,6 +481,7 @@ const Watchlist: React.FC = () => {
       }
 
       setWatchlists(prev => prev.filter(w => w.id !== watchlistId));
+      removeRulesFor(watchlistId);
       if (activeWatchlistId === watchlistId) {
         setActiveWatchlistId(watchlists.find(w => w.id !== watchlistId)?.id || '');
       }
@@ -1086,6 +519,17 @@ const Watchlist: React.FC = () => {
       return;
     }
 
+    if (await addSymbols(symbols)) {
+      setShowAddSymbolForm(false);
+      setNewSymbol('');
+    }
+  };
+
+  // Add symbols to the active watchlist, from the form or the screener
+  const addSymbols = async (symbols: string[]): Promise<boolean> => {
+    const activeWatchlist = watchlists.find(w => w.id === activeWatchlistId);
+    if (!activeWatchlist || !walletAddress) return false;
+
     try {
       const username = walletAddress || '';
 
@@ -1118,12 +562,12 @@ const Watchlist: React.FC = () => {
         setWatchlists(prev => prev.map(w => w.id === activeWatchlistId ? updatedWatchlist : w));
       }
 
-      setShowAddSymbolForm(false);
-      setNewSymbol('');
       showStatus(`Added ${symbols.length} symbol(s) to ${activeWatchlist.name}`, 'success');
+      return true;
     } catch (err) {
       console.error('Error adding symbols:', err);
       showStatus(`Failed to add symbols: ${err instanceof Error ? err.message : 'Unknown error'}`, 'error');
+      return false;
     }
   };
 
@@ -1157,6 +601,7 @@ const Watchlist: React.FC = () => {
 
       const updatedWatchlist = await response.json();
       setWatchlists(prev => prev.map(w => w.id === activeWatchlistId ? updatedWatchlist : w));
+      removeRulesFor(activeWatchlistId, symbol);
       showStatus(`Removed ${symbol} from ${activeWatchlist.name}`, 'success');
     } catch (err) {
       console.error('Error removing symbol:', err);
@@ -1172,26 +617,9 @@ const Watchlist: React.FC = () => {
     setAnalysisResult(null);
 
     try {
-      const response = await fetch(`${API_BASE_URL}/analysis/run`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          ticker: symbol,
-          company: company,
-          asset_type: assetType,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ detail: 'Unknown error' }));
-        throw new Error(errorData.detail || `Analysis failed: ${response.status}`);
-      }
-
-      const result = await response.json();
+      const result = await runAnalysisRequest({ symbol, company, assetType });
       setAnalysisResult(result);
+      addAnalysisResult(result, assetType);
     } catch (err) {
       console.error('Error running analysis:', err);
       setAnalysisError(err instanceof Error ? err.message : 'Failed to run analysis');
@@ -1200,6 +628,50 @@ const Watchlist: React.FC = () => {
     }
   };
 
+  // Run queued analysis jobs; results are stored in the history as each run finishes
+  const runAnalysisJobs = async (jobs: AnalysisJob[]) => {
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+    setAnalysisJobs(jobs);
+
+    const finished = await runAnalysisQueue(jobs, {
+      signal: controller.signal,
+      onUpdate: setAnalysisJobs,
+      onResult: (job, result) => addAnalysisResult(result, job.assetType),
+    });
+
+    if (analysisAbortRef.current === controller) {
+      analysisAbortRef.current = null;
+    }
+    const failed = finished.filter(job => job.status === 'failed').length;
+    if (controller.signal.aborted) {
+      showStatus('Analysis cancelled', 'error');
+    } else if (failed > 0) {
+      showStatus(`Analysis finished with ${failed} failure(s)`, 'error');
+    } else {
+      showStatus(`Analyzed ${finished.length} symbol(s)`, 'success');
+    }
+  };
+
+  // Analyze every symbol of the active watchlist
+  const analyzeAll = () => {
+    const activeWatchlist = watchlists.find(w => w.id === activeWatchlistId);
+    if (!activeWatchlist || activeWatchlist.symbols.length === 0 || analysisAbortRef.current) return;
+
+    runAnalysisJobs(createAnalysisJobs(activeWatchlist.symbols.map(symbol => ({
+      symbol,
+      company: activeWatchlist.type === 'stocks' ? ranksData.find(r => r.ticker?.toUpperCase() === symbol)?.name || symbol : symbol,
+      assetType: activeWatchlist.type,
+    }))));
+  };
+
+  const cancelAnalyses = () => {
+    analysisAbortRef.current?.abort();
+  };
+
+  // Stop a running batch when leaving the page
+  useEffect(() => () => analysisAbortRef.current?.abort(), []);
+
   // Load data when active watchlist changes
   useEffect(() => {
     if (activeWatchlistId) {
@@ -1208,7 +680,162 @@ const Watchlist: React.FC = () => {
   }, [activeWatchlistId, refreshData]);
 
   const activeWatchlist = watchlists.find(w => w.id === activeWatchlistId);
-  const displayData = activeWatchlist?.type === 'crypto' ? cryptoData : stockData;
+  const isBatchAnalyzing = analysisJobs?.some(job => job.status === 'queued' || job.status === 'running') ?? false;
+
+  // Whether a symbol passes the screen built for its watchlist
+  const isScreenedIn = useCallback((symbol: string, watchlist: Watchlist): boolean => {
+    if (screen.watchlistId !== watchlist.id || screen.conditions.length === 0) return true;
+    const latestData = latestPrices.find(lp => lp.symbol === symbol);
+    const row = watchlist.type === 'stocks'
+      ? toStockScreenerRow(ranksData.find(r => r.ticker?.toUpperCase() === symbol), latestData)
+      : toCryptoScreenerRow(cryptoRanksData.find(r => matchesCryptoSymbol(symbol, r.baseCurrency || '')), latestData);
+    return matchesScreen(row, screen.conditions);
+  }, [screen, latestPrices, ranksData, cryptoRanksData]);
+
+  // Rows of the active watchlist's symbols that pass its screen
+  const gridRows = useMemo((): WatchlistRow[] => {
+    if (!activeWatchlist) return [];
+    return activeWatchlist.symbols
+      .filter(symbol => isScreenedIn(symbol, activeWatchlist))
+      .map(symbol => ({
+        symbol,
+        latest: latestPrices.find(lp => lp.symbol === symbol),
+        closes: activeWatchlist.type === 'crypto'
+          ? cryptoData.find(d => d.baseCurrency === symbol)
+          : stockData.find(d => d.symbol === symbol),
+        ranks: activeWatchlist.type === 'stocks' ? ranksData.find(r => r.ticker?.toUpperCase() === symbol) : undefined,
+        // Crypto ranks may list the coin with a quote suffix, such as 'btcusd'
+        cryptoRanks: activeWatchlist.type === 'crypto'
+          ? cryptoRanksData.find(r => matchesCryptoSymbol(symbol, r.baseCurrency || ''))
+          : undefined,
+        decision: latestDecisionScores.get(`${activeWatchlist.type}:${symbol.toUpperCase()}`),
+        analysisJob: analysisJobs?.find(job => job.symbol === symbol && job.assetType === activeWatchlist.type),
+      }));
+  }, [activeWatchlist, isScreenedIn, latestPrices, cryptoData, stockData, ranksData, cryptoRanksData, latestDecisionScores, analysisJobs]);
+
+  // Rank columns of the active watchlist's kind that are shown, in the saved order
+  const rankColumnHeaders = activeWatchlist?.type === 'crypto' ? CRYPTO_COLUMN_HEADERS : STOCK_COLUMN_HEADERS;
+  const rankColumnKeys = columnConfig
+    .filter(col => col.visible && col.key in rankColumnHeaders)
+    .sort((a, b) => a.order - b.order)
+    .map(col => col.key);
+
+  const gridColumns: DataGridColumn<WatchlistRow>[] = !activeWatchlist ? [] : [
+    {
+      id: 'actions',
+      header: '',
+      accessor: () => null,
+      cell: (row) => (
+        <div className="flex items-center gap-1">
+          <Button
+            onClick={() => {
+              // Crypto has no company name; stocks use the one from the ranks data
+              const companyName = activeWatchlist.type === 'stocks' ? row.ranks?.name || row.symbol : row.symbol;
+              runAnalysis(row.symbol, companyName, activeWatchlist.type);
+            }}
+            size="icon"
+            variant="ghost"
+            className="h-6 w-6 text-blue-600 hover:text-blue-700 hover:bg-blue-50"
+            title="Run AI Analysis"
+          >
+            <Sparkles className="h-3 w-3" />
+          </Button>
+          <Button
+            onClick={() => setHistoryTarget({ symbol: row.symbol, assetType: activeWatchlist.type })}
+            size="icon"
+            variant="ghost"
+            className="h-6 w-6"
+            title="Analysis history"
+            disabled={historyForTicker(analysisEntries, activeWatchlist.type, row.symbol).length === 0}
+          >
+            <History className="h-3 w-3" />
+          </Button>
+          <Button
+            onClick={() => removeSymbol(row.symbol)}
+            size="icon"
+            variant="ghost"
+            className="h-6 w-6 text-destructive hover:text-destructive hover:bg-destructive/10"
+            title="Remove from watchlist"
+          >
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </div>
+      ),
+      width: 100,
+      sortable: false,
+      pinned: true,
+    },
+    {
+      id: 'symbol',
+      header: 'Symbol',
+      accessor: row => row.symbol,
+      cell: row => <span className="font-medium">{row.symbol}</span>,
+      width: 100,
+      pinned: true,
+    },
+    {
+      id: 'latest',
+      header: 'Latest',
+      accessor: row => row.latest?.latestPrice ?? null,
+      format: value => formatPrice(value as number | null),
+      width: 110,
+      align: 'right',
+    },
+    ...RETURN_PERIODS.map((period): DataGridColumn<WatchlistRow> => ({
+      id: period,
+      header: period,
+      accessor: row => row.latest?.returns[period] ?? null,
+      format: value => formatReturn(value as number | null),
+      cell: (row, value) => (
+        <div className="flex flex-col items-end">
+          <span className={`text-sm font-medium ${typeof value === 'number' && value >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+            {formatReturn(value as number | null)}
+          </span>
+          <span className="text-xs text-muted-foreground">{formatPrice(row.closes?.[`close_${period}` as const])}</span>
+        </div>
+      ),
+      width: 100,
+      align: 'right',
+    })),
+    {
+      id: 'decision_score',
+      header: 'AI Score',
+      accessor: row => row.decision?.score ?? null,
+      format: value => (value !== null && value !== undefined ? `${value}/10` : 'N/A'),
+      cell: (row) => (
+        row.analysisJob?.status === 'running' || row.analysisJob?.status === 'queued' ? (
+          <span className="text-xs text-muted-foreground">{row.analysisJob.status === 'running' ? 'Analyzing...' : 'Queued'}</span>
+        ) : (
+          <span className="inline-flex items-center gap-1" title={row.decision ? `Last analyzed ${new Date(row.decision.timestamp).toLocaleString()}` : undefined}>
+            {row.analysisJob?.status === 'failed' && (
+              <AlertCircle className="h-3 w-3 text-destructive">
+                <title>{row.analysisJob.error || 'Analysis failed'}</title>
+              </AlertCircle>
+            )}
+            {row.decision?.score != null ? `${row.decision.score}/10` : 'N/A'}
+          </span>
+        )
+      ),
+      width: 100,
+      align: 'right',
+    },
+    ...rankColumnKeys.map((key): DataGridColumn<WatchlistRow> => ({
+      id: key,
+      header: rankColumnHeaders[key],
+      accessor: row => (activeWatchlist.type === 'crypto' ? cryptoColumnValue(row.cryptoRanks, key) : stockColumnValue(row.ranks, key)),
+      format: value => formatRankValue(key, value),
+      width: key === 'industry' || key === 'sector' ? 150 : 120,
+      align: key === 'industry' || key === 'sector' ? 'left' : 'right',
+    })),
+  ];
+
+  const gridColumnOrder = placeRankedColumns(reconcileColumnOrder(gridOrder, gridColumns.map(c => c.id)), rankColumnKeys);
+
+  // Dragging a rank column's header moves it in the saved layout
+  const handleColumnOrderChange = (order: string[]) => {
+    setGridOrder(order);
+    saveColumnConfig(reorderColumns(columnConfig, order.filter(id => rankColumnKeys.includes(id))));
+  };
 
   return (
     <div className="min-h-screen bg-background">
@@ -1226,7 +853,7 @@ const Watchlist: React.FC = () => {
             </Button>
 
             <Button
-              onClick={refreshData}
+              onClick={() => refreshData(true)}
               disabled={isLoading || !activeWatchlist}
               variant="outline"
               size="sm"
@@ -1235,6 +862,12 @@ const Watchlist: React.FC = () => {
               Refresh Data
             </Button>
 
+            {ranksProgress && ranksProgress.total > 0 && (
+              <span className="self-center text-xs text-muted-foreground">
+                Loading ranks {ranksProgress.done}/{ranksProgress.total}
+              </span>
+            )}
+
             {activeWatchlist && (
               <Button
                 onClick={() => setShowColumnConfig(!showColumnConfig)}
@@ -1246,6 +879,45 @@ const Watchlist: React.FC = () => {
               </Button>
             )}
 
+            {activeWatchlist && (
+              <Button
+                onClick={() => setShowAlerts(true)}
+                variant="outline"
+                size="sm"
+              >
+                <Bell className="h-4 w-4 mr-2" />
+                Alerts
+                {alertRules.filter(r => r.watchlistId === activeWatchlist.id).length > 0 && (
+                  <Badge variant="secondary" className="ml-2">
+                    {alertRules.filter(r => r.watchlistId === activeWatchlist.id).length}
+                  </Badge>
+                )}
+              </Button>
+            )}
+
+            {activeWatchlist && (
+              <Button
+                onClick={analyzeAll}
+                disabled={isBatchAnalyzing || activeWatchlist.symbols.length === 0}
+                variant="outline"
+                size="sm"
+              >
+                <Sparkles className="h-4 w-4 mr-2" />
+                Analyze All
+              </Button>
+            )}
+
+            {activeWatchlist && (
+              <Button
+                onClick={() => setShowTransfer(true)}
+                variant="outline"
+                size="sm"
+              >
+                <Share2 className="h-4 w-4 mr-2" />
+                Share
+              </Button>
+            )}
+
             {activeWatchlist && (
               <Button
                 onClick={() => setShowAddSymbolForm(!showAddSymbolForm)}
@@ -1267,6 +939,57 @@ const Watchlist: React.FC = () => {
           </Card>
         )}
 
+        {analysisJobs && (
+          <Card className="mb-6">
+            <CardContent className="pt-6 space-y-2">
+              {(() => {
+                const done = analysisJobs.filter(job => job.status === 'done').length;
+                const failed = analysisJobs.filter(job => job.status === 'failed');
+                const cancelled = analysisJobs.filter(job => job.status === 'cancelled').length;
+                const finished = analysisJobs.length - analysisJobs.filter(job => job.status === 'queued' || job.status === 'running').length;
+                return (
+                  <>
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <span className="text-sm font-medium">
+                        {isBatchAnalyzing ? 'Analyzing' : 'Analysis finished'}: {finished}/{analysisJobs.length}
+                        {' '}({done} done{failed.length > 0 ? `, ${failed.length} failed` : ''}{cancelled > 0 ? `, ${cancelled} cancelled` : ''})
+                      </span>
+                      <div className="flex gap-2">
+                        {isBatchAnalyzing ? (
+                          <Button variant="outline" size="sm" onClick={cancelAnalyses}>
+                            <X className="h-4 w-4 mr-1" />
+                            Cancel
+                          </Button>
+                        ) : (
+                          <>
+                            {(failed.length > 0 || cancelled > 0) && (
+                              <Button variant="outline" size="sm" onClick={() => runAnalysisJobs(requeueUnfinished(analysisJobs))}>
+                                <RefreshCw className="h-4 w-4 mr-1" />
+                                Retry {failed.length + cancelled}
+                              </Button>
+                            )}
+                            <Button variant="ghost" size="sm" onClick={() => setAnalysisJobs(null)}>
+                              Dismiss
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    </div>
+                    <div className="h-2 w-full rounded bg-muted overflow-hidden">
+                      <div className="h-full bg-primary transition-all" style={{ width: `${(finished / analysisJobs.length) * 100}%` }} />
+                    </div>
+                    {failed.length > 0 && !isBatchAnalyzing && (
+                      <p className="text-xs text-destructive">
+                        Failed: {failed.map(job => `${job.symbol} (${job.error || 'unknown error'})`).join(', ')}
+                      </p>
+                    )}
+                  </>
+                );
+              })()}
+            </CardContent>
+          </Card>
+        )}
+
         {showNewWatchlistForm && (
           <Card className="mb-8">
             <CardHeader>
@@ -1349,37 +1072,20 @@ const Watchlist: React.FC = () => {
           <Card className="mb-8">
             <CardHeader>
               <CardTitle>Column Configuration</CardTitle>
-              <p className="text-sm text-muted-foreground">Choose which rank columns to display and drag to reorder them for {activeWatchlist?.type === 'crypto' ? 'crypto' : 'stock'} watchlists</p>
+              <p className="text-sm text-muted-foreground">Choose which rank columns to display for {activeWatchlist?.type === 'crypto' ? 'crypto' : 'stock'} watchlists; drag the table headers to reorder them</p>
             </CardHeader>
             <CardContent>
+              <ColumnPresets syncStatus={columnSyncStatus} onApplyPreset={applyPreset} onReset={resetColumnConfig} />
               <div className="space-y-2">
                 {columnConfig
-                  .filter(col => {
-                    if (activeWatchlist?.type === 'crypto') {
-                      // Crypto columns
-                      return ['crypto_ranks', 'lppl_side', 'lppl_pos_conf', 'lppl_neg_conf', 'strategy_side', 'strategy_profit_per_trade', 'strategy_expectancy', 'strategy_profit_factor', 'quoteCurrency', 'open', 'high', 'low', 'close', 'volume', 'ivol', 'predicted_beta', 'risk_contribution', 'ai_sentiment', 'ai_decision', 'ai_age'].includes(col.key);
-                    } else {
-                      // Stock columns
-                      return !['crypto_ranks', 'lppl_side', 'lppl_pos_conf', 'lppl_neg_conf', 'strategy_side', 'strategy_profit_per_trade', 'strategy_expectancy', 'strategy_profit_factor', 'quoteCurrency', 'open', 'high', 'low', 'close', 'volume'].includes(col.key);
-                    }
-                  })
+                  .filter(col => col.key in rankColumnHeaders)
                   .sort((a, b) => a.order - b.order)
-                  .map((col, index) => (
+                  .map(col => (
                   <div
                     key={col.key}
-                    draggable
-                    onDragStart={(e) => handleDragStart(e, index)}
-                    onDragOver={handleDragOver}
-                    onDrop={(e) => handleDrop(e, index)}
-                    onDragEnd={handleDragEnd}
-                    className={`flex items-center justify-between p-3 border rounded cursor-move transition-colors ${
-                      draggedIndex === index ? 'opacity-50 bg-muted' : 'hover:bg-muted/50'
-                    }`}
+                    className="flex items-center justify-between p-3 border rounded transition-colors hover:bg-muted/50"
                   >
                     <div className="flex items-center space-x-3">
-                      <div className="text-muted-foreground cursor-grab active:cursor-grabbing">
-                        ⋮⋮
-                      </div>
                       <input
                         type="checkbox"
                         id={`col-${col.key}`}
@@ -1444,6 +1150,19 @@ const Watchlist: React.FC = () => {
           </Card>
         )}
 
+        {activeWatchlist && activeWatchlist.symbols.length > 0 && (
+          <WatchlistScreener
+            key={activeWatchlist.id}
+            assetType={activeWatchlist.type}
+            watchlistSymbols={activeWatchlist.symbols}
+            matchCount={activeWatchlist.symbols.filter(symbol => isScreenedIn(symbol, activeWatchlist)).length}
+            onConditionsChange={(conditions) => setScreen({ watchlistId: activeWatchlist.id, conditions })}
+            onAddSymbols={async (symbols) => {
+              await addSymbols(symbols);
+            }}
+          />
+        )}
+
         {watchlists.length > 0 && (
           <Tabs value={activeWatchlistId} onValueChange={setActiveWatchlistId} className="w-full">
             <TabsList className="mb-6 flex-wrap">
@@ -1493,403 +1212,17 @@ const Watchlist: React.FC = () => {
                           Add Your First Symbol
                         </Button>
                       </div>
-                    ) : isInitialLoading ? (
-                      <Table>
-                        <TableHeader>
-                          <TableRow>
-                            <TableHead className="w-[80px]"></TableHead>
-                            <SortableHeader column="symbol">Symbol</SortableHeader>
-                            <SortableHeader column="latest" className="text-right">Latest</SortableHeader>
-                            <SortableHeader column="1d" className="text-right">1d</SortableHeader>
-                            <SortableHeader column="7d" className="text-right">7d</SortableHeader>
-                            <SortableHeader column="30d" className="text-right">30d</SortableHeader>
-                            <SortableHeader column="60d" className="text-right">60d</SortableHeader>
-                            <SortableHeader column="90d" className="text-right">90d</SortableHeader>
-                            <SortableHeader column="120d" className="text-right">120d</SortableHeader>
-                          </TableRow>
-                        </TableHeader>
-                        <TableBody>
-                          {Array.from({ length: Math.min(watchlist.symbols.length, 5) }).map((_, i) => (
-                            <TableRowSkeleton key={i} />
-                          ))}
-                        </TableBody>
-                      </Table>
                     ) : (
-                      <Table>
-                        <TableHeader>
-                          <TableRow>
-                            <TableHead className="w-[80px]"></TableHead>
-                            <SortableHeader column="symbol">Symbol</SortableHeader>
-                            <SortableHeader column="latest" className="text-right">Latest</SortableHeader>
-                            <SortableHeader column="1d" className="text-right">1d</SortableHeader>
-                            <SortableHeader column="7d" className="text-right">7d</SortableHeader>
-                            <SortableHeader column="30d" className="text-right">30d</SortableHeader>
-                            <SortableHeader column="60d" className="text-right">60d</SortableHeader>
-                            <SortableHeader column="90d" className="text-right">90d</SortableHeader>
-                            <SortableHeader column="120d" className="text-right">120d</SortableHeader>
-                            {watchlist.type === 'stocks' && (
-                              <>
-                                {columnConfig
-                                  .filter(col => !['crypto_ranks', 'lppl_side', 'lppl_pos_conf', 'lppl_neg_conf', 'strategy_side', 'strategy_profit_per_trade', 'strategy_expectancy', 'strategy_profit_factor', 'quoteCurrency', 'open', 'high', 'low', 'close', 'volume'].includes(col.key) && col.visible)
-                                  .sort((a, b) => a.order - b.order)
-                                  .map(col => {
-                                    const headerText = {
-                                      fundamental: 'Fund. Rank',
-                                      technical: 'Tech. Rank',
-                                      ivol: 'IVol',
-                                      predicted_beta: 'Beta',
-                                      risk_contribution: 'Risk Contrib.',
-                                      ai_sentiment: 'AI Sentiment',
-                                      ai_decision: 'AI Decision',
-                                      ai_age: 'AI Age',
-                                      industry: 'Industry',
-                                      sector: 'Sector',
-                                      mcap: 'Market Cap',
-                                      isADR: 'ADR',
-                                      isActive: 'Active',
-                                      reportingCurrency: 'Currency',
-                                      td_resistance: 'Resistance',
-                                      td_support: 'Support',
-                                      tec_riskRangeHigh: 'Risk Range High',
-                                      tec_riskRangeLow: 'Risk Range Low',
-                                      tag: 'Tag'
-                                    }[col.key] || col.key;
-
-                                    return (
-                                      <SortableHeader key={col.key} column={col.key} className="text-right">
-                                        {headerText}
-                                      </SortableHeader>
-                                    );
-                                  })}
-                              </>
-                            )}
-                            {watchlist.type === 'crypto' && (
-                              <>
-                                {columnConfig
-                                  .filter(col => ['crypto_ranks', 'lppl_side', 'lppl_pos_conf', 'lppl_neg_conf', 'strategy_side', 'strategy_profit_per_trade', 'strategy_expectancy', 'strategy_profit_factor', 'quoteCurrency', 'open', 'high', 'low', 'close', 'volume', 'ivol', 'predicted_beta', 'risk_contribution', 'ai_sentiment', 'ai_decision', 'ai_age'].includes(col.key) && col.visible)
-                                  .sort((a, b) => a.order - b.order)
-                                  .map(col => {
-                                    const headerText = {
-                                      crypto_ranks: 'Crypto Rank',
-                                      lppl_side: 'LPPL Side',
-                                      lppl_pos_conf: 'LPPL Pos Conf',
-                                      lppl_neg_conf: 'LPPL Neg Conf',
-                                      strategy_side: 'Strategy Side',
-                                      strategy_profit_per_trade: 'Strategy P/T',
-                                      strategy_expectancy: 'Strategy Exp',
-                                      strategy_profit_factor: 'Strategy PF',
-                                      quoteCurrency: 'Quote Curr',
-                                      open: 'Open',
-                                      high: 'High',
-                                      low: 'Low',
-                                      close: 'Close',
-                                      volume: 'Volume',
-                                      ivol: 'IVol',
-                                      predicted_beta: 'Beta',
-                                      risk_contribution: 'Risk Contrib',
-                                      ai_sentiment: 'AI Sentiment',
-                                      ai_decision: 'AI Decision',
-                                      ai_age: 'AI Age'
-                                    }[col.key] || col.key;
-
-                                    return (
-                                      <TableHead key={col.key} className="text-right">
-                                        {headerText}
-                                      </TableHead>
-                                    );
-                                  })}
-                              </>
-                            )}
-                          </TableRow>
-                        </TableHeader>
-                        <TableBody>
-                          {getSortedSymbols(watchlist.symbols).map((symbol) => {
-                            const data = displayData.find(d =>
-                              (watchlist.type === 'crypto' && 'baseCurrency' in d && d.baseCurrency === symbol) ||
-                              (watchlist.type === 'stocks' && 'symbol' in d && d.symbol === symbol)
-                            );
-
-                            const latestData = latestPrices.find(lp => lp.symbol === symbol);
-
-                            // Get ranks data for stocks
-                            const ranksDataItem = watchlist.type === 'stocks' ? ranksData.find(r => r.ticker?.toUpperCase() === symbol) : null;
-
-                            // Get crypto ranks data for crypto - handle symbols with suffixes like 'usd', 'usdt'
-                            const cryptoRanksDataItem = watchlist.type === 'crypto'
-                              ? cryptoRanksData.find(r => {
-                                  const match = matchesCryptoSymbol(symbol, r.baseCurrency || '');
-                                  if (match) {
-                                    console.log(`Matched ${symbol} with ${r.baseCurrency}`);
-                                  }
-                                  return match;
-                                })
-                              : null;
-
-                            if (watchlist.type === 'crypto') {
-                              console.log(`Looking for crypto data for ${symbol}`, {
-                                cryptoRanksDataItem,
-                                availableSymbols: cryptoRanksData.map(r => r.baseCurrency),
-                                ai_sentiment: cryptoRanksDataItem?.ai_sentiment,
-                                ai_decision: cryptoRanksDataItem?.ai_decision,
-                                ai_age: cryptoRanksDataItem?.ai_age
-                              });
-                            }
-
-                            const formatPrice = (price: number | null) => price ? `$${price.toFixed(2)}` : 'N/A';
-                            const formatReturn = (returnPct: number | null) => {
-                              if (returnPct === null) return '';
-                              const sign = returnPct >= 0 ? '+' : '';
-                              return `${sign}${returnPct.toFixed(2)}%`;
-                            };
-                            const formatRank = (rank: number | null) => rank !== null && rank !== undefined ? rank.toFixed(1) : 'N/A';
-
-                            return (
-                              <TableRow key={symbol}>
-                                <TableCell>
-                                  <div className="flex items-center gap-1">
-                                    <Button
-                                      onClick={() => {
-                                        // Try to get company name from ranks data
-                                        let companyName = symbol;
-                                        if (watchlist.type === 'stocks') {
-                                          const ranks = ranksData.find(r => r.ticker?.toUpperCase() === symbol);
-                                          companyName = ranks?.name || symbol;
-                                        } else {
-                                          // For crypto, use the symbol as the company name
-                                          companyName = symbol;
-                                        }
-                                        runAnalysis(symbol, companyName, watchlist.type);
-                                      }}
-                                      size="icon"
-                                      variant="ghost"
-                                      className="h-6 w-6 text-blue-600 hover:text-blue-700 hover:bg-blue-50"
-                                      title="Run AI Analysis"
-                                    >
-                                      <Sparkles className="h-3 w-3" />
-                                    </Button>
-                                    <Button
-                                      onClick={() => removeSymbol(symbol)}
-                                      size="icon"
-                                      variant="ghost"
-                                      className="h-6 w-6 text-destructive hover:text-destructive hover:bg-destructive/10"
-                                      title="Remove from watchlist"
-                                    >
-                                      <Trash2 className="h-3 w-3" />
-                                    </Button>
-                                  </div>
-                                </TableCell>
-                                <TableCell className="font-medium">{symbol}</TableCell>
-                                <TableCell className="text-right">
-                                  {formatPrice(latestData?.latestPrice || null)}
-                                </TableCell>
-                                <TableCell className="text-right">
-                                  <div className="flex flex-col items-end">
-                                    <span className={`text-sm font-medium ${latestData?.returns['1d'] && latestData.returns['1d'] >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                                      {formatReturn(latestData?.returns['1d'] || null)}
-                                    </span>
-                                    <span className="text-xs text-muted-foreground">{formatPrice(data?.close_1d || null)}</span>
-                                  </div>
-                                </TableCell>
-                                <TableCell className="text-right">
-                                  <div className="flex flex-col items-end">
-                                    <span className={`text-sm font-medium ${latestData?.returns['7d'] && latestData.returns['7d'] >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                                      {formatReturn(latestData?.returns['7d'] || null)}
-                                    </span>
-                                    <span className="text-xs text-muted-foreground">{formatPrice(data?.close_7d || null)}</span>
-                                  </div>
-                                </TableCell>
-                                <TableCell className="text-right">
-                                  <div className="flex flex-col items-end">
-                                    <span className={`text-sm font-medium ${latestData?.returns['30d'] && latestData.returns['30d'] >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                                      {formatReturn(latestData?.returns['30d'] || null)}
-                                    </span>
-                                    <span className="text-xs text-muted-foreground">{formatPrice(data?.close_30d || null)}</span>
-                                  </div>
-                                </TableCell>
-                                <TableCell className="text-right">
-                                  <div className="flex flex-col items-end">
-                                    <span className={`text-sm font-medium ${latestData?.returns['60d'] && latestData.returns['60d'] >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                                      {formatReturn(latestData?.returns['60d'] || null)}
-                                    </span>
-                                    <span className="text-xs text-muted-foreground">{formatPrice(data?.close_60d || null)}</span>
-                                  </div>
-                                </TableCell>
-                                <TableCell className="text-right">
-                                  <div className="flex flex-col items-end">
-                                    <span className={`text-sm font-medium ${latestData?.returns['90d'] && latestData.returns['90d'] >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                                      {formatReturn(latestData?.returns['90d'] || null)}
-                                    </span>
-                                    <span className="text-xs text-muted-foreground">{formatPrice(data?.close_90d || null)}</span>
-                                  </div>
-                                </TableCell>
-                                <TableCell className="text-right">
-                                  <div className="flex flex-col items-end">
-                                    <span className={`text-sm font-medium ${latestData?.returns['120d'] && latestData.returns['120d'] >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                                      {formatReturn(latestData?.returns['120d'] || null)}
-                                    </span>
-                                    <span className="text-xs text-muted-foreground">{formatPrice(data?.close_120d || null)}</span>
-                                  </div>
-                                </TableCell>
-                                {watchlist.type === 'stocks' && (
-                                  <>
-                                    {columnConfig
-                                      .filter(col => col.visible)
-                                      .sort((a, b) => a.order - b.order)
-                                      .map(col => {
-                                        let cellContent: React.ReactNode = 'N/A';
-
-                                        switch (col.key) {
-                                          case 'fundamental':
-                                            cellContent = formatRank(ranksDataItem?.rankFundamental || null);
-                                            break;
-                                          case 'technical':
-                                            cellContent = formatRank(ranksDataItem?.rankTechnical || null);
-                                            break;
-                                          case 'ivol':
-                                            cellContent = ranksDataItem?.ivol !== null && ranksDataItem?.ivol !== undefined ? ranksDataItem.ivol.toFixed(2) : 'N/A';
-                                            break;
-                                          case 'predicted_beta':
-                                            cellContent = ranksDataItem?.predicted_beta !== null && ranksDataItem?.predicted_beta !== undefined ? ranksDataItem.predicted_beta.toFixed(2) : 'N/A';
-                                            break;
-                                          case 'risk_contribution':
-                                            cellContent = ranksDataItem?.risk_contribution !== null && ranksDataItem?.risk_contribution !== undefined ? ranksDataItem.risk_contribution.toFixed(2) : 'N/A';
-                                            break;
-                                          case 'ai_sentiment':
-                                            cellContent = ranksDataItem?.ai_sentiment !== null && ranksDataItem?.ai_sentiment !== undefined ? ranksDataItem.ai_sentiment : 'N/A';
-                                            break;
-                                          case 'ai_decision':
-                                            cellContent = ranksDataItem?.ai_decision !== null && ranksDataItem?.ai_decision !== undefined ? ranksDataItem.ai_decision : 'N/A';
-                                            break;
-                                          case 'ai_age':
-                                            cellContent = ranksDataItem?.ai_age || 'N/A';
-                                            break;
-                                          case 'industry':
-                                            cellContent = abbreviateSectorIndustry(ranksDataItem?.industry || null, 'industry');
-                                            break;
-                                          case 'sector':
-                                            cellContent = abbreviateSectorIndustry(String(ranksDataItem?.sector || ''), 'sector');
-                                            break;
-                                          case 'mcap':
-                                            cellContent = ranksDataItem?.mcap !== null && ranksDataItem?.mcap !== undefined ? `$${(ranksDataItem.mcap / 1000000).toFixed(1)}M` : 'N/A';
-                                            break;
-                                          case 'isADR':
-                                            cellContent = ranksDataItem?.isADR ? 'Yes' : 'No';
-                                            break;
-                                          case 'isActive':
-                                            cellContent = ranksDataItem?.isActive ? 'Active' : 'Inactive';
-                                            break;
-                                          case 'reportingCurrency':
-                                            cellContent = ranksDataItem?.reportingCurrency || 'N/A';
-                                            break;
-                                          case 'td_resistance':
-                                            cellContent = ranksDataItem?.td__Resistance !== null && ranksDataItem?.td__Resistance !== undefined ? `$${ranksDataItem.td__Resistance.toFixed(2)}` : 'N/A';
-                                            break;
-                                          case 'td_support':
-                                            cellContent = ranksDataItem?.td__Support !== null && ranksDataItem?.td__Support !== undefined ? `$${ranksDataItem.td__Support.toFixed(2)}` : 'N/A';
-                                            break;
-                                          case 'tec_riskRangeHigh':
-                                            cellContent = ranksDataItem?.tec_riskRangeHigh !== null && ranksDataItem?.tec_riskRangeHigh !== undefined ? `$${ranksDataItem.tec_riskRangeHigh.toFixed(2)}` : 'N/A';
-                                            break;
-                                          case 'tec_riskRangeLow':
-                                            cellContent = ranksDataItem?.tec_riskRangeLow !== null && ranksDataItem?.tec_riskRangeLow !== undefined ? `$${ranksDataItem.tec_riskRangeLow.toFixed(2)}` : 'N/A';
-                                            break;
-                                          case 'tag':
-                                            cellContent = ranksDataItem?.tag || 'N/A';
-                                            break;
-                                        }
-
-                                        return (
-                                          <TableCell key={col.key} className={col.key === 'sector' || col.key === 'industry' ? 'text-left' : 'text-right'}>
-                                            {cellContent}
-                                          </TableCell>
-                                        );
-                                      })}
-                                  </>
-                                )}
-                                {watchlist.type === 'crypto' && (
-                                  <>
-                                    {columnConfig
-                                      .filter(col => ['crypto_ranks', 'lppl_side', 'lppl_pos_conf', 'lppl_neg_conf', 'strategy_side', 'strategy_profit_per_trade', 'strategy_expectancy', 'strategy_profit_factor', 'quoteCurrency', 'open', 'high', 'low', 'close', 'volume', 'ivol', 'predicted_beta', 'risk_contribution', 'ai_sentiment', 'ai_decision', 'ai_age'].includes(col.key) && col.visible)
-                                      .sort((a, b) => a.order - b.order)
-                                      .map(col => {
-                                        let cellContent: React.ReactNode = 'N/A';
-
-                                        switch (col.key) {
-                                          case 'crypto_ranks':
-                                            cellContent = cryptoRanksDataItem?.crypto_ranks !== null && cryptoRanksDataItem?.crypto_ranks !== undefined ? cryptoRanksDataItem.crypto_ranks.toFixed(1) : 'N/A';
-                                            break;
-                                          case 'lppl_side':
-                                            cellContent = cryptoRanksDataItem?.lppl_side || 'N/A';
-                                            break;
-                                          case 'lppl_pos_conf':
-                                            cellContent = cryptoRanksDataItem?.lppl_pos_conf !== null && cryptoRanksDataItem?.lppl_pos_conf !== undefined ? cryptoRanksDataItem.lppl_pos_conf.toFixed(3) : 'N/A';
-                                            break;
-                                          case 'lppl_neg_conf':
-                                            cellContent = cryptoRanksDataItem?.lppl_neg_conf !== null && cryptoRanksDataItem?.lppl_neg_conf !== undefined ? cryptoRanksDataItem.lppl_neg_conf.toFixed(3) : 'N/A';
-                                            break;
-                                          case 'strategy_side':
-                                            cellContent = cryptoRanksDataItem?.strategy_side || 'N/A';
-                                            break;
-                                          case 'strategy_profit_per_trade':
-                                            cellContent = cryptoRanksDataItem?.strategy_profit_per_trade !== null && cryptoRanksDataItem?.strategy_profit_per_trade !== undefined ? cryptoRanksDataItem.strategy_profit_per_trade.toFixed(3) : 'N/A';
-                                            break;
-                                          case 'strategy_expectancy':
-                                            cellContent = cryptoRanksDataItem?.strategy_expectancy !== null && cryptoRanksDataItem?.strategy_expectancy !== undefined ? cryptoRanksDataItem.strategy_expectancy.toFixed(3) : 'N/A';
-                                            break;
-                                          case 'strategy_profit_factor':
-                                            cellContent = cryptoRanksDataItem?.strategy_profit_factor !== null && cryptoRanksDataItem?.strategy_profit_factor !== undefined ? cryptoRanksDataItem.strategy_profit_factor.toFixed(3) : 'N/A';
-                                            break;
-                                          case 'quoteCurrency':
-                                            cellContent = cryptoRanksDataItem?.quoteCurrency || 'N/A';
-                                            break;
-                                          case 'open':
-                                            cellContent = cryptoRanksDataItem?.open !== null && cryptoRanksDataItem?.open !== undefined ? `$${cryptoRanksDataItem.open.toFixed(2)}` : 'N/A';
-                                            break;
-                                          case 'high':
-                                            cellContent = cryptoRanksDataItem?.high !== null && cryptoRanksDataItem?.high !== undefined ? `$${cryptoRanksDataItem.high.toFixed(2)}` : 'N/A';
-                                            break;
-                                          case 'low':
-                                            cellContent = cryptoRanksDataItem?.low !== null && cryptoRanksDataItem?.low !== undefined ? `$${cryptoRanksDataItem.low.toFixed(2)}` : 'N/A';
-                                            break;
-                                          case 'close':
-                                            cellContent = cryptoRanksDataItem?.close !== null && cryptoRanksDataItem?.close !== undefined ? `$${cryptoRanksDataItem.close.toFixed(2)}` : 'N/A';
-                                            break;
-                                          case 'volume':
-                                            cellContent = cryptoRanksDataItem?.volume !== null && cryptoRanksDataItem?.volume !== undefined ? cryptoRanksDataItem.volume.toLocaleString() : 'N/A';
-                                            break;
-                                          case 'ivol':
-                                            cellContent = cryptoRanksDataItem?.ivol !== null && cryptoRanksDataItem?.ivol !== undefined ? cryptoRanksDataItem.ivol.toFixed(2) : 'N/A';
-                                            break;
-                                          case 'predicted_beta':
-                                            cellContent = cryptoRanksDataItem?.predicted_beta !== null && cryptoRanksDataItem?.predicted_beta !== undefined ? cryptoRanksDataItem.predicted_beta.toFixed(2) : 'N/A';
-                                            break;
-                                          case 'risk_contribution':
-                                            cellContent = cryptoRanksDataItem?.risk_contribution !== null && cryptoRanksDataItem?.risk_contribution !== undefined ? cryptoRanksDataItem.risk_contribution.toFixed(2) : 'N/A';
-                                            break;
-                                          case 'ai_sentiment':
-                                            cellContent = cryptoRanksDataItem?.ai_sentiment !== null && cryptoRanksDataItem?.ai_sentiment !== undefined ? cryptoRanksDataItem.ai_sentiment : 'N/A';
-                                            break;
-                                          case 'ai_decision':
-                                            cellContent = cryptoRanksDataItem?.ai_decision !== null && cryptoRanksDataItem?.ai_decision !== undefined ? cryptoRanksDataItem.ai_decision : 'N/A';
-                                            break;
-                                          case 'ai_age':
-                                            cellContent = cryptoRanksDataItem?.ai_age || 'N/A';
-                                            break;
-                                        }
-
-                                        return (
-                                          <TableCell key={col.key} className="text-right">
-                                            {cellContent}
-                                          </TableCell>
-                                        );
-                                      })}
-                                  </>
-                                )}
-                              </TableRow>
-                            );
-                          })}
-                        </TableBody>
-                      </Table>
+                      <DataGrid
+                        rows={gridRows}
+                        columns={gridColumns}
+                        getRowKey={row => row.symbol}
+                        columnOrder={gridColumnOrder}
+                        onColumnOrderChange={handleColumnOrderChange}
+                        rowHeight={52}
+                        loading={isInitialLoading}
+                        emptyMessage="No symbols match the screen"
+                      />
                     )}
                   </CardContent>
                 </Card>
@@ -1935,6 +1268,40 @@ const Watchlist: React.FC = () => {
         )}
       </div>
 
+      {showAlerts && activeWatchlist && (
+        <WatchlistAlerts watchlist={activeWatchlist} onClose={() => setShowAlerts(false)} />
+      )}
+
+      {showTransfer && activeWatchlist && (
+        <WatchlistTransfer
+          watchlist={activeWatchlist}
+          columnConfig={columnConfig}
+          onImported={(created, config) => {
+            setWatchlists(prev => [...prev, created]);
+            setActiveWatchlistId(created.id);
+            if (config) saveColumnConfig(config);
+            setShowTransfer(false);
+            showStatus(`Imported ${created.name} with ${created.symbols.length} symbol(s)`, 'success');
+          }}
+          onClose={() => setShowTransfer(false)}
+        />
+      )}
+
+      {historyTarget && (
+        <AnalysisHistory
+          ticker={historyTarget.symbol}
+          entries={historyForTicker(analysisEntries, historyTarget.assetType, historyTarget.symbol)}
+          onView={(entry) => {
+            setAnalysisResult(entry.result);
+            setAnalysisError(null);
+            setIsAnalyzing(false);
+            setShowAnalysisModal(true);
+          }}
+          onDelete={removeAnalysisEntry}
+          onClose={() => setHistoryTarget(null)}
+        />
+      )}
+
       {/* Analysis Modal */}
       <AnalysisModal
         isOpen={showAnalysisModal}
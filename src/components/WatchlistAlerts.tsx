@@ -0,0 +1,208 @@
+import { Bell, BellOff, Plus, RefreshCw, Trash2, X } from 'lucide-react';
+import React, { useState } from 'react';
+import { ALERT_POLL_INTERVAL, useWatchlistAlerts } from '../context/WatchlistAlertsContext';
+import {
+  ALERT_RULE_LABELS,
+  ALERT_RULE_TYPES,
+  AlertAssetType,
+  AlertRuleType,
+  describeRule,
+  ruleNeedsThreshold,
+  STOCK_ONLY_RULE_TYPES,
+} from '../lib/watchlistAlerts';
+import { Badge } from './ui/badge';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Label } from './ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+
+interface WatchlistAlertsProps {
+  watchlist: {
+    id: string;
+    name: string;
+    type: AlertAssetType;
+    symbols: string[];
+  };
+  onClose: () => void;
+}
+
+const selectClassName = 'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm';
+
+export const WatchlistAlerts: React.FC<WatchlistAlertsProps> = ({ watchlist, onClose }) => {
+  const {
+    rules,
+    addRule,
+    updateRule,
+    removeRule,
+    notificationPermission,
+    requestNotificationPermission,
+    lastCheckedAt,
+    checkNow,
+  } = useWatchlistAlerts();
+
+  const ruleTypes = ALERT_RULE_TYPES.filter(type => watchlist.type === 'stocks' || !STOCK_ONLY_RULE_TYPES.includes(type));
+  const [symbol, setSymbol] = useState(watchlist.symbols[0] || '');
+  const [type, setType] = useState<AlertRuleType>('price_above');
+  const [threshold, setThreshold] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const watchlistRules = rules.filter(rule => rule.watchlistId === watchlist.id);
+
+  const handleAdd = () => {
+    const value = parseFloat(threshold);
+    if (!symbol) {
+      setFormError('Select a symbol');
+      return;
+    }
+    if (ruleNeedsThreshold(type) && !Number.isFinite(value)) {
+      setFormError('Enter a numeric threshold');
+      return;
+    }
+
+    addRule({
+      watchlistId: watchlist.id,
+      symbol,
+      assetType: watchlist.type,
+      type,
+      threshold: ruleNeedsThreshold(type) ? value : null,
+    });
+    setThreshold('');
+    setFormError(null);
+
+    // Asking from the click keeps browsers that require a user gesture happy
+    if (notificationPermission === 'default') {
+      requestNotificationPermission();
+    }
+  };
+
+  const handleCheckNow = async () => {
+    setIsChecking(true);
+    try {
+      await checkNow();
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="bg-background rounded-lg shadow-lg w-full max-w-3xl p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold">Alerts: {watchlist.name}</h2>
+          <Button variant="ghost" size="icon" onClick={onClose}>
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+
+        <div className="space-y-6">
+          <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+            <div className="flex items-center gap-2 text-muted-foreground">
+              {notificationPermission === 'granted' ? <Bell className="h-4 w-4" /> : <BellOff className="h-4 w-4" />}
+              {notificationPermission === 'granted' && 'Browser notifications are on.'}
+              {notificationPermission === 'denied' && 'Browser notifications are blocked; alerts show in the app only.'}
+              {notificationPermission === 'unsupported' && 'This browser does not support notifications; alerts show in the app only.'}
+              {notificationPermission === 'default' && (
+                <Button variant="outline" size="sm" onClick={requestNotificationPermission}>
+                  Enable browser notifications
+                </Button>
+              )}
+            </div>
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <span>
+                Checked every {ALERT_POLL_INTERVAL / 1000}s while the app is open
+                {lastCheckedAt ? `, last at ${new Date(lastCheckedAt).toLocaleTimeString()}` : ''}
+              </span>
+              <Button variant="ghost" size="sm" onClick={handleCheckNow} disabled={isChecking || watchlistRules.length === 0}>
+                <RefreshCw className={`h-4 w-4 mr-1 ${isChecking ? 'animate-spin' : ''}`} />
+                Check now
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="alert-symbol">Symbol</Label>
+              <select id="alert-symbol" value={symbol} onChange={(e) => setSymbol(e.target.value)} className={selectClassName}>
+                {watchlist.symbols.map(s => (
+                  <option key={s} value={s}>{s}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="alert-type">Condition</Label>
+              <select id="alert-type" value={type} onChange={(e) => setType(e.target.value as AlertRuleType)} className={selectClassName}>
+                {ruleTypes.map(t => (
+                  <option key={t} value={t}>{ALERT_RULE_LABELS[t]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="alert-threshold">Threshold</Label>
+              <Input
+                id="alert-threshold"
+                type="number"
+                step="any"
+                value={threshold}
+                onChange={(e) => setThreshold(e.target.value)}
+                disabled={!ruleNeedsThreshold(type)}
+                placeholder={ruleNeedsThreshold(type) ? '' : 'From ranks'}
+              />
+            </div>
+          </div>
+          {formError && <p className="text-sm text-destructive">{formError}</p>}
+          <div className="flex justify-end">
+            <Button onClick={handleAdd} disabled={watchlist.symbols.length === 0}>
+              <Plus className="h-4 w-4 mr-2" /> Add Alert
+            </Button>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Rule</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Last Triggered</TableHead>
+                <TableHead className="w-[50px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {watchlistRules.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">No alerts for this watchlist</TableCell>
+                </TableRow>
+              )}
+              {watchlistRules.map(rule => (
+                <TableRow key={rule.id}>
+                  <TableCell className="font-medium">{describeRule(rule)}</TableCell>
+                  <TableCell>
+                    <label className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={rule.enabled}
+                        onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                      />
+                      {rule.enabled ? (rule.conditionMet ? <Badge variant="destructive">Triggered</Badge> : 'Watching') : 'Paused'}
+                    </label>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {rule.lastTriggeredAt ? new Date(rule.lastTriggeredAt).toLocaleString() : 'Never'}
+                  </TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="icon" onClick={() => removeRule(rule.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <p className="text-xs text-muted-foreground">
+            An alert fires once when its condition becomes true and again only after the condition has cleared.
+            Rules are saved in this browser for the connected wallet.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,372 @@
+import { Filter, Globe, Plus, Save, Trash2, X } from 'lucide-react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { useMarketData } from '../hooks/useMarketData';
+import {
+  formatScreenerExpression,
+  matchesScreen,
+  parseScreenerExpression,
+  parseStoredScreens,
+  SavedScreen,
+  SCREENER_OPERATORS,
+  ScreenerAssetType,
+  ScreenerCondition,
+  ScreenerJoin,
+  ScreenerOperator,
+  ScreenerRow,
+  screenerFieldsFor,
+  toCryptoScreenerRow,
+  toStockScreenerRow,
+} from '../lib/screener';
+import { Badge } from './ui/badge';
+import { Button } from './ui/Button';
+import { Card, CardContent } from './ui/Card';
+import { Input } from './ui/Input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+
+// Screens are kept per wallet under this key plus the wallet address
+const STORAGE_KEY = 'watchlist-screens';
+
+// Universe matches rendered at once; the rest are counted
+const MAX_UNIVERSE_RESULTS = 100;
+
+interface WatchlistScreenerProps {
+  assetType: ScreenerAssetType;
+  watchlistSymbols: string[];
+  matchCount: number; // watchlist symbols passing the applied screen
+  onConditionsChange: (conditions: ScreenerCondition[]) => void;
+  onAddSymbols: (symbols: string[]) => Promise<void>;
+}
+
+interface UniverseRow {
+  symbol: string;
+  name: string | null;
+  row: ScreenerRow;
+}
+
+const selectClassName = 'flex h-10 rounded-md border border-input bg-background px-3 py-2 text-sm';
+
+const storageKey = (walletAddress: string) => `${STORAGE_KEY}_${walletAddress}`;
+
+const loadScreens = (walletAddress: string | null): SavedScreen[] => {
+  if (!walletAddress) return [];
+  try {
+    const saved = localStorage.getItem(storageKey(walletAddress));
+    return saved ? parseStoredScreens(JSON.parse(saved)) : [];
+  } catch (e) {
+    console.error('Failed to load screens from storage:', e);
+    return [];
+  }
+};
+
+const formatValue = (value: ScreenerRow[string]): string => {
+  if (value === null || value === undefined) return 'N/A';
+  if (typeof value === 'number') return Number.isInteger(value) ? value.toString() : value.toFixed(2);
+  return String(value);
+};
+
+/**
+ * Screener bar for a watchlist: builds AND / OR filters over the loaded columns, saves them
+ * as named screens and runs the same screen over the full ranks universe to find symbols
+ * that are not in the watchlist yet
+ */
+export const WatchlistScreener: React.FC<WatchlistScreenerProps> = ({
+  assetType,
+  watchlistSymbols,
+  matchCount,
+  onConditionsChange,
+  onAddSymbols,
+}) => {
+  const { walletAddress } = useAuth();
+  const marketData = useMarketData();
+  const fields = screenerFieldsFor(assetType);
+
+  const [expression, setExpression] = useState('');
+  const [conditions, setConditions] = useState<ScreenerCondition[]>([]);
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  // Condition builder
+  const [join, setJoin] = useState<ScreenerJoin>('AND');
+  const [field, setField] = useState(fields[0]?.key || '');
+  const [operator, setOperator] = useState<ScreenerOperator>('>');
+  const [value, setValue] = useState('');
+
+  const [screens, setScreens] = useState<SavedScreen[]>(() => loadScreens(walletAddress));
+  const [screenName, setScreenName] = useState('');
+  const [selectedScreenId, setSelectedScreenId] = useState('');
+
+  const [universe, setUniverse] = useState<UniverseRow[] | null>(null);
+  const [isUniverseLoading, setIsUniverseLoading] = useState(false);
+  const [universeError, setUniverseError] = useState<string | null>(null);
+  const [addingSymbol, setAddingSymbol] = useState<string | null>(null);
+
+  useEffect(() => {
+    setScreens(loadScreens(walletAddress));
+  }, [walletAddress]);
+
+  const saveScreens = (next: SavedScreen[]) => {
+    setScreens(next);
+    if (!walletAddress) return;
+    try {
+      localStorage.setItem(storageKey(walletAddress), JSON.stringify(next));
+    } catch (e) {
+      console.error('Failed to save screens to storage:', e);
+    }
+  };
+
+  const applyExpression = (text: string) => {
+    const parsed = parseScreenerExpression(text, assetType);
+    setExpression(text);
+    setParseError(parsed.error);
+    if (parsed.error) return;
+    setConditions(parsed.conditions);
+    onConditionsChange(parsed.conditions);
+  };
+
+  const handleAddCondition = () => {
+    if (!value.trim()) {
+      setParseError('Enter a value for the condition');
+      return;
+    }
+    const clause = formatScreenerExpression([{ join, field, operator, value: value.trim() }]);
+    applyExpression(expression.trim() ? `${expression.trim()} ${join} ${clause}` : clause);
+    setValue('');
+  };
+
+  const handleClear = () => {
+    setSelectedScreenId('');
+    applyExpression('');
+  };
+
+  const handleSaveScreen = () => {
+    const name = screenName.trim();
+    if (!name || conditions.length === 0) return;
+
+    // Saving under an existing name replaces that screen
+    const existing = screens.find(s => s.assetType === assetType && s.name.toLowerCase() === name.toLowerCase());
+    const screen: SavedScreen = {
+      id: existing?.id || `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      name,
+      assetType,
+      expression: formatScreenerExpression(conditions),
+    };
+    saveScreens(existing ? screens.map(s => (s.id === existing.id ? screen : s)) : [...screens, screen]);
+    setSelectedScreenId(screen.id);
+    setScreenName('');
+  };
+
+  const handleSelectScreen = (id: string) => {
+    setSelectedScreenId(id);
+    const screen = screens.find(s => s.id === id);
+    applyExpression(screen ? screen.expression : '');
+  };
+
+  const handleDeleteScreen = () => {
+    saveScreens(screens.filter(s => s.id !== selectedScreenId));
+    setSelectedScreenId('');
+  };
+
+  const loadUniverse = async () => {
+    setIsUniverseLoading(true);
+    setUniverseError(null);
+    try {
+      if (assetType === 'stocks') {
+        const rows = await marketData.stockRanksUniverse();
+        setUniverse(rows.map(r => ({ symbol: r.ticker, name: r.name || null, row: toStockScreenerRow(r, undefined) })));
+      } else {
+        const rows = await marketData.cryptoRanksUniverse();
+        setUniverse(rows.map(r => ({ symbol: r.baseCurrency, name: null, row: toCryptoScreenerRow(r, undefined) })));
+      }
+    } catch (err) {
+      console.error('Error loading ranks universe:', err);
+      setUniverseError(`Failed to load the ranks universe: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsUniverseLoading(false);
+    }
+  };
+
+  const handleAddFromUniverse = async (symbol: string) => {
+    setAddingSymbol(symbol);
+    try {
+      await onAddSymbols([symbol]);
+    } finally {
+      setAddingSymbol(null);
+    }
+  };
+
+  const universeMatches = useMemo(
+    () => (universe || []).filter(entry => matchesScreen(entry.row, conditions)),
+    [universe, conditions]
+  );
+
+  // Columns of the universe table: the fields the screen uses, in the order they appear
+  const screenFields = Array.from(new Set(conditions.map(c => c.field)));
+  const inWatchlist = new Set(watchlistSymbols.map(s => s.toUpperCase()));
+  const typeScreens = screens.filter(s => s.assetType === assetType);
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="pt-6 space-y-3">
+        <div className="flex flex-col lg:flex-row gap-2">
+          <div className="relative flex-1">
+            <Filter className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={expression}
+              onChange={(e) => setExpression(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') applyExpression(expression);
+              }}
+              placeholder={assetType === 'stocks' ? 'rankTechnical > 80 AND ivol < 0.4' : 'crypto_ranks > 70 AND strategy_profit_factor >= 1.5'}
+              className="pl-9 font-mono text-sm"
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => applyExpression(expression)}>
+              Apply
+            </Button>
+            <Button variant="ghost" onClick={handleClear} disabled={!expression && conditions.length === 0}>
+              <X className="h-4 w-4 mr-1" />
+              Clear
+            </Button>
+            <Button variant="outline" onClick={loadUniverse} disabled={isUniverseLoading}>
+              <Globe className={`h-4 w-4 mr-2 ${isUniverseLoading ? 'animate-pulse' : ''}`} />
+              Screen universe
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {expression.trim() && (
+            <select value={join} onChange={(e) => setJoin(e.target.value as ScreenerJoin)} className={selectClassName}>
+              <option value="AND">AND</option>
+              <option value="OR">OR</option>
+            </select>
+          )}
+          <select value={field} onChange={(e) => setField(e.target.value)} className={selectClassName}>
+            {fields.map(f => (
+              <option key={f.key} value={f.key}>{f.label}</option>
+            ))}
+          </select>
+          <select value={operator} onChange={(e) => setOperator(e.target.value as ScreenerOperator)} className={selectClassName}>
+            {SCREENER_OPERATORS.map(op => (
+              <option key={op} value={op}>{op}</option>
+            ))}
+          </select>
+          <Input
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleAddCondition();
+            }}
+            placeholder="Value"
+            className="w-32"
+          />
+          <Button variant="outline" size="sm" onClick={handleAddCondition}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add condition
+          </Button>
+
+          <div className="flex items-center gap-2 lg:ml-auto">
+            <select
+              value={selectedScreenId}
+              onChange={(e) => handleSelectScreen(e.target.value)}
+              className={selectClassName}
+            >
+              <option value="">Saved screens</option>
+              {typeScreens.map(s => (
+                <option key={s.id} value={s.id}>{s.name}</option>
+              ))}
+            </select>
+            {selectedScreenId && (
+              <Button variant="ghost" size="icon" onClick={handleDeleteScreen} title="Delete saved screen">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+            <Input
+              value={screenName}
+              onChange={(e) => setScreenName(e.target.value)}
+              placeholder="Screen name"
+              className="w-36"
+            />
+            <Button variant="outline" size="sm" onClick={handleSaveScreen} disabled={!screenName.trim() || conditions.length === 0}>
+              <Save className="h-4 w-4 mr-1" />
+              Save
+            </Button>
+          </div>
+        </div>
+
+        {parseError && <p className="text-sm text-destructive">{parseError}</p>}
+        {conditions.length > 0 && !parseError && (
+          <p className="text-xs text-muted-foreground">
+            {matchCount} of {watchlistSymbols.length} symbols match. AND binds tighter than OR.
+          </p>
+        )}
+
+        {universeError && <p className="text-sm text-destructive">{universeError}</p>}
+        {universe && (
+          <div className="border rounded-md">
+            <div className="flex items-center justify-between px-4 py-2 border-b">
+              <span className="text-sm font-medium">
+                Universe: {universeMatches.length} of {universe.length} {assetType === 'stocks' ? 'tickers' : 'coins'} match
+                {universeMatches.length > MAX_UNIVERSE_RESULTS && `, showing the first ${MAX_UNIVERSE_RESULTS}`}
+              </span>
+              <Button variant="ghost" size="icon" onClick={() => setUniverse(null)}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="px-4 pt-2 text-xs text-muted-foreground">
+              The universe is screened on its ranks rows only, so price and return conditions do not match here.
+            </p>
+            <div className="max-h-96 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Symbol</TableHead>
+                    {assetType === 'stocks' && <TableHead>Name</TableHead>}
+                    {screenFields.map(key => (
+                      <TableHead key={key} className="text-right">{fields.find(f => f.key === key)?.label || key}</TableHead>
+                    ))}
+                    <TableHead className="w-[120px]"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {universeMatches.slice(0, MAX_UNIVERSE_RESULTS).map(entry => (
+                    <TableRow key={entry.symbol}>
+                      <TableCell className="font-medium">{entry.symbol}</TableCell>
+                      {assetType === 'stocks' && <TableCell className="text-sm">{entry.name || ''}</TableCell>}
+                      {screenFields.map(key => (
+                        <TableCell key={key} className="text-right">{formatValue(entry.row[key])}</TableCell>
+                      ))}
+                      <TableCell className="text-right">
+                        {inWatchlist.has(entry.symbol.toUpperCase()) ? (
+                          <Badge variant="secondary">In watchlist</Badge>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleAddFromUniverse(entry.symbol)}
+                            disabled={addingSymbol !== null}
+                          >
+                            <Plus className="h-3 w-3 mr-1" />
+                            Add
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {universeMatches.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={screenFields.length + 3} className="text-center text-muted-foreground">
+                        No symbols in the universe match this screen
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
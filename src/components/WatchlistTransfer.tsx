@@ -0,0 +1,187 @@
+import { Download, Link2, Upload, X } from 'lucide-react';
+import React, { useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { ColumnSetting, storeImportedColumnConfig } from '../lib/columnConfig';
+import { downloadTextFile } from '../lib/csv';
+import { createWatchlistFromExport, StoredWatchlist } from '../lib/watchlistData';
+import {
+  buildShareUrl,
+  parseWatchlistFile,
+  WatchlistExport,
+  watchlistToCsv,
+  watchlistToJson,
+  WatchlistType,
+} from '../lib/watchlistTransfer';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Label } from './ui/label';
+
+interface WatchlistTransferProps {
+  watchlist: {
+    name: string;
+    type: WatchlistType;
+    symbols: string[];
+  };
+  columnConfig: ColumnSetting[];
+  onImported: (watchlist: StoredWatchlist, columnConfig: ColumnSetting[] | null) => void;
+  onClose: () => void;
+}
+
+const fileSlug = (name: string) => name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'watchlist';
+
+/**
+ * Export, import and share dialog for a watchlist. Exports carry the name, type, symbols and
+ * column layout; an import or a clone from a share link creates a new watchlist for the
+ * connected wallet.
+ */
+export const WatchlistTransfer: React.FC<WatchlistTransferProps> = ({ watchlist, columnConfig, onImported, onClose }) => {
+  const { walletAddress } = useAuth();
+
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [imported, setImported] = useState<WatchlistExport | null>(null);
+  const [applyColumns, setApplyColumns] = useState(true);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const exportData: WatchlistExport = {
+    version: 1,
+    name: watchlist.name,
+    type: watchlist.type,
+    symbols: watchlist.symbols,
+    columnConfig,
+  };
+
+  const handleCopyLink = async () => {
+    const url = buildShareUrl(window.location.origin, exportData);
+    setShareUrl(url);
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      // Clipboard access can be refused; the link stays visible to copy by hand
+      console.warn('Failed to copy share link:', e);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setImported(parseWatchlistFile(await file.text(), file.name, watchlist.type));
+      setImportError(null);
+    } catch (err) {
+      setImported(null);
+      setImportError(`Failed to read ${file.name}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!imported || !walletAddress) return;
+
+    setIsImporting(true);
+    setImportError(null);
+    try {
+      const created = await createWatchlistFromExport(walletAddress, imported);
+      const config = applyColumns && imported.columnConfig ? storeImportedColumnConfig(walletAddress, imported.columnConfig) : null;
+      onImported(created, config);
+    } catch (err) {
+      console.error('Error importing watchlist:', err);
+      setImportError(`Failed to import watchlist: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="bg-background rounded-lg shadow-lg w-full max-w-2xl p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold">Share: {watchlist.name}</h2>
+          <Button variant="ghost" size="icon" onClick={onClose}>
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Export</h3>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => downloadTextFile(watchlistToJson(exportData), `${fileSlug(watchlist.name)}.json`, 'application/json')}
+              >
+                <Download className="h-4 w-4 mr-2" />
+                JSON
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => downloadTextFile(watchlistToCsv(exportData), `${fileSlug(watchlist.name)}.csv`)}
+              >
+                <Download className="h-4 w-4 mr-2" />
+                CSV
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Read-only link</h3>
+            <p className="text-xs text-muted-foreground">
+              Anyone with the link can view the {watchlist.symbols.length} symbols and clone the list into their own wallet.
+              The list is stored in the link itself, so later changes here are not reflected in links already shared.
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={handleCopyLink}>
+                <Link2 className="h-4 w-4 mr-2" />
+                {copied ? 'Copied' : 'Copy share link'}
+              </Button>
+            </div>
+            {shareUrl && (
+              <Input readOnly value={shareUrl} onFocus={(e) => e.target.select()} className="font-mono text-xs" />
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Import</h3>
+            <p className="text-xs text-muted-foreground">
+              Creates a new watchlist from a JSON or CSV export. A CSV with only a symbol column is imported as a {watchlist.type} list.
+            </p>
+            <Label htmlFor="watchlist-import" className="inline-flex items-center cursor-pointer">
+              <span className="inline-flex items-center rounded-md border border-input px-3 py-2 text-sm hover:bg-accent">
+                <Upload className="h-4 w-4 mr-2" />
+                Choose file
+              </span>
+              <input id="watchlist-import" type="file" accept=".json,.csv,application/json,text/csv" onChange={handleFileChange} className="hidden" />
+            </Label>
+
+            {imported && (
+              <div className="rounded-md border p-3 space-y-2 text-sm">
+                <p>
+                  <span className="font-medium">{imported.name}</span> ({imported.type}), {imported.symbols.length} symbols
+                </p>
+                <p className="text-xs text-muted-foreground break-words">{imported.symbols.join(', ')}</p>
+                {imported.columnConfig && (
+                  <label className="flex items-center gap-2 text-sm">
+                    <input type="checkbox" checked={applyColumns} onChange={(e) => setApplyColumns(e.target.checked)} />
+                    Use the column layout from the file
+                  </label>
+                )}
+                <div className="flex justify-end">
+                  <Button size="sm" onClick={handleImport} disabled={isImporting || !walletAddress}>
+                    {isImporting ? 'Importing...' : 'Create watchlist'}
+                  </Button>
+                </div>
+              </div>
+            )}
+            {importError && <p className="text-sm text-destructive">{importError}</p>}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,315 @@
+import { AlertTriangle, CheckCircle, Plus, Trash2 } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { quantityDecimalsFor } from '../lib/assetClasses';
+import { currencyPrefix } from '../lib/fx';
+import { simulateOrders, WhatIfHolding, WhatIfOrder } from '../lib/whatIf';
+import { AssetClass } from '../types/portfolio';
+import { SymbolRiskInput } from './PortfolioRisk';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Label } from './ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+
+interface WhatIfSimulatorProps {
+  portfolioId: string;
+  baseCurrency: string;
+  assetClasses: Record<string, AssetClass>;
+  symbols: string[];
+  quantities: Record<string, number>;
+  costBases: Record<string, number>; // base currency
+  prices: Record<string, number>; // base currency
+  riskInputs: Record<string, SymbolRiskInput>;
+  sectors: Record<string, string | null>;
+  onCommit: (orders: WhatIfOrder[]) => Promise<string[]>; // resolves to the symbols whose orders were recorded
+}
+
+const selectClassName = 'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm';
+
+const formatPercent = (value: number | null, decimals: number = 1) =>
+  value === null || !Number.isFinite(value) ? 'N/A' : `${(value * 100).toFixed(decimals)}%`;
+
+const formatDelta = (before: number | null, after: number | null, scale: number = 100, suffix: string = ' pp') => {
+  if (before === null || after === null) return '';
+  const delta = (after - before) * scale;
+  if (Math.abs(delta) < 0.05) return '';
+  return `${delta >= 0 ? '+' : ''}${delta.toFixed(1)}${suffix}`;
+};
+
+const deltaClass = (before: number | null, after: number | null) =>
+  before === null || after === null || Math.abs(after - before) < 0.0005 ? 'text-muted-foreground' : after > before ? 'text-red-600' : 'text-green-600';
+
+export const WhatIfSimulator: React.FC<WhatIfSimulatorProps> = ({
+  portfolioId,
+  baseCurrency,
+  assetClasses,
+  symbols,
+  quantities,
+  costBases,
+  prices,
+  riskInputs,
+  sectors,
+  onCommit,
+}) => {
+  const [orders, setOrders] = useState<WhatIfOrder[]>([]);
+  const [draftPrices, setDraftPrices] = useState<Record<string, string>>({});
+  const allCrypto = symbols.length > 0 && symbols.every(symbol => assetClasses[symbol] === 'crypto');
+  const [marketVolatility, setMarketVolatility] = useState(allCrypto ? '60' : '16');
+  const [isCommitting, setIsCommitting] = useState(false);
+
+  const money = (value: number) => `${value < 0 ? '-' : ''}${currencyPrefix(baseCurrency)}${Math.abs(value).toFixed(0)}`;
+
+  const holdings: WhatIfHolding[] = useMemo(() => symbols.map(symbol => ({
+    symbol,
+    quantity: quantities[symbol] || 0,
+    costBasis: costBases[symbol] || 0,
+    price: prices[symbol] ?? null,
+    beta: riskInputs[symbol]?.predicted_beta ?? null,
+    ivol: riskInputs[symbol]?.ivol ?? null,
+    sector: assetClasses[symbol] === 'crypto' ? 'Crypto' : sectors[symbol] ?? null,
+  })), [symbols, quantities, costBases, prices, riskInputs, sectors, assetClasses]);
+
+  const result = useMemo(
+    () => simulateOrders(holdings, orders, Math.max(0, parseFloat(marketVolatility) || 0) / 100),
+    [holdings, orders, marketVolatility]
+  );
+
+  const addOrder = () => {
+    const symbol = symbols[0];
+    if (!symbol) return;
+    const price = prices[symbol] || 0;
+    const id = `${Date.now()}-${orders.length}`;
+    setOrders(prev => [...prev, { id, symbol, action: 'BUY', quantity: 0, price }]);
+    setDraftPrices(prev => ({ ...prev, [id]: price ? price.toFixed(2) : '' }));
+  };
+
+  const updateOrder = (id: string, changes: Partial<WhatIfOrder>) => {
+    setOrders(prev => prev.map(o => (o.id === id ? { ...o, ...changes } : o)));
+  };
+
+  const changeSymbol = (id: string, symbol: string) => {
+    // A new symbol starts from its current price
+    const price = prices[symbol] || 0;
+    updateOrder(id, { symbol, price });
+    setDraftPrices(prev => ({ ...prev, [id]: price ? price.toFixed(2) : '' }));
+  };
+
+  const removeOrder = (id: string) => {
+    setOrders(prev => prev.filter(o => o.id !== id));
+  };
+
+  // Sells are recorded at the quantity the simulation could sell, never more than is held
+  const validOrders = result.executed.filter(o => o.price > 0);
+
+  const handleCommit = async () => {
+    if (validOrders.length === 0) return;
+    const capped = result.warnings.length > 0 ? ' Sells larger than the position are recorded at the quantity held.' : '';
+    if (!window.confirm(`Record ${validOrders.length} simulated order(s) as transactions dated today?${capped}`)) return;
+
+    setIsCommitting(true);
+    try {
+      // Orders of symbols that were recorded are removed so a retry cannot record them twice
+      const recorded = new Set(await onCommit(validOrders));
+      setOrders(prev => prev.filter(o => !recorded.has(o.symbol)));
+    } finally {
+      setIsCommitting(false);
+    }
+  };
+
+  const stats: Array<{ label: string; before: string; after: string }> = [
+    { label: 'Portfolio Value', before: money(result.before.totalValue), after: money(result.after.totalValue) },
+    { label: 'Cost Basis', before: money(result.costBasisBefore), after: money(result.costBasisAfter) },
+    {
+      label: 'Portfolio Beta',
+      before: result.before.beta !== null ? result.before.beta.toFixed(2) : 'N/A',
+      after: result.after.beta !== null ? result.after.beta.toFixed(2) : 'N/A',
+    },
+    { label: 'Est. Volatility', before: formatPercent(result.before.volatility), after: formatPercent(result.after.volatility) },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <p className="text-sm text-muted-foreground max-w-xl">
+          Enter hypothetical orders to see how they would change the portfolio. Nothing is saved until you commit the orders.
+        </p>
+        <div className="space-y-2">
+          <Label htmlFor={`whatif-market-vol-${portfolioId}`}>Market Volatility (%)</Label>
+          <Input
+            id={`whatif-market-vol-${portfolioId}`}
+            type="number"
+            step="1"
+            min="0"
+            value={marketVolatility}
+            onChange={(e) => setMarketVolatility(e.target.value)}
+            className="w-32"
+          />
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Symbol</TableHead>
+            <TableHead>Action</TableHead>
+            <TableHead className="text-right">Quantity</TableHead>
+            <TableHead className="text-right">Price ({baseCurrency})</TableHead>
+            <TableHead className="text-right">Est. Value</TableHead>
+            <TableHead className="w-[50px]"></TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {orders.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={6} className="text-center text-muted-foreground">No simulated orders</TableCell>
+            </TableRow>
+          )}
+          {orders.map(order => (
+            <TableRow key={order.id}>
+              <TableCell>
+                <select value={order.symbol} onChange={(e) => changeSymbol(order.id, e.target.value)} className={selectClassName}>
+                  {symbols.map(symbol => (
+                    <option key={symbol} value={symbol}>{symbol}</option>
+                  ))}
+                </select>
+              </TableCell>
+              <TableCell>
+                <select
+                  value={order.action}
+                  onChange={(e) => updateOrder(order.id, { action: e.target.value as 'BUY' | 'SELL' })}
+                  className={selectClassName}
+                >
+                  <option value="BUY">BUY</option>
+                  <option value="SELL">SELL</option>
+                </select>
+              </TableCell>
+              <TableCell className="text-right">
+                <Input
+                  type="number"
+                  step="any"
+                  min="0"
+                  value={order.quantity || ''}
+                  onChange={(e) => updateOrder(order.id, { quantity: parseFloat(e.target.value) || 0 })}
+                  className="text-right"
+                />
+              </TableCell>
+              <TableCell className="text-right">
+                <Input
+                  type="number"
+                  step="any"
+                  min="0"
+                  value={draftPrices[order.id] ?? ''}
+                  onChange={(e) => {
+                    setDraftPrices(prev => ({ ...prev, [order.id]: e.target.value }));
+                    updateOrder(order.id, { price: parseFloat(e.target.value) || 0 });
+                  }}
+                  className="text-right"
+                />
+              </TableCell>
+              <TableCell className={`text-right ${order.action === 'BUY' ? 'text-green-600' : 'text-red-600'}`}>
+                {money(order.quantity * order.price)}
+              </TableCell>
+              <TableCell>
+                <Button variant="ghost" size="icon" onClick={() => removeOrder(order.id)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <div className="flex items-center justify-between">
+        <Button variant="outline" onClick={addOrder} disabled={symbols.length === 0}>
+          <Plus className="h-4 w-4 mr-2" /> Add Order
+        </Button>
+        <div className="flex items-center gap-4">
+          {orders.length > 0 && (
+            <span className="text-sm text-muted-foreground">
+              Net cash {result.netCash >= 0 ? 'spent' : 'raised'}: {money(Math.abs(result.netCash))}
+            </span>
+          )}
+          <Button variant="ghost" onClick={() => { setOrders([]); setDraftPrices({}); }} disabled={orders.length === 0}>
+            Clear
+          </Button>
+          <Button onClick={handleCommit} disabled={validOrders.length === 0 || isCommitting}>
+            <CheckCircle className="h-4 w-4 mr-2" />
+            {isCommitting ? 'Committing...' : 'Commit Orders'}
+          </Button>
+        </div>
+      </div>
+
+      {result.warnings.length > 0 && (
+        <div className="flex items-start gap-2 p-4 border border-red-300 rounded-lg bg-red-50 dark:bg-red-950/30 text-sm">
+          <AlertTriangle className="h-4 w-4 mt-0.5 text-red-600" />
+          <ul className="space-y-1">
+            {result.warnings.map(warning => <li key={warning}>{warning}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {stats.map(stat => (
+          <div key={stat.label} className="p-4 border rounded-lg">
+            <p className="text-xs text-muted-foreground">{stat.label}</p>
+            <p className="text-xl font-semibold">{stat.after}</p>
+            <p className="text-xs text-muted-foreground">was {stat.before}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2">
+          <h3 className="text-lg font-semibold mb-2">Weights and Risk Contribution</h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Symbol</TableHead>
+                <TableHead className="text-right">Quantity</TableHead>
+                <TableHead className="text-right">Weight</TableHead>
+                <TableHead className="text-right">Change</TableHead>
+                <TableHead className="text-right">Risk Contribution</TableHead>
+                <TableHead className="text-right">Change</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {result.rows.map(row => (
+                <TableRow key={row.symbol}>
+                  <TableCell className="font-medium">{row.symbol}</TableCell>
+                  <TableCell className="text-right">{row.after.quantity.toFixed(quantityDecimalsFor(assetClasses[row.symbol] ?? 'stocks'))}</TableCell>
+                  <TableCell className="text-right">{formatPercent(row.after.weight)}</TableCell>
+                  <TableCell className="text-right text-muted-foreground">{formatDelta(row.before.weight, row.after.weight)}</TableCell>
+                  <TableCell className="text-right">{formatPercent(row.after.riskShare)}</TableCell>
+                  <TableCell className={`text-right ${deltaClass(row.before.riskShare, row.after.riskShare)}`}>
+                    {formatDelta(row.before.riskShare, row.after.riskShare)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div>
+          <h3 className="text-lg font-semibold mb-2">Sector Mix</h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Sector</TableHead>
+                <TableHead className="text-right">Weight</TableHead>
+                <TableHead className="text-right">Change</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {result.sectors.map(sector => (
+                <TableRow key={sector.sector}>
+                  <TableCell className="font-medium">{sector.sector}</TableCell>
+                  <TableCell className="text-right">{formatPercent(sector.after)}</TableCell>
+                  <TableCell className="text-right text-muted-foreground">{formatDelta(sector.before, sector.after)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+    </div>
+  );
+};
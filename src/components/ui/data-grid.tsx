@@ -0,0 +1,417 @@
+import { ChevronDown, ChevronUp, Pin, PinOff } from "lucide-react"
+import * as React from "react"
+
+import {
+  clamp,
+  getVirtualWindow,
+  GridCell,
+  GridRange,
+  GridSort,
+  isCellInRange,
+  moveItem,
+  rangeToTsv,
+  reconcileColumnOrder,
+  sortGridRows,
+  toggleSort,
+} from "@/lib/dataGrid"
+import { cn } from "@/lib/utils"
+import { TableBody, TableCell, TableHead, TableHeader, TableRow } from "./table"
+
+export interface DataGridColumn<T> {
+  id: string
+  header: string
+  // Value used to sort and, through `format`, to display and copy the cell
+  accessor: (row: T) => unknown
+  format?: (value: unknown, row: T) => string
+  // Custom cell content; copying still uses `format`
+  cell?: (row: T, value: unknown) => React.ReactNode
+  width?: number
+  minWidth?: number
+  align?: "left" | "right"
+  sortable?: boolean
+  pinned?: boolean
+}
+
+interface DataGridProps<T> {
+  rows: T[]
+  columns: DataGridColumn<T>[]
+  getRowKey?: (row: T, index: number) => string | number
+  initialSort?: GridSort[]
+  // Column order to show; without it the grid keeps the order the user drags it into
+  columnOrder?: string[]
+  onColumnOrderChange?: (order: string[]) => void
+  rowHeight?: number
+  height?: number
+  loading?: boolean
+  emptyMessage?: React.ReactNode
+  className?: string
+}
+
+const DEFAULT_COLUMN_WIDTH = 150
+const DEFAULT_MIN_WIDTH = 60
+
+const defaultFormat = (value: unknown): string =>
+  value === null || value === undefined ? "" : String(value)
+
+// Inputs inside cells keep their own keys and copy
+const isEditable = (target: EventTarget): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.tagName === "SELECT")
+
+/**
+ * Table for large row sets. Only the rows in view are rendered; headers stay on top while
+ * scrolling. Headers sort on click (shift-click adds a sort key), drag to reorder, and can be
+ * resized from their right edge or pinned to the left. Arrow keys, Home/End and Page Up/Down
+ * move the active cell, shift extends the selection, and the selection copies as
+ * tab-separated text.
+ */
+function DataGrid<T>({
+  rows,
+  columns,
+  getRowKey,
+  initialSort = [],
+  columnOrder,
+  onColumnOrderChange,
+  rowHeight = 36,
+  height = 600,
+  loading = false,
+  emptyMessage = "No rows",
+  className,
+}: DataGridProps<T>) {
+  const containerRef = React.useRef<HTMLDivElement>(null)
+  const headerRef = React.useRef<HTMLTableSectionElement>(null)
+  const selectingRef = React.useRef(false)
+
+  const [sorts, setSorts] = React.useState<GridSort[]>(initialSort)
+  const [order, setOrder] = React.useState<string[]>(() => columns.map(c => c.id))
+  const [pinned, setPinned] = React.useState<string[]>(() => columns.filter(c => c.pinned).map(c => c.id))
+  const [widths, setWidths] = React.useState<Record<string, number>>({})
+  const [draggedColumn, setDraggedColumn] = React.useState<string | null>(null)
+  const [scrollTop, setScrollTop] = React.useState(0)
+  const [viewportHeight, setViewportHeight] = React.useState(height)
+  const [active, setActive] = React.useState<GridCell | null>(null)
+  const [selection, setSelection] = React.useState<GridRange | null>(null)
+
+  const columnsById = React.useMemo(() => new Map(columns.map(c => [c.id, c])), [columns])
+
+  // Pinned columns first, each group in the user's order
+  const visibleColumns = React.useMemo(() => {
+    const ordered = reconcileColumnOrder(columnOrder ?? order, columns.map(c => c.id))
+      .map(id => columnsById.get(id))
+      .filter((c): c is DataGridColumn<T> => c !== undefined)
+    return [...ordered.filter(c => pinned.includes(c.id)), ...ordered.filter(c => !pinned.includes(c.id))]
+  }, [columnOrder, order, pinned, columns, columnsById])
+
+  const sortedRows = React.useMemo(
+    () => sortGridRows(rows, sorts, (row, columnId) => columnsById.get(columnId)?.accessor(row)),
+    [rows, sorts, columnsById]
+  )
+
+  const getWidth = (column: DataGridColumn<T>) => widths[column.id] ?? column.width ?? DEFAULT_COLUMN_WIDTH
+  const totalWidth = visibleColumns.reduce((sum, c) => sum + getWidth(c), 0)
+  const pinnedOffsets = visibleColumns.reduce<number[]>((offsets, column, index) => {
+    offsets.push(index === 0 ? 0 : offsets[index - 1] + getWidth(visibleColumns[index - 1]))
+    return offsets
+  }, [])
+
+  const virtual = getVirtualWindow(scrollTop, viewportHeight, rowHeight, sortedRows.length)
+
+  // A new data set starts without a selection
+  React.useEffect(() => {
+    setActive(null)
+    setSelection(null)
+  }, [rows])
+
+  React.useEffect(() => {
+    const container = containerRef.current
+    if (!container || typeof ResizeObserver === "undefined") return
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight || height))
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [height])
+
+  React.useEffect(() => {
+    const stopSelecting = () => {
+      selectingRef.current = false
+    }
+    window.addEventListener("mouseup", stopSelecting)
+    return () => window.removeEventListener("mouseup", stopSelecting)
+  }, [])
+
+  // Keep the active cell in view below the sticky header
+  React.useEffect(() => {
+    const container = containerRef.current
+    if (!container || !active) return
+    const headerHeight = headerRef.current?.offsetHeight ?? 0
+
+    const top = active.row * rowHeight
+    const bottom = headerHeight + (active.row + 1) * rowHeight - container.clientHeight
+    if (container.scrollTop > top) container.scrollTop = top
+    else if (container.scrollTop < bottom) container.scrollTop = bottom
+
+    const column = visibleColumns[active.col]
+    if (column && !pinned.includes(column.id)) {
+      const pinnedWidth = visibleColumns.filter(c => pinned.includes(c.id)).reduce((sum, c) => sum + getWidth(c), 0)
+      const left = pinnedOffsets[active.col]
+      const right = left + getWidth(column)
+      if (container.scrollLeft > left - pinnedWidth) container.scrollLeft = left - pinnedWidth
+      else if (container.scrollLeft < right - container.clientWidth) container.scrollLeft = right - container.clientWidth
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [active])
+
+  const cellText = (rowIndex: number, colIndex: number): string => {
+    const row = sortedRows[rowIndex]
+    const column = visibleColumns[colIndex]
+    if (row === undefined || !column) return ""
+    const value = column.accessor(row)
+    return column.format ? column.format(value, row) : defaultFormat(value)
+  }
+
+  const selectCell = (cell: GridCell, extend: boolean) => {
+    setActive(cell)
+    setSelection(prev => (extend && prev ? { start: prev.start, end: cell } : { start: cell, end: cell }))
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (sortedRows.length === 0 || visibleColumns.length === 0 || isEditable(e.target)) return
+    const lastRow = sortedRows.length - 1
+    const lastCol = visibleColumns.length - 1
+    const pageRows = Math.max(1, Math.floor(viewportHeight / rowHeight) - 1)
+    const current = active ?? { row: 0, col: 0 }
+    const ctrl = e.ctrlKey || e.metaKey
+
+    if (ctrl && e.key.toLowerCase() === "a") {
+      e.preventDefault()
+      setSelection({ start: { row: 0, col: 0 }, end: { row: lastRow, col: lastCol } })
+      return
+    }
+    if (e.key === "Escape") {
+      setSelection(active ? { start: active, end: active } : null)
+      return
+    }
+
+    let next: GridCell | null = null
+    switch (e.key) {
+      case "ArrowUp":
+        next = { row: ctrl ? 0 : current.row - 1, col: current.col }
+        break
+      case "ArrowDown":
+        next = { row: ctrl ? lastRow : current.row + 1, col: current.col }
+        break
+      case "ArrowLeft":
+        next = { row: current.row, col: ctrl ? 0 : current.col - 1 }
+        break
+      case "ArrowRight":
+        next = { row: current.row, col: ctrl ? lastCol : current.col + 1 }
+        break
+      case "Home":
+        next = { row: ctrl ? 0 : current.row, col: 0 }
+        break
+      case "End":
+        next = { row: ctrl ? lastRow : current.row, col: lastCol }
+        break
+      case "PageUp":
+        next = { row: current.row - pageRows, col: current.col }
+        break
+      case "PageDown":
+        next = { row: current.row + pageRows, col: current.col }
+        break
+      default:
+        return
+    }
+
+    e.preventDefault()
+    selectCell({ row: clamp(next.row, 0, lastRow), col: clamp(next.col, 0, lastCol) }, e.shiftKey && active !== null)
+  }
+
+  const handleCopy = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    if (isEditable(e.target)) return
+    const range = selection ?? (active ? { start: active, end: active } : null)
+    if (!range) return
+    e.preventDefault()
+    e.clipboardData.setData("text/plain", rangeToTsv(range, cellText))
+  }
+
+  const startResize = (e: React.MouseEvent, column: DataGridColumn<T>) => {
+    e.preventDefault()
+    e.stopPropagation()
+    const startX = e.clientX
+    const startWidth = getWidth(column)
+    const minWidth = column.minWidth ?? DEFAULT_MIN_WIDTH
+
+    const onMove = (moveEvent: MouseEvent) => {
+      setWidths(prev => ({ ...prev, [column.id]: Math.max(minWidth, startWidth + moveEvent.clientX - startX) }))
+    }
+    const onUp = () => {
+      window.removeEventListener("mousemove", onMove)
+      window.removeEventListener("mouseup", onUp)
+    }
+    window.addEventListener("mousemove", onMove)
+    window.addEventListener("mouseup", onUp)
+  }
+
+  const handleColumnDrop = (targetId: string) => {
+    if (!draggedColumn || draggedColumn === targetId) return
+    const current = reconcileColumnOrder(columnOrder ?? order, columns.map(c => c.id))
+    const next = moveItem(current, current.indexOf(draggedColumn), current.indexOf(targetId))
+    setOrder(next)
+    onColumnOrderChange?.(next)
+    setDraggedColumn(null)
+  }
+
+  const togglePinned = (columnId: string) => {
+    setPinned(prev => (prev.includes(columnId) ? prev.filter(id => id !== columnId) : [...prev, columnId]))
+  }
+
+  const pinnedStyle = (index: number, column: DataGridColumn<T>): React.CSSProperties =>
+    pinned.includes(column.id) ? { position: "sticky", left: pinnedOffsets[index] } : {}
+
+  return (
+    <div
+      ref={containerRef}
+      role="grid"
+      aria-rowcount={sortedRows.length}
+      aria-colcount={visibleColumns.length}
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      onCopy={handleCopy}
+      onScroll={e => setScrollTop(e.currentTarget.scrollTop)}
+      className={cn("relative w-full overflow-auto rounded-md border focus:outline-none focus-visible:ring-2 focus-visible:ring-ring", className)}
+      style={{ maxHeight: height }}
+    >
+      <table className="caption-bottom text-sm" style={{ tableLayout: "fixed", width: Math.max(totalWidth, 1) }}>
+        <colgroup>
+          {visibleColumns.map(column => (
+            <col key={column.id} style={{ width: getWidth(column) }} />
+          ))}
+        </colgroup>
+        <TableHeader ref={headerRef}>
+          <TableRow className="hover:bg-transparent">
+            {visibleColumns.map((column, index) => {
+              const sortIndex = sorts.findIndex(s => s.columnId === column.id)
+              const sort = sortIndex >= 0 ? sorts[sortIndex] : null
+              const isPinned = pinned.includes(column.id)
+              return (
+                <TableHead
+                  key={column.id}
+                  draggable
+                  onDragStart={e => {
+                    setDraggedColumn(column.id)
+                    e.dataTransfer.effectAllowed = "move"
+                  }}
+                  onDragOver={e => {
+                    e.preventDefault()
+                    e.dataTransfer.dropEffect = "move"
+                  }}
+                  onDrop={e => {
+                    e.preventDefault()
+                    handleColumnDrop(column.id)
+                  }}
+                  onDragEnd={() => setDraggedColumn(null)}
+                  aria-sort={sort ? (sort.direction === "asc" ? "ascending" : "descending") : undefined}
+                  className={cn(
+                    "group sticky top-0 bg-background select-none border-b",
+                    isPinned ? "z-20" : "z-10",
+                    draggedColumn === column.id && "opacity-50"
+                  )}
+                  style={{ ...pinnedStyle(index, column), top: 0 }}
+                >
+                  <div className={cn("flex items-center gap-1", column.align === "right" && "justify-end")}>
+                    <button
+                      type="button"
+                      className={cn("flex min-w-0 items-center gap-1", column.sortable !== false && "cursor-pointer hover:text-foreground")}
+                      onClick={e => column.sortable !== false && setSorts(prev => toggleSort(prev, column.id, e.shiftKey))}
+                      title={column.sortable !== false ? "Click to sort, shift-click to add to the sort" : undefined}
+                    >
+                      <span className="truncate">{column.header}</span>
+                      {sort && (sort.direction === "asc" ? <ChevronUp className="h-4 w-4 shrink-0" /> : <ChevronDown className="h-4 w-4 shrink-0" />)}
+                      {sort && sorts.length > 1 && <span className="text-xs">{sortIndex + 1}</span>}
+                    </button>
+                    <button
+                      type="button"
+                      className={cn("shrink-0 opacity-0 group-hover:opacity-100", isPinned && "opacity-100")}
+                      onClick={() => togglePinned(column.id)}
+                      title={isPinned ? "Unpin column" : "Pin column to the left"}
+                    >
+                      {isPinned ? <PinOff className="h-3 w-3" /> : <Pin className="h-3 w-3" />}
+                    </button>
+                  </div>
+                  <div
+                    className="absolute right-0 top-0 h-full w-1 cursor-col-resize hover:bg-primary/40"
+                    onMouseDown={e => startResize(e, column)}
+                    onDragStart={e => e.preventDefault()}
+                  />
+                </TableHead>
+              )
+            })}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {loading || sortedRows.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={Math.max(visibleColumns.length, 1)} className="py-4 text-center text-muted-foreground">
+                {loading ? "Loading..." : emptyMessage}
+              </TableCell>
+            </TableRow>
+          ) : (
+            <>
+              {virtual.paddingTop > 0 && (
+                <tr aria-hidden style={{ height: virtual.paddingTop }} />
+              )}
+              {sortedRows.slice(virtual.start, virtual.end).map((row, offset) => {
+                const rowIndex = virtual.start + offset
+                return (
+                  <TableRow
+                    key={getRowKey ? getRowKey(row, rowIndex) : rowIndex}
+                    aria-rowindex={rowIndex + 1}
+                    style={{ height: rowHeight }}
+                  >
+                    {visibleColumns.map((column, colIndex) => {
+                      const value = column.accessor(row)
+                      const cell = { row: rowIndex, col: colIndex }
+                      const isActive = active?.row === rowIndex && active.col === colIndex
+                      return (
+                        <TableCell
+                          key={column.id}
+                          role="gridcell"
+                          aria-selected={isCellInRange(cell, selection)}
+                          onMouseDown={e => {
+                            selectingRef.current = true
+                            selectCell(cell, e.shiftKey && active !== null)
+                          }}
+                          onMouseEnter={() => {
+                            if (selectingRef.current) {
+                              setActive(cell)
+                              setSelection(prev => (prev ? { start: prev.start, end: cell } : { start: cell, end: cell }))
+                            }
+                          }}
+                          className={cn(
+                            "overflow-hidden text-ellipsis whitespace-nowrap py-0",
+                            column.align === "right" && "text-right",
+                            pinned.includes(column.id) && "z-[1] bg-background",
+                            // Pinned cells stay opaque so scrolled cells do not show through
+                            isCellInRange(cell, selection) && (pinned.includes(column.id) ? "bg-muted" : "bg-primary/10"),
+                            isActive && "outline outline-2 -outline-offset-2 outline-primary"
+                          )}
+                          style={pinnedStyle(colIndex, column)}
+                        >
+                          {column.cell ? column.cell(row, value) : column.format ? column.format(value, row) : defaultFormat(value)}
+                        </TableCell>
+                      )
+                    })}
+                  </TableRow>
+                )
+              })}
+              {virtual.paddingBottom > 0 && (
+                <tr aria-hidden style={{ height: virtual.paddingBottom }} />
+              )}
+            </>
+          )}
+        </TableBody>
+      </table>
+    </div>
+  )
+}
+
+export { DataGrid }
@@ -0,0 +1,246 @@
+import React, { createContext, ReactNode, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { useToast } from '../components/Toast';
+import { useMarketData } from '../hooks/useMarketData';
+import {
+  AlertAssetType,
+  AlertRule,
+  AlertSnapshot,
+  evaluateAlertRules,
+  parseStoredRules,
+  snapshotKey,
+} from '../lib/watchlistAlerts';
+import { useAuth } from './AuthContext';
+
+// Rules are kept per wallet under this key plus the wallet address
+const STORAGE_KEY = 'watchlist-alert-rules';
+
+// Time between evaluations while the app is open
+export const ALERT_POLL_INTERVAL = 60_000;
+
+export type NewAlertRule = Pick<AlertRule, 'watchlistId' | 'symbol' | 'assetType' | 'type' | 'threshold'>;
+
+type NotificationState = NotificationPermission | 'unsupported';
+
+interface WatchlistAlertsContextType {
+  rules: AlertRule[];
+  addRule: (rule: NewAlertRule) => void;
+  updateRule: (id: string, changes: Partial<Pick<AlertRule, 'enabled' | 'threshold'>>) => void;
+  removeRule: (id: string) => void;
+  removeRulesFor: (watchlistId: string, symbol?: string) => void;
+  notificationPermission: NotificationState;
+  requestNotificationPermission: () => Promise<void>;
+  lastCheckedAt: string | null;
+  checkNow: () => Promise<void>;
+}
+
+const WatchlistAlertsContext = createContext<WatchlistAlertsContextType | undefined>(undefined);
+
+const storageKey = (walletAddress: string) => `${STORAGE_KEY}_${walletAddress}`;
+
+const loadRules = (walletAddress: string | null): AlertRule[] => {
+  if (!walletAddress) return [];
+  try {
+    const saved = localStorage.getItem(storageKey(walletAddress));
+    return saved ? parseStoredRules(JSON.parse(saved)) : [];
+  } catch (e) {
+    console.error('Failed to load alert rules from storage:', e);
+    return [];
+  }
+};
+
+const currentNotificationPermission = (): NotificationState =>
+  typeof window !== 'undefined' && 'Notification' in window ? Notification.permission : 'unsupported';
+
+/**
+ * Watchlist Alerts Provider
+ *
+ * Keeps the alert rules of the connected wallet, evaluates them every ALERT_POLL_INTERVAL
+ * while the app is open and reports rules that fire through a toast and, when permitted,
+ * a browser notification. Must be rendered inside AuthProvider and ToastProvider.
+ */
+export const WatchlistAlertsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { walletAddress } = useAuth();
+  const { showToast } = useToast();
+  const marketData = useMarketData();
+
+  // Rules are tagged with the wallet they were loaded for so a wallet switch never saves
+  // one wallet's rules under another's key
+  const [state, setState] = useState<{ wallet: string | null; rules: AlertRule[] }>(() => ({
+    wallet: walletAddress,
+    rules: loadRules(walletAddress),
+  }));
+  const [notificationPermission, setNotificationPermission] = useState<NotificationState>(currentNotificationPermission);
+  const [lastCheckedAt, setLastCheckedAt] = useState<string | null>(null);
+
+  const rules = state.wallet === walletAddress ? state.rules : [];
+  const rulesRef = useRef(rules);
+  rulesRef.current = rules;
+
+  useEffect(() => {
+    if (state.wallet !== walletAddress) {
+      setState({ wallet: walletAddress, rules: loadRules(walletAddress) });
+    }
+  }, [walletAddress, state.wallet]);
+
+  useEffect(() => {
+    if (!state.wallet) return;
+    try {
+      localStorage.setItem(storageKey(state.wallet), JSON.stringify(state.rules));
+    } catch (e) {
+      console.error('Failed to save alert rules to storage:', e);
+    }
+  }, [state]);
+
+  const setRules = useCallback((update: (rules: AlertRule[]) => AlertRule[]) => {
+    setState(prev => ({ ...prev, rules: update(prev.rules) }));
+  }, []);
+
+  const addRule = useCallback((rule: NewAlertRule) => {
+    setRules(prev => [
+      ...prev,
+      {
+        ...rule,
+        id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        symbol: rule.symbol.toUpperCase(),
+        enabled: true,
+        createdAt: new Date().toISOString(),
+        conditionMet: false,
+        lastTriggeredAt: null,
+      },
+    ]);
+  }, [setRules]);
+
+  const updateRule = useCallback((id: string, changes: Partial<Pick<AlertRule, 'enabled' | 'threshold'>>) => {
+    // Re-arm an edited rule so it is judged afresh against the new settings
+    setRules(prev => prev.map(rule => (rule.id === id ? { ...rule, ...changes, conditionMet: false } : rule)));
+  }, [setRules]);
+
+  const removeRule = useCallback((id: string) => {
+    setRules(prev => prev.filter(rule => rule.id !== id));
+  }, [setRules]);
+
+  const removeRulesFor = useCallback((watchlistId: string, symbol?: string) => {
+    setRules(prev => prev.filter(rule => rule.watchlistId !== watchlistId || (symbol !== undefined && rule.symbol !== symbol.toUpperCase())));
+  }, [setRules]);
+
+  const requestNotificationPermission = useCallback(async () => {
+    if (currentNotificationPermission() === 'unsupported') return;
+    setNotificationPermission(await Notification.requestPermission());
+  }, []);
+
+  // Latest values for every symbol with an enabled rule, read past the market data cache
+  const loadSnapshots = useCallback(async (active: AlertRule[]): Promise<Record<string, AlertSnapshot>> => {
+    const snapshots: Record<string, AlertSnapshot> = {};
+
+    const loadAssetType = async (assetType: AlertAssetType) => {
+      const typeRules = active.filter(rule => rule.assetType === assetType);
+      const symbols = Array.from(new Set(typeRules.map(rule => rule.symbol)));
+      if (symbols.length === 0) return;
+
+      const needsRanks = typeRules.some(rule => rule.type !== 'price_above' && rule.type !== 'price_below' && rule.type !== 'daily_move');
+      const isCrypto = assetType === 'crypto';
+
+      try {
+        const [quotes, history, cryptoRanks, stockRanks] = await Promise.all([
+          isCrypto ? marketData.latestCryptoQuotes(symbols, { fresh: true }) : marketData.latestStockQuotes(symbols, { fresh: true }),
+          isCrypto ? marketData.cryptoXDays(symbols, { fresh: true }) : marketData.stockXDays(symbols, { fresh: true }),
+          isCrypto && needsRanks ? marketData.cryptoRanks(symbols, { fresh: true }) : Promise.resolve([]),
+          !isCrypto && needsRanks ? marketData.stockRanks(symbols, { fresh: true }) : Promise.resolve([]),
+        ]);
+
+        symbols.forEach((symbol) => {
+          const price = quotes.find(q => q.symbol === symbol)?.close ?? null;
+          const close1d = history.find(h => ('baseCurrency' in h ? h.baseCurrency : h.symbol) === symbol)?.close_1d ?? null;
+          const cryptoRank = cryptoRanks.find(r => r.baseCurrency === symbol);
+          const stockRank = stockRanks.find(r => r.ticker === symbol);
+
+          snapshots[snapshotKey(assetType, symbol)] = {
+            price,
+            change1d: price !== null && close1d ? ((price - close1d) / close1d) * 100 : null,
+            rank: isCrypto ? cryptoRank?.crypto_ranks ?? null : stockRank?.rankTechnical ?? null,
+            support: stockRank?.td__Support ?? null,
+            resistance: stockRank?.td__Resistance ?? null,
+          };
+        });
+      } catch (err) {
+        console.warn(`Failed to load ${assetType} data for alerts:`, err);
+      }
+    };
+
+    await Promise.all([loadAssetType('crypto'), loadAssetType('stocks')]);
+    return snapshots;
+  }, [marketData]);
+
+  const checkNow = useCallback(async () => {
+    const active = rulesRef.current.filter(rule => rule.enabled);
+    if (active.length === 0) return;
+
+    const snapshots = await loadSnapshots(active);
+    const now = new Date().toISOString();
+    const { rules: evaluated, events } = evaluateAlertRules(rulesRef.current, snapshots, now);
+    setLastCheckedAt(now);
+
+    // Only the evaluation state is merged back, so edits made during the poll are kept
+    const byId = new Map(evaluated.map(rule => [rule.id, rule]));
+    setRules(prev => prev.map((rule) => {
+      const next = byId.get(rule.id);
+      return next && rule.enabled ? { ...rule, conditionMet: next.conditionMet, lastTriggeredAt: next.lastTriggeredAt } : rule;
+    }));
+
+    events.forEach((event) => {
+      showToast({ type: 'warning', message: event.message, description: event.description, duration: 10000 });
+      if (currentNotificationPermission() === 'granted') {
+        try {
+          new Notification(event.message, { body: event.description, tag: event.rule.id });
+        } catch (e) {
+          console.warn('Failed to show browser notification:', e);
+        }
+      }
+    });
+  }, [loadSnapshots, setRules, showToast]);
+
+  // Poll while any rule is enabled; the schedule restarts when the set of watched symbols changes
+  const watchedKey = rules
+    .filter(rule => rule.enabled)
+    .map(rule => snapshotKey(rule.assetType, rule.symbol))
+    .sort()
+    .join(',');
+
+  useEffect(() => {
+    if (!watchedKey) return;
+
+    checkNow();
+    const interval = setInterval(checkNow, ALERT_POLL_INTERVAL);
+    return () => clearInterval(interval);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [watchedKey]);
+
+  return (
+    <WatchlistAlertsContext.Provider
+      value={{
+        rules,
+        addRule,
+        updateRule,
+        removeRule,
+        removeRulesFor,
+        notificationPermission,
+        requestNotificationPermission,
+        lastCheckedAt,
+        checkNow,
+      }}
+    >
+      {children}
+    </WatchlistAlertsContext.Provider>
+  );
+};
+
+/**
+ * Hook to read and edit the alert rules of the connected wallet
+ */
+export const useWatchlistAlerts = () => {
+  const context = useContext(WatchlistAlertsContext);
+  if (!context) {
+    throw new Error('useWatchlistAlerts must be used within WatchlistAlertsProvider');
+  }
+  return context;
+};
@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useAuth } from '../context/AuthContext'
+import { appendHistoryEntry, parseStoredHistory, toHistoryEntry } from '../lib/analysisHistory'
+import { AnalysisAssetType, AnalysisHistoryEntry, AnalysisResult } from '../types/analysis'
+
+// Runs are kept per wallet under this key plus the wallet address
+const STORAGE_KEY = 'analysis-history'
+
+const storageKey = (walletAddress: string) => `${STORAGE_KEY}_${walletAddress}`
+
+const loadHistory = (walletAddress: string | null): AnalysisHistoryEntry[] => {
+  if (!walletAddress) return []
+  try {
+    const saved = localStorage.getItem(storageKey(walletAddress))
+    return saved ? parseStoredHistory(JSON.parse(saved)) : []
+  } catch (e) {
+    console.error('Failed to load analysis history from storage:', e)
+    return []
+  }
+}
+
+/**
+ * Hook to keep every AI analysis run of the connected wallet, stored in this browser
+ *
+ * @returns The stored runs, and functions to record a new result or delete a run
+ *
+ * @example
+ * ```tsx
+ * function Analyze({ ticker }: { ticker: string }) {
+ *   const { addResult } = useAnalysisHistory()
+ *   const run = async () => addResult(await runAnalysis(ticker), 'stocks')
+ *   return <button onClick={run}>Analyze</button>
+ * }
+ * ```
+ */
+export function useAnalysisHistory() {
+  const { walletAddress } = useAuth()
+
+  // Runs are tagged with the wallet they were loaded for so a wallet switch never saves
+  // one wallet's history under another's key
+  const [state, setState] = useState<{ wallet: string | null; entries: AnalysisHistoryEntry[] }>(() => ({
+    wallet: walletAddress,
+    entries: loadHistory(walletAddress),
+  }))
+
+  const entries = state.wallet === walletAddress ? state.entries : []
+
+  useEffect(() => {
+    if (state.wallet !== walletAddress) {
+      setState({ wallet: walletAddress, entries: loadHistory(walletAddress) })
+    }
+  }, [walletAddress, state.wallet])
+
+  useEffect(() => {
+    if (!state.wallet) return
+    try {
+      localStorage.setItem(storageKey(state.wallet), JSON.stringify(state.entries))
+    } catch (e) {
+      console.error('Failed to save analysis history to storage:', e)
+    }
+  }, [state])
+
+  const addResult = useCallback((result: AnalysisResult, assetType: AnalysisAssetType): AnalysisHistoryEntry => {
+    const entry = toHistoryEntry(result, assetType, new Date().toISOString())
+    setState(prev => ({ ...prev, entries: appendHistoryEntry(prev.entries, entry) }))
+    return entry
+  }, [])
+
+  const removeEntry = useCallback((id: string) => {
+    setState(prev => ({ ...prev, entries: prev.entries.filter(e => e.id !== id) }))
+  }, [])
+
+  return { entries, addResult, removeEntry }
+}
@@ -0,0 +1,127 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useAuth } from '../context/AuthContext'
+import {
+  applyColumnPreset,
+  clearLocalColumnConfig,
+  COLUMN_PRESETS,
+  ColumnSetting,
+  ColumnSyncStatus,
+  ColumnTable,
+  DEFAULT_COLUMNS,
+  fetchServerColumnConfig,
+  isNewerColumnConfig,
+  loadLocalColumnConfig,
+  saveLocalColumnConfig,
+  saveServerColumnConfig,
+  StoredColumnConfig,
+  toStoredColumnConfig,
+} from '../lib/columnConfig'
+
+// Changes are uploaded once the user stops toggling and dragging for this long
+const UPLOAD_DELAY = 1_000
+
+/**
+ * Hook to read and change a table's column layout. The layout is cached in this browser and
+ * synced with the copy the connected wallet keeps on the API; whichever changed last wins.
+ *
+ * @param table - The table whose columns are configured
+ * @returns The columns, functions to change them, apply a preset or reset, and the sync status
+ *
+ * @example
+ * ```tsx
+ * function Columns() {
+ *   const { columns, reset } = useColumnConfig('watchlist')
+ *   return <button onClick={reset}>Reset {columns.length} columns</button>
+ * }
+ * ```
+ */
+export function useColumnConfig(table: ColumnTable) {
+  const { walletAddress } = useAuth()
+
+  // The layout is tagged with the wallet it was loaded for so a wallet switch never saves
+  // one wallet's layout under another's key
+  const [state, setState] = useState<{ wallet: string | null; config: StoredColumnConfig }>(() => ({
+    wallet: walletAddress,
+    config: loadLocalColumnConfig(table, walletAddress),
+  }))
+  const [syncStatus, setSyncStatus] = useState<ColumnSyncStatus>('local')
+  const uploadTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  const config = state.wallet === walletAddress ? state.config : loadLocalColumnConfig(table, walletAddress)
+
+  const upload = useCallback(async (wallet: string, next: StoredColumnConfig) => {
+    setSyncStatus('syncing')
+    try {
+      await saveServerColumnConfig(wallet, table, next)
+      setSyncStatus('synced')
+    } catch (e) {
+      console.warn('Failed to upload column config:', e)
+      setSyncStatus('offline')
+    }
+  }, [table])
+
+  // Load the wallet's layout and reconcile it with the copy on the API
+  useEffect(() => {
+    const local = loadLocalColumnConfig(table, walletAddress)
+    setState({ wallet: walletAddress, config: local })
+    if (!walletAddress) {
+      setSyncStatus('local')
+      return
+    }
+
+    let cancelled = false
+    setSyncStatus('syncing')
+    fetchServerColumnConfig(walletAddress, table)
+      .then((remote) => {
+        if (cancelled) return
+        if (remote && !isNewerColumnConfig(local, remote)) {
+          saveLocalColumnConfig(table, walletAddress, remote)
+          setState({ wallet: walletAddress, config: remote })
+          setSyncStatus('synced')
+        } else {
+          // First sync from this wallet, or this browser changed the layout last
+          upload(walletAddress, local.updatedAt ? local : toStoredColumnConfig(local.columns))
+        }
+      })
+      .catch((e) => {
+        if (cancelled) return
+        console.warn('Failed to load column config from the API:', e)
+        setSyncStatus('offline')
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [table, walletAddress, upload])
+
+  useEffect(() => () => {
+    if (uploadTimer.current) clearTimeout(uploadTimer.current)
+  }, [])
+
+  const setColumns = useCallback((columns: ColumnSetting[]) => {
+    const next = toStoredColumnConfig(columns)
+    saveLocalColumnConfig(table, walletAddress, next)
+    setState({ wallet: walletAddress, config: next })
+
+    if (!walletAddress) return
+    if (uploadTimer.current) clearTimeout(uploadTimer.current)
+    setSyncStatus('syncing')
+    uploadTimer.current = setTimeout(() => {
+      uploadTimer.current = null
+      upload(walletAddress, next)
+    }, UPLOAD_DELAY)
+  }, [table, walletAddress, upload])
+
+  const applyPreset = useCallback((presetId: string) => {
+    const preset = COLUMN_PRESETS.find(p => p.id === presetId)
+    if (preset) setColumns(applyColumnPreset(config.columns, preset))
+  }, [config.columns, setColumns])
+
+  // Back to the default layout on every device, replacing the old clear-config page
+  const reset = useCallback(() => {
+    clearLocalColumnConfig(table, walletAddress)
+    setColumns(DEFAULT_COLUMNS[table])
+  }, [table, walletAddress, setColumns])
+
+  return { columns: config.columns, setColumns, applyPreset, reset, syncStatus }
+}
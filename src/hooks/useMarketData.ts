@@ -0,0 +1,63 @@
+import { useQueryClient } from '@tanstack/react-query'
+import { useMemo } from 'react'
+import {
+  fetchCryptoRankHistories,
+  fetchCryptoRankHistory,
+  fetchCryptoRanks,
+  fetchCryptoRanksUniverse,
+  fetchCryptoRanksUniverseWithPrevious,
+  fetchCryptoThresholds,
+  fetchCryptoXDays,
+  fetchLatestCryptoQuotes,
+  fetchLatestStockQuotes,
+  fetchStockRankHistories,
+  fetchStockRankHistory,
+  fetchStockRanks,
+  fetchStockRanksUniverse,
+  fetchStockRanksUniverseWithPrevious,
+  fetchStockThresholds,
+  fetchStockXDays,
+  MarketDataOptions,
+  RanksOptions,
+} from '../lib/marketData'
+import { CryptoRankData, CryptoRankHistoryPoint, RankHistoryPoint, RanksData } from '../types/marketData'
+
+/**
+ * Hook returning the market data loaders bound to the app's query client, so rows loaded
+ * by one view are served from the shared cache in the others
+ *
+ * @returns Loaders that take a list of symbols and resolve to validated rows, plus loaders
+ * for the whole ranks universe and for per-ticker rank histories
+ *
+ * @example
+ * ```tsx
+ * function Prices({ symbols }: { symbols: string[] }) {
+ *   const marketData = useMarketData()
+ *   useEffect(() => {
+ *     marketData.latestCryptoQuotes(symbols).then(setQuotes)
+ *   }, [marketData, symbols])
+ * }
+ * ```
+ */
+export function useMarketData() {
+  const queryClient = useQueryClient()
+
+  return useMemo(() => ({
+    cryptoXDays: (symbols: string[], options?: MarketDataOptions) => fetchCryptoXDays(queryClient, symbols, options),
+    stockXDays: (symbols: string[], options?: MarketDataOptions) => fetchStockXDays(queryClient, symbols, options),
+    latestCryptoQuotes: (symbols: string[], options?: MarketDataOptions) => fetchLatestCryptoQuotes(queryClient, symbols, options),
+    latestStockQuotes: (symbols: string[], options?: MarketDataOptions) => fetchLatestStockQuotes(queryClient, symbols, options),
+    cryptoRanks: (symbols: string[], options?: RanksOptions<CryptoRankData>) => fetchCryptoRanks(queryClient, symbols, options),
+    stockRanks: (symbols: string[], options?: RanksOptions<RanksData>) => fetchStockRanks(queryClient, symbols, options),
+    cryptoThresholds: (symbols: string[], options?: MarketDataOptions) => fetchCryptoThresholds(queryClient, symbols, options),
+    stockThresholds: (symbols: string[], options?: MarketDataOptions) => fetchStockThresholds(queryClient, symbols, options),
+    cryptoRanksUniverse: (options?: MarketDataOptions) => fetchCryptoRanksUniverse(queryClient, options),
+    stockRanksUniverse: (options?: MarketDataOptions) => fetchStockRanksUniverse(queryClient, options),
+    cryptoRanksUniverseWithPrevious: (options?: MarketDataOptions) => fetchCryptoRanksUniverseWithPrevious(queryClient, options),
+    stockRanksUniverseWithPrevious: (options?: MarketDataOptions) => fetchStockRanksUniverseWithPrevious(queryClient, options),
+    stockRankHistory: (ticker: string, options?: MarketDataOptions) => fetchStockRankHistory(queryClient, ticker, options),
+    cryptoRankHistory: (baseCurrency: string, options?: MarketDataOptions) => fetchCryptoRankHistory(queryClient, baseCurrency, options),
+    stockRankHistories: (tickers: string[], options?: RanksOptions<RankHistoryPoint>) => fetchStockRankHistories(queryClient, tickers, options),
+    cryptoRankHistories: (baseCurrencies: string[], options?: RanksOptions<CryptoRankHistoryPoint>) => fetchCryptoRankHistories(queryClient, baseCurrencies, options),
+  }), [queryClient])
+}
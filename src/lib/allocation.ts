@@ -0,0 +1,88 @@
+// Target-weight allocation, drift and rebalance trade generation
+
+export interface AllocationRow {
+  symbol: string;
+  quantity: number;
+  price: number | null;
+  value: number;
+  currentWeight: number; // percent of portfolio value
+  targetWeight: number; // percent
+  drift: number; // current minus target, in percentage points
+  outOfBand: boolean;
+  tradeAction: 'BUY' | 'SELL' | null;
+  tradeQuantity: number;
+  tradeValue: number;
+}
+
+export interface AllocationSummary {
+  rows: AllocationRow[];
+  totalValue: number;
+  targetTotal: number;
+  maxAbsDrift: number;
+}
+
+/**
+ * Compares current weights with target weights and generates the trades that bring every
+ * holding outside the tolerance band back to its target. Symbols without a target are
+ * treated as a 0% target. Quantities are rounded toward zero to the symbol's
+ * `quantityDecimals` places (whole units when it has no entry).
+ * @param symbols - Symbols in the portfolio
+ * @param quantities - Held quantity per symbol
+ * @param prices - Latest price per symbol
+ * @param targets - Target weight per symbol, in percent
+ * @param tolerance - Allowed drift in percentage points before a trade is generated
+ * @param quantityDecimals - Decimal places for trade quantities, per symbol
+ */
+export const computeAllocation = (
+  symbols: string[],
+  quantities: Record<string, number>,
+  prices: Record<string, number>,
+  targets: Record<string, number>,
+  tolerance: number,
+  quantityDecimals: Record<string, number> = {}
+): AllocationSummary => {
+  const values = symbols.map((symbol) => {
+    const price = prices[symbol] > 0 ? prices[symbol] : null;
+    return { symbol, quantity: quantities[symbol] || 0, price, value: price ? (quantities[symbol] || 0) * price : 0 };
+  });
+  const totalValue = values.reduce((sum, v) => sum + v.value, 0);
+  const targetTotal = symbols.reduce((sum, symbol) => sum + (targets[symbol] || 0), 0);
+
+  const rows: AllocationRow[] = values.map(({ symbol, quantity, price, value }) => {
+    const currentWeight = totalValue > 0 ? (value / totalValue) * 100 : 0;
+    const targetWeight = targets[symbol] || 0;
+    const drift = currentWeight - targetWeight;
+    const outOfBand = totalValue > 0 && Math.abs(drift) > tolerance;
+
+    let tradeAction: AllocationRow['tradeAction'] = null;
+    let tradeQuantity = 0;
+    if (outOfBand && price) {
+      const factor = Math.pow(10, quantityDecimals[symbol] || 0);
+      const deltaValue = (targetWeight / 100) * totalValue - value;
+      tradeQuantity = Math.trunc((Math.abs(deltaValue) / price) * factor) / factor;
+      if (deltaValue < 0) tradeQuantity = Math.min(tradeQuantity, quantity);
+      if (tradeQuantity > 0) tradeAction = deltaValue > 0 ? 'BUY' : 'SELL';
+    }
+
+    return {
+      symbol,
+      quantity,
+      price,
+      value,
+      currentWeight,
+      targetWeight,
+      drift,
+      outOfBand,
+      tradeAction,
+      tradeQuantity: tradeAction ? tradeQuantity : 0,
+      tradeValue: tradeAction && price ? tradeQuantity * price : 0,
+    };
+  });
+
+  return {
+    rows,
+    totalValue,
+    targetTotal,
+    maxAbsDrift: rows.reduce((max, r) => Math.max(max, Math.abs(r.drift)), 0),
+  };
+};
@@ -0,0 +1,136 @@
+// History of AI analysis runs: storage validation, per-ticker series and reason diffs
+
+import { AnalysisAssetType, AnalysisHistoryEntry, AnalysisResult } from '../types/analysis';
+
+// Runs kept per ticker; the oldest are dropped first so storage stays bounded
+export const MAX_RUNS_PER_TICKER = 50;
+
+export interface AnalysisScorePoint {
+  timestamp: string;
+  decisionScore: number | null;
+  sentimentScore: number | null;
+}
+
+export interface ReasonDiff {
+  added: string[]; // only in the newer run
+  removed: string[]; // only in the older run
+  kept: string[]; // in both, as worded in the newer run
+}
+
+export interface AnalysisDiff {
+  positive: ReasonDiff;
+  negative: ReasonDiff;
+  decisionChange: number | null;
+  sentimentChange: number | null;
+}
+
+const getTime = (timestamp: string): number => {
+  const parsed = Date.parse(timestamp);
+  return Number.isNaN(parsed) ? 0 : parsed;
+};
+
+/**
+ * Numeric decision score of a result; the endpoint returns it as a string
+ * @returns null when the score is missing or not a number
+ */
+export const parseDecisionScore = (score: string | number | null | undefined): number | null => {
+  if (score === null || score === undefined || score === '') return null;
+  const num = typeof score === 'number' ? score : parseFloat(score);
+  return Number.isFinite(num) ? num : null;
+};
+
+/**
+ * Wraps a result for storage
+ * @param storedAt - Used as the timestamp when the result has no valid one
+ */
+export const toHistoryEntry = (result: AnalysisResult, assetType: AnalysisAssetType, storedAt: string): AnalysisHistoryEntry => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  ticker: result.ticker.toUpperCase(),
+  assetType,
+  timestamp: result.timestamp && !Number.isNaN(Date.parse(result.timestamp)) ? result.timestamp : storedAt,
+  result,
+});
+
+/**
+ * Adds a run to the history, keeping at most MAX_RUNS_PER_TICKER runs of its ticker
+ */
+export const appendHistoryEntry = (history: AnalysisHistoryEntry[], entry: AnalysisHistoryEntry): AnalysisHistoryEntry[] => {
+  const sameTicker = history
+    .filter(e => e.ticker === entry.ticker && e.assetType === entry.assetType)
+    .sort((a, b) => getTime(a.timestamp) - getTime(b.timestamp));
+  const dropped = new Set(sameTicker.slice(0, Math.max(0, sameTicker.length + 1 - MAX_RUNS_PER_TICKER)).map(e => e.id));
+  return [...history.filter(e => !dropped.has(e.id)), entry];
+};
+
+/**
+ * Runs of one ticker, oldest first
+ */
+export const historyForTicker = (
+  history: AnalysisHistoryEntry[],
+  assetType: AnalysisAssetType,
+  ticker: string
+): AnalysisHistoryEntry[] =>
+  history
+    .filter(e => e.assetType === assetType && e.ticker === ticker.toUpperCase())
+    .sort((a, b) => getTime(a.timestamp) - getTime(b.timestamp));
+
+/**
+ * Decision and sentiment scores of runs over time
+ * @param entries - Runs of one ticker, oldest first
+ */
+export const toScoreSeries = (entries: AnalysisHistoryEntry[]): AnalysisScorePoint[] =>
+  entries.map(e => ({
+    timestamp: e.timestamp,
+    decisionScore: parseDecisionScore(e.result.decision_score),
+    sentimentScore: e.result.sentiment_score ?? null,
+  }));
+
+// Reasons are matched ignoring case, surrounding whitespace and trailing punctuation
+const normalizeReason = (reason: string): string => reason.trim().replace(/\s+/g, ' ').replace(/[.;,]+$/, '').toLowerCase();
+
+const diffReasons = (older: string[], newer: string[]): ReasonDiff => {
+  const olderReasons = older.filter(r => r.trim());
+  const newerReasons = newer.filter(r => r.trim());
+  const olderKeys = new Set(olderReasons.map(normalizeReason));
+  const newerKeys = new Set(newerReasons.map(normalizeReason));
+
+  return {
+    added: newerReasons.filter(r => !olderKeys.has(normalizeReason(r))),
+    removed: olderReasons.filter(r => !newerKeys.has(normalizeReason(r))),
+    kept: newerReasons.filter(r => olderKeys.has(normalizeReason(r))),
+  };
+};
+
+/**
+ * Compares two runs: which bullish and bearish reasons appeared or went away, and how the
+ * scores moved from the older run to the newer one
+ */
+export const diffAnalyses = (older: AnalysisResult, newer: AnalysisResult): AnalysisDiff => {
+  const olderDecision = parseDecisionScore(older.decision_score);
+  const newerDecision = parseDecisionScore(newer.decision_score);
+
+  return {
+    positive: diffReasons(older.positive_reasons || [], newer.positive_reasons || []),
+    negative: diffReasons(older.negative_reasons || [], newer.negative_reasons || []),
+    decisionChange: olderDecision !== null && newerDecision !== null ? newerDecision - olderDecision : null,
+    sentimentChange: older.sentiment_score !== null && newer.sentiment_score !== null ? newer.sentiment_score - older.sentiment_score : null,
+  };
+};
+
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Validates runs read back from storage, dropping malformed entries
+ */
+export const parseStoredHistory = (value: unknown): AnalysisHistoryEntry[] => {
+  if (!Array.isArray(value)) return [];
+  return value.filter((entry): entry is AnalysisHistoryEntry =>
+    typeof entry?.id === 'string' &&
+    typeof entry.ticker === 'string' &&
+    (entry.assetType === 'crypto' || entry.assetType === 'stocks') &&
+    typeof entry.timestamp === 'string' &&
+    typeof entry.result?.ticker === 'string' &&
+    isStringList(entry.result.positive_reasons) &&
+    isStringList(entry.result.negative_reasons)
+  );
+};
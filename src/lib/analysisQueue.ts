@@ -0,0 +1,176 @@
+// AI analysis requests, run one at a time or as a queue with limited concurrency, retries and cancel
+
+import { AnalysisAssetType, AnalysisResult } from '../types/analysis';
+
+// API configuration
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '/api';
+const API_KEY = import.meta.env.VITE_API_KEY;
+
+// Runs in flight at once; each one can take the server up to two minutes
+export const ANALYSIS_CONCURRENCY = 2;
+
+// Attempts per symbol before it is reported as failed
+export const ANALYSIS_MAX_ATTEMPTS = 3;
+
+// Wait before the first retry, doubled for each further one
+const RETRY_DELAY = 2_000;
+
+// Statuses a retry would not fix
+const NON_RETRYABLE_STATUSES = [400, 401, 403, 404, 422];
+
+export type AnalysisJobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface AnalysisJob {
+  symbol: string;
+  company: string;
+  assetType: AnalysisAssetType;
+  status: AnalysisJobStatus;
+  attempts: number;
+  error: string | null;
+}
+
+export interface AnalysisRequest {
+  symbol: string;
+  company: string;
+  assetType: AnalysisAssetType;
+}
+
+export interface AnalysisQueueOptions {
+  concurrency?: number;
+  signal?: AbortSignal; // aborting cancels the runs in flight and everything still queued
+  onUpdate?: (jobs: AnalysisJob[]) => void; // called with a new array on every status change
+  onResult?: (job: AnalysisJob, result: AnalysisResult) => void;
+}
+
+type AnalysisOutcome = { result: AnalysisResult } | { error: string; retryable: boolean };
+
+const isAbortError = (err: unknown): boolean => err instanceof DOMException && err.name === 'AbortError';
+
+const requestAnalysis = async (request: AnalysisRequest, signal?: AbortSignal): Promise<AnalysisOutcome> => {
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE_URL}/analysis/run`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        ticker: request.symbol,
+        company: request.company,
+        asset_type: request.assetType,
+      }),
+      signal,
+    });
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    return { error: err instanceof Error ? err.message : 'Network error', retryable: true };
+  }
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ detail: 'Unknown error' }));
+    return {
+      error: errorData.detail || `Analysis failed: ${response.status}`,
+      retryable: !NON_RETRYABLE_STATUSES.includes(response.status),
+    };
+  }
+
+  return { result: await response.json() };
+};
+
+/**
+ * Runs the AI analysis of one symbol
+ * @throws Error with the server's detail message if the run fails
+ */
+export const runAnalysisRequest = async (request: AnalysisRequest, signal?: AbortSignal): Promise<AnalysisResult> => {
+  const outcome = await requestAnalysis(request, signal);
+  if ('error' in outcome) {
+    throw new Error(outcome.error);
+  }
+  return outcome.result;
+};
+
+/**
+ * Queued jobs for a list of symbols
+ */
+export const createAnalysisJobs = (requests: AnalysisRequest[]): AnalysisJob[] =>
+  requests.map(request => ({ ...request, status: 'queued', attempts: 0, error: null }));
+
+/**
+ * Jobs of a finished queue with the failed and cancelled ones queued again
+ */
+export const requeueUnfinished = (jobs: AnalysisJob[]): AnalysisJob[] =>
+  jobs.map(job => (job.status === 'failed' || job.status === 'cancelled' ? { ...job, status: 'queued', attempts: 0, error: null } : job));
+
+// Resolves after `ms`, or right away once the signal is aborted
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+
+/**
+ * Runs the queued jobs with at most `concurrency` requests in flight. A failed run is retried
+ * with a growing delay up to ANALYSIS_MAX_ATTEMPTS times unless the server rejected it outright.
+ * Jobs that are not queued are left as they are, so a finished queue can be run again to
+ * retry what failed.
+ * @returns The jobs with their final status
+ */
+export const runAnalysisQueue = async (jobs: AnalysisJob[], options: AnalysisQueueOptions = {}): Promise<AnalysisJob[]> => {
+  const { concurrency = ANALYSIS_CONCURRENCY, signal, onUpdate, onResult } = options;
+  let current = jobs;
+
+  const update = (index: number, changes: Partial<AnalysisJob>) => {
+    current = current.map((job, i) => (i === index ? { ...job, ...changes } : job));
+    onUpdate?.(current);
+  };
+
+  const pending = jobs.map((job, index) => (job.status === 'queued' ? index : -1)).filter(index => index >= 0);
+  let next = 0;
+
+  const runJob = async (index: number) => {
+    for (let attempt = 1; attempt <= ANALYSIS_MAX_ATTEMPTS; attempt++) {
+      if (signal?.aborted) {
+        update(index, { status: 'cancelled' });
+        return;
+      }
+      update(index, { status: 'running', attempts: attempt });
+
+      let outcome: AnalysisOutcome;
+      try {
+        outcome = await requestAnalysis(current[index], signal);
+      } catch (err) {
+        if (!isAbortError(err)) throw err;
+        update(index, { status: 'cancelled' });
+        return;
+      }
+
+      if ('result' in outcome) {
+        update(index, { status: 'done', error: null });
+        onResult?.(current[index], outcome.result);
+        return;
+      }
+
+      if (!outcome.retryable || attempt === ANALYSIS_MAX_ATTEMPTS) {
+        update(index, { status: 'failed', error: outcome.error });
+        return;
+      }
+
+      console.warn(`Analysis of ${current[index].symbol} failed, retrying:`, outcome.error);
+      update(index, { error: outcome.error });
+      await wait(RETRY_DELAY * 2 ** (attempt - 1), signal);
+    }
+  };
+
+  const worker = async () => {
+    while (next < pending.length) {
+      await runJob(pending[next++]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, pending.length) }, worker));
+  return current;
+};
@@ -0,0 +1,91 @@
+// Asset class resolution and subtotals for single-class and mixed portfolios
+
+import { AssetClass, PortfolioType } from '../types/portfolio';
+
+export const ASSET_CLASSES: AssetClass[] = ['crypto', 'stocks'];
+
+export const ASSET_CLASS_LABELS: Record<AssetClass, string> = {
+  crypto: 'Crypto',
+  stocks: 'Stocks',
+};
+
+export interface HoldingTotals {
+  count: number;
+  value: number;
+  costBasis: number;
+  unrealizedGain: number;
+}
+
+/**
+ * Resolves the asset class of a symbol. Single-class portfolios use their own type;
+ * mixed portfolios look the symbol up and default to stocks when it has no entry.
+ * @param portfolioType - Type of the portfolio holding the symbol
+ * @param assetClasses - Per-symbol asset classes stored on mixed portfolios
+ * @param symbol - Symbol to resolve
+ */
+export const resolveAssetClass = (
+  portfolioType: PortfolioType,
+  assetClasses: Record<string, AssetClass> | undefined,
+  symbol: string
+): AssetClass => {
+  if (portfolioType !== 'mixed') return portfolioType;
+  return assetClasses?.[symbol.toUpperCase()] ?? assetClasses?.[symbol] ?? 'stocks';
+};
+
+/**
+ * Resolves the asset class of every symbol in a portfolio
+ * @returns Asset class keyed by symbol
+ */
+export const resolveAssetClasses = (
+  portfolioType: PortfolioType,
+  symbols: string[],
+  assetClasses?: Record<string, AssetClass>
+): Record<string, AssetClass> => {
+  const resolved: Record<string, AssetClass> = {};
+  symbols.forEach(symbol => {
+    resolved[symbol] = resolveAssetClass(portfolioType, assetClasses, symbol);
+  });
+  return resolved;
+};
+
+/**
+ * Splits symbols into one list per asset class
+ * @param symbols - Symbols to split
+ * @param assetClasses - Resolved asset class per symbol
+ */
+export const groupSymbolsByAssetClass = (
+  symbols: string[],
+  assetClasses: Record<string, AssetClass>
+): Record<AssetClass, string[]> => {
+  const groups: Record<AssetClass, string[]> = { crypto: [], stocks: [] };
+  symbols.forEach(symbol => {
+    groups[assetClasses[symbol] ?? 'stocks'].push(symbol);
+  });
+  return groups;
+};
+
+// Quantities are shown with 4 decimals for crypto and whole units for stocks
+export const quantityDecimalsFor = (assetClass: AssetClass): number => (assetClass === 'crypto' ? 4 : 0);
+
+/**
+ * Sums value, cost basis and unrealized gain per asset class and overall
+ * @param holdings - One entry per symbol
+ */
+export const summarizeHoldings = (
+  holdings: Array<{ assetClass: AssetClass; value: number; costBasis: number }>
+): { total: HoldingTotals; byAssetClass: Record<AssetClass, HoldingTotals> } => {
+  const empty = (): HoldingTotals => ({ count: 0, value: 0, costBasis: 0, unrealizedGain: 0 });
+  const total = empty();
+  const byAssetClass: Record<AssetClass, HoldingTotals> = { crypto: empty(), stocks: empty() };
+
+  holdings.forEach(h => {
+    [total, byAssetClass[h.assetClass]].forEach(t => {
+      t.count += 1;
+      t.value += h.value;
+      t.costBasis += h.costBasis;
+      t.unrealizedGain += h.value - h.costBasis;
+    });
+  });
+
+  return { total, byAssetClass };
+};
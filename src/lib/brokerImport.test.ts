@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectBrokerFormat,
+  findDuplicateImports,
+  ImportedTransaction,
+  parseBrokerCsv,
+  parseBrokerDate,
+  parseBrokerNumber,
+  splitKrakenPair,
+} from './brokerImport';
+import { parseCsv } from './csv';
+
+const SCHWAB = [
+  '"Date","Action","Symbol","Description","Quantity","Price","Fees & Comm","Amount"',
+  '"01/02/2024","Buy","AAPL","APPLE INC","10","$150.00","$1.00","-$1,501.00"',
+  '"01/03/2024 as of 12/29/2023","Sell","AAPL","APPLE INC","4","$160.00","$0.40","$639.60"',
+  '"01/04/2024","Qualified Dividend","AAPL","APPLE INC","","","","$2.40"',
+  '"Transactions Total","","","","","","","-$859.00"',
+].join('\n');
+
+const KRAKEN_TRADES = [
+  'txid,ordertxid,pair,time,type,ordertype,price,cost,fee,vol,margin,misc,ledgers',
+  'T1,O1,XXBTZUSD,2024-01-02 10:00:00,buy,limit,40000,4000,8,0.1,0,,',
+  'T2,O2,XTZUSD,2024-01-03 10:00:00,sell,market,1,100,0.2,100,0,,',
+  'T3,O3,XETHXXBT,2024-01-04 10:00:00,buy,limit,0.05,0.5,0,10,0,,',
+].join('\n');
+
+const KRAKEN_LEDGER = [
+  'txid,refid,time,type,subtype,aclass,asset,amount,fee,balance',
+  'L1,R1,2024-01-05 09:00:00,trade,,currency,ZUSD,-500,1,0',
+  'L2,R1,2024-01-05 09:00:00,trade,,currency,XXBT,0.01,0,0.01',
+  'L3,R2,2024-01-06 09:00:00,deposit,,currency,ZUSD,1000,0,1000',
+].join('\n');
+
+const IBKR_FLEX = [
+  'Symbol,Quantity,TradePrice,IBCommission,CurrencyPrimary,Buy/Sell,TradeDate,TradeID',
+  'SAP,5,120,-1,EUR,BUY,20240102,100',
+  'Symbol,Quantity,TradePrice,IBCommission,CurrencyPrimary,Buy/Sell,TradeDate,TradeID',
+  'SAP,-2,130,-1,EUR,SELL,20240103,101',
+].join('\n');
+
+describe('parseBrokerNumber', () => {
+  it('reads currency signs, thousands separators and accounting negatives', () => {
+    expect(parseBrokerNumber('$1,234.56')).toBe(1234.56);
+    expect(parseBrokerNumber('(12.00)')).toBe(-12);
+    expect(parseBrokerNumber('-0.5')).toBe(-0.5);
+    expect(parseBrokerNumber('')).toBeNull();
+    expect(parseBrokerNumber('n/a')).toBeNull();
+  });
+});
+
+describe('parseBrokerDate', () => {
+  it('normalizes the date formats brokers export', () => {
+    expect(parseBrokerDate('1/2/2024')).toBe('2024-01-02');
+    expect(parseBrokerDate('01/02/2024 as of 12/29/2023')).toBe('2024-01-02');
+    expect(parseBrokerDate('2024-01-02 14:30:00')).toBe('2024-01-02');
+    expect(parseBrokerDate('20240102;093000')).toBe('2024-01-02');
+    expect(parseBrokerDate('yesterday')).toBeNull();
+  });
+});
+
+describe('splitKrakenPair', () => {
+  it('splits legacy, current and slash pairs', () => {
+    expect(splitKrakenPair('XXBTZUSD')).toEqual({ base: 'BTC', quote: 'USD' });
+    expect(splitKrakenPair('XTZUSD')).toEqual({ base: 'XTZ', quote: 'USD' });
+    expect(splitKrakenPair('DOTUSDT')).toEqual({ base: 'DOT', quote: 'USDT' });
+    expect(splitKrakenPair('ETH/EUR')).toEqual({ base: 'ETH', quote: 'EUR' });
+    expect(splitKrakenPair('FOO')).toBeNull();
+  });
+});
+
+describe('detectBrokerFormat', () => {
+  it('recognizes each export by its header row', () => {
+    expect(detectBrokerFormat(parseCsv(SCHWAB))).toBe('schwab');
+    expect(detectBrokerFormat(parseCsv(KRAKEN_TRADES))).toBe('kraken_trades');
+    expect(detectBrokerFormat(parseCsv(KRAKEN_LEDGER))).toBe('kraken_ledger');
+    expect(detectBrokerFormat(parseCsv(IBKR_FLEX))).toBe('ibkr_flex');
+    expect(detectBrokerFormat([['a', 'b']])).toBeNull();
+  });
+});
+
+describe('parseBrokerCsv', () => {
+  it('folds Schwab fees into the price and skips non-trade rows but not the total', () => {
+    const result = parseBrokerCsv(SCHWAB);
+    expect(result.format).toBe('schwab');
+    expect(result.transactions).toEqual([
+      { symbol: 'AAPL', date: '2024-01-02', action: 'BUY', quantity: 10, price: 150.1, currency: 'USD', line: 2 },
+      { symbol: 'AAPL', date: '2024-01-03', action: 'SELL', quantity: 4, price: 159.9, currency: 'USD', line: 3 },
+    ]);
+    expect(result.skipped).toEqual([{ line: 4, reason: 'Unsupported action "Qualified Dividend"' }]);
+  });
+
+  it('maps Kraken trades in fiat and keeps their txid', () => {
+    const result = parseBrokerCsv(KRAKEN_TRADES);
+    expect(result.transactions).toHaveLength(2);
+    expect(result.transactions[0]).toMatchObject({ symbol: 'BTC', action: 'BUY', quantity: 0.1, currency: 'USD', line: 2, sourceId: 'T1' });
+    expect(result.transactions[0].price).toBeCloseTo(40080, 8);
+    expect(result.transactions[1]).toMatchObject({ symbol: 'XTZ', action: 'SELL', quantity: 100, sourceId: 'T2' });
+    expect(result.transactions[1].price).toBeCloseTo(0.998, 10);
+    expect(result.skipped).toEqual([{ line: 4, reason: 'ETH/BTC is not quoted in a fiat currency' }]);
+  });
+
+  it('joins the two legs of a Kraken ledger trade', () => {
+    const result = parseBrokerCsv(KRAKEN_LEDGER);
+    expect(result.transactions).toHaveLength(1);
+    expect(result.transactions[0]).toMatchObject({ symbol: 'BTC', date: '2024-01-05', action: 'BUY', quantity: 0.01, currency: 'USD', line: 2, sourceId: 'R1' });
+    expect(result.transactions[0].price).toBeCloseTo(50100, 8);
+    expect(result.skipped).toEqual([{ line: 4, reason: 'Ledger entry type "deposit" is not a trade' }]);
+  });
+
+  it('reads IBKR sections past their repeated headers', () => {
+    const result = parseBrokerCsv(IBKR_FLEX);
+    expect(result.transactions).toEqual([
+      { symbol: 'SAP', date: '2024-01-02', action: 'BUY', quantity: 5, price: 120.2, currency: 'EUR', line: 2, sourceId: '100' },
+      { symbol: 'SAP', date: '2024-01-03', action: 'SELL', quantity: 2, price: 129.5, currency: 'EUR', line: 4, sourceId: '101' },
+    ]);
+  });
+
+  it('rejects a layout it cannot detect or a format whose header is missing', () => {
+    expect(() => parseBrokerCsv('a,b\n1,2')).toThrow('Unrecognized CSV layout');
+    expect(() => parseBrokerCsv(SCHWAB, 'ibkr_flex')).toThrow('Header row for IBKR Flex Query (Trades) not found');
+  });
+});
+
+describe('findDuplicateImports', () => {
+  const fill = (overrides: Partial<ImportedTransaction>): ImportedTransaction => ({
+    symbol: 'BTC',
+    date: '2024-01-02',
+    action: 'BUY',
+    quantity: 0.1,
+    price: 40000,
+    currency: 'USD',
+    line: 1,
+    ...overrides,
+  });
+
+  it('flags rows already in the ledger', () => {
+    const duplicates = findDuplicateImports(
+      [fill({ symbol: 'MSFT', price: 100.05 })],
+      { MSFT: [{ date: '2024-01-02', action: 'BUY', quantity: 0.1, price: 100 }] }
+    );
+    expect(duplicates.get(0)).toBe('ledger');
+  });
+
+  it('only counts a row of the file as repeated under the same broker id', () => {
+    const duplicates = findDuplicateImports(
+      [fill({ sourceId: 'T1' }), fill({ sourceId: 'T1', line: 2 }), fill({ sourceId: 'T2', line: 3 })],
+      {}
+    );
+    expect(Array.from(duplicates.entries())).toEqual([[1, 'file']]);
+  });
+
+  it('marks identical fills without ids as possible repeats', () => {
+    const duplicates = findDuplicateImports([fill({}), fill({ line: 2 }), fill({ line: 3, quantity: 0.2 })], {});
+    expect(Array.from(duplicates.entries())).toEqual([[1, 'possible']]);
+  });
+});
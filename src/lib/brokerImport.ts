@@ -0,0 +1,413 @@
+// Parsers that map broker CSV exports onto portfolio transactions
+
+import { PortfolioLedger, PortfolioTransactionInput } from '../types/portfolio';
+import { parseCsvRecords } from './csv';
+
+export type BrokerFormat = 'schwab' | 'kraken_trades' | 'kraken_ledger' | 'ibkr_flex';
+
+export const BROKER_FORMAT_LABELS: Record<BrokerFormat, string> = {
+  schwab: 'Schwab Transactions',
+  kraken_trades: 'Kraken Trades',
+  kraken_ledger: 'Kraken Ledger',
+  ibkr_flex: 'IBKR Flex Query (Trades)',
+};
+
+export interface ImportedTransaction extends PortfolioTransactionInput {
+  symbol: string;
+  line: number; // 1-based line in the source file
+  sourceId?: string; // the broker's id of the trade, when the export has one
+}
+
+export interface SkippedRow {
+  line: number;
+  reason: string;
+}
+
+export interface BrokerImportResult {
+  format: BrokerFormat;
+  transactions: ImportedTransaction[];
+  skipped: SkippedRow[];
+}
+
+// Columns that identify each export; all must be present in the header row
+const REQUIRED_HEADERS: Record<BrokerFormat, string[]> = {
+  schwab: ['date', 'action', 'symbol', 'quantity', 'price'],
+  kraken_trades: ['txid', 'pair', 'time', 'type', 'cost', 'fee', 'vol'],
+  kraken_ledger: ['txid', 'refid', 'time', 'type', 'asset', 'amount', 'fee'],
+  ibkr_flex: ['symbol', 'quantity', 'tradeprice'],
+};
+
+// Quote currencies treated as USD
+const USD_QUOTES = ['USD', 'USDT', 'USDC'];
+
+// Other fiat quote currencies; trades in them are imported in that currency
+const FIAT_QUOTES = ['EUR', 'GBP', 'CAD', 'JPY'];
+
+const quoteCurrency = (asset: string): string | null =>
+  USD_QUOTES.includes(asset) ? 'USD' : FIAT_QUOTES.includes(asset) ? asset : null;
+
+// Kraken's legacy asset codes
+const KRAKEN_ASSET_ALIASES: Record<string, string> = {
+  XXBT: 'BTC',
+  XBT: 'BTC',
+  XETH: 'ETH',
+  XXDG: 'DOGE',
+  XDG: 'DOGE',
+  XXRP: 'XRP',
+  XLTC: 'LTC',
+  XXLM: 'XLM',
+  XETC: 'ETC',
+  XZEC: 'ZEC',
+  XXMR: 'XMR',
+  XREP: 'REP',
+  XMLN: 'MLN',
+  ZUSD: 'USD',
+  ZEUR: 'EUR',
+  ZGBP: 'GBP',
+  ZCAD: 'CAD',
+  ZJPY: 'JPY',
+};
+
+// Quote suffixes of current pair names, longest first where one ends another
+const KRAKEN_QUOTE_SUFFIXES = ['USDT', 'USDC', 'USD', 'EUR', 'GBP', 'CAD', 'JPY', 'XBT', 'ETH'];
+
+// Legacy pair names join two 4-letter codes, an X-prefixed base and an X- or Z-prefixed quote
+const KRAKEN_LEGACY_PAIR = /^(X[A-Z]{3})([XZ][A-Z]{3})$/;
+
+const normalizeHeader = (value: string) => value.trim().toLowerCase().replace(/[^a-z0-9/]/g, '');
+
+const findHeaderRow = (rows: string[][], format: BrokerFormat): number =>
+  rows.findIndex(row => {
+    const headers = row.map(normalizeHeader);
+    return REQUIRED_HEADERS[format].every(h => headers.includes(h));
+  });
+
+/**
+ * Guesses the broker format from the header row of a parsed CSV
+ * @returns The detected format, or null if no known header is found
+ */
+export const detectBrokerFormat = (rows: string[][]): BrokerFormat | null => {
+  // Kraken ledgers also carry txid/time/type, so test the more specific layouts first
+  const order: BrokerFormat[] = ['kraken_ledger', 'kraken_trades', 'ibkr_flex', 'schwab'];
+  return order.find(format => findHeaderRow(rows, format) >= 0) || null;
+};
+
+/**
+ * Parses a broker number such as "$1,234.56", "(12.00)" or "-0.5"
+ */
+export const parseBrokerNumber = (value: string | undefined): number | null => {
+  if (value === undefined) return null;
+  let text = value.trim();
+  if (!text) return null;
+  const negative = /^\(.*\)$/.test(text);
+  text = text.replace(/[()$,\s]/g, '');
+  const num = Number(text);
+  if (!Number.isFinite(num)) return null;
+  return negative ? -num : num;
+};
+
+/**
+ * Normalizes the date formats brokers export to YYYY-MM-DD:
+ * "01/02/2024", "01/02/2024 as of 12/29/2023", "2024-01-02 14:30:00", "20240102;093000"
+ */
+export const parseBrokerDate = (value: string | undefined): string | null => {
+  if (!value) return null;
+  const text = value.trim();
+
+  const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (us) return `${us[3]}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}`;
+
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+
+  const compact = text.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (compact) return `${compact[1]}-${compact[2]}-${compact[3]}`;
+
+  return null;
+};
+
+/**
+ * Maps a Kraken asset code to the ticker used in portfolios, e.g. XXBT -> BTC, DOT.S -> DOT
+ */
+export const normalizeKrakenAsset = (asset: string): string => {
+  const code = asset.trim().toUpperCase().replace(/\.[A-Z]$/, '');
+  return KRAKEN_ASSET_ALIASES[code] || code;
+};
+
+/**
+ * Splits a Kraken pair such as XXBTZUSD, DOTUSD or ETH/USD into base and quote tickers.
+ * Z-prefixed quotes are only read from legacy pairs, so XTZUSD is XTZ/USD rather than XT/ZUSD.
+ */
+export const splitKrakenPair = (pair: string): { base: string; quote: string } | null => {
+  const code = pair.trim().toUpperCase();
+  if (code.includes('/')) {
+    const [base, quote] = code.split('/');
+    return base && quote ? { base: normalizeKrakenAsset(base), quote: normalizeKrakenAsset(quote) } : null;
+  }
+
+  const legacy = code.match(KRAKEN_LEGACY_PAIR);
+  if (legacy) {
+    return { base: normalizeKrakenAsset(legacy[1]), quote: normalizeKrakenAsset(legacy[2]) };
+  }
+
+  const suffix = KRAKEN_QUOTE_SUFFIXES.find(s => code.endsWith(s) && code.length > s.length);
+  if (!suffix) return null;
+  return {
+    base: normalizeKrakenAsset(code.slice(0, code.length - suffix.length)),
+    quote: normalizeKrakenAsset(suffix),
+  };
+};
+
+// Fees are folded into the price so cost basis and proceeds are net of commissions
+const netPrice = (action: 'BUY' | 'SELL', quantity: number, grossAmount: number, fee: number) =>
+  (action === 'BUY' ? grossAmount + fee : grossAmount - fee) / quantity;
+
+// Rows of the file and the source line each one starts on; blank lines are dropped from the rows
+interface CsvRows {
+  rows: string[][];
+  lines: number[];
+}
+
+const readRecords = ({ rows, lines }: CsvRows, format: BrokerFormat) => {
+  const headerIndex = findHeaderRow(rows, format);
+  const header = rows[headerIndex].map(normalizeHeader);
+  const records: Array<{ line: number; get: (name: string) => string | undefined }> = [];
+
+  rows.slice(headerIndex + 1).forEach((row, i) => {
+    const normalized = row.map(normalizeHeader);
+    // IBKR Flex repeats the header at the start of each section
+    if (normalized.join() === header.join()) return;
+    records.push({
+      line: lines[headerIndex + 1 + i],
+      get: (name: string) => {
+        const index = header.indexOf(name);
+        return index >= 0 ? row[index] : undefined;
+      },
+    });
+  });
+
+  return records;
+};
+
+const parseSchwab = (csv: CsvRows): Omit<BrokerImportResult, 'format'> => {
+  const transactions: ImportedTransaction[] = [];
+  const skipped: SkippedRow[] = [];
+
+  readRecords(csv, 'schwab').forEach(({ line, get }) => {
+    const rawAction = (get('action') || '').trim();
+    const actionKey = rawAction.toLowerCase();
+    const action = actionKey === 'buy' || actionKey === 'reinvest shares' || actionKey === 'buy to open' || actionKey === 'buy to close'
+      ? 'BUY'
+      : actionKey === 'sell' || actionKey === 'sell to close' || actionKey === 'sell to open'
+        ? 'SELL'
+        : null;
+
+    if (!action) {
+      // Schwab closes the file with a "Transactions Total" row
+      if (!/total/i.test(get('date') || '')) skipped.push({ line, reason: `Unsupported action "${rawAction}"` });
+      return;
+    }
+
+    const date = parseBrokerDate(get('date'));
+    const symbol = (get('symbol') || '').trim().toUpperCase();
+    const quantity = Math.abs(parseBrokerNumber(get('quantity')) ?? 0);
+    const price = parseBrokerNumber(get('price'));
+    const fee = Math.abs(parseBrokerNumber(get('feescomm')) ?? 0);
+
+    if (!date || !symbol || quantity <= 0 || price === null) {
+      skipped.push({ line, reason: 'Missing date, symbol, quantity or price' });
+      return;
+    }
+
+    transactions.push({ symbol, date, action, quantity, price: netPrice(action, quantity, quantity * price, fee), currency: 'USD', line });
+  });
+
+  return { transactions, skipped };
+};
+
+const parseKrakenTrades = (csv: CsvRows): Omit<BrokerImportResult, 'format'> => {
+  const transactions: ImportedTransaction[] = [];
+  const skipped: SkippedRow[] = [];
+
+  readRecords(csv, 'kraken_trades').forEach(({ line, get }) => {
+    const pair = splitKrakenPair(get('pair') || '');
+    const type = (get('type') || '').trim().toLowerCase();
+    const action = type === 'buy' ? 'BUY' : type === 'sell' ? 'SELL' : null;
+    const date = parseBrokerDate(get('time'));
+    const quantity = parseBrokerNumber(get('vol')) ?? 0;
+    const cost = parseBrokerNumber(get('cost'));
+    const fee = parseBrokerNumber(get('fee')) ?? 0;
+
+    if (!pair) {
+      skipped.push({ line, reason: `Unrecognized pair "${get('pair')}"` });
+      return;
+    }
+    const currency = quoteCurrency(pair.quote);
+    if (!currency) {
+      skipped.push({ line, reason: `${pair.base}/${pair.quote} is not quoted in a fiat currency` });
+      return;
+    }
+    if (!action || !date || quantity <= 0 || cost === null) {
+      skipped.push({ line, reason: 'Missing type, time, volume or cost' });
+      return;
+    }
+
+    const sourceId = (get('txid') || '').trim() || undefined;
+    transactions.push({ symbol: pair.base, date, action, quantity, price: netPrice(action, quantity, cost, fee), currency, line, sourceId });
+  });
+
+  return { transactions, skipped };
+};
+
+const parseKrakenLedger = (csv: CsvRows): Omit<BrokerImportResult, 'format'> => {
+  const transactions: ImportedTransaction[] = [];
+  const skipped: SkippedRow[] = [];
+
+  // A trade is booked as two ledger rows (asset and quote) sharing a refid
+  const groups = new Map<string, Array<{ line: number; asset: string; amount: number; fee: number; time: string }>>();
+  readRecords(csv, 'kraken_ledger').forEach(({ line, get }) => {
+    const type = (get('type') || '').trim().toLowerCase();
+    if (!['trade', 'spend', 'receive'].includes(type)) {
+      skipped.push({ line, reason: `Ledger entry type "${type}" is not a trade` });
+      return;
+    }
+    const refid = (get('refid') || '').trim();
+    const group = groups.get(refid) || [];
+    group.push({
+      line,
+      asset: normalizeKrakenAsset(get('asset') || ''),
+      amount: parseBrokerNumber(get('amount')) ?? 0,
+      fee: parseBrokerNumber(get('fee')) ?? 0,
+      time: get('time') || '',
+    });
+    groups.set(refid, group);
+  });
+
+  groups.forEach((entries, refid) => {
+    const quoteLeg = entries.find(e => quoteCurrency(e.asset) !== null);
+    const assetLeg = entries.find(e => quoteCurrency(e.asset) === null);
+    const line = Math.min(...entries.map(e => e.line));
+
+    if (!quoteLeg || !assetLeg || entries.length !== 2) {
+      skipped.push({ line, reason: 'Trade without a single fiat leg' });
+      return;
+    }
+
+    const date = parseBrokerDate(assetLeg.time);
+    const action = assetLeg.amount > 0 ? 'BUY' : 'SELL';
+    // Fees charged in the asset change the quantity; fees charged in fiat change the cash amount
+    const quantity = action === 'BUY' ? assetLeg.amount - assetLeg.fee : Math.abs(assetLeg.amount) + assetLeg.fee;
+    const cash = action === 'BUY' ? Math.abs(quoteLeg.amount) + quoteLeg.fee : quoteLeg.amount - quoteLeg.fee;
+
+    if (!date || quantity <= 0) {
+      skipped.push({ line, reason: 'Missing time or amount' });
+      return;
+    }
+
+    transactions.push({
+      symbol: assetLeg.asset,
+      date,
+      action,
+      quantity,
+      price: cash / quantity,
+      currency: quoteCurrency(quoteLeg.asset) as string,
+      line,
+      sourceId: refid || undefined,
+    });
+  });
+
+  return { transactions: transactions.sort((a, b) => a.line - b.line), skipped: skipped.sort((a, b) => a.line - b.line) };
+};
+
+const parseIbkrFlex = (csv: CsvRows): Omit<BrokerImportResult, 'format'> => {
+  const transactions: ImportedTransaction[] = [];
+  const skipped: SkippedRow[] = [];
+
+  readRecords(csv, 'ibkr_flex').forEach(({ line, get }) => {
+    const symbol = (get('symbol') || '').trim().toUpperCase();
+    const signedQuantity = parseBrokerNumber(get('quantity')) ?? 0;
+    const price = parseBrokerNumber(get('tradeprice'));
+    const currency = (get('currencyprimary') || get('currency') || 'USD').trim().toUpperCase();
+    const commission = Math.abs(parseBrokerNumber(get('ibcommission')) ?? 0);
+    const side = (get('buy/sell') || '').trim().toUpperCase();
+    const date = parseBrokerDate(get('tradedate') || get('date/time') || get('datetime'));
+    const action = side.startsWith('BUY') ? 'BUY' : side.startsWith('SELL') ? 'SELL' : signedQuantity > 0 ? 'BUY' : 'SELL';
+    const quantity = Math.abs(signedQuantity);
+
+    if (!symbol || !date || quantity <= 0 || price === null) {
+      skipped.push({ line, reason: 'Missing symbol, trade date, quantity or price' });
+      return;
+    }
+
+    const sourceId = (get('tradeid') || get('ibexecid') || get('transactionid') || '').trim() || undefined;
+    transactions.push({ symbol, date, action, quantity, price: netPrice(action, quantity, quantity * price, commission), currency, line, sourceId });
+  });
+
+  return { transactions, skipped };
+};
+
+/**
+ * Parses a broker export into portfolio transactions
+ * @param text - CSV file contents
+ * @param format - Export format; detected from the header when omitted
+ * @returns Mapped transactions plus the rows that could not be mapped and why
+ * @throws Error if the format cannot be detected or the header row is missing
+ */
+export const parseBrokerCsv = (text: string, format?: BrokerFormat): BrokerImportResult => {
+  const records = parseCsvRecords(text);
+  const rows = records.map(record => record.fields);
+  const resolvedFormat = format || detectBrokerFormat(rows);
+  if (!resolvedFormat) {
+    throw new Error('Unrecognized CSV layout. Choose the broker format explicitly.');
+  }
+  if (findHeaderRow(rows, resolvedFormat) < 0) {
+    throw new Error(`Header row for ${BROKER_FORMAT_LABELS[resolvedFormat]} not found (expected ${REQUIRED_HEADERS[resolvedFormat].join(', ')})`);
+  }
+
+  const parsers: Record<BrokerFormat, (csv: CsvRows) => Omit<BrokerImportResult, 'format'>> = {
+    schwab: parseSchwab,
+    kraken_trades: parseKrakenTrades,
+    kraken_ledger: parseKrakenLedger,
+    ibkr_flex: parseIbkrFlex,
+  };
+
+  return { format: resolvedFormat, ...parsers[resolvedFormat]({ rows, lines: records.map(record => record.line) }) };
+};
+
+const nearlyEqual = (a: number, b: number, tolerance: number) => Math.abs(a - b) <= tolerance * Math.max(1, Math.abs(a), Math.abs(b));
+
+/**
+ * Whether two transactions look like the same fill. Prices are compared loosely because
+ * imported prices include fees that a hand-typed row may not.
+ */
+export const isDuplicateTransaction = (a: PortfolioTransactionInput, b: PortfolioTransactionInput): boolean =>
+  a.date.slice(0, 10) === b.date.slice(0, 10) &&
+  a.action === b.action &&
+  nearlyEqual(a.quantity, b.quantity, 1e-8) &&
+  nearlyEqual(a.price, b.price, 1e-3);
+
+// Where an imported row was already seen: in the portfolio ledger, earlier in the same file
+// under the same broker id, or earlier in the file as a fill no id tells apart from it
+export type DuplicateSource = 'ledger' | 'file' | 'possible';
+
+/**
+ * Flags imported rows that already exist in the portfolio ledger or repeat an earlier row of
+ * the same file. Identical partial fills on one day are common, so a row of the file only
+ * counts as a repeat when it carries the same broker id; without ids it is a possible repeat.
+ * @returns The source of the duplicate, keyed by the index of the imported transaction
+ */
+export const findDuplicateImports = (imported: ImportedTransaction[], ledger: PortfolioLedger): Map<number, DuplicateSource> => {
+  const duplicates = new Map<number, DuplicateSource>();
+  imported.forEach((tx, index) => {
+    const existing = ledger[tx.symbol] || [];
+    const earlier = imported.slice(0, index).filter(row => row.symbol === tx.symbol && isDuplicateTransaction(row, tx));
+    if (existing.some(row => isDuplicateTransaction(row, tx))) {
+      duplicates.set(index, 'ledger');
+    } else if (tx.sourceId && earlier.some(row => row.sourceId === tx.sourceId)) {
+      duplicates.set(index, 'file');
+    } else if (earlier.some(row => !row.sourceId || !tx.sourceId)) {
+      duplicates.set(index, 'possible');
+    }
+  });
+  return duplicates;
+};
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyColumnPreset,
+  COLUMN_CONFIG_VERSION,
+  ColumnSetting,
+  isNewerColumnConfig,
+  mergeColumnConfig,
+  migrateColumnConfig,
+  normalizeColumns,
+  reorderColumns,
+  toStoredColumnConfig,
+} from './columnConfig';
+
+const defaults: ColumnSetting[] = [
+  { key: 'a', visible: true, order: 0 },
+  { key: 'b', visible: true, order: 1 },
+  { key: 'c', visible: false, order: 2 },
+];
+
+const layout = (columns: ColumnSetting[]) => columns.map(col => [col.key, col.visible, col.order]);
+
+describe('migrateColumnConfig', () => {
+  it('reads a version 0 visibility map in the default order', () => {
+    expect(migrateColumnConfig({ a: false, c: true, gone: true, b: 'yes' }, defaults)).toEqual({
+      version: COLUMN_CONFIG_VERSION,
+      updatedAt: null,
+      columns: [
+        { key: 'a', visible: false, order: 0 },
+        { key: 'b', visible: true, order: 1 },
+        { key: 'c', visible: true, order: 2 },
+      ],
+    });
+  });
+
+  it('reads a version 1 array, dropping unknown, repeated and malformed columns and adding new ones', () => {
+    const migrated = migrateColumnConfig([
+      { key: 'c', visible: true, order: 5 },
+      { key: 'gone', visible: true, order: 0 },
+      { key: 'a', visible: false, order: 7 },
+      { key: 'c', visible: false, order: 8 },
+      { key: 'b', visible: 'no', order: 1 },
+    ], defaults);
+    expect(migrated?.updatedAt).toBeNull();
+    expect(layout(migrated!.columns)).toEqual([
+      ['c', true, 0],
+      ['a', false, 1],
+      ['b', true, 2],
+    ]);
+  });
+
+  it('keeps the update time of a current layout', () => {
+    const stored = toStoredColumnConfig([{ key: 'b', visible: false, order: 0 }], '2024-05-01T00:00:00.000Z');
+    const migrated = migrateColumnConfig(JSON.parse(JSON.stringify(stored)), defaults);
+    expect(migrated?.updatedAt).toBe('2024-05-01T00:00:00.000Z');
+    expect(layout(migrated!.columns)).toEqual([
+      ['b', false, 0],
+      ['a', true, 1],
+      ['c', false, 2],
+    ]);
+  });
+
+  it('rejects values that are not layouts and layouts from a newer version', () => {
+    expect(migrateColumnConfig(null, defaults)).toBeNull();
+    expect(migrateColumnConfig('a,b', defaults)).toBeNull();
+    expect(migrateColumnConfig({ version: COLUMN_CONFIG_VERSION, updatedAt: null, columns: {} }, defaults)).toBeNull();
+    expect(migrateColumnConfig({ version: COLUMN_CONFIG_VERSION + 1, updatedAt: null, columns: [] }, defaults)).toBeNull();
+  });
+});
+
+describe('normalizeColumns', () => {
+  it('renumbers the saved order and appends columns missing from it', () => {
+    expect(layout(normalizeColumns([{ key: 'b', visible: false, order: 10 }, { key: 'a', visible: true, order: 20 }], defaults))).toEqual([
+      ['b', false, 0],
+      ['a', true, 1],
+      ['c', false, 2],
+    ]);
+  });
+});
+
+describe('mergeColumnConfig', () => {
+  it('takes the imported columns first and hides the rest', () => {
+    expect(layout(mergeColumnConfig(defaults, [{ key: 'c', visible: true, order: 1 }, { key: 'x', visible: true, order: 0 }]))).toEqual([
+      ['c', true, 0],
+      ['a', false, 1],
+      ['b', false, 2],
+    ]);
+  });
+
+  it('applies a preset as an import of visible columns', () => {
+    expect(layout(applyColumnPreset(defaults, { id: 'p', name: 'P', description: '', keys: ['b', 'a'] }))).toEqual([
+      ['b', true, 0],
+      ['a', true, 1],
+      ['c', false, 2],
+    ]);
+  });
+});
+
+describe('reorderColumns', () => {
+  it('swaps the dragged columns into the places they held and leaves the others', () => {
+    const columns = [...defaults, { key: 'd', visible: true, order: 3 }];
+    expect(reorderColumns(columns, ['c', 'a', 'gone']).map(col => col.key)).toEqual(['c', 'b', 'a', 'd']);
+  });
+});
+
+describe('isNewerColumnConfig', () => {
+  it('treats layouts without a time as oldest', () => {
+    const dated = toStoredColumnConfig(defaults, '2024-05-01T00:00:00.000Z');
+    const undated = toStoredColumnConfig(defaults, null);
+    expect(isNewerColumnConfig(dated, undated)).toBe(true);
+    expect(isNewerColumnConfig(undated, dated)).toBe(false);
+    expect(isNewerColumnConfig(dated, toStoredColumnConfig(defaults, '2024-06-01T00:00:00.000Z'))).toBe(false);
+  });
+});
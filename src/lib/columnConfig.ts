@@ -0,0 +1,381 @@
+// Portfolio and watchlist table column layouts: defaults, presets, versioned storage with
+// migrations, and the per-wallet copy kept on the API
+
+// API configuration
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '/api';
+const API_KEY = import.meta.env.VITE_API_KEY;
+
+export type ColumnTable = 'portfolio' | 'watchlist';
+
+export interface ColumnSetting {
+  key: string;
+  visible: boolean;
+  order: number;
+}
+
+/**
+ * Layout as stored in the browser and on the API. `updatedAt` decides which copy wins when
+ * they differ; it is null for layouts migrated from before it was recorded.
+ */
+export interface StoredColumnConfig {
+  version: number;
+  updatedAt: string | null;
+  columns: ColumnSetting[];
+}
+
+export interface ColumnPreset {
+  id: string;
+  name: string;
+  description: string;
+  keys: string[]; // shown in this order, every other column is hidden
+}
+
+export type ColumnSyncStatus = 'local' | 'syncing' | 'synced' | 'offline';
+
+// Version 0 was a { [key]: visible } map, version 1 a bare array of settings
+export const COLUMN_CONFIG_VERSION = 2;
+
+// Storage keys; the per-wallet cache appends the wallet address
+export const COLUMN_CONFIG_KEYS: Record<ColumnTable, string> = {
+  portfolio: 'portfolio-column-config',
+  watchlist: 'watchlist-column-config',
+};
+
+export const DEFAULT_PORTFOLIO_COLUMNS: ColumnSetting[] = [
+  // Stock columns
+  { key: 'fundamental', visible: true, order: 0 },
+  { key: 'technical', visible: true, order: 1 },
+  { key: 'ivol', visible: true, order: 2 },
+  { key: 'predicted_beta', visible: true, order: 3 },
+  { key: 'risk_contribution', visible: true, order: 4 },
+  { key: 'industry', visible: false, order: 5 },
+  { key: 'sector', visible: false, order: 6 },
+  { key: 'mcap', visible: false, order: 7 },
+  { key: 'isADR', visible: false, order: 8 },
+  { key: 'isActive', visible: false, order: 9 },
+  { key: 'reportingCurrency', visible: false, order: 10 },
+  { key: 'td_resistance', visible: false, order: 11 },
+  { key: 'td_support', visible: false, order: 12 },
+  { key: 'tec_riskRangeHigh', visible: false, order: 13 },
+  { key: 'tec_riskRangeLow', visible: false, order: 14 },
+  { key: 'tag', visible: false, order: 15 },
+  // Crypto columns
+  { key: 'crypto_ranks', visible: true, order: 16 },
+  { key: 'lppl_side', visible: false, order: 17 },
+  { key: 'lppl_pos_conf', visible: false, order: 18 },
+  { key: 'lppl_neg_conf', visible: false, order: 19 },
+  { key: 'strategy_side', visible: false, order: 20 },
+  { key: 'strategy_profit_per_trade', visible: false, order: 21 },
+  { key: 'strategy_expectancy', visible: false, order: 22 },
+  { key: 'strategy_profit_factor', visible: false, order: 23 },
+  { key: 'quoteCurrency', visible: false, order: 24 },
+  { key: 'open', visible: false, order: 25 },
+  { key: 'high', visible: false, order: 26 },
+  { key: 'low', visible: false, order: 27 },
+  { key: 'close', visible: false, order: 28 },
+  { key: 'volume', visible: false, order: 29 },
+];
+
+export const DEFAULT_WATCHLIST_COLUMNS: ColumnSetting[] = [
+  // Stock columns
+  { key: 'fundamental', visible: true, order: 0 },
+  { key: 'technical', visible: true, order: 1 },
+  { key: 'ivol', visible: true, order: 2 },
+  { key: 'predicted_beta', visible: true, order: 3 },
+  { key: 'risk_contribution', visible: true, order: 4 },
+  { key: 'ai_sentiment', visible: true, order: 5 },
+  { key: 'ai_decision', visible: true, order: 6 },
+  { key: 'ai_age', visible: true, order: 7 },
+  { key: 'industry', visible: false, order: 8 },
+  { key: 'sector', visible: false, order: 9 },
+  { key: 'mcap', visible: false, order: 10 },
+  { key: 'isADR', visible: false, order: 11 },
+  { key: 'isActive', visible: false, order: 12 },
+  { key: 'reportingCurrency', visible: false, order: 13 },
+  { key: 'td_resistance', visible: false, order: 14 },
+  { key: 'td_support', visible: false, order: 15 },
+  { key: 'tec_riskRangeHigh', visible: false, order: 16 },
+  { key: 'tec_riskRangeLow', visible: false, order: 17 },
+  { key: 'tag', visible: false, order: 18 },
+  // Crypto columns
+  { key: 'crypto_ranks', visible: true, order: 19 },
+  { key: 'lppl_side', visible: false, order: 20 },
+  { key: 'lppl_pos_conf', visible: false, order: 21 },
+  { key: 'lppl_neg_conf', visible: false, order: 22 },
+  { key: 'strategy_side', visible: false, order: 23 },
+  { key: 'strategy_profit_per_trade', visible: false, order: 24 },
+  { key: 'strategy_expectancy', visible: false, order: 25 },
+  { key: 'strategy_profit_factor', visible: false, order: 26 },
+  { key: 'quoteCurrency', visible: false, order: 27 },
+  { key: 'open', visible: false, order: 28 },
+  { key: 'high', visible: false, order: 29 },
+  { key: 'low', visible: false, order: 30 },
+  { key: 'close', visible: false, order: 31 },
+  { key: 'volume', visible: false, order: 32 },
+];
+
+export const DEFAULT_COLUMNS: Record<ColumnTable, ColumnSetting[]> = {
+  portfolio: DEFAULT_PORTFOLIO_COLUMNS,
+  watchlist: DEFAULT_WATCHLIST_COLUMNS,
+};
+
+// Presets cover stock and crypto columns since one layout serves both kinds of list; keys a
+// table does not have are skipped
+export const COLUMN_PRESETS: ColumnPreset[] = [
+  {
+    id: 'risk',
+    name: 'Risk',
+    description: 'Volatility, beta, risk contribution and risk ranges',
+    keys: ['ivol', 'predicted_beta', 'risk_contribution', 'tec_riskRangeLow', 'tec_riskRangeHigh', 'mcap', 'crypto_ranks', 'strategy_side', 'volume'],
+  },
+  {
+    id: 'technical',
+    name: 'Technical',
+    description: 'Technical rank, support and resistance, risk ranges and prices',
+    keys: ['technical', 'td_support', 'td_resistance', 'tec_riskRangeLow', 'tec_riskRangeHigh', 'tag', 'crypto_ranks', 'open', 'high', 'low', 'close', 'volume'],
+  },
+  {
+    id: 'crypto-signals',
+    name: 'Crypto signals',
+    description: 'LPPL bubble signals and strategy statistics',
+    keys: ['crypto_ranks', 'lppl_side', 'lppl_pos_conf', 'lppl_neg_conf', 'strategy_side', 'strategy_profit_per_trade', 'strategy_expectancy', 'strategy_profit_factor', 'fundamental', 'technical'],
+  },
+];
+
+/**
+ * Applies an imported column layout to the current one. Columns the import lists take its
+ * visibility and order; the others are hidden and kept after them in their current order.
+ */
+export const mergeColumnConfig = (current: ColumnSetting[], imported: ColumnSetting[]): ColumnSetting[] => {
+  const importedKeys = new Set(imported.map(col => col.key));
+  const listed = imported.filter(col => current.some(c => c.key === col.key)).sort((a, b) => a.order - b.order);
+  const rest = current.filter(col => !importedKeys.has(col.key)).sort((a, b) => a.order - b.order);
+
+  return [
+    ...listed.map((col, order) => ({ key: col.key, visible: col.visible, order })),
+    ...rest.map((col, i) => ({ key: col.key, visible: false, order: listed.length + i })),
+  ];
+};
+
+/**
+ * Shows the preset's columns in its order and hides the rest
+ */
+export const applyColumnPreset = (current: ColumnSetting[], preset: ColumnPreset): ColumnSetting[] =>
+  mergeColumnConfig(current, preset.keys.map((key, order) => ({ key, visible: true, order })));
+
+/**
+ * Moves the columns of `keys` into the places those columns take in the layout, in the order
+ * of `keys`, as after dragging them around in the table; every other column keeps its place
+ */
+export const reorderColumns = (current: ColumnSetting[], keys: string[]): ColumnSetting[] => {
+  const sorted = [...current].sort((a, b) => a.order - b.order);
+  const byKey = new Map(sorted.map(col => [col.key, col]));
+  const queue = keys.filter(key => byKey.has(key));
+  const moved = new Set(queue);
+
+  return sorted
+    .map(col => (moved.has(col.key) ? byKey.get(queue.shift() as string) as ColumnSetting : col))
+    .map((col, order) => ({ key: col.key, visible: col.visible, order }));
+};
+
+/**
+ * Fits saved settings to the table's current columns: unknown keys are dropped, and columns
+ * added since the layout was saved are appended with their default visibility
+ */
+export const normalizeColumns = (saved: ColumnSetting[], defaults: ColumnSetting[]): ColumnSetting[] => {
+  const known = new Set(defaults.map(col => col.key));
+  const seen = new Set<string>();
+  const kept = saved
+    .filter(col => known.has(col.key) && !seen.has(col.key) && seen.add(col.key))
+    .sort((a, b) => a.order - b.order);
+  const added = defaults.filter(col => !seen.has(col.key)).sort((a, b) => a.order - b.order);
+
+  return [...kept, ...added].map((col, order) => ({ key: col.key, visible: col.visible, order }));
+};
+
+// A layout at any version, as read from storage or the API
+interface ColumnConfigDocument {
+  version: number;
+  updatedAt: string | null;
+  columns: unknown;
+}
+
+const isColumnSetting = (value: unknown): value is ColumnSetting => {
+  if (!value || typeof value !== 'object') return false;
+  const record = value as Record<string, unknown>;
+  return typeof record.key === 'string' && typeof record.visible === 'boolean' && typeof record.order === 'number';
+};
+
+// Each step upgrades a document by one version
+const MIGRATIONS: Record<number, (doc: ColumnConfigDocument, defaults: ColumnSetting[]) => ColumnConfigDocument> = {
+  // { [key]: visible }: order follows the defaults
+  0: (doc, defaults) => {
+    const visibility = (doc.columns && typeof doc.columns === 'object' ? doc.columns : {}) as Record<string, unknown>;
+    return {
+      version: 1,
+      updatedAt: null,
+      columns: defaults.map(col => ({
+        ...col,
+        visible: typeof visibility[col.key] === 'boolean' ? visibility[col.key] as boolean : col.visible,
+      })),
+    };
+  },
+  // Bare array: wrapped with a version and an unknown update time
+  1: (doc) => ({ version: 2, updatedAt: null, columns: doc.columns }),
+};
+
+const toDocument = (value: unknown): ColumnConfigDocument | null => {
+  if (Array.isArray(value)) return { version: 1, updatedAt: null, columns: value };
+  if (!value || typeof value !== 'object') return null;
+
+  const record = value as Record<string, unknown>;
+  if (typeof record.version === 'number') {
+    return {
+      version: record.version,
+      updatedAt: typeof record.updatedAt === 'string' ? record.updatedAt : null,
+      columns: record.columns,
+    };
+  }
+  return { version: 0, updatedAt: null, columns: record };
+};
+
+/**
+ * Reads a stored layout of any version and upgrades it to the current schema
+ * @param value - Parsed JSON from storage or the API
+ * @param defaults - Columns of the table the layout belongs to
+ * @returns null when the value is not a layout or was written by a newer version of the app
+ */
+export const migrateColumnConfig = (value: unknown, defaults: ColumnSetting[]): StoredColumnConfig | null => {
+  const stored = toDocument(value);
+  if (!stored || stored.version > COLUMN_CONFIG_VERSION) return null;
+
+  let doc: ColumnConfigDocument = stored;
+  while (doc.version < COLUMN_CONFIG_VERSION) {
+    const migrate = MIGRATIONS[doc.version];
+    if (!migrate) return null;
+    doc = migrate(doc, defaults);
+  }
+
+  if (!Array.isArray(doc.columns)) return null;
+  return {
+    version: COLUMN_CONFIG_VERSION,
+    updatedAt: doc.updatedAt,
+    columns: normalizeColumns(doc.columns.filter(isColumnSetting), defaults),
+  };
+};
+
+/**
+ * Current-version layout of the given columns, stamped with the time of the change
+ */
+export const toStoredColumnConfig = (columns: ColumnSetting[], updatedAt: string | null = new Date().toISOString()): StoredColumnConfig => ({
+  version: COLUMN_CONFIG_VERSION,
+  updatedAt,
+  columns,
+});
+
+const getTime = (updatedAt: string | null): number => {
+  const parsed = updatedAt ? Date.parse(updatedAt) : NaN;
+  return Number.isNaN(parsed) ? 0 : parsed;
+};
+
+/**
+ * Whether `candidate` was changed after `current`; layouts without a time count as oldest
+ */
+export const isNewerColumnConfig = (candidate: StoredColumnConfig, current: StoredColumnConfig): boolean =>
+  getTime(candidate.updatedAt) > getTime(current.updatedAt);
+
+const localKey = (table: ColumnTable, walletAddress: string | null) =>
+  walletAddress ? `${COLUMN_CONFIG_KEYS[table]}_${walletAddress}` : COLUMN_CONFIG_KEYS[table];
+
+const readLocal = (key: string, defaults: ColumnSetting[]): StoredColumnConfig | null => {
+  const saved = localStorage.getItem(key);
+  if (!saved) return null;
+  try {
+    return migrateColumnConfig(JSON.parse(saved), defaults);
+  } catch (e) {
+    console.error('Error loading column config:', e);
+    return null;
+  }
+};
+
+/**
+ * Layout cached in this browser for a wallet. A wallet without a cached layout picks up the
+ * one saved before layouts were kept per wallet, then the defaults.
+ */
+export const loadLocalColumnConfig = (table: ColumnTable, walletAddress: string | null): StoredColumnConfig => {
+  const defaults = DEFAULT_COLUMNS[table];
+  return readLocal(localKey(table, walletAddress), defaults)
+    ?? (walletAddress ? readLocal(COLUMN_CONFIG_KEYS[table], defaults) : null)
+    ?? toStoredColumnConfig(defaults, null);
+};
+
+export const saveLocalColumnConfig = (table: ColumnTable, walletAddress: string | null, config: StoredColumnConfig) => {
+  try {
+    localStorage.setItem(localKey(table, walletAddress), JSON.stringify(config));
+  } catch (e) {
+    console.error('Error saving column config:', e);
+  }
+};
+
+/**
+ * Removes every copy of a table's layout from this browser, including the one saved before
+ * layouts were kept per wallet
+ */
+export const clearLocalColumnConfig = (table: ColumnTable, walletAddress: string | null) => {
+  localStorage.removeItem(localKey(table, walletAddress));
+  localStorage.removeItem(COLUMN_CONFIG_KEYS[table]);
+};
+
+/**
+ * Merges an imported watchlist layout into the wallet's cached one and caches the result; the
+ * watchlist view uploads it the next time it loads the layout
+ * @returns The columns now cached
+ */
+export const storeImportedColumnConfig = (walletAddress: string | null, imported: ColumnSetting[]): ColumnSetting[] => {
+  const current = loadLocalColumnConfig('watchlist', walletAddress);
+  const merged = mergeColumnConfig(current.columns, imported);
+  saveLocalColumnConfig('watchlist', walletAddress, toStoredColumnConfig(merged));
+  return merged;
+};
+
+/**
+ * Loads the layout a wallet saved on the API
+ * @returns null when the wallet has not saved one
+ * @throws Error if the request fails
+ */
+export const fetchServerColumnConfig = async (username: string, table: ColumnTable): Promise<StoredColumnConfig | null> => {
+  const response = await fetch(`${API_BASE_URL}/column_configs/${table}?username=${encodeURIComponent(username)}`, {
+    method: 'GET',
+    headers: {
+      'Authorization': `Bearer ${API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Failed to load column config: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return migrateColumnConfig(data?.config ?? null, DEFAULT_COLUMNS[table]);
+};
+
+/**
+ * Saves a wallet's layout on the API, replacing the previous one
+ * @throws Error if the request fails
+ */
+export const saveServerColumnConfig = async (username: string, table: ColumnTable, config: StoredColumnConfig): Promise<void> => {
+  const response = await fetch(`${API_BASE_URL}/column_configs/${table}?username=${encodeURIComponent(username)}`, {
+    method: 'PUT',
+    headers: {
+      'Authorization': `Bearer ${API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ config }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to save column config: ${response.status}`);
+  }
+};
@@ -0,0 +1,112 @@
+// Side-by-side comparison of stocks and coins: the symbol list, prices rebased to a common
+// start and rank trajectories on one shared date axis
+
+import { CryptoRankHistoryPoint, RankHistoryPoint } from '../types/marketData';
+
+export const MAX_COMPARISON_SYMBOLS = 8;
+
+export type ComparisonAssetType = 'stock' | 'crypto';
+
+export interface ComparisonAsset {
+  symbol: string; // upper case
+  assetType: ComparisonAssetType;
+}
+
+export interface ComparisonPoint {
+  date: string;
+  close: number | null;
+  rank: number | null;
+}
+
+export interface ComparisonSeries extends ComparisonAsset {
+  points: ComparisonPoint[]; // oldest first
+}
+
+export interface AlignedComparison {
+  dates: string[];
+  startDate: string | null; // first day every symbol has a close; prices are rebased to 100 there
+  performance: Record<string, (number | null)[]>; // keyed by comparisonKey
+  ranks: Record<string, (number | null)[]>;
+}
+
+/**
+ * Key of an asset; a ticker and a coin may share a symbol
+ */
+export const comparisonKey = (asset: ComparisonAsset): string => `${asset.assetType}:${asset.symbol}`;
+
+/**
+ * Assets with one more symbol appended
+ * @throws Error if the symbol is empty, already listed or the list is full
+ */
+export const addComparisonAsset = (assets: ComparisonAsset[], symbol: string, assetType: ComparisonAssetType): ComparisonAsset[] => {
+  const asset = { symbol: symbol.trim().toUpperCase(), assetType };
+  if (!asset.symbol) {
+    throw new Error('Enter a symbol');
+  }
+  if (assets.some(a => comparisonKey(a) === comparisonKey(asset))) {
+    throw new Error(`${asset.symbol} is already being compared`);
+  }
+  if (assets.length >= MAX_COMPARISON_SYMBOLS) {
+    throw new Error(`Up to ${MAX_COMPARISON_SYMBOLS} symbols can be compared`);
+  }
+  return [...assets, asset];
+};
+
+/**
+ * Comparison series of a stock from its /ranks history, by the chosen rank
+ */
+export const stockComparisonSeries = (
+  symbol: string,
+  history: RankHistoryPoint[],
+  metric: 'rankFundamental' | 'rankTechnical'
+): ComparisonSeries => ({
+  symbol: symbol.toUpperCase(),
+  assetType: 'stock',
+  points: history.map(point => ({ date: point.date, close: point.close, rank: point[metric] })),
+});
+
+/**
+ * Comparison series of a coin from its /crypto_ranks history
+ */
+export const cryptoComparisonSeries = (symbol: string, history: CryptoRankHistoryPoint[]): ComparisonSeries => ({
+  symbol: symbol.toUpperCase(),
+  assetType: 'crypto',
+  points: history.map(point => ({ date: point.date, close: point.close, rank: point.crypto_ranks })),
+});
+
+/**
+ * Lines the series up on the union of their dates from the first day all of them have a
+ * close. Each price is rebased to 100 on that day, from the last close on or before it.
+ * Later days a symbol did not trade (weekends for stocks next to coins) are null.
+ */
+export const alignComparison = (series: ComparisonSeries[]): AlignedComparison => {
+  const firstCloses = series.map(s => s.points.find(p => p.close !== null && p.close > 0)?.date ?? null);
+  const startDate = series.length > 0 && firstCloses.every(date => date !== null)
+    ? (firstCloses as string[]).reduce((latest, date) => (date > latest ? date : latest))
+    : null;
+
+  const performance: Record<string, (number | null)[]> = {};
+  const ranks: Record<string, (number | null)[]> = {};
+  if (startDate === null) {
+    return { dates: [], startDate, performance, ranks };
+  }
+
+  const dates = Array.from(new Set(series.flatMap(s => s.points.map(p => p.date))))
+    .filter(date => date >= startDate)
+    .sort();
+
+  series.forEach((s) => {
+    const byDate = new Map(s.points.map(p => [p.date, p]));
+    // Close on the start day, or the last one before it for a symbol that did not trade that day
+    const base = [...s.points].reverse().find(p => p.date <= startDate && p.close !== null && p.close > 0)?.close ?? null;
+
+    performance[comparisonKey(s)] = dates.map((date) => {
+      if (date === startDate) return 100;
+      const close = byDate.get(date)?.close ?? null;
+      return close !== null && base !== null ? (close / base) * 100 : null;
+    });
+    ranks[comparisonKey(s)] = dates.map(date => byDate.get(date)?.rank ?? null);
+  });
+
+  return { dates, startDate, performance, ranks };
+};
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildStrategyTrackRecord,
+  compareStat,
+  CryptoSignalRow,
+  readReportedExpectancy,
+  toStrategyPosition,
+} from './cryptoSignals';
+
+// Long from 100 to 99, short from 99 to 90, flat, then long from 100 and still open at 105
+const rows: CryptoSignalRow[] = [
+  { date: '2024-01-01', close: 100, strategy_side: 'long' },
+  { date: '2024-01-02', close: 110 },
+  { date: '2024-01-03', close: 99, strategy_side: 'short' },
+  { date: '2024-01-04', close: 90 },
+  // The endpoint publishes the side in a row of its own
+  { date: '2024-01-04T12:00:00', strategy_side: 'flat' },
+  { date: '2024-01-05', close: 100, strategy_side: 1 },
+  { date: '2024-01-06', close: 105, strategy_expectancy: 4.05, strategy_profit_factor: 9.1 },
+];
+
+describe('toStrategyPosition', () => {
+  it('reads words and signed numbers', () => {
+    expect(toStrategyPosition('buy')).toBe('long');
+    expect(toStrategyPosition('bearish')).toBe('short');
+    expect(toStrategyPosition('-1')).toBe('short');
+    expect(toStrategyPosition('0')).toBe('flat');
+    expect(toStrategyPosition('neutral')).toBe('flat');
+    expect(toStrategyPosition(null)).toBeNull();
+  });
+});
+
+describe('buildStrategyTrackRecord', () => {
+  const record = buildStrategyTrackRecord(rows);
+
+  it('opens and closes a trade at the close of each side change', () => {
+    expect(record.trades.map(t => [t.direction, t.entryDate, t.exitDate])).toEqual([
+      ['long', '2024-01-01', '2024-01-03'],
+      ['short', '2024-01-03', '2024-01-04'],
+      ['long', '2024-01-05', null],
+    ]);
+    expect(record.trades[0].return).toBeCloseTo(-0.01, 10);
+    expect(record.trades[1].return).toBeCloseTo(1 - 90 / 99, 10);
+    expect(record.trades[2].open).toBe(true);
+    expect(record.trades[2].return).toBeCloseTo(0.05, 10);
+  });
+
+  it('counts closed trades only', () => {
+    expect(record.closedTrades).toBe(2);
+    expect(record.wins).toBe(1);
+    expect(record.losses).toBe(1);
+    expect(record.winRate).toBe(0.5);
+    expect(record.expectancy).toBeCloseTo((-0.01 + (1 - 90 / 99)) / 2, 10);
+    expect(record.profitFactor).toBeCloseTo((1 - 90 / 99) / 0.01, 10);
+    expect(record.totalReturn).toBeCloseTo(0.99 * (1 + (1 - 90 / 99)) - 1, 10);
+    expect(record.maxDrawdown).toBeCloseTo(-0.01, 10);
+  });
+
+  it('keeps the reported stats as published', () => {
+    expect(record.reported).toEqual({ date: '2024-01-06', profitPerTrade: null, expectancy: 4.05, profitFactor: 9.1 });
+  });
+
+  it('has no trades without a long or short side', () => {
+    const flat = buildStrategyTrackRecord([{ date: '2024-01-01', close: 100, strategy_side: 'flat' }]);
+    expect(flat.trades).toEqual([]);
+    expect(flat.expectancy).toBeNull();
+    expect(flat.winRate).toBeNull();
+  });
+});
+
+describe('readReportedExpectancy', () => {
+  it('reads the published value both as a percentage and as a fraction', () => {
+    const { percent, fraction } = readReportedExpectancy(0.04, 4.05);
+    expect(percent.reported).toBeCloseTo(0.0405, 10);
+    expect(percent.difference).toBeCloseTo(-0.0005, 10);
+    expect(fraction.reported).toBe(4.05);
+    expect(fraction.difference).toBeCloseTo(-4.01, 10);
+  });
+
+  it('does not pick a reading for a value 100 times off', () => {
+    const readings = readReportedExpectancy(0.04, 0.04);
+    expect(readings.fraction.difference).toBe(0);
+    expect(readings.percent.difference).toBeCloseTo(0.0396, 10);
+    expect(readings).not.toHaveProperty('matches');
+  });
+
+  it('has no difference when either side is missing', () => {
+    expect(readReportedExpectancy(null, 4).percent).toEqual({ reported: 0.04, difference: null });
+    expect(readReportedExpectancy(0.04, null).fraction).toEqual({ reported: null, difference: null });
+  });
+});
+
+describe('compareStat', () => {
+  it('matches within the larger of the relative and absolute tolerance', () => {
+    expect(compareStat(1.05, 1, 0.1)).toEqual({ difference: expect.closeTo(0.05, 10), matches: true });
+    expect(compareStat(1.2, 1, 0.1).matches).toBe(false);
+    expect(compareStat(0.0005, 0, 0.1, 0.001).matches).toBe(true);
+    expect(compareStat(null, 1, 0.1)).toEqual({ difference: null, matches: null });
+  });
+});
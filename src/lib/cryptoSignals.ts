@@ -0,0 +1,343 @@
+// Day-by-day history of the crypto signals published on the /crypto_ranks rows: LPPL bubble
+// confidence, side flips and the periods of high confidence, and the strategy's track record
+// rebuilt from its daily side
+
+export interface CryptoSignalRow {
+  date?: string | null;
+  close?: number | null;
+  lppl_side?: string | number | null;
+  lppl_pos_conf?: number | null;
+  lppl_neg_conf?: number | null;
+  strategy_side?: string | number | null;
+  strategy_profit_per_trade?: number | null;
+  strategy_expectancy?: number | null;
+  strategy_profit_factor?: number | null;
+}
+
+// Every signal field of one day, each from the latest row of the day that has it
+interface SignalDay {
+  date: string; // calendar day, YYYY-MM-DD
+  close: number | null;
+  lpplSide: string | null;
+  posConf: number | null;
+  negConf: number | null;
+  strategySide: string | null;
+  profitPerTrade: number | null;
+  expectancy: number | null;
+  profitFactor: number | null;
+}
+
+export interface LpplPoint {
+  date: string; // calendar day, YYYY-MM-DD
+  close: number | null;
+  side: string | null; // lower case
+  posConf: number | null;
+  negConf: number | null;
+}
+
+export interface LpplSideFlip {
+  date: string;
+  from: string;
+  to: string;
+}
+
+export interface ConfidencePeriod {
+  start: string; // first day at or above the level
+  end: string; // last day at or above the level
+  peak: number;
+}
+
+export const DEFAULT_LPPL_CONFIDENCE_LEVEL = 0.5;
+
+const toNumber = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+const toSide = (value: unknown): string | null => {
+  if (value === null || value === undefined) return null;
+  const side = String(value).trim().toLowerCase();
+  return side.length > 0 ? side : null;
+};
+
+/**
+ * One entry per day, oldest first. The endpoint publishes the price, LPPL and strategy
+ * fields in separate rows, so each field is taken from the latest row of the day that has it.
+ */
+const mergeSignalDays = (rows: CryptoSignalRow[]): SignalDay[] => {
+  const byDay = new Map<string, SignalDay>();
+
+  [...rows]
+    .filter(row => !!row.date)
+    .sort((a, b) => (a.date as string).localeCompare(b.date as string))
+    .forEach((row) => {
+      const date = (row.date as string).slice(0, 10);
+      const day = byDay.get(date);
+      byDay.set(date, {
+        date,
+        close: toNumber(row.close) ?? day?.close ?? null,
+        lpplSide: toSide(row.lppl_side) ?? day?.lpplSide ?? null,
+        posConf: toNumber(row.lppl_pos_conf) ?? day?.posConf ?? null,
+        negConf: toNumber(row.lppl_neg_conf) ?? day?.negConf ?? null,
+        strategySide: toSide(row.strategy_side) ?? day?.strategySide ?? null,
+        profitPerTrade: toNumber(row.strategy_profit_per_trade) ?? day?.profitPerTrade ?? null,
+        expectancy: toNumber(row.strategy_expectancy) ?? day?.expectancy ?? null,
+        profitFactor: toNumber(row.strategy_profit_factor) ?? day?.profitFactor ?? null,
+      });
+    });
+
+  return Array.from(byDay.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * One LPPL point per day, oldest first
+ */
+export const toLpplSeries = (rows: CryptoSignalRow[]): LpplPoint[] =>
+  mergeSignalDays(rows).map(day => ({
+    date: day.date,
+    close: day.close,
+    side: day.lpplSide,
+    posConf: day.posConf,
+    negConf: day.negConf,
+  }));
+
+/**
+ * Days the LPPL side changed from the previous published side. Days without a side do not
+ * end the previous one.
+ */
+export const lpplSideFlips = (points: LpplPoint[]): LpplSideFlip[] => {
+  const flips: LpplSideFlip[] = [];
+  let previous: string | null = null;
+
+  points.forEach((point) => {
+    if (point.side === null) return;
+    if (previous !== null && point.side !== previous) {
+      flips.push({ date: point.date, from: previous, to: point.side });
+    }
+    previous = point.side;
+  });
+  return flips;
+};
+
+/**
+ * Runs of consecutive days whose confidence is at or above `level`. A day without a
+ * confidence value ends the run.
+ */
+export const confidencePeriods = (
+  points: LpplPoint[],
+  field: 'posConf' | 'negConf',
+  level: number
+): ConfidencePeriod[] => {
+  const periods: ConfidencePeriod[] = [];
+  let current: ConfidencePeriod | null = null;
+
+  points.forEach((point) => {
+    const value = point[field];
+    if (value !== null && value >= level) {
+      if (current) {
+        current.end = point.date;
+        current.peak = Math.max(current.peak, value);
+      } else {
+        current = { start: point.date, end: point.date, peak: value };
+        periods.push(current);
+      }
+    } else {
+      current = null;
+    }
+  });
+  return periods;
+};
+
+export type StrategyPosition = 'long' | 'short' | 'flat';
+
+export interface StrategyTrade {
+  direction: 'long' | 'short';
+  entryDate: string;
+  entryPrice: number;
+  exitDate: string | null; // null while the trade is open
+  exitPrice: number; // last close while the trade is open
+  return: number; // fraction; marked to the last close while open
+  open: boolean;
+}
+
+export interface StrategyEquityPoint {
+  date: string;
+  equity: number; // realized equity, starting at 1
+  drawdown: number; // fraction below the running peak, 0 or negative
+}
+
+export interface ReportedStrategyStats {
+  date: string | null;
+  profitPerTrade: number | null;
+  expectancy: number | null; // as published; the endpoint does not give its unit
+  profitFactor: number | null;
+}
+
+export interface StrategyTrackRecord {
+  trades: StrategyTrade[]; // oldest first, the open one last
+  closedTrades: number;
+  wins: number;
+  losses: number;
+  winRate: number | null;
+  expectancy: number | null; // average return of a closed trade, as a fraction
+  profitFactor: number | null; // gross gains over gross losses; null without losing trades
+  totalReturn: number; // compounded return of the closed trades
+  maxDrawdown: number; // deepest drawdown of the realized equity, 0 or negative
+  equity: StrategyEquityPoint[];
+  reported: ReportedStrategyStats;
+}
+
+export interface StatComparison {
+  difference: number | null; // rebuilt minus reported
+  matches: boolean | null; // null when either side is missing
+}
+
+/**
+ * Position a strategy_side value stands for; sides that are neither long nor short, such as
+ * flat, neutral or exit, read as flat
+ */
+export const toStrategyPosition = (side: string | null): StrategyPosition | null => {
+  if (side === null) return null;
+  const numeric = Number(side);
+  if (Number.isFinite(numeric)) return numeric > 0 ? 'long' : numeric < 0 ? 'short' : 'flat';
+  if (/^(long|buy|bull)/.test(side)) return 'long';
+  if (/^(short|sell|bear)/.test(side)) return 'short';
+  return 'flat';
+};
+
+const tradeReturn = (direction: 'long' | 'short', entryPrice: number, exitPrice: number): number =>
+  direction === 'long' ? exitPrice / entryPrice - 1 : 1 - exitPrice / entryPrice;
+
+const tradesOf = (days: SignalDay[]): StrategyTrade[] => {
+  const trades: StrategyTrade[] = [];
+  let position: StrategyPosition = 'flat';
+  let wanted: StrategyPosition = 'flat';
+  let current: StrategyTrade | null = null;
+
+  days.forEach((day) => {
+    wanted = toStrategyPosition(day.strategySide) ?? wanted;
+    if (day.close === null || day.close <= 0) return;
+
+    if (current) {
+      current.exitPrice = day.close;
+      current.return = tradeReturn(current.direction, current.entryPrice, day.close);
+    }
+    if (wanted === position) return;
+
+    if (current) {
+      current.exitDate = day.date;
+      current.open = false;
+      current = null;
+    }
+    if (wanted !== 'flat') {
+      current = { direction: wanted, entryDate: day.date, entryPrice: day.close, exitDate: null, exitPrice: day.close, return: 0, open: true };
+      trades.push(current);
+    }
+    position = wanted;
+  });
+
+  return trades;
+};
+
+/**
+ * Rebuilds the trades implied by the daily strategy side: every change of position closes
+ * the open trade and opens the next one at that day's close. A side published on a day
+ * without a close takes effect at the next close; days without a side keep the position.
+ */
+export const rebuildStrategyTrades = (rows: CryptoSignalRow[]): StrategyTrade[] => tradesOf(mergeSignalDays(rows));
+
+/**
+ * Track record of the strategy from its side history, next to the stats the backend last
+ * published for it
+ */
+export const buildStrategyTrackRecord = (rows: CryptoSignalRow[]): StrategyTrackRecord => {
+  const days = mergeSignalDays(rows);
+  const trades = tradesOf(days);
+  const closed = trades.filter(trade => !trade.open);
+  const returns = closed.map(trade => trade.return);
+  const gains = returns.filter(r => r > 0).reduce((sum, r) => sum + r, 0);
+  const grossLoss = -returns.filter(r => r < 0).reduce((sum, r) => sum + r, 0);
+
+  // Realized equity steps on the day each trade closes
+  const equity: StrategyEquityPoint[] = [];
+  const firstEntry = trades[0]?.entryDate;
+  let value = 1;
+  let peak = 1;
+  let maxDrawdown = 0;
+  let nextClosed = 0;
+  days
+    .filter(day => firstEntry !== undefined && day.date >= firstEntry && day.close !== null)
+    .forEach((day) => {
+      while (nextClosed < closed.length && (closed[nextClosed].exitDate as string) <= day.date) {
+        value *= 1 + closed[nextClosed].return;
+        nextClosed++;
+      }
+      peak = Math.max(peak, value);
+      const drawdown = value / peak - 1;
+      maxDrawdown = Math.min(maxDrawdown, drawdown);
+      equity.push({ date: day.date, equity: value, drawdown });
+    });
+
+  const latestOf = (field: 'profitPerTrade' | 'expectancy' | 'profitFactor') =>
+    [...days].reverse().find(day => day[field] !== null) ?? null;
+  const reportedDay = [...days].reverse().find(day => day.profitPerTrade !== null || day.expectancy !== null || day.profitFactor !== null);
+  const expectancy = closed.length > 0 ? returns.reduce((sum, r) => sum + r, 0) / closed.length : null;
+
+  return {
+    trades,
+    closedTrades: closed.length,
+    wins: returns.filter(r => r > 0).length,
+    losses: returns.filter(r => r < 0).length,
+    winRate: closed.length > 0 ? returns.filter(r => r > 0).length / closed.length : null,
+    expectancy,
+    profitFactor: grossLoss > 0 ? gains / grossLoss : null,
+    totalReturn: value - 1,
+    maxDrawdown,
+    equity,
+    reported: {
+      date: reportedDay?.date ?? null,
+      profitPerTrade: latestOf('profitPerTrade')?.profitPerTrade ?? null,
+      expectancy: latestOf('expectancy')?.expectancy ?? null,
+      profitFactor: latestOf('profitFactor')?.profitFactor ?? null,
+    },
+  };
+};
+
+/**
+ * Whether a rebuilt stat agrees with the reported one, within `relativeTolerance` of the
+ * reported value or `absoluteTolerance`, whichever is larger
+ */
+export const compareStat = (
+  rebuilt: number | null,
+  reported: number | null,
+  relativeTolerance: number,
+  absoluteTolerance = 0
+): StatComparison => {
+  if (rebuilt === null || reported === null) return { difference: null, matches: null };
+  const difference = rebuilt - reported;
+  return {
+    difference,
+    matches: Math.abs(difference) <= Math.max(Math.abs(reported) * relativeTolerance, absoluteTolerance),
+  };
+};
+
+export interface ExpectancyReading {
+  reported: number | null; // as a fraction per trade
+  difference: number | null; // rebuilt minus reported
+}
+
+/**
+ * The rebuilt expectancy next to both readings of the published one, as a percentage and as a
+ * fraction per trade. The endpoint does not say which it is, so neither reading is matched.
+ */
+export const readReportedExpectancy = (
+  rebuilt: number | null,
+  reported: number | null
+): { percent: ExpectancyReading; fraction: ExpectancyReading } => {
+  const reading = (value: number | null): ExpectancyReading => ({
+    reported: value,
+    difference: compareStat(rebuilt, value, 0).difference,
+  });
+  return {
+    percent: reading(reported === null ? null : reported / 100),
+    fraction: reading(reported),
+  };
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, parseCsvRecords, toCsv } from './csv';
+
+describe('toCsv', () => {
+  it('quotes only fields with commas, quotes or newlines', () => {
+    expect(toCsv([['a', 'b,c', 'say "hi"'], [1, null, 'two\nlines']])).toBe('a,"b,c","say ""hi"""\n1,,"two\nlines"');
+  });
+});
+
+describe('parseCsvRecords', () => {
+  it('reads quoted fields and counts the lines a quoted newline spans', () => {
+    const text = '\uFEFFname,note\r\n"Doe, Jane","line one\nline two"\r\n\r\nplain,"a ""quoted"" word"';
+    expect(parseCsvRecords(text)).toEqual([
+      { line: 1, fields: ['name', 'note'] },
+      { line: 2, fields: ['Doe, Jane', 'line one\nline two'] },
+      { line: 5, fields: ['plain', 'a "quoted" word'] },
+    ]);
+  });
+
+  it('drops rows whose fields are all blank', () => {
+    expect(parseCsvRecords('a\n , \nb\n')).toEqual([
+      { line: 1, fields: ['a'] },
+      { line: 3, fields: ['b'] },
+    ]);
+  });
+
+  it('reads back what toCsv writes', () => {
+    const rows = [['Symbol', 'Note'], ['AAPL', 'bought, then "sold"'], ['BTC', 'multi\nline']];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
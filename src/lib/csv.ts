@@ -0,0 +1,105 @@
+// CSV helpers for report exports and broker imports
+
+const escapeCsvField = (value: string | number | null | undefined): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serializes rows to CSV text, quoting fields that contain commas, quotes or newlines
+ * @param rows - Rows of cell values; the first row is usually the header
+ * @returns The CSV document
+ */
+export const toCsv = (rows: Array<Array<string | number | null | undefined>>): string =>
+  rows.map(row => row.map(escapeCsvField).join(',')).join('\n');
+
+/**
+ * Triggers a browser download of text content
+ * @param content - File contents
+ * @param filename - Suggested file name
+ * @param mimeType - Content type, defaults to CSV
+ */
+export const downloadTextFile = (content: string, filename: string, mimeType: string = 'text/csv;charset=utf-8') => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export interface CsvRecord {
+  line: number; // 1-based line of the source text the row starts on
+  fields: string[];
+}
+
+/**
+ * Parses CSV text into rows of fields with the line each row starts on. Handles quoted fields
+ * with embedded commas, doubled quotes and newlines, and tolerates a UTF-8 byte order mark and
+ * CRLF line endings.
+ * @param text - The CSV document
+ * @returns Rows of raw field strings; blank lines are dropped but still counted
+ */
+export const parseCsvRecords = (text: string): CsvRecord[] => {
+  const records: CsvRecord[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      records.push({ line: rowLine, fields: row });
+      row = [];
+      field = '';
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    records.push({ line: rowLine, fields: row });
+  }
+
+  return records.filter(r => r.fields.some(value => value.trim().length > 0));
+};
+
+/**
+ * Parses CSV text into rows of fields, see parseCsvRecords
+ * @param text - The CSV document
+ * @returns Rows of raw field strings; blank lines are dropped
+ */
+export const parseCsv = (text: string): string[][] => parseCsvRecords(text).map(record => record.fields);
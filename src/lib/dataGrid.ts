@@ -0,0 +1,190 @@
+// Data grid helpers: multi-column sort, row virtualization window, column order and
+// copying a cell selection as tab-separated text
+
+export type GridSortDirection = 'asc' | 'desc';
+
+export interface GridSort {
+  columnId: string;
+  direction: GridSortDirection;
+}
+
+export interface GridCell {
+  row: number;
+  col: number;
+}
+
+export interface GridRange {
+  start: GridCell;
+  end: GridCell;
+}
+
+export interface VirtualWindow {
+  start: number; // first rendered row
+  end: number; // one past the last rendered row
+  paddingTop: number;
+  paddingBottom: number;
+}
+
+export const clamp = (value: number, min: number, max: number): number => Math.min(Math.max(value, min), max);
+
+/**
+ * Next sort after a header click. A plain click sorts by that column alone, flipping it if it
+ * already was the only sort. An additive (shift) click adds the column as a further sort key,
+ * flips it, then removes it.
+ */
+export const toggleSort = (sorts: GridSort[], columnId: string, additive: boolean): GridSort[] => {
+  const existing = sorts.find(s => s.columnId === columnId);
+
+  if (!additive) {
+    if (existing && sorts.length === 1) {
+      return [{ columnId, direction: existing.direction === 'asc' ? 'desc' : 'asc' }];
+    }
+    return [{ columnId, direction: 'asc' }];
+  }
+
+  if (!existing) return [...sorts, { columnId, direction: 'asc' }];
+  if (existing.direction === 'asc') {
+    return sorts.map(s => (s.columnId === columnId ? { columnId, direction: 'desc' } : s));
+  }
+  return sorts.filter(s => s.columnId !== columnId);
+};
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const num = Number(value);
+    return Number.isFinite(num) ? num : null;
+  }
+  return null;
+};
+
+const isEmpty = (value: unknown): boolean => value === null || value === undefined || value === '';
+
+/**
+ * Compares two cell values: numbers (and numeric strings) numerically, everything else as
+ * text with embedded numbers in order. Empty values sort before everything else.
+ */
+export const compareGridValues = (a: unknown, b: unknown): number => {
+  if (isEmpty(a) || isEmpty(b)) return isEmpty(a) === isEmpty(b) ? 0 : isEmpty(a) ? -1 : 1;
+
+  const aNum = toNumber(a);
+  const bNum = toNumber(b);
+  if (aNum !== null && bNum !== null) return aNum - bNum;
+
+  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+};
+
+/**
+ * Sorts rows by each sort key in turn; rows that compare equal keep their original order
+ * @param getValue - Value of a row in a column, as compared by compareGridValues
+ */
+export const sortGridRows = <T>(rows: T[], sorts: GridSort[], getValue: (row: T, columnId: string) => unknown): T[] => {
+  if (sorts.length === 0) return rows;
+
+  return rows
+    .map((row, index) => ({ row, index }))
+    .sort((a, b) => {
+      for (const sort of sorts) {
+        const result = compareGridValues(getValue(a.row, sort.columnId), getValue(b.row, sort.columnId));
+        if (result !== 0) return sort.direction === 'asc' ? result : -result;
+      }
+      return a.index - b.index;
+    })
+    .map(item => item.row);
+};
+
+/**
+ * Rows to render for a scroll position, with the space taken by the rows above and below
+ * @param overscan - Extra rows rendered on each side so fast scrolling does not show gaps
+ */
+export const getVirtualWindow = (
+  scrollTop: number,
+  viewportHeight: number,
+  rowHeight: number,
+  rowCount: number,
+  overscan = 10
+): VirtualWindow => {
+  const first = Math.floor(Math.max(0, scrollTop) / rowHeight);
+  const visible = Math.ceil(viewportHeight / rowHeight);
+  const start = clamp(first - overscan, 0, rowCount);
+  const end = clamp(first + visible + overscan, start, rowCount);
+
+  return {
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: (rowCount - end) * rowHeight,
+  };
+};
+
+/**
+ * Moves an item to another position, shifting the ones in between
+ */
+export const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  if (from === to || from < 0 || from >= items.length) return items;
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(clamp(to, 0, next.length), 0, item);
+  return next;
+};
+
+/**
+ * Column order after the columns changed: known ids keep their place, new ones are appended
+ * and removed ones dropped
+ */
+export const reconcileColumnOrder = (order: string[], columnIds: string[]): string[] => {
+  const available = new Set(columnIds);
+  const kept = order.filter(id => available.has(id));
+  return [...kept, ...columnIds.filter(id => !kept.includes(id))];
+};
+
+/**
+ * Column order with the `ranked` columns put into the places they take in `order`, in the
+ * order of `ranked`; every other column keeps its place
+ */
+export const placeRankedColumns = (order: string[], ranked: string[]): string[] => {
+  const rankedIds = new Set(ranked);
+  const queue = ranked.filter(id => order.includes(id));
+  return order.map(id => (rankedIds.has(id) ? queue.shift() as string : id));
+};
+
+/**
+ * Range with its start at the top-left corner and its end at the bottom-right
+ */
+export const normalizeRange = (range: GridRange): GridRange => ({
+  start: { row: Math.min(range.start.row, range.end.row), col: Math.min(range.start.col, range.end.col) },
+  end: { row: Math.max(range.start.row, range.end.row), col: Math.max(range.start.col, range.end.col) },
+});
+
+export const isCellInRange = (cell: GridCell, range: GridRange | null): boolean => {
+  if (!range) return false;
+  const { start, end } = normalizeRange(range);
+  return cell.row >= start.row && cell.row <= end.row && cell.col >= start.col && cell.col <= end.col;
+};
+
+/**
+ * Selected cells as tab-separated text, one line per row, ready to paste into a spreadsheet
+ * @param getText - Text of a cell by row and column index
+ * @param headers - Column headers, prepended as the first line when given
+ */
+export const rangeToTsv = (
+  range: GridRange,
+  getText: (row: number, col: number) => string,
+  headers?: string[]
+): string => {
+  const { start, end } = normalizeRange(range);
+  const clean = (text: string) => text.replace(/[\t\r\n]+/g, ' ');
+  const lines: string[] = [];
+
+  if (headers) {
+    lines.push(headers.slice(start.col, end.col + 1).map(clean).join('\t'));
+  }
+  for (let row = start.row; row <= end.row; row++) {
+    const cells: string[] = [];
+    for (let col = start.col; col <= end.col; col++) {
+      cells.push(clean(getText(row, col)));
+    }
+    lines.push(cells.join('\t'));
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,89 @@
+// Equity curve ranges and benchmark overlay for the reconstructed portfolio value series
+
+import { AssetClass, PricePoint } from '../types/portfolio';
+import { PerformancePoint } from './portfolioPerformance';
+
+export type EquityRange = '1M' | '3M' | '6M' | 'YTD' | '1Y' | 'ALL';
+
+export const EQUITY_RANGES: EquityRange[] = ['1M', '3M', '6M', 'YTD', '1Y', 'ALL'];
+
+export type BenchmarkSymbol = 'SPY' | 'BTC';
+
+// Benchmarks and the asset class whose endpoint serves their daily closes
+export const BENCHMARKS: Record<BenchmarkSymbol, AssetClass> = {
+  SPY: 'stocks',
+  BTC: 'crypto',
+};
+
+export interface EquityCurvePoint {
+  date: string;
+  marketValue: number;
+  costBasis: number;
+  benchmarkValue: number | null;
+}
+
+/**
+ * Returns the first date (YYYY-MM-DD) included in a range ending on `endDate`
+ * @returns null for 'ALL'
+ */
+export const getRangeStart = (range: EquityRange, endDate: string): string | null => {
+  if (range === 'ALL') return null;
+
+  const end = new Date(`${endDate}T00:00:00Z`);
+  if (range === 'YTD') return `${end.getUTCFullYear()}-01-01`;
+
+  const months = range === '1M' ? 1 : range === '3M' ? 3 : range === '6M' ? 6 : 12;
+  end.setUTCMonth(end.getUTCMonth() - months);
+  return end.toISOString().slice(0, 10);
+};
+
+/**
+ * Cuts the daily value series to a range and, when benchmark closes are given, adds the value
+ * the same money would have had in the benchmark: the portfolio value on the first day buys
+ * benchmark units, and every later net flow buys or sells units at that day's close.
+ * @param series - Daily portfolio values from computePortfolioPerformance
+ * @param range - Range to keep, ending on the last point of the series
+ * @param benchmark - Optional daily closes of the benchmark, sorted by date
+ */
+export const buildEquityCurve = (
+  series: PerformancePoint[],
+  range: EquityRange,
+  benchmark?: PricePoint[]
+): EquityCurvePoint[] => {
+  if (series.length === 0) return [];
+
+  const start = getRangeStart(range, series[series.length - 1].date);
+  const points = start ? series.filter(p => p.date >= start) : series;
+
+  let priceIndex = -1;
+  let close: number | null = null;
+  let units: number | null = null;
+
+  return points.map((point, i) => {
+    let benchmarkValue: number | null = null;
+
+    if (benchmark && benchmark.length > 0) {
+      while (priceIndex + 1 < benchmark.length && benchmark[priceIndex + 1].date <= point.date) {
+        priceIndex += 1;
+        close = benchmark[priceIndex].close;
+      }
+
+      if (close !== null && close > 0) {
+        if (units === null) {
+          // Start tracking once a close exists; the first point's flows are already in its value
+          units = point.marketValue / close;
+        } else if (i > 0) {
+          units = Math.max(0, units + point.netFlow / close);
+        }
+        benchmarkValue = units * close;
+      }
+    }
+
+    return {
+      date: point.date,
+      marketValue: point.marketValue,
+      costBasis: point.costBasis,
+      benchmarkValue,
+    };
+  });
+};
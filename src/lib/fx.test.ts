@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { CurrencyConversion } from '../types/portfolio';
+import {
+  convertLedger,
+  convertPriceHistory,
+  convertPrices,
+  getFxRate,
+  listMissingCurrencies,
+  mergeFxRates,
+  normalizeCurrency,
+  resolveSymbolCurrencies,
+} from './fx';
+
+// One euro in dollars: 1.10 from January, 1.20 from March
+const conversion: CurrencyConversion = {
+  base: 'USD',
+  rates: {
+    EUR: [
+      { date: '2024-01-01', rate: 1.1 },
+      { date: '2024-03-01', rate: 1.2 },
+    ],
+  },
+  symbolCurrencies: { SAP: 'EUR', AAPL: 'USD', NESN: 'CHF' },
+};
+
+describe('normalizeCurrency', () => {
+  it('upper-cases codes, maps stablecoins and rejects malformed codes', () => {
+    expect(normalizeCurrency(' eur ')).toBe('EUR');
+    expect(normalizeCurrency('USDT')).toBe('USD');
+    expect(normalizeCurrency('EURC')).toBe('EUR');
+    expect(normalizeCurrency('E1')).toBeNull();
+    expect(normalizeCurrency(undefined)).toBeNull();
+  });
+});
+
+describe('resolveSymbolCurrencies', () => {
+  it('prefers the override, then the quote currency, then USD', () => {
+    expect(resolveSymbolCurrencies(
+      { BTC: 'crypto', SAP: 'stocks', AAPL: 'stocks' },
+      { BTC: 'usdc', SAP: 'EUR' },
+      { SAP: 'gbp' }
+    )).toEqual({ BTC: 'USD', SAP: 'GBP', AAPL: 'USD' });
+  });
+});
+
+describe('mergeFxRates', () => {
+  it('lets user rows replace fetched rows on the same date and sorts by date', () => {
+    expect(mergeFxRates(
+      { eur: [{ date: '2024-02-01', rate: 1.15 }, { date: '2024-01-01T00:00:00', rate: 1.1 }] },
+      { EUR: [{ date: '2024-02-01', rate: 1.16 }, { date: '2024-03-01', rate: 0 }], CHF: [] }
+    )).toEqual({
+      EUR: [
+        { date: '2024-01-01', rate: 1.1 },
+        { date: '2024-02-01', rate: 1.16 },
+      ],
+    });
+  });
+});
+
+describe('getFxRate', () => {
+  it('uses the latest rate on or before the date and the earliest before the table starts', () => {
+    expect(getFxRate(conversion.rates, 'EUR', 'USD', '2023-12-31')).toBe(1.1);
+    expect(getFxRate(conversion.rates, 'EUR', 'USD', '2024-02-29')).toBe(1.1);
+    expect(getFxRate(conversion.rates, 'EUR', 'USD', '2024-03-01')).toBe(1.2);
+    expect(getFxRate(conversion.rates, 'EUR', 'USD', '2025-01-01')).toBe(1.2);
+  });
+
+  it('is 1 for the base currency and null without rates', () => {
+    expect(getFxRate(conversion.rates, 'usdt', 'USD', '2024-01-01')).toBe(1);
+    expect(getFxRate(conversion.rates, 'CHF', 'USD', '2024-01-01')).toBeNull();
+  });
+});
+
+describe('convertLedger', () => {
+  it('restates prices and amounts at the rate of each row and keeps rows without rates', () => {
+    const converted = convertLedger({
+      SAP: [
+        { date: '2024-02-01', action: 'BUY', quantity: 1, price: 100 },
+        { date: '2024-03-15', action: 'DIVIDEND', quantity: 0, price: 0, amount: 10 },
+        { date: '2024-03-15', action: 'BUY', quantity: 1, price: 50, currency: 'USD' },
+      ],
+      NESN: [{ date: '2024-02-01', action: 'BUY', quantity: 1, price: 90 }],
+    }, conversion);
+    expect(converted.SAP[0]).toMatchObject({ price: expect.closeTo(110, 10), currency: 'USD' });
+    expect(converted.SAP[1]).toMatchObject({ price: 0, amount: expect.closeTo(12, 10), currency: 'USD' });
+    expect(converted.SAP[2].price).toBe(50);
+    expect(converted.NESN[0]).toEqual({ date: '2024-02-01', action: 'BUY', quantity: 1, price: 90 });
+  });
+});
+
+describe('price conversion', () => {
+  it('restates daily closes at the rate of each day and spot prices at one date', () => {
+    expect(convertPriceHistory({ SAP: [{ date: '2024-02-01', close: 100 }, { date: '2024-03-01', close: 100 }] }, conversion).SAP
+      .map(p => p.close)).toEqual([expect.closeTo(110, 10), expect.closeTo(120, 10)]);
+    expect(convertPrices({ SAP: 100, AAPL: 100, NESN: 100 }, conversion, '2024-03-01')).toEqual({
+      SAP: expect.closeTo(120, 10),
+      AAPL: 100,
+      NESN: 100,
+    });
+  });
+});
+
+describe('listMissingCurrencies', () => {
+  it('lists the currencies in use that have no rates', () => {
+    expect(listMissingCurrencies(conversion, { AAPL: [{ date: '2024-01-01', action: 'BUY', quantity: 1, price: 1, currency: 'GBP' }] }))
+      .toEqual(['CHF', 'GBP']);
+  });
+});
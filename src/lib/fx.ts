@@ -0,0 +1,199 @@
+// Currency conversion of ledgers and prices into a portfolio's base currency
+
+import {
+  AssetClass,
+  CurrencyConversion,
+  FxRatePoint,
+  FxRateTable,
+  PortfolioLedger,
+  PortfolioTransactionInput,
+  PriceHistory,
+} from '../types/portfolio';
+
+export const DEFAULT_BASE_CURRENCY = 'USD';
+
+export const BASE_CURRENCIES = ['USD', 'EUR', 'GBP', 'CHF', 'JPY', 'CAD', 'AUD', 'HKD', 'SGD'];
+
+// Stablecoin quotes are valued as the fiat currency they track
+const CURRENCY_ALIASES: Record<string, string> = {
+  USDT: 'USD',
+  USDC: 'USD',
+  BUSD: 'USD',
+  TUSD: 'USD',
+  FDUSD: 'USD',
+  DAI: 'USD',
+  EURC: 'EUR',
+};
+
+const CURRENCY_PREFIXES: Record<string, string> = {
+  USD: '$',
+  EUR: '€',
+  GBP: '£',
+  JPY: '¥',
+};
+
+/**
+ * Upper-cases a currency code and maps stablecoins onto the currency they track
+ * @returns null for an empty or malformed code
+ */
+export const normalizeCurrency = (code: string | null | undefined): string | null => {
+  const upper = (code || '').trim().toUpperCase();
+  if (!/^[A-Z]{3,5}$/.test(upper)) return null;
+  return CURRENCY_ALIASES[upper] || upper;
+};
+
+/**
+ * Prefix used when printing an amount in a currency, e.g. '$' or 'CHF '
+ */
+export const currencyPrefix = (currency: string): string => CURRENCY_PREFIXES[currency] ?? `${currency} `;
+
+/**
+ * Resolves the currency each symbol is priced in. An explicit override wins, then the currency
+ * the symbol is quoted in (quoteCurrency for crypto, USD for stocks), then USD.
+ * @param assetClasses - Asset class keyed by symbol
+ * @param reported - Currency the symbol is quoted in, keyed by symbol
+ * @param overrides - User-chosen price currency keyed by symbol
+ */
+export const resolveSymbolCurrencies = (
+  assetClasses: Record<string, AssetClass>,
+  reported: Record<string, string | null | undefined>,
+  overrides: Record<string, string> = {}
+): Record<string, string> => {
+  const currencies: Record<string, string> = {};
+  Object.keys(assetClasses).forEach((symbol) => {
+    currencies[symbol] = normalizeCurrency(overrides[symbol]) || normalizeCurrency(reported[symbol]) || DEFAULT_BASE_CURRENCY;
+  });
+  return currencies;
+};
+
+/**
+ * Combines rates loaded from the backend with a user-supplied table. User rows replace
+ * backend rows on the same date, so a manual table can patch or extend the history.
+ * @returns Rates keyed by currency, sorted by date
+ */
+export const mergeFxRates = (fetched: FxRateTable, userRates: FxRateTable = {}): FxRateTable => {
+  const byCurrency = new Map<string, Map<string, number>>();
+  [fetched, userRates].forEach((table) => {
+    Object.entries(table).forEach(([code, rows]) => {
+      const currency = normalizeCurrency(code);
+      if (!currency) return;
+      const byDate = byCurrency.get(currency) || new Map<string, number>();
+      (rows || []).forEach((row) => {
+        if (row?.date && Number.isFinite(row.rate) && row.rate > 0) byDate.set(row.date.slice(0, 10), row.rate);
+      });
+      byCurrency.set(currency, byDate);
+    });
+  });
+
+  const merged: FxRateTable = {};
+  byCurrency.forEach((byDate, currency) => {
+    if (byDate.size === 0) return;
+    merged[currency] = Array.from(byDate.entries())
+      .map(([date, rate]): FxRatePoint => ({ date, rate }))
+      .sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+  });
+
+  return merged;
+};
+
+/**
+ * Rate of one unit of `currency` in `base` on a date: the latest rate on or before the date,
+ * or the earliest known rate for dates before the table starts
+ * @returns 1 when the currencies match, null when no rate is known for the currency
+ */
+export const getFxRate = (rates: FxRateTable, currency: string, base: string, date: string): number | null => {
+  const from = normalizeCurrency(currency) || base;
+  if (from === base) return 1;
+
+  const rows = rates[from];
+  if (!rows || rows.length === 0) return null;
+
+  let low = 0;
+  let high = rows.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (rows[mid].date <= date) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return rows[Math.max(found, 0)].rate;
+};
+
+/**
+ * Currency a transaction's price and amount are stated in
+ */
+export const transactionCurrency = (tx: PortfolioTransactionInput, symbol: string, conversion: CurrencyConversion): string =>
+  normalizeCurrency(tx.currency) || conversion.symbolCurrencies[symbol.toUpperCase()] || conversion.base;
+
+/**
+ * Lists the non-base currencies used by the symbols and, when given, the ledger rows
+ */
+export const collectCurrencies = (conversion: CurrencyConversion, ledger: PortfolioLedger = {}): string[] => {
+  const currencies = new Set(Object.values(conversion.symbolCurrencies));
+  Object.entries(ledger).forEach(([symbol, transactions]) => {
+    (transactions || []).forEach(tx => currencies.add(transactionCurrency(tx, symbol, conversion)));
+  });
+  currencies.delete(conversion.base);
+  return Array.from(currencies).sort();
+};
+
+/**
+ * Lists the currencies in use that have no rate at all; values in them are left unconverted
+ */
+export const listMissingCurrencies = (conversion: CurrencyConversion, ledger: PortfolioLedger = {}): string[] =>
+  collectCurrencies(conversion, ledger).filter(currency => !(conversion.rates[currency]?.length > 0));
+
+/**
+ * Restates every transaction's price and amount in the base currency at the rate of its date.
+ * Rows in a currency without rates are kept as they are.
+ */
+export const convertLedger = (ledger: PortfolioLedger, conversion: CurrencyConversion): PortfolioLedger => {
+  const converted: PortfolioLedger = {};
+  Object.entries(ledger).forEach(([symbol, transactions]) => {
+    converted[symbol] = (transactions || []).map((tx) => {
+      const rate = getFxRate(conversion.rates, transactionCurrency(tx, symbol, conversion), conversion.base, (tx.date || '').slice(0, 10));
+      if (rate === null) return tx;
+      return {
+        ...tx,
+        price: tx.price * rate,
+        ...(tx.amount !== undefined ? { amount: tx.amount * rate } : {}),
+        currency: conversion.base,
+      };
+    });
+  });
+  return converted;
+};
+
+/**
+ * Restates daily closes in the base currency at each day's rate
+ */
+export const convertPriceHistory = (prices: PriceHistory, conversion: CurrencyConversion): PriceHistory => {
+  const converted: PriceHistory = {};
+  Object.entries(prices).forEach(([symbol, closes]) => {
+    const currency = conversion.symbolCurrencies[symbol.toUpperCase()] || conversion.base;
+    converted[symbol] = (closes || []).map((p) => {
+      const rate = getFxRate(conversion.rates, currency, conversion.base, p.date.slice(0, 10));
+      return rate === null ? p : { ...p, close: p.close * rate };
+    });
+  });
+  return converted;
+};
+
+/**
+ * Restates per-symbol prices in the base currency at the rate of a single date
+ * @param prices - Prices in each symbol's own currency
+ * @param date - Valuation date (YYYY-MM-DD)
+ */
+export const convertPrices = (prices: Record<string, number>, conversion: CurrencyConversion, date: string): Record<string, number> => {
+  const converted: Record<string, number> = {};
+  Object.entries(prices).forEach(([symbol, price]) => {
+    const currency = conversion.symbolCurrencies[symbol.toUpperCase()] || conversion.base;
+    const rate = getFxRate(conversion.rates, currency, conversion.base, date);
+    converted[symbol] = rate === null ? price : price * rate;
+  });
+  return converted;
+};
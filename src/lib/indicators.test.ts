@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import { OHLCVData } from '../types/marketData';
+import {
+  calculateATR,
+  calculateBollingerBands,
+  calculateEMA,
+  calculateIchimoku,
+  calculateMACD,
+  calculateRSI,
+  calculateVWAP,
+  ema,
+} from './indicators';
+
+// Bars closing at each value, with the close as high and low and a volume of 1
+const barsFromCloses = (values: number[]): OHLCVData[] =>
+  values.map((close, i) => ({
+    date: `2024-01-${String(i + 1).padStart(2, '0')}`,
+    open: close,
+    high: close,
+    low: close,
+    close,
+    volume: 1,
+  }));
+
+const bar = (high: number, low: number, close: number, volume = 1, i = 0): OHLCVData => ({
+  date: `2024-01-${String(i + 1).padStart(2, '0')}`,
+  open: close,
+  high,
+  low,
+  close,
+  volume,
+});
+
+const expectSeries = (actual: (number | null)[], expected: (number | null)[]) => {
+  expect(actual).toHaveLength(expected.length);
+  expected.forEach((value, i) => {
+    if (value === null) {
+      expect(actual[i], `index ${i}`).toBeNull();
+    } else {
+      expect(actual[i], `index ${i}`).toBeCloseTo(value, 6);
+    }
+  });
+};
+
+describe('ema', () => {
+  it('is seeded with the simple average of the first period', () => {
+    // k = 0.5; a straight line settles one bar behind the price
+    expectSeries(calculateEMA(barsFromCloses([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]), 3), [null, null, 2, 3, 4, 5, 6, 7, 8, 9]);
+  });
+
+  it('restarts after a null value', () => {
+    // k = 2/3: 5 * 2/3 + 3.5 / 3 = 4.5
+    expectSeries(ema([1, 2, null, 3, 4, 5], 2), [null, 1.5, null, null, 3.5, 4.5]);
+  });
+
+  it('stays null when there are fewer values than the period', () => {
+    expectSeries(ema([1, 2], 3), [null, null]);
+  });
+});
+
+describe('calculateBollingerBands', () => {
+  it('places the bands population standard deviations around the simple average', () => {
+    // Mean 3, population variance (4 + 1 + 0 + 1 + 4) / 5 = 2
+    const { middle, upper, lower } = calculateBollingerBands(barsFromCloses([1, 2, 3, 4, 5, 6]), 5, 2);
+    expectSeries(middle, [null, null, null, null, 3, 4]);
+    expectSeries(upper, [null, null, null, null, 3 + 2 * Math.SQRT2, 4 + 2 * Math.SQRT2]);
+    expectSeries(lower, [null, null, null, null, 3 - 2 * Math.SQRT2, 4 - 2 * Math.SQRT2]);
+  });
+
+  it('collapses onto the average for flat prices', () => {
+    const { upper, lower } = calculateBollingerBands(barsFromCloses([7, 7, 7]), 3, 2);
+    expectSeries(upper, [null, null, 7]);
+    expectSeries(lower, [null, null, 7]);
+  });
+});
+
+describe('calculateRSI', () => {
+  // Closes of Wilder's RSI example as worked through on StockCharts
+  const closes = [
+    44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.1, 45.42, 45.84, 46.08, 45.89, 46.03, 45.61, 46.28, 46.28, 46.0,
+    46.03, 46.41, 46.22, 45.64, 46.21, 46.25, 45.71, 46.45, 45.78, 45.35, 44.03, 44.18, 44.22, 44.57, 43.42, 42.66,
+    43.13,
+  ];
+
+  it('matches the Wilder-smoothed reference values', () => {
+    const rsi = calculateRSI(barsFromCloses(closes), 14);
+    expect(rsi.slice(0, 14).every(value => value === null)).toBe(true);
+    expect(rsi[14]).toBeCloseTo(70.4641, 3);
+    expect(rsi[15]).toBeCloseTo(66.2496, 3);
+    expect(rsi[19]).toBeCloseTo(57.915, 3);
+    expect(rsi[26]).toBeCloseTo(40.0194, 3);
+    expect(rsi[32]).toBeCloseTo(37.7888, 3);
+  });
+
+  it('is all null until there are period price changes', () => {
+    expectSeries(calculateRSI(barsFromCloses([1, 2, 3]), 3), [null, null, null]);
+  });
+
+  it('reads 50 for a flat window and 100 without losses', () => {
+    expectSeries(calculateRSI(barsFromCloses([5, 5, 5, 5]), 3), [null, null, null, 50]);
+    expectSeries(calculateRSI(barsFromCloses([1, 2, 3, 4, 5]), 3), [null, null, null, 100, 100]);
+  });
+});
+
+describe('calculateMACD', () => {
+  it('takes the signal over the MACD line once both averages are known', () => {
+    // On a straight line the 2 and 3 bar EMAs settle half a bar apart
+    const { macd, signal, histogram } = calculateMACD(barsFromCloses([1, 2, 3, 4, 5, 6, 7, 8]), 2, 3, 2);
+    expectSeries(macd, [null, null, 0.5, 0.5, 0.5, 0.5, 0.5, 0.5]);
+    expectSeries(signal, [null, null, null, 0.5, 0.5, 0.5, 0.5, 0.5]);
+    expectSeries(histogram, [null, null, null, 0, 0, 0, 0, 0]);
+  });
+});
+
+describe('calculateATR', () => {
+  const bars = [bar(10, 8, 9), bar(11, 9, 10), bar(12, 9, 11), bar(13, 11, 12), bar(15, 12, 14), bar(16, 15, 15.5)];
+
+  it('seeds with the mean true range and then smooths like Wilder', () => {
+    // True ranges 2, 2, 3, 2, 3 and 2, the last from the gap above the previous close
+    expectSeries(calculateATR(bars, 3), [null, null, 7 / 3, 20 / 9, 67 / 27, 188 / 81]);
+  });
+
+  it('is all null with fewer bars than the period', () => {
+    expectSeries(calculateATR(bars.slice(0, 2), 3), [null, null]);
+  });
+});
+
+describe('calculateVWAP', () => {
+  // The typical price of each bar is its close
+  const bars = [bar(10, 10, 10, 1), bar(20, 20, 20, 1), bar(30, 30, 30, 2)];
+
+  it('anchors at the first bar when the period is 0', () => {
+    expectSeries(calculateVWAP(bars, 0), [10, 15, 22.5]);
+  });
+
+  it('rolls over the last period bars', () => {
+    expectSeries(calculateVWAP(bars, 2), [null, 15, 80 / 3]);
+  });
+
+  it('is null until some volume has traded', () => {
+    expectSeries(calculateVWAP([bar(10, 10, 10, 0), ...bars.slice(1)], 0), [null, 20, 80 / 3]);
+  });
+});
+
+describe('calculateIchimoku', () => {
+  const bars = [1, 3, 5, 7, 9, 11].map((low, i) => bar(low + 1, low, low + 0.5, 1, i));
+
+  it('shifts the leading spans forward and the lagging span back', () => {
+    const { conversion, base, spanA, spanB, lagging } = calculateIchimoku(bars, 2, 3, 4, 2);
+    expectSeries(conversion, [null, 2.5, 4.5, 6.5, 8.5, 10.5]);
+    expectSeries(base, [null, null, 3.5, 5.5, 7.5, 9.5]);
+    expectSeries(spanA, [null, null, null, null, 4, 6]);
+    expectSeries(spanB, [null, null, null, null, null, 4.5]);
+    expectSeries(lagging, [5.5, 7.5, 9.5, 11.5, null, null]);
+  });
+});
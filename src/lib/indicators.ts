@@ -0,0 +1,386 @@
+// Technical indicators over daily OHLCV bars: moving averages, Bollinger Bands, RSI, MACD,
+// ATR, VWAP and Ichimoku. Every series is aligned with the input bars, null while warming up.
+
+import { OHLCVData } from '../types/marketData';
+
+export type IndicatorSeries = (number | null)[];
+
+export type IndicatorId = 'ema' | 'bollinger' | 'vwap' | 'ichimoku' | 'rsi' | 'macd' | 'atr';
+
+export interface IndicatorParam {
+  key: string;
+  label: string;
+  defaultValue: number;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface IndicatorDefinition {
+  id: IndicatorId;
+  label: string;
+  placement: 'overlay' | 'pane'; // drawn over the price grid or in a pane of its own
+  params: IndicatorParam[];
+}
+
+export interface IndicatorConfig {
+  enabled: boolean;
+  params: Record<string, number>;
+}
+
+export type IndicatorSettings = Record<IndicatorId, IndicatorConfig>;
+
+const periodParam = (defaultValue: number, label = 'Period'): IndicatorParam => ({
+  key: 'period',
+  label,
+  defaultValue,
+  min: 1,
+  max: 200,
+  step: 1,
+});
+
+export const INDICATORS: IndicatorDefinition[] = [
+  { id: 'ema', label: 'EMA', placement: 'overlay', params: [periodParam(21)] },
+  {
+    id: 'bollinger',
+    label: 'Bollinger Bands',
+    placement: 'overlay',
+    params: [periodParam(20), { key: 'multiplier', label: 'Std dev', defaultValue: 2, min: 0.5, max: 5, step: 0.5 }],
+  },
+  // A period of 0 anchors the VWAP at the first bar instead of rolling it
+  { id: 'vwap', label: 'VWAP', placement: 'overlay', params: [{ ...periodParam(20), min: 0 }] },
+  {
+    id: 'ichimoku',
+    label: 'Ichimoku',
+    placement: 'overlay',
+    params: [
+      { key: 'conversion', label: 'Conversion', defaultValue: 9, min: 1, max: 100, step: 1 },
+      { key: 'base', label: 'Base', defaultValue: 26, min: 1, max: 200, step: 1 },
+      { key: 'spanB', label: 'Span B', defaultValue: 52, min: 1, max: 300, step: 1 },
+      { key: 'displacement', label: 'Displacement', defaultValue: 26, min: 0, max: 200, step: 1 },
+    ],
+  },
+  { id: 'rsi', label: 'RSI', placement: 'pane', params: [periodParam(14)] },
+  {
+    id: 'macd',
+    label: 'MACD',
+    placement: 'pane',
+    params: [
+      { key: 'fast', label: 'Fast', defaultValue: 12, min: 1, max: 100, step: 1 },
+      { key: 'slow', label: 'Slow', defaultValue: 26, min: 1, max: 200, step: 1 },
+      { key: 'signal', label: 'Signal', defaultValue: 9, min: 1, max: 100, step: 1 },
+    ],
+  },
+  { id: 'atr', label: 'ATR', placement: 'pane', params: [periodParam(14)] },
+];
+
+/**
+ * Every indicator off, with its default parameters
+ */
+export const defaultIndicatorSettings = (): IndicatorSettings =>
+  INDICATORS.reduce((settings, definition) => {
+    settings[definition.id] = {
+      enabled: false,
+      params: Object.fromEntries(definition.params.map(p => [p.key, p.defaultValue])),
+    };
+    return settings;
+  }, {} as IndicatorSettings);
+
+/**
+ * Settings with one parameter changed, clamped to its range and rounded to its step.
+ * Values that are not numbers leave the settings unchanged.
+ */
+export const setIndicatorParam = (
+  settings: IndicatorSettings,
+  id: IndicatorId,
+  key: string,
+  value: number
+): IndicatorSettings => {
+  const param = INDICATORS.find(d => d.id === id)?.params.find(p => p.key === key);
+  if (!param || !Number.isFinite(value)) return settings;
+
+  const stepped = Math.round(value / param.step) * param.step;
+  const clamped = Math.min(Math.max(stepped, param.min), param.max);
+  return {
+    ...settings,
+    [id]: { ...settings[id], params: { ...settings[id].params, [key]: clamped } },
+  };
+};
+
+type OHLCVRow = {
+  date?: string | null;
+  open?: number | null;
+  high?: number | null;
+  low?: number | null;
+  close?: number | null;
+  volume?: number | null;
+};
+
+const isNum = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Daily bars from rows that carry their own OHLCV fields (such as the ranks rows), oldest
+ * first. Rows missing a date or any price are left out; a missing volume counts as 0.
+ */
+export const toOHLCVSeries = (rows: OHLCVRow[]): OHLCVData[] =>
+  rows
+    .filter(row => !!row.date && isNum(row.open) && isNum(row.high) && isNum(row.low) && isNum(row.close))
+    .map(row => ({
+      date: row.date as string,
+      open: row.open as number,
+      high: row.high as number,
+      low: row.low as number,
+      close: row.close as number,
+      volume: isNum(row.volume) ? row.volume : 0,
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+/**
+ * Simple moving average. A null value restarts the window.
+ */
+export const sma = (values: IndicatorSeries, period: number): IndicatorSeries => {
+  const result: IndicatorSeries = [];
+  let sum = 0;
+  let count = 0;
+
+  values.forEach((value, i) => {
+    if (value === null) {
+      sum = 0;
+      count = 0;
+      result.push(null);
+      return;
+    }
+    sum += value;
+    count++;
+    if (count > period) {
+      sum -= values[i - period] as number;
+      count = period;
+    }
+    result.push(count === period ? sum / period : null);
+  });
+  return result;
+};
+
+/**
+ * Exponential moving average seeded with the simple average of its first `period` values.
+ * A null value restarts the average.
+ */
+export const ema = (values: IndicatorSeries, period: number): IndicatorSeries => {
+  const k = 2 / (period + 1);
+  const result: IndicatorSeries = [];
+  let previous: number | null = null;
+  let seedSum = 0;
+  let seedCount = 0;
+
+  values.forEach(value => {
+    if (value === null) {
+      previous = null;
+      seedSum = 0;
+      seedCount = 0;
+      result.push(null);
+      return;
+    }
+    if (previous === null) {
+      seedSum += value;
+      seedCount++;
+      if (seedCount === period) previous = seedSum / period;
+      result.push(previous);
+      return;
+    }
+    previous = value * k + previous * (1 - k);
+    result.push(previous);
+  });
+  return result;
+};
+
+const closes = (data: OHLCVData[]): IndicatorSeries => data.map(bar => bar.close);
+
+export const calculateSMA = (data: OHLCVData[], period: number): IndicatorSeries => sma(closes(data), period);
+
+export const calculateEMA = (data: OHLCVData[], period: number): IndicatorSeries => ema(closes(data), period);
+
+/**
+ * Bollinger Bands: simple moving average of closes with bands `multiplier` population
+ * standard deviations above and below it
+ */
+export const calculateBollingerBands = (
+  data: OHLCVData[],
+  period = 20,
+  multiplier = 2
+): { middle: IndicatorSeries; upper: IndicatorSeries; lower: IndicatorSeries } => {
+  const middle = calculateSMA(data, period);
+  const upper: IndicatorSeries = [];
+  const lower: IndicatorSeries = [];
+
+  middle.forEach((mean, i) => {
+    if (mean === null) {
+      upper.push(null);
+      lower.push(null);
+      return;
+    }
+    let squares = 0;
+    for (let j = i - period + 1; j <= i; j++) {
+      squares += (data[j].close - mean) ** 2;
+    }
+    const deviation = Math.sqrt(squares / period) * multiplier;
+    upper.push(mean + deviation);
+    lower.push(mean - deviation);
+  });
+  return { middle, upper, lower };
+};
+
+/**
+ * Relative Strength Index with Wilder's smoothing, from 0 to 100. The first value is at
+ * index `period`, once `period` price changes are known. A flat window reads 50.
+ */
+export const calculateRSI = (data: OHLCVData[], period = 14): IndicatorSeries => {
+  const result: IndicatorSeries = data.map(() => null);
+  if (data.length <= period) return result;
+
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = data[i].close - data[i - 1].close;
+    avgGain += Math.max(change, 0) / period;
+    avgLoss += Math.max(-change, 0) / period;
+  }
+
+  const toRsi = () => {
+    if (avgLoss === 0) return avgGain === 0 ? 50 : 100;
+    return 100 - 100 / (1 + avgGain / avgLoss);
+  };
+
+  result[period] = toRsi();
+  for (let i = period + 1; i < data.length; i++) {
+    const change = data[i].close - data[i - 1].close;
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+    result[i] = toRsi();
+  }
+  return result;
+};
+
+/**
+ * MACD line (fast EMA minus slow EMA of closes), its signal EMA and the histogram between them
+ */
+export const calculateMACD = (
+  data: OHLCVData[],
+  fast = 12,
+  slow = 26,
+  signalPeriod = 9
+): { macd: IndicatorSeries; signal: IndicatorSeries; histogram: IndicatorSeries } => {
+  const fastEma = calculateEMA(data, fast);
+  const slowEma = calculateEMA(data, slow);
+  const macd = fastEma.map((value, i) => {
+    const slowValue = slowEma[i];
+    return value === null || slowValue === null ? null : value - slowValue;
+  });
+  const signal = ema(macd, signalPeriod);
+  const histogram = macd.map((value, i) => {
+    const signalValue = signal[i];
+    return value === null || signalValue === null ? null : value - signalValue;
+  });
+  return { macd, signal, histogram };
+};
+
+/**
+ * True range of each bar; the first bar has no previous close and uses its high-low range
+ */
+export const trueRange = (data: OHLCVData[]): number[] =>
+  data.map((bar, i) => {
+    if (i === 0) return bar.high - bar.low;
+    const previousClose = data[i - 1].close;
+    return Math.max(bar.high - bar.low, Math.abs(bar.high - previousClose), Math.abs(bar.low - previousClose));
+  });
+
+/**
+ * Average True Range with Wilder's smoothing, seeded with the mean of the first `period`
+ * true ranges
+ */
+export const calculateATR = (data: OHLCVData[], period = 14): IndicatorSeries => {
+  const ranges = trueRange(data);
+  const result: IndicatorSeries = data.map(() => null);
+  if (data.length < period) return result;
+
+  let atr = ranges.slice(0, period).reduce((sum, tr) => sum + tr, 0) / period;
+  result[period - 1] = atr;
+  for (let i = period; i < data.length; i++) {
+    atr = (atr * (period - 1) + ranges[i]) / period;
+    result[i] = atr;
+  }
+  return result;
+};
+
+/**
+ * Volume-weighted average of the typical price (high + low + close) / 3
+ * @param period - Bars in the rolling window; 0 anchors the average at the first bar
+ * @returns null while the window is not full or has no volume
+ */
+export const calculateVWAP = (data: OHLCVData[], period = 0): IndicatorSeries => {
+  const priceVolume = data.map(bar => ((bar.high + bar.low + bar.close) / 3) * bar.volume);
+  const result: IndicatorSeries = [];
+  let sumPriceVolume = 0;
+  let sumVolume = 0;
+
+  data.forEach((bar, i) => {
+    sumPriceVolume += priceVolume[i];
+    sumVolume += bar.volume;
+    if (period > 0 && i >= period) {
+      sumPriceVolume -= priceVolume[i - period];
+      sumVolume -= data[i - period].volume;
+    }
+    const windowFull = period === 0 || i >= period - 1;
+    result.push(windowFull && sumVolume > 0 ? sumPriceVolume / sumVolume : null);
+  });
+  return result;
+};
+
+// Midpoint of the highest high and lowest low over the last `period` bars
+const midpoint = (data: OHLCVData[], period: number): IndicatorSeries =>
+  data.map((_, i) => {
+    if (i < period - 1) return null;
+    let high = -Infinity;
+    let low = Infinity;
+    for (let j = i - period + 1; j <= i; j++) {
+      high = Math.max(high, data[j].high);
+      low = Math.min(low, data[j].low);
+    }
+    return (high + low) / 2;
+  });
+
+const shift = (values: IndicatorSeries, offset: number): IndicatorSeries =>
+  values.map((_, i) => values[i - offset] ?? null);
+
+/**
+ * Ichimoku Kinko Hyo. The leading spans are shifted `displacement` bars forward and the
+ * lagging span the same number of bars back, so every line stays aligned with the input
+ * bars; the part of the cloud projected past the last bar is not returned.
+ */
+export const calculateIchimoku = (
+  data: OHLCVData[],
+  conversionPeriod = 9,
+  basePeriod = 26,
+  spanBPeriod = 52,
+  displacement = 26
+): {
+  conversion: IndicatorSeries;
+  base: IndicatorSeries;
+  spanA: IndicatorSeries;
+  spanB: IndicatorSeries;
+  lagging: IndicatorSeries;
+} => {
+  const conversion = midpoint(data, conversionPeriod);
+  const base = midpoint(data, basePeriod);
+  const spanA = conversion.map((value, i) => {
+    const baseValue = base[i];
+    return value === null || baseValue === null ? null : (value + baseValue) / 2;
+  });
+
+  return {
+    conversion,
+    base,
+    spanA: shift(spanA, displacement),
+    spanB: shift(midpoint(data, spanBPeriod), displacement),
+    lagging: shift(closes(data), -displacement),
+  };
+};
@@ -0,0 +1,103 @@
+// Ranks leaderboard: entries with day-over-day changes, filters and top/bottom selection
+
+import { CryptoRankData, RanksData, RanksWithPrevious } from '../types/marketData';
+
+export type LeaderboardAssetType = 'stocks' | 'crypto';
+
+export type LeaderboardMetric = 'rankFundamental' | 'rankTechnical' | 'crypto_ranks';
+
+export const LEADERBOARD_METRIC_LABELS: Record<LeaderboardMetric, string> = {
+  rankFundamental: 'Fundamental Rank',
+  rankTechnical: 'Technical Rank',
+  crypto_ranks: 'Crypto Rank',
+};
+
+export interface LeaderboardEntry {
+  symbol: string;
+  name: string;
+  sector: string | null;
+  industry: string | null;
+  tag: string | null;
+  date: string | null;
+  value: number;
+  previous: number | null;
+  change: number | null; // value minus previous, positive when the rank improved
+}
+
+export interface LeaderboardFilters {
+  sector: string;
+  industry: string;
+  tag: string;
+}
+
+export const EMPTY_LEADERBOARD_FILTERS: LeaderboardFilters = { sector: '', industry: '', tag: '' };
+
+const toEntry = (
+  base: Omit<LeaderboardEntry, 'value' | 'previous' | 'change'>,
+  value: number | null | undefined,
+  previous: number | null | undefined
+): LeaderboardEntry | null => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return null;
+  const prev = typeof previous === 'number' && Number.isFinite(previous) ? previous : null;
+  return { ...base, value, previous: prev, change: prev === null ? null : value - prev };
+};
+
+/**
+ * Leaderboard entries of stocks by one of their ranks; tickers without that rank are left out
+ */
+export const toStockLeaderboard = (
+  rows: RanksWithPrevious<RanksData>[],
+  metric: 'rankFundamental' | 'rankTechnical'
+): LeaderboardEntry[] =>
+  rows
+    .map(({ latest, previous }) => toEntry({
+      symbol: latest.ticker.toUpperCase(),
+      name: latest.name || latest.ticker.toUpperCase(),
+      sector: latest.sector || null,
+      industry: latest.industry || null,
+      tag: latest.tag || null,
+      date: latest.date ?? null,
+    }, latest[metric], previous?.[metric]))
+    .filter((entry): entry is LeaderboardEntry => entry !== null);
+
+/**
+ * Leaderboard entries of coins by crypto_ranks; coins without a rank are left out
+ */
+export const toCryptoLeaderboard = (rows: RanksWithPrevious<CryptoRankData>[]): LeaderboardEntry[] =>
+  rows
+    .map(({ latest, previous }) => toEntry({
+      symbol: latest.baseCurrency.toUpperCase(),
+      name: latest.baseCurrency.toUpperCase(),
+      sector: null,
+      industry: null,
+      tag: null,
+      date: latest.date,
+    }, latest.crypto_ranks, previous?.crypto_ranks))
+    .filter((entry): entry is LeaderboardEntry => entry !== null);
+
+/**
+ * Distinct non-empty values of a field, sorted, for filter dropdowns
+ */
+export const leaderboardOptions = (entries: LeaderboardEntry[], field: 'sector' | 'industry' | 'tag'): string[] =>
+  Array.from(new Set(entries.map(e => e[field]).filter((v): v is string => !!v))).sort((a, b) => a.localeCompare(b));
+
+/**
+ * Entries matching every filter that is set
+ */
+export const filterLeaderboard = (entries: LeaderboardEntry[], filters: LeaderboardFilters): LeaderboardEntry[] =>
+  entries.filter(e =>
+    (!filters.sector || e.sector === filters.sector) &&
+    (!filters.industry || e.industry === filters.industry) &&
+    (!filters.tag || e.tag === filters.tag)
+  );
+
+/**
+ * Highest and lowest ranked entries. Ties keep symbol order so the lists are stable.
+ * @returns `top` best first and `bottom` worst first; they never share an entry
+ */
+export const topAndBottom = (entries: LeaderboardEntry[], count: number): { top: LeaderboardEntry[]; bottom: LeaderboardEntry[] } => {
+  const sorted = [...entries].sort((a, b) => b.value - a.value || a.symbol.localeCompare(b.symbol));
+  const top = sorted.slice(0, count);
+  const bottom = sorted.slice(Math.max(top.length, sorted.length - count)).reverse();
+  return { top, bottom };
+};
@@ -0,0 +1,101 @@
+import { QueryClient } from '@tanstack/react-query';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Answers each request with the rows `respond` gives for its query string
+const stubFetch = (respond: (params: URLSearchParams) => { status?: number; body?: unknown }) => {
+  const fetchMock = vi.fn(async (url: string) => {
+    const { status = 200, body = [] } = respond(new URL(url, 'http://localhost').searchParams);
+    return new Response(JSON.stringify(body), { status });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+const requestedParams = (fetchMock: ReturnType<typeof stubFetch>) =>
+  fetchMock.mock.calls.map(([url]) => new URL(url, 'http://localhost').searchParams.toString());
+
+// Each test loads the module afresh, so what it learned about batch support starts unknown
+const loadMarketData = () => import('./marketData');
+
+beforeEach(() => {
+  vi.resetModules();
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('matchesCryptoSymbol', () => {
+  it('accepts the coin with or without a known quote suffix', async () => {
+    const { matchesCryptoSymbol } = await loadMarketData();
+    expect(matchesCryptoSymbol('BTC', 'btc')).toBe(true);
+    expect(matchesCryptoSymbol('btc', 'BTCUSDT')).toBe(true);
+    expect(matchesCryptoSymbol('ETH', 'ethbtc')).toBe(true);
+    expect(matchesCryptoSymbol('BTC', 'btcx')).toBe(false);
+    expect(matchesCryptoSymbol('ETH', 'eth2usd')).toBe(false);
+  });
+});
+
+describe('fetchCryptoRanks', () => {
+  it('maps batched rows published with a quote suffix back to the requested coin', async () => {
+    const fetchMock = stubFetch(() => ({
+      body: [
+        { baseCurrency: 'btcusd', date: '2024-01-02', crypto_ranks: 3 },
+        { baseCurrency: 'btcusd', date: '2024-01-01', crypto_ranks: 4, ivol: 0.5 },
+        { baseCurrency: 'eth', date: '2024-01-02', crypto_ranks: 7 },
+      ],
+    }));
+    const { fetchCryptoRanks } = await loadMarketData();
+
+    const rows = await fetchCryptoRanks(new QueryClient(), ['BTC', 'ETH', 'SOL']);
+
+    expect(requestedParams(fetchMock)).toEqual(['baseCurrencies=btc&baseCurrencies=eth&baseCurrencies=sol']);
+    expect(rows.map(row => [row.baseCurrency, row.crypto_ranks, row.ivol])).toEqual([
+      ['BTCUSD', 3, 0.5],
+      ['ETH', 7, null],
+    ]);
+  });
+});
+
+describe('fetchStockRanks', () => {
+  it('falls back to one request per ticker when the batched response holds tickers not asked for', async () => {
+    const universe = [
+      { ticker: 'AAPL', date: '2024-01-02' },
+      { ticker: 'MSFT', date: '2024-01-02' },
+    ];
+    const fetchMock = stubFetch(params => ({
+      body: params.has('ticker') ? universe.filter(row => row.ticker === params.get('ticker')) : universe,
+    }));
+    const { fetchStockRanks } = await loadMarketData();
+    const queryClient = new QueryClient();
+
+    const rows = await fetchStockRanks(queryClient, ['AAPL', 'NVDA']);
+    expect(rows.map(row => row.ticker)).toEqual(['AAPL']);
+    expect(requestedParams(fetchMock)).toEqual(['tickers=AAPL&tickers=NVDA', 'ticker=AAPL', 'ticker=NVDA']);
+
+    // The endpoint is not asked for a batch again
+    fetchMock.mockClear();
+    await fetchStockRanks(queryClient, ['MSFT']);
+    expect(requestedParams(fetchMock)).toEqual(['ticker=MSFT']);
+  });
+
+  it('falls back to one request per ticker when the batched form is rejected', async () => {
+    const fetchMock = stubFetch(params => (params.has('tickers') ? { status: 400 } : { body: [{ ticker: params.get('ticker') }] }));
+    const { fetchStockRanks } = await loadMarketData();
+
+    const rows = await fetchStockRanks(new QueryClient(), ['AAPL']);
+    expect(rows.map(row => row.ticker)).toEqual(['AAPL']);
+    expect(requestedParams(fetchMock)).toEqual(['tickers=AAPL', 'ticker=AAPL']);
+  });
+
+  it('caches tickers a supported batch has no rows for as empty', async () => {
+    const fetchMock = stubFetch(() => ({ body: [{ ticker: 'AAPL', date: '2024-01-02' }] }));
+    const { fetchStockRanks } = await loadMarketData();
+
+    const rows = await fetchStockRanks(new QueryClient(), ['AAPL', 'NVDA']);
+    expect(rows.map(row => row.ticker)).toEqual(['AAPL']);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,916 @@
+// Typed client for the market data endpoints shared by the portfolio, watchlist and bots views
+
+import { QueryClient } from '@tanstack/react-query';
+import {
+  CryptoRankData,
+  CryptoRankHistoryPoint,
+  CryptoThreshold,
+  CryptoXDaysData,
+  LatestPriceData,
+  LatestPriceQuote,
+  RanksData,
+  RankHistoryPoint,
+  RanksWithPrevious,
+  StockThreshold,
+  StockXDaysData,
+  XDaysCloses,
+} from '../types/marketData';
+
+// API configuration
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '/api';
+const API_KEY = import.meta.env.VITE_API_KEY;
+
+// Upper bound on symbols per request when concurrent lookups are coalesced
+const MAX_BATCH_SIZE = 50;
+
+// How long a loaded row is served from the cache before it is requested again
+export const MARKET_DATA_STALE_TIME = 60_000;
+
+export type MarketDataKind =
+  | 'cryptoXDays'
+  | 'stockXDays'
+  | 'cryptoQuote'
+  | 'stockQuote'
+  | 'cryptoRanks'
+  | 'stockRanks'
+  | 'cryptoThreshold'
+  | 'stockThreshold'
+  | 'cryptoUniverse'
+  | 'stockUniverse'
+  | 'stockRankHistory'
+  | 'cryptoRankHistory';
+
+export interface MarketDataOptions {
+  fresh?: boolean; // bypass cached rows, e.g. for an explicit refresh
+}
+
+// Cache keys: one entry per endpoint and upper-case symbol, so every view shares the same rows
+export const marketDataKeys = {
+  all: ['marketData'] as const,
+  kind: (kind: MarketDataKind) => ['marketData', kind] as const,
+  symbol: (kind: MarketDataKind, symbol: string) => ['marketData', kind, symbol.toUpperCase()] as const,
+};
+
+const hasValue = (value: unknown): boolean => value !== null && value !== undefined;
+
+const parseNullableNumber = (value: unknown): number | null => {
+  if (!hasValue(value)) {
+    return null;
+  }
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+};
+
+const parseNullableString = (value: unknown): string | null => {
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    return trimmed.length > 0 ? trimmed : null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return null;
+};
+
+const parseSymbol = (value: unknown): string | null => parseNullableString(value)?.toUpperCase() ?? null;
+
+const parseBoolean = (value: unknown): boolean =>
+  value === true || value === 1 || (typeof value === 'string' && ['true', '1', 'yes'].includes(value.trim().toLowerCase()));
+
+const getTimeValue = (value: unknown): number => {
+  if (value instanceof Date) {
+    return value.getTime();
+  }
+  if (typeof value === 'string' && value.trim().length > 0) {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? Number.NEGATIVE_INFINITY : parsed;
+  }
+  return Number.NEGATIVE_INFINITY;
+};
+
+const isRecord = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null;
+
+// Quote currencies /crypto_ranks may append to a coin's baseCurrency
+const CRYPTO_QUOTE_SUFFIXES = ['USD', 'USDT', 'USDC', 'BTC', 'ETH'];
+
+/**
+ * Whether a /crypto_ranks baseCurrency stands for a coin, e.g. 'BTC' matches 'btc', 'btcusd'
+ * and 'BTCUSDT'
+ */
+export const matchesCryptoSymbol = (symbol: string, targetSymbol: string): boolean => {
+  const normalizedSymbol = symbol.toUpperCase();
+  const normalizedTarget = targetSymbol.toUpperCase();
+  if (normalizedSymbol === normalizedTarget) return true;
+  return normalizedTarget.startsWith(normalizedSymbol) && CRYPTO_QUOTE_SUFFIXES.includes(normalizedTarget.slice(normalizedSymbol.length));
+};
+
+const parseXDaysCloses = (row: Record<string, any>): XDaysCloses => ({
+  close_1d: parseNullableNumber(row.close_1d),
+  close_7d: parseNullableNumber(row.close_7d),
+  close_30d: parseNullableNumber(row.close_30d),
+  close_60d: parseNullableNumber(row.close_60d),
+  close_90d: parseNullableNumber(row.close_90d),
+  close_120d: parseNullableNumber(row.close_120d),
+});
+
+const parseCryptoXDays = (row: unknown): CryptoXDaysData | null => {
+  if (!isRecord(row)) return null;
+  const baseCurrency = parseSymbol(row.baseCurrency);
+  return baseCurrency ? { baseCurrency, ...parseXDaysCloses(row) } : null;
+};
+
+const parseStockXDays = (row: unknown): StockXDaysData | null => {
+  if (!isRecord(row)) return null;
+  const symbol = parseSymbol(row.symbol);
+  return symbol ? { symbol, ...parseXDaysCloses(row) } : null;
+};
+
+const parseLatestPriceQuote = (row: unknown): LatestPriceQuote | null => {
+  if (!isRecord(row)) return null;
+  const symbol = parseSymbol(row.symbol);
+  const close = parseNullableNumber(row.close);
+  if (!symbol || close === null) return null;
+  return { symbol, close, return30d: parseNullableNumber(row.return30d) };
+};
+
+// The ranks rows carry the AI analysis under their database column names (decision, sentiment, age)
+const parseAiFields = (row: Record<string, any>) => ({
+  ai_sentiment: parseNullableNumber(row.sentiment ?? row.ai_sentiment),
+  ai_decision: parseNullableNumber(row.decision ?? row.ai_decision),
+  ai_age: parseNullableString(row.age ?? row.ai_age),
+});
+
+const parseRanksRow = (row: unknown): RanksData | null => {
+  if (!isRecord(row)) return null;
+  const ticker = parseSymbol(row.ticker);
+  if (!ticker) return null;
+
+  const sector = hasValue(row.sector) ? String(row.sector).trim() : '';
+  return {
+    ticker,
+    date: parseNullableString(row.date) ?? undefined,
+    industry: parseNullableString(row.industry) ?? undefined,
+    isADR: parseBoolean(row.isADR),
+    isActive: parseBoolean(row.isActive),
+    mcap: parseNullableNumber(row.mcap),
+    name: parseNullableString(row.name) ?? '',
+    permaTicker: parseNullableString(row.permaTicker) ?? '',
+    rankFundamental: parseNullableNumber(row.rankFundamental),
+    rankTechnical: parseNullableNumber(row.rankTechnical),
+    reportingCurrency: parseNullableString(row.reportingCurrency) ?? '',
+    sector: sector.length > 0 ? sector : null,
+    statementLastUpdated: parseNullableString(row.statementLastUpdated) ?? '',
+    tag: parseNullableString(row.tag) ?? '',
+    td__Resistance: parseNullableNumber(row.td__Resistance),
+    td__Support: parseNullableNumber(row.td__Support),
+    tec_riskRangeHigh: parseNullableNumber(row.tec_riskRangeHigh),
+    tec_riskRangeInd: parseNullableNumber(row.tec_riskRangeInd),
+    tec_riskRangeLow: parseNullableNumber(row.tec_riskRangeLow),
+    ivol: parseNullableNumber(row.ivol),
+    predicted_beta: parseNullableNumber(row.predicted_beta),
+    risk_contribution: parseNullableNumber(row.risk_contribution),
+    ...parseAiFields(row),
+  };
+};
+
+const parseCryptoThreshold = (row: unknown): CryptoThreshold | null => {
+  if (!isRecord(row)) return null;
+  const baseCurrency = parseSymbol(row.baseCurrency);
+  const minEntry = parseNullableNumber(row.min_entry_threshold);
+  const minExit = parseNullableNumber(row.min_exit_threshold);
+  if (!baseCurrency || minEntry === null || minExit === null) return null;
+  return { baseCurrency, min_entry_threshold: minEntry, min_exit_threshold: minExit };
+};
+
+const parseStockThreshold = (row: unknown): StockThreshold | null => {
+  if (!isRecord(row)) return null;
+  const symbol = parseSymbol(row.symbol);
+  const entry = parseNullableNumber(row.entry_threshold);
+  const exit = parseNullableNumber(row.exit_threshold);
+  if (!symbol || entry === null || exit === null) return null;
+  return { symbol, entry_threshold: entry, exit_threshold: exit };
+};
+
+/**
+ * Merges the rows /crypto_ranks returns for one coin into its latest values: each field is
+ * taken from the most recent row that has it
+ * @param entries - Raw rows of the endpoint
+ * @param fallbackSymbol - Coin the rows were requested for
+ * @returns null when there are no rows
+ */
+export const mergeCryptoRankEntries = (entries: unknown, fallbackSymbol: string): CryptoRankData | null => {
+  if (!Array.isArray(entries) || entries.length === 0) {
+    return null;
+  }
+
+  const normalizedSymbol = fallbackSymbol.toUpperCase();
+  const sortedEntries = entries.filter(isRecord).sort((a, b) => getTimeValue(b.date) - getTimeValue(a.date));
+
+  const merged: CryptoRankData = {
+    baseCurrency: normalizedSymbol,
+    date: null,
+    crypto_ranks: null,
+    lppl_side: null,
+    lppl_pos_conf: null,
+    lppl_neg_conf: null,
+    strategy_side: null,
+    strategy_profit_per_trade: null,
+    strategy_expectancy: null,
+    strategy_profit_factor: null,
+    quoteCurrency: null,
+    open: null,
+    high: null,
+    low: null,
+    close: null,
+    volume: null,
+    ivol: null,
+    predicted_beta: null,
+    risk_contribution: null,
+    ai_sentiment: null,
+    ai_decision: null,
+    ai_age: null,
+  };
+
+  const numericFields = [
+    'crypto_ranks', 'lppl_pos_conf', 'lppl_neg_conf', 'strategy_profit_per_trade', 'strategy_expectancy',
+    'strategy_profit_factor', 'open', 'high', 'low', 'close', 'volume', 'ivol', 'predicted_beta', 'risk_contribution',
+  ] as const;
+  const sideFields = ['lppl_side', 'strategy_side'] as const;
+
+  sortedEntries.forEach((entry) => {
+    merged.baseCurrency = parseSymbol(entry.baseCurrency) || normalizedSymbol;
+
+    const entryDate = parseNullableString(entry.date);
+    if (entryDate && getTimeValue(entryDate) > getTimeValue(merged.date)) {
+      merged.date = entryDate;
+    }
+
+    numericFields.forEach((field) => {
+      if (merged[field] == null) merged[field] = parseNullableNumber(entry[field]);
+    });
+
+    sideFields.forEach((field) => {
+      const value = entry[field];
+      if (merged[field] == null && (typeof value === 'string' || typeof value === 'number')) merged[field] = value;
+    });
+
+    if (!merged.quoteCurrency) {
+      merged.quoteCurrency = parseNullableString(entry.quoteCurrency);
+    }
+
+    const ai = parseAiFields(entry);
+    if (merged.ai_sentiment == null) merged.ai_sentiment = ai.ai_sentiment;
+    if (merged.ai_decision == null) merged.ai_decision = ai.ai_decision;
+    if (merged.ai_age == null) merged.ai_age = ai.ai_age;
+  });
+
+  return merged;
+};
+
+const request = (path: string, params: URLSearchParams): Promise<Response> =>
+  fetch(`${API_BASE_URL}${path}?${params.toString()}`, {
+    method: 'GET',
+    headers: {
+      'Authorization': `Bearer ${API_KEY}`,
+    },
+  });
+
+const getJson = async (path: string, params: URLSearchParams): Promise<unknown> => {
+  const response = await request(path, params);
+
+  if (!response.ok) {
+    throw new Error(`Request to ${path} failed: ${response.status}`);
+  }
+
+  return response.json();
+};
+
+// Validates a list response row by row; malformed rows are logged and dropped
+const parseRows = <T>(data: unknown, path: string, parse: (row: unknown) => T | null): T[] => {
+  if (!Array.isArray(data)) {
+    throw new Error(`Unexpected response from ${path}: expected a list`);
+  }
+
+  const rows: T[] = [];
+  data.forEach((raw) => {
+    const row = parse(raw);
+    if (row) {
+      rows.push(row);
+    } else {
+      console.warn(`Dropped malformed row from ${path}:`, raw);
+    }
+  });
+  return rows;
+};
+
+interface PendingLookup<T> {
+  symbol: string;
+  resolve: (row: T | null) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Coalesces single-symbol lookups made in the same tick into requests of up to MAX_BATCH_SIZE
+ * symbols against an endpoint that takes a list of symbols
+ * @param path - Endpoint path
+ * @param param - Query parameter the endpoint reads the symbols from
+ * @param parse - Row validator
+ * @param symbolOf - Upper-case symbol of a validated row
+ * @returns A lookup that resolves to the row of one symbol, or null if the endpoint has none
+ */
+const createBatchedLookup = <T>(
+  path: string,
+  param: string,
+  parse: (row: unknown) => T | null,
+  symbolOf: (row: T) => string
+) => {
+  let queue: PendingLookup<T>[] = [];
+
+  const flush = () => {
+    const pending = queue;
+    queue = [];
+
+    for (let i = 0; i < pending.length; i += MAX_BATCH_SIZE) {
+      const chunk = pending.slice(i, i + MAX_BATCH_SIZE);
+      const params = new URLSearchParams();
+      Array.from(new Set(chunk.map(p => p.symbol))).forEach(symbol => params.append(param, symbol));
+
+      getJson(path, params)
+        .then((data) => {
+          const bySymbol = new Map(parseRows(data, path, parse).map(row => [symbolOf(row), row]));
+          chunk.forEach(p => p.resolve(bySymbol.get(p.symbol.toUpperCase()) ?? null));
+        })
+        .catch((err) => {
+          chunk.forEach(p => p.reject(err));
+        });
+    }
+  };
+
+  return (symbol: string): Promise<T | null> =>
+    new Promise((resolve, reject) => {
+      if (queue.length === 0) setTimeout(flush, 0);
+      queue.push({ symbol, resolve, reject });
+    });
+};
+
+const lookupCryptoXDays = createBatchedLookup('/crypto_xdays', 'baseCurrencies', parseCryptoXDays, row => row.baseCurrency);
+const lookupStockXDays = createBatchedLookup('/stock_xdays', 'symbols', parseStockXDays, row => row.symbol);
+const lookupCryptoQuote = createBatchedLookup('/latest_crypto_price', 'symbols', parseLatestPriceQuote, row => row.symbol);
+const lookupStockQuote = createBatchedLookup('/latest_stock_price', 'symbols', parseLatestPriceQuote, row => row.symbol);
+const lookupCryptoThreshold = createBatchedLookup('/crypto_thresholds', 'symbols', parseCryptoThreshold, row => row.baseCurrency);
+const lookupStockThreshold = createBatchedLookup('/stock_thresholds', 'symbols', parseStockThreshold, row => row.symbol);
+
+// Single-symbol ranks requests, the only form older servers accept
+const lookupStockRanks = async (symbol: string): Promise<RanksData[]> => {
+  const params = new URLSearchParams({ ticker: symbol });
+  return parseRows(await getJson('/ranks', params), '/ranks', parseRanksRow);
+};
+
+const lookupCryptoRanks = async (symbol: string): Promise<CryptoRankData | null> => {
+  const params = new URLSearchParams({ baseCurrency: symbol.toLowerCase() });
+  const data = await getJson('/crypto_ranks', params);
+  if (!Array.isArray(data)) {
+    throw new Error('Unexpected response from /crypto_ranks: expected a list');
+  }
+  return mergeCryptoRankEntries(data, symbol);
+};
+
+// Symbols de-duplicated case-insensitively, keeping the spelling of the first occurrence
+const uniqueSymbols = (symbols: string[]): string[] => {
+  const seen = new Map<string, string>();
+  symbols.forEach((symbol) => {
+    const trimmed = symbol.trim();
+    if (trimmed && !seen.has(trimmed.toUpperCase())) seen.set(trimmed.toUpperCase(), trimmed);
+  });
+  return Array.from(seen.values());
+};
+
+const fetchCached = <T>(
+  queryClient: QueryClient,
+  kind: MarketDataKind,
+  symbol: string,
+  lookup: (symbol: string) => Promise<T>,
+  options: MarketDataOptions
+): Promise<T> =>
+  queryClient.fetchQuery({
+    queryKey: marketDataKeys.symbol(kind, symbol),
+    queryFn: () => lookup(symbol),
+    staleTime: options.fresh ? 0 : MARKET_DATA_STALE_TIME,
+  });
+
+// Loads one row per symbol through the cache; uncached symbols are fetched in batched requests
+const fetchRows = async <T>(
+  queryClient: QueryClient,
+  kind: MarketDataKind,
+  symbols: string[],
+  lookup: (symbol: string) => Promise<T | null>,
+  options: MarketDataOptions
+): Promise<T[]> => {
+  const rows: Array<T | null> = await Promise.all(uniqueSymbols(symbols).map(symbol => fetchCached(queryClient, kind, symbol, lookup, options)));
+  return rows.filter((row): row is T => row !== null);
+};
+
+/**
+ * Loads the 1 to 120 day closes of coins
+ * @param symbols - Coin symbols, e.g. BTC
+ * @throws Error if the request fails or the response is not a list
+ */
+export const fetchCryptoXDays = (queryClient: QueryClient, symbols: string[], options: MarketDataOptions = {}) =>
+  fetchRows(queryClient, 'cryptoXDays', symbols, lookupCryptoXDays, options);
+
+/**
+ * Loads the 1 to 120 day closes of stocks
+ * @throws Error if the request fails or the response is not a list
+ */
+export const fetchStockXDays = (queryClient: QueryClient, symbols: string[], options: MarketDataOptions = {}) =>
+  fetchRows(queryClient, 'stockXDays', symbols, lookupStockXDays, options);
+
+/**
+ * Loads the latest close of coins
+ * @throws Error if the request fails or the response is not a list
+ */
+export const fetchLatestCryptoQuotes = (queryClient: QueryClient, symbols: string[], options: MarketDataOptions = {}) =>
+  fetchRows(queryClient, 'cryptoQuote', symbols, lookupCryptoQuote, options);
+
+/**
+ * Loads the latest close of stocks
+ * @throws Error if the request fails or the response is not a list
+ */
+export const fetchLatestStockQuotes = (queryClient: QueryClient, symbols: string[], options: MarketDataOptions = {}) =>
+  fetchRows(queryClient, 'stockQuote', symbols, lookupStockQuote, options);
+
+/**
+ * Loads the minimum entry and exit thresholds of the Kraken bot
+ * @throws Error if the request fails or the response is not a list
+ */
+export const fetchCryptoThresholds = (queryClient: QueryClient, symbols: string[], options: MarketDataOptions = {}) =>
+  fetchRows(queryClient, 'cryptoThreshold', symbols, lookupCryptoThreshold, options);
+
+/**
+ * Loads the entry and exit thresholds of the Schwab bot
+ * @throws Error if the request fails or the response is not a list
+ */
+export const fetchStockThresholds = (queryClient: QueryClient, symbols: string[], options: MarketDataOptions = {}) =>
+  fetchRows(queryClient, 'stockThreshold', symbols, lookupStockThreshold, options);
+
+// Symbols per batched ranks request, and requests in flight at once on either ranks path
+const RANKS_BATCH_SIZE = 25;
+const RANKS_CONCURRENCY = 4;
+
+// Statuses a server without the batched ranks parameters answers with
+const BATCH_UNSUPPORTED_STATUSES = [400, 404, 405, 422];
+
+export interface RanksProgress<R> {
+  rows: R[]; // every row loaded so far
+  done: number; // symbols finished, including failed ones
+  total: number;
+}
+
+export interface RanksOptions<R> extends MarketDataOptions {
+  onProgress?: (progress: RanksProgress<R>) => void; // called as each cached, batch or single result arrives
+}
+
+// How one ranks endpoint is requested and cached. T is the cached value per symbol, R a table row.
+interface RanksEndpoint<T, R> {
+  kind: MarketDataKind;
+  path: string;
+  batchParam: string;
+  batchValue: (symbol: string) => string;
+  symbolOf: (row: Record<string, any>) => unknown;
+  matches: (symbol: string, rowSymbol: string) => boolean; // whether a row's symbol belongs to a requested one
+  toValue: (rows: Record<string, any>[], symbol: string) => T; // value of a symbol from its rows, which may be none
+  lookup: (symbol: string) => Promise<T>;
+  toRows: (values: T[]) => R[];
+}
+
+// Whether each ranks endpoint accepts a list of symbols; unknown until the first batched request
+const batchSupport: Record<string, boolean | undefined> = {};
+
+const groupBySymbol = <T>(rows: T[], symbolOf: (row: T) => unknown): Map<string, T[]> => {
+  const groups = new Map<string, T[]>();
+  rows.forEach((row) => {
+    const symbol = parseSymbol(symbolOf(row));
+    if (!symbol) return;
+    const group = groups.get(symbol) || [];
+    group.push(row);
+    groups.set(symbol, group);
+  });
+  return groups;
+};
+
+const matchesTicker = (symbol: string, rowSymbol: string): boolean => symbol.toUpperCase() === rowSymbol;
+
+const STOCK_RANKS: RanksEndpoint<RanksData[], RanksData> = {
+  kind: 'stockRanks',
+  path: '/ranks',
+  batchParam: 'tickers',
+  batchValue: symbol => symbol,
+  symbolOf: row => row.ticker,
+  matches: matchesTicker,
+  toValue: rows => parseRows(rows, '/ranks', parseRanksRow),
+  lookup: lookupStockRanks,
+  toRows: values => values.flat(),
+};
+
+// Coins are matched like the single-symbol request, so rows published with a quote suffix count
+const CRYPTO_RANKS: RanksEndpoint<CryptoRankData | null, CryptoRankData> = {
+  kind: 'cryptoRanks',
+  path: '/crypto_ranks',
+  batchParam: 'baseCurrencies',
+  batchValue: symbol => symbol.toLowerCase(),
+  symbolOf: row => row.baseCurrency,
+  matches: matchesCryptoSymbol,
+  toValue: mergeCryptoRankEntries,
+  lookup: lookupCryptoRanks,
+  toRows: values => values.filter((value): value is CryptoRankData => value !== null),
+};
+
+/**
+ * Runs a task per item with at most `limit` tasks in flight
+ */
+export const runWithConcurrency = async <T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> => {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      await task(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+};
+
+/**
+ * Requests the ranks of several symbols at once
+ * @returns The value of every requested symbol keyed by upper-case symbol; null when the server
+ * does not support the batched form
+ */
+const fetchRanksBatch = async <T, R>(endpoint: RanksEndpoint<T, R>, symbols: string[]): Promise<Map<string, T> | null> => {
+  const params = new URLSearchParams();
+  symbols.forEach(symbol => params.append(endpoint.batchParam, endpoint.batchValue(symbol)));
+
+  const response = await request(endpoint.path, params);
+  if (BATCH_UNSUPPORTED_STATUSES.includes(response.status)) return null;
+  if (!response.ok) {
+    throw new Error(`Request to ${endpoint.path} failed: ${response.status}`);
+  }
+
+  const data: unknown = await response.json();
+  if (!Array.isArray(data)) return null;
+
+  const rows = data.filter(isRecord);
+  const rowSymbols = rows.map(row => parseSymbol(endpoint.symbolOf(row)));
+  // A server that ignores the batched parameter answers with every symbol it publishes
+  if (rowSymbols.some(rowSymbol => rowSymbol && !symbols.some(symbol => endpoint.matches(symbol, rowSymbol)))) return null;
+
+  return new Map(symbols.map((symbol) => {
+    const own = rows.filter((_, i) => {
+      const rowSymbol = rowSymbols[i];
+      return rowSymbol !== null && endpoint.matches(symbol, rowSymbol);
+    });
+    return [symbol.toUpperCase(), endpoint.toValue(own, symbol)];
+  }));
+};
+
+/**
+ * Loads ranks through the cache. Uncached symbols are requested in batches; an endpoint that
+ * rejects the batched form, or answers it with symbols that were not asked for, is remembered
+ * and asked one symbol at a time instead, with RANKS_CONCURRENCY requests in flight. Progress
+ * is reported as results arrive.
+ * @returns The value of every symbol that loaded, keyed by upper-case symbol in the order the
+ * results arrived
+ */
+const loadRanksBySymbol = async <T, R>(
+  queryClient: QueryClient,
+  endpoint: RanksEndpoint<T, R>,
+  symbols: string[],
+  options: RanksOptions<R>
+): Promise<Map<string, T>> => {
+  const unique = uniqueSymbols(symbols);
+  const loaded = new Map<string, T>();
+  let done = 0;
+
+  const report = () => options.onProgress?.({ rows: endpoint.toRows(Array.from(loaded.values())), done, total: unique.length });
+  const store = (symbol: string, value: T) => {
+    queryClient.setQueryData(marketDataKeys.symbol(endpoint.kind, symbol), value);
+    loaded.set(symbol.toUpperCase(), value);
+    done += 1;
+  };
+
+  const pending: string[] = [];
+  unique.forEach((symbol) => {
+    const state = queryClient.getQueryState<T>(marketDataKeys.symbol(endpoint.kind, symbol));
+    const isFresh = state?.status === 'success' && !state.isInvalidated && Date.now() - state.dataUpdatedAt < MARKET_DATA_STALE_TIME;
+    if (!options.fresh && isFresh) {
+      loaded.set(symbol.toUpperCase(), state.data as T);
+      done += 1;
+    } else {
+      pending.push(symbol);
+    }
+  });
+  if (done > 0) report();
+
+  const fallback: string[] = [];
+  const loadChunk = async (chunk: string[]) => {
+    try {
+      const grouped = await fetchRanksBatch(endpoint, chunk);
+      if (!grouped) {
+        batchSupport[endpoint.path] = false;
+        fallback.push(...chunk);
+        return;
+      }
+      batchSupport[endpoint.path] = true;
+      chunk.forEach(symbol => store(symbol, grouped.get(symbol.toUpperCase()) as T));
+    } catch (chunkError) {
+      console.warn(`Failed to fetch ${endpoint.path} for ${chunk.join(', ')}:`, chunkError);
+      done += chunk.length;
+    }
+    report();
+  };
+
+  if (batchSupport[endpoint.path] === false) {
+    fallback.push(...pending);
+  } else {
+    const chunks: string[][] = [];
+    for (let i = 0; i < pending.length; i += RANKS_BATCH_SIZE) {
+      chunks.push(pending.slice(i, i + RANKS_BATCH_SIZE));
+    }
+    // The first batch doubles as a probe while support is unknown
+    if (batchSupport[endpoint.path] === undefined && chunks.length > 0) {
+      await loadChunk(chunks.shift() as string[]);
+    }
+    if (batchSupport[endpoint.path] === false) {
+      fallback.push(...chunks.flat());
+    } else {
+      await runWithConcurrency(chunks, RANKS_CONCURRENCY, loadChunk);
+    }
+  }
+
+  await runWithConcurrency(fallback, RANKS_CONCURRENCY, async (symbol) => {
+    try {
+      store(symbol, await endpoint.lookup(symbol));
+    } catch (symbolError) {
+      console.warn(`Failed to fetch ${endpoint.path} for ${symbol}:`, symbolError);
+      done += 1;
+      // Continue with other symbols
+    }
+    report();
+  });
+
+  return loaded;
+};
+
+// Table rows of loadRanksBySymbol, in the order the results arrived
+const loadRanks = async <T, R>(
+  queryClient: QueryClient,
+  endpoint: RanksEndpoint<T, R>,
+  symbols: string[],
+  options: RanksOptions<R>
+): Promise<R[]> =>
+  endpoint.toRows(Array.from((await loadRanksBySymbol(queryClient, endpoint, symbols, options)).values()));
+
+/**
+ * Loads the /ranks rows of stocks
+ * @returns Rows of every ticker that loaded; failed tickers are logged and left out
+ */
+export const fetchStockRanks = (queryClient: QueryClient, symbols: string[], options: RanksOptions<RanksData> = {}): Promise<RanksData[]> =>
+  loadRanks(queryClient, STOCK_RANKS, symbols, options);
+
+/**
+ * Loads the latest /crypto_ranks values of coins
+ * @returns One merged entry per coin that loaded; failed coins are logged and left out
+ */
+export const fetchCryptoRanks = (queryClient: QueryClient, symbols: string[], options: RanksOptions<CryptoRankData> = {}): Promise<CryptoRankData[]> =>
+  loadRanks(queryClient, CRYPTO_RANKS, symbols, options);
+
+// Calendar day of a row, so rows published at different times of a day count as one day
+const dayOf = (value: unknown): string => parseNullableString(value)?.slice(0, 10) ?? '';
+
+/**
+ * Loads the two most recent ranks rows of every ticker /ranks publishes. The endpoint is
+ * asked without a ticker, once; both universe loaders below read the cached result.
+ * @throws Error if the request fails, e.g. on servers that require a ticker
+ */
+export const fetchStockRanksUniverseWithPrevious = (
+  queryClient: QueryClient,
+  options: MarketDataOptions = {}
+): Promise<RanksWithPrevious<RanksData>[]> =>
+  queryClient.fetchQuery({
+    queryKey: marketDataKeys.kind('stockUniverse'),
+    queryFn: async () => {
+      const rows = parseRows(await getJson('/ranks', new URLSearchParams()), '/ranks', parseRanksRow);
+      return Array.from(groupBySymbol(rows, row => row.ticker).values()).map((group) => {
+        const sorted = [...group].sort((a, b) => getTimeValue(b.date) - getTimeValue(a.date));
+        const latest = sorted[0];
+        return { latest, previous: sorted.find(row => dayOf(row.date) < dayOf(latest.date)) ?? null };
+      });
+    },
+    staleTime: options.fresh ? 0 : MARKET_DATA_STALE_TIME,
+  });
+
+/**
+ * Loads the latest ranks row of every ticker /ranks publishes, so screens can find symbols
+ * that are not in a watchlist yet
+ * @returns One row per ticker, the most recent one
+ * @throws Error if the request fails, e.g. on servers that require a ticker
+ */
+export const fetchStockRanksUniverse = async (queryClient: QueryClient, options: MarketDataOptions = {}): Promise<RanksData[]> =>
+  (await fetchStockRanksUniverseWithPrevious(queryClient, options)).map(entry => entry.latest);
+
+/**
+ * Loads the /crypto_ranks values of every coin the endpoint publishes, merged for the latest
+ * day and for the days before it
+ * @throws Error if the request fails, e.g. on servers that require a baseCurrency
+ */
+export const fetchCryptoRanksUniverseWithPrevious = (
+  queryClient: QueryClient,
+  options: MarketDataOptions = {}
+): Promise<RanksWithPrevious<CryptoRankData>[]> =>
+  queryClient.fetchQuery({
+    queryKey: marketDataKeys.kind('cryptoUniverse'),
+    queryFn: async () => {
+      const data = await getJson('/crypto_ranks', new URLSearchParams());
+      if (!Array.isArray(data)) {
+        throw new Error('Unexpected response from /crypto_ranks: expected a list');
+      }
+
+      const entries: RanksWithPrevious<CryptoRankData>[] = [];
+      groupBySymbol(data.filter(isRecord), row => row.baseCurrency).forEach((rows, symbol) => {
+        const latest = mergeCryptoRankEntries(rows, symbol);
+        if (!latest) return;
+        const latestDay = rows.reduce((day, row) => (dayOf(row.date) > day ? dayOf(row.date) : day), '');
+        entries.push({ latest, previous: mergeCryptoRankEntries(rows.filter(row => dayOf(row.date) < latestDay), symbol) });
+      });
+      return entries;
+    },
+    staleTime: options.fresh ? 0 : MARKET_DATA_STALE_TIME,
+  });
+
+// One point per day, oldest first; of several /ranks rows on a day the last one is kept
+const toStockRankHistory = (rows: Record<string, any>[]): RankHistoryPoint[] => {
+  const byDay = new Map<string, RankHistoryPoint>();
+  [...rows]
+    .sort((a, b) => getTimeValue(a.date) - getTimeValue(b.date))
+    .forEach((row) => {
+      const date = dayOf(row.date);
+      if (!date) return;
+      byDay.set(date, {
+        date,
+        rankFundamental: parseNullableNumber(row.rankFundamental),
+        rankTechnical: parseNullableNumber(row.rankTechnical),
+        close: parseNullableNumber(row.close),
+      });
+    });
+  return Array.from(byDay.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// One point per day, oldest first. /crypto_ranks publishes the ranks, LPPL, strategy and price
+// fields in separate rows, so each day takes every field from the latest row of that day that has it.
+const toCryptoRankHistory = (rows: Record<string, any>[]): CryptoRankHistoryPoint[] => {
+  const byDay = new Map<string, CryptoRankHistoryPoint>();
+  [...rows]
+    .sort((a, b) => getTimeValue(a.date) - getTimeValue(b.date))
+    .forEach((row) => {
+      const date = dayOf(row.date);
+      if (!date) return;
+      const point = byDay.get(date) ?? { date, crypto_ranks: null, close: null };
+      byDay.set(date, {
+        date,
+        crypto_ranks: parseNullableNumber(row.crypto_ranks) ?? point.crypto_ranks,
+        close: parseNullableNumber(row.close) ?? point.close,
+      });
+    });
+  return Array.from(byDay.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+const lookupStockRankHistory = async (ticker: string): Promise<RankHistoryPoint[]> => {
+  const data = await getJson('/ranks', new URLSearchParams({ ticker }));
+  if (!Array.isArray(data)) {
+    throw new Error('Unexpected response from /ranks: expected a list');
+  }
+  return toStockRankHistory(data.filter(isRecord));
+};
+
+const lookupCryptoRankHistory = async (baseCurrency: string): Promise<CryptoRankHistoryPoint[]> => {
+  const data = await getJson('/crypto_ranks', new URLSearchParams({ baseCurrency: baseCurrency.toLowerCase() }));
+  if (!Array.isArray(data)) {
+    throw new Error('Unexpected response from /crypto_ranks: expected a list');
+  }
+  return toCryptoRankHistory(data.filter(isRecord));
+};
+
+// Histories share the ranks endpoints, and with them the batched form and its fallback
+const STOCK_RANK_HISTORY: RanksEndpoint<RankHistoryPoint[], RankHistoryPoint> = {
+  kind: 'stockRankHistory',
+  path: '/ranks',
+  batchParam: 'tickers',
+  batchValue: symbol => symbol,
+  symbolOf: row => row.ticker,
+  matches: matchesTicker,
+  toValue: toStockRankHistory,
+  lookup: lookupStockRankHistory,
+  toRows: values => values.flat(),
+};
+
+const CRYPTO_RANK_HISTORY: RanksEndpoint<CryptoRankHistoryPoint[], CryptoRankHistoryPoint> = {
+  kind: 'cryptoRankHistory',
+  path: '/crypto_ranks',
+  batchParam: 'baseCurrencies',
+  batchValue: symbol => symbol.toLowerCase(),
+  symbolOf: row => row.baseCurrency,
+  matches: matchesCryptoSymbol,
+  toValue: toCryptoRankHistory,
+  lookup: lookupCryptoRankHistory,
+  toRows: values => values.flat(),
+};
+
+/**
+ * Loads the daily /ranks history of a ticker with the closing prices its rows carry
+ * @returns One point per day, oldest first; of several rows on a day the last one is kept
+ * @throws Error if the request fails
+ */
+export const fetchStockRankHistory = (
+  queryClient: QueryClient,
+  ticker: string,
+  options: MarketDataOptions = {}
+): Promise<RankHistoryPoint[]> =>
+  fetchCached(queryClient, 'stockRankHistory', ticker, lookupStockRankHistory, options);
+
+/**
+ * Loads the daily /crypto_ranks history of a coin, each day merged from the rows published on it
+ * @returns One point per day, oldest first
+ * @throws Error if the request fails
+ */
+export const fetchCryptoRankHistory = (
+  queryClient: QueryClient,
+  baseCurrency: string,
+  options: MarketDataOptions = {}
+): Promise<CryptoRankHistoryPoint[]> =>
+  fetchCached(queryClient, 'cryptoRankHistory', baseCurrency, lookupCryptoRankHistory, options);
+
+/**
+ * Loads the /ranks histories of several tickers through the batched ranks path
+ * @returns Histories keyed by upper-case ticker; failed tickers are logged and left out
+ */
+export const fetchStockRankHistories = async (
+  queryClient: QueryClient,
+  tickers: string[],
+  options: RanksOptions<RankHistoryPoint> = {}
+): Promise<Record<string, RankHistoryPoint[]>> =>
+  Object.fromEntries(await loadRanksBySymbol(queryClient, STOCK_RANK_HISTORY, tickers, options));
+
+/**
+ * Loads the /crypto_ranks histories of several coins through the batched ranks path
+ * @returns Histories keyed by upper-case coin; failed coins are logged and left out
+ */
+export const fetchCryptoRankHistories = async (
+  queryClient: QueryClient,
+  baseCurrencies: string[],
+  options: RanksOptions<CryptoRankHistoryPoint> = {}
+): Promise<Record<string, CryptoRankHistoryPoint[]>> =>
+  Object.fromEntries(await loadRanksBySymbol(queryClient, CRYPTO_RANK_HISTORY, baseCurrencies, options));
+
+/**
+ * Loads the latest /crypto_ranks values of every coin the endpoint publishes
+ * @returns One merged entry per coin
+ * @throws Error if the request fails, e.g. on servers that require a baseCurrency
+ */
+export const fetchCryptoRanksUniverse = async (queryClient: QueryClient, options: MarketDataOptions = {}): Promise<CryptoRankData[]> =>
+  (await fetchCryptoRanksUniverseWithPrevious(queryClient, options)).map(entry => entry.latest);
+
+/**
+ * Combines latest quotes with the x-days closes into latest prices with trailing returns in percent
+ * @param quotes - Latest quotes
+ * @param history - Closes keyed by upper-case symbol
+ */
+export const toLatestPriceData = (quotes: LatestPriceQuote[], history: Record<string, XDaysCloses>): LatestPriceData[] =>
+  quotes.map((quote) => {
+    const historical = history[quote.symbol];
+
+    const calculateReturn = (historicalPrice: number | null | undefined) => {
+      if (!historicalPrice) return null;
+      return ((quote.close - historicalPrice) / historicalPrice) * 100;
+    };
+
+    return {
+      symbol: quote.symbol,
+      latestPrice: quote.close,
+      returns: {
+        '1d': calculateReturn(historical?.close_1d),
+        '7d': calculateReturn(historical?.close_7d),
+        '30d': calculateReturn(historical?.close_30d),
+        '60d': calculateReturn(historical?.close_60d),
+        '90d': calculateReturn(historical?.close_90d),
+        '120d': calculateReturn(historical?.close_120d),
+      },
+    };
+  });
+
+/**
+ * Keys x-days rows by their symbol for toLatestPriceData
+ */
+export const indexXDays = (rows: Array<CryptoXDaysData | StockXDaysData>): Record<string, XDaysCloses> => {
+  const index: Record<string, XDaysCloses> = {};
+  rows.forEach((row) => {
+    index['baseCurrency' in row ? row.baseCurrency : row.symbol] = row;
+  });
+  return index;
+};
@@ -0,0 +1,272 @@
+// Portfolio ledger, symbol, price history and FX API helpers used by the portfolio views
+
+import { QueryClient } from '@tanstack/react-query';
+import { groupSymbolsByAssetClass } from './assetClasses';
+import { fetchCryptoRankHistories, fetchStockRankHistories, runWithConcurrency } from './marketData';
+import { createTransactionId, withTransactionIds } from './taxLots';
+import { AssetClass, FxRatePoint, FxRateTable, PortfolioLedger, PortfolioTransactionInput, PriceHistory, PricePoint } from '../types/portfolio';
+
+// API configuration
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '/api';
+const API_KEY = import.meta.env.VITE_API_KEY;
+
+// Ledger and FX requests in flight at once
+const LEDGER_CONCURRENCY = 4;
+
+/**
+ * Loads the transactions of one symbol in a portfolio
+ * @returns The symbol's transactions, every row with an id
+ * @throws Error if the request fails
+ */
+export const fetchPortfolioTransactions = async (portfolioId: string, symbol: string): Promise<PortfolioTransactionInput[]> => {
+  const response = await fetch(`${API_BASE_URL}/portfolios/${portfolioId}/transactions/${encodeURIComponent(symbol)}`, {
+    method: 'GET',
+    headers: {
+      'Authorization': `Bearer ${API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to load transactions: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return withTransactionIds((data?.transactions || []) as PortfolioTransactionInput[]);
+};
+
+/**
+ * Loads the full transaction ledger of a portfolio, one request per symbol with
+ * LEDGER_CONCURRENCY requests in flight
+ * @param portfolioId - The portfolio to load
+ * @param symbols - Symbols held in the portfolio
+ * @returns Transactions keyed by upper-case symbol, one entry for every symbol, every row with an id
+ * @throws Error naming the symbols whose transactions failed to load, so callers never
+ * mistake a failed symbol for one without transactions
+ */
+export const fetchPortfolioLedger = async (portfolioId: string, symbols: string[]): Promise<PortfolioLedger> => {
+  const ledger: PortfolioLedger = {};
+  const failed: string[] = [];
+
+  await runWithConcurrency(symbols, LEDGER_CONCURRENCY, async (symbol) => {
+    try {
+      ledger[symbol.toUpperCase()] = await fetchPortfolioTransactions(portfolioId, symbol);
+    } catch (symbolError) {
+      console.warn(`Failed to load transactions for ${symbol}:`, symbolError);
+      failed.push(symbol.toUpperCase());
+    }
+  });
+
+  if (failed.length > 0) {
+    throw new Error(`Failed to load transactions for ${failed.join(', ')}`);
+  }
+  return ledger;
+};
+
+// Days of a rank history with a usable close
+const toPricePoints = (history: Array<{ date: string; close: number | null }>): PricePoint[] =>
+  history
+    .filter(point => point.close !== null && point.close > 0)
+    .map(point => ({ date: point.date, close: point.close as number }));
+
+/**
+ * Loads daily closes for a list of symbols from the ranks histories of the market data client,
+ * which batches the requests and shares its cache with the ranks views
+ * @param symbols - Symbols to load
+ * @param assetType - 'crypto' reads /crypto_ranks, 'stocks' reads /ranks
+ * @returns Daily closes keyed by upper-case symbol; symbols that fail to load are left out
+ */
+export const fetchPriceHistory = async (queryClient: QueryClient, symbols: string[], assetType: AssetClass): Promise<PriceHistory> => {
+  const histories = assetType === 'crypto'
+    ? await fetchCryptoRankHistories(queryClient, symbols)
+    : await fetchStockRankHistories(queryClient, symbols);
+
+  const history: PriceHistory = {};
+  Object.entries(histories).forEach(([symbol, points]) => {
+    history[symbol] = toPricePoints(points);
+  });
+  return history;
+};
+
+/**
+ * Loads daily closes for symbols of any asset class, reading each class from its own endpoint
+ * @param assetClasses - Asset class keyed by symbol
+ * @returns Daily closes keyed by upper-case symbol
+ */
+export const fetchPriceHistoryByAssetClass = async (queryClient: QueryClient, assetClasses: Record<string, AssetClass>): Promise<PriceHistory> => {
+  const groups = groupSymbolsByAssetClass(Object.keys(assetClasses), assetClasses);
+  const [crypto, stocks] = await Promise.all([
+    fetchPriceHistory(queryClient, groups.crypto, 'crypto'),
+    fetchPriceHistory(queryClient, groups.stocks, 'stocks'),
+  ]);
+  return { ...stocks, ...crypto };
+};
+
+/**
+ * Replaces the stored transactions of one symbol in a portfolio. Rows without an id are given
+ * a new one, so lots they open can be named by disposals from then on.
+ * @param portfolioId - The portfolio to update
+ * @param username - Wallet address that owns the portfolio
+ * @param symbol - Symbol whose ledger is replaced
+ * @param transactions - The full list of transactions for the symbol
+ * @throws Error if the API rejects the request
+ */
+export const savePortfolioTransactions = async (
+  portfolioId: string,
+  username: string,
+  symbol: string,
+  transactions: PortfolioTransactionInput[]
+): Promise<void> => {
+  const response = await fetch(`${API_BASE_URL}/portfolios/${portfolioId}/transactions`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      username: username,
+      symbol: symbol,
+      transactions: transactions.map(tx => (tx.id ? tx : { ...tx, id: createTransactionId() }))
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to save transactions for ${symbol}: ${response.status}`);
+  }
+};
+
+/**
+ * Adds a symbol to a portfolio
+ * @param assetClass - Only sent for mixed portfolios, which store the asset class per symbol
+ * @throws Error if the API rejects the request
+ */
+export const addPortfolioSymbol = async (
+  portfolioId: string,
+  username: string,
+  symbol: string,
+  assetClass?: AssetClass
+): Promise<void> => {
+  const params = new URLSearchParams({ username, symbol });
+  if (assetClass) params.append('asset_class', assetClass);
+
+  const response = await fetch(`${API_BASE_URL}/portfolios/${portfolioId}/symbols?${params.toString()}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to add symbol ${symbol}: ${response.status}`);
+  }
+};
+
+/**
+ * Stores the target weights (percent per symbol) and rebalance tolerance of a portfolio
+ * @throws Error if the API rejects the request
+ */
+export const savePortfolioTargets = async (
+  portfolioId: string,
+  username: string,
+  targetWeights: Record<string, number>,
+  rebalanceTolerance: number
+): Promise<void> => {
+  const response = await fetch(`${API_BASE_URL}/portfolios/${portfolioId}/targets`, {
+    method: 'PUT',
+    headers: {
+      'Authorization': `Bearer ${API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      username: username,
+      target_weights: targetWeights,
+      rebalance_tolerance: rebalanceTolerance
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to save target weights: ${response.status}`);
+  }
+};
+
+// Rows of an /fx_rates response with a date and a positive rate, sorted by date
+const parseFxRates = (data: unknown): FxRatePoint[] => {
+  if (!Array.isArray(data)) {
+    throw new Error('Unexpected response from /fx_rates: expected a list');
+  }
+
+  const points: FxRatePoint[] = [];
+  data.forEach((row: unknown) => {
+    if (typeof row !== 'object' || row === null) return;
+    const { date, rate } = row as { date?: unknown; rate?: unknown };
+    const value = Number(rate);
+    if (typeof date !== 'string' || !date || !Number.isFinite(value) || value <= 0) return;
+    points.push({ date: date.slice(0, 10), rate: value });
+  });
+  return points.sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+};
+
+/**
+ * Loads daily FX history for a list of currencies, one request per currency with
+ * LEDGER_CONCURRENCY requests in flight
+ * @param currencies - Currency codes to load
+ * @param base - Currency the rates are quoted in
+ * @returns Rates keyed by currency, sorted by date; currencies that fail to load are left out
+ */
+export const fetchFxRates = async (currencies: string[], base: string): Promise<FxRateTable> => {
+  const rates: FxRateTable = {};
+
+  await runWithConcurrency(currencies, LEDGER_CONCURRENCY, async (currency) => {
+    const params = new URLSearchParams({ base, currency });
+    try {
+      const response = await fetch(`${API_BASE_URL}/fx_rates?${params.toString()}`, {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${API_KEY}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to load FX rates: ${response.status}`);
+      }
+
+      rates[currency.toUpperCase()] = parseFxRates(await response.json());
+    } catch (currencyError) {
+      console.warn(`Failed to load FX rates for ${currency}/${base}:`, currencyError);
+      // Continue with other currencies
+    }
+  });
+
+  return rates;
+};
+
+/**
+ * Stores the base currency, user-supplied FX table and per-symbol price currency overrides of a portfolio
+ * @throws Error if the API rejects the request
+ */
+export const savePortfolioCurrency = async (
+  portfolioId: string,
+  username: string,
+  baseCurrency: string,
+  fxRates: FxRateTable,
+  symbolCurrencies: Record<string, string>
+): Promise<void> => {
+  const response = await fetch(`${API_BASE_URL}/portfolios/${portfolioId}/currency`, {
+    method: 'PUT',
+    headers: {
+      'Authorization': `Bearer ${API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      username: username,
+      base_currency: baseCurrency,
+      fx_rates: fxRates,
+      symbol_currencies: symbolCurrencies
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to save currency settings: ${response.status}`);
+  }
+};
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { aggregateLedger, computePortfolioPerformance, flattenLedger, xirr } from './portfolioPerformance';
+
+describe('xirr', () => {
+  it('reads 10% from a year of growth from 1000 to 1100', () => {
+    expect(xirr([{ date: '2023-01-01', amount: -1000 }, { date: '2024-01-01', amount: 1100 }])).toBeCloseTo(0.1, 8);
+  });
+
+  it('matches the reference value of the spreadsheet XIRR example', () => {
+    const rate = xirr([
+      { date: '2008-01-01', amount: -10000 },
+      { date: '2008-03-01', amount: 2750 },
+      { date: '2008-10-30', amount: 4250 },
+      { date: '2009-02-15', amount: 3250 },
+      { date: '2009-04-01', amount: 2750 },
+    ]);
+    expect(rate).toBeCloseTo(0.373362535, 6);
+  });
+
+  it('solves rates far from the initial guess', () => {
+    // Tripling in 182 days
+    expect(xirr([{ date: '2024-01-01', amount: -100 }, { date: '2024-07-01', amount: 300 }])).toBeCloseTo(
+      Math.pow(3, 365 / 182) - 1,
+      6
+    );
+    // Losing 99% in a year
+    expect(xirr([{ date: '2023-01-01', amount: -100 }, { date: '2024-01-01', amount: 1 }])).toBeCloseTo(-0.99, 8);
+  });
+
+  it('is null without flows both ways or without a root in range', () => {
+    expect(xirr([{ date: '2023-01-01', amount: -100 }])).toBeNull();
+    expect(xirr([{ date: '2023-01-01', amount: -100 }, { date: '2023-01-02', amount: 0 }])).toBeNull();
+    expect(xirr([{ date: '2024-01-01', amount: -1 }, { date: '2024-01-02', amount: 1000 }])).toBeNull();
+  });
+});
+
+describe('flattenLedger', () => {
+  it('sorts by date and same-day action order and drops incomplete rows', () => {
+    const entries = flattenLedger({
+      aapl: [
+        { date: '2024-01-02', action: 'SELL', quantity: 1, price: 10 },
+        { date: '2024-01-02T15:00:00', action: 'BUY', quantity: 1, price: 9 },
+        { date: '2024-01-01', action: 'DIVIDEND', quantity: 0, price: 0 },
+        { date: '2024-01-01', action: 'SPLIT', quantity: 2, price: 0 },
+      ],
+    });
+    expect(entries.map(e => [e.symbol, e.date, e.action])).toEqual([
+      ['AAPL', '2024-01-01', 'SPLIT'],
+      ['AAPL', '2024-01-02', 'BUY'],
+      ['AAPL', '2024-01-02', 'SELL'],
+    ]);
+  });
+});
+
+describe('aggregateLedger', () => {
+  it('relieves disposals at average cost and splits without changing basis', () => {
+    const positions = aggregateLedger({
+      XYZ: [
+        { date: '2024-01-01', action: 'BUY', quantity: 10, price: 100 },
+        { date: '2024-01-02', action: 'BUY', quantity: 10, price: 200 },
+        { date: '2024-01-03', action: 'SELL', quantity: 10, price: 300 },
+        { date: '2024-01-04', action: 'SPLIT', quantity: 3, price: 0 },
+      ],
+    });
+    expect(positions.XYZ).toEqual({ symbol: 'XYZ', total_quantity: 30, total_cost_basis: 1500 });
+  });
+});
+
+describe('computePortfolioPerformance', () => {
+  it('chains daily returns so a buy on an up day does not count as growth', () => {
+    const performance = computePortfolioPerformance(
+      {
+        XYZ: [
+          { date: '2024-01-01', action: 'BUY', quantity: 10, price: 100 },
+          { date: '2024-01-02', action: 'BUY', quantity: 10, price: 110 },
+        ],
+      },
+      { XYZ: [{ date: '2024-01-02', close: 110 }, { date: '2024-01-03', close: 99 }] },
+      {},
+      '2024-01-03'
+    )!;
+    // Day 1 is flat at the trade price; day 2 earns 100 on 1000 plus the 1100 brought in; day 3 loses 10%
+    expect(performance.series.map(p => p.date)).toEqual(['2024-01-01', '2024-01-02', '2024-01-03']);
+    expect(performance.twr).toBeCloseTo((22 / 21) * 0.9 - 1, 10);
+    expect(performance.marketValue).toBeCloseTo(1980, 8);
+    expect(performance.unrealizedPnl).toBeCloseTo(-120, 8);
+    expect(performance.annualizedTwr).toBeNull();
+  });
+
+  it('matches XIRR and annualized TWR over a year with a single buy', () => {
+    const performance = computePortfolioPerformance(
+      { XYZ: [{ date: '2023-01-01', action: 'BUY', quantity: 10, price: 100 }] },
+      { XYZ: [{ date: '2024-01-01', close: 110 }] },
+      {},
+      '2024-01-01'
+    )!;
+    expect(performance.twr).toBeCloseTo(0.1, 10);
+    expect(performance.annualizedTwr).toBeCloseTo(0.1, 10);
+    expect(performance.xirr).toBeCloseTo(0.1, 8);
+  });
+
+  it('books realized P&L at average cost and counts income and fees in the total', () => {
+    const performance = computePortfolioPerformance(
+      {
+        XYZ: [
+          { date: '2024-01-01', action: 'BUY', quantity: 10, price: 100 },
+          { date: '2024-01-01', action: 'BUY', quantity: 10, price: 200 },
+          { date: '2024-01-02', action: 'DIVIDEND', quantity: 0, price: 0, amount: 25 },
+          { date: '2024-01-02', action: 'FEE', quantity: 0, price: 0, amount: 5 },
+          { date: '2024-01-03', action: 'SELL', quantity: 10, price: 300 },
+        ],
+      },
+      { XYZ: [{ date: '2024-01-03', close: 300 }] },
+      { XYZ: 310 },
+      '2024-01-03'
+    )!;
+    expect(performance.realizedPnl).toBeCloseTo(1500, 8);
+    expect(performance.unrealizedPnl).toBeCloseTo(10 * 310 - 1500, 8);
+    expect(performance.income).toBe(25);
+    expect(performance.fees).toBe(5);
+    expect(performance.totalPnl).toBeCloseTo(1500 + 1600 + 25 - 5, 8);
+  });
+
+  it('is null for a ledger with nothing on or before the valuation date', () => {
+    expect(computePortfolioPerformance({ XYZ: [{ date: '2024-02-01', action: 'BUY', quantity: 1, price: 1 }] }, {}, {}, '2024-01-01')).toBeNull();
+  });
+});
@@ -0,0 +1,426 @@
+// Client-side performance engine that replays a portfolio ledger against daily closes
+
+import { PortfolioAggregatePosition, PortfolioLedger, PortfolioTransactionInput, PriceHistory } from '../types/portfolio';
+import { compareActions, isValidTransaction } from './transactionActions';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CashFlow {
+  date: string; // YYYY-MM-DD
+  amount: number; // negative = money put in, positive = money taken out
+}
+
+export interface SymbolPerformance {
+  symbol: string;
+  quantity: number;
+  costBasis: number;
+  marketValue: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  income: number; // dividends, interest and staking rewards at fair value
+  fees: number;
+  totalPnl: number;
+  contribution: number; // sum of daily contributions to portfolio return, as a fraction
+}
+
+export interface PerformancePoint {
+  date: string;
+  marketValue: number;
+  costBasis: number;
+  netFlow: number;
+  twrIndex: number; // growth of 1 unit invested at the start
+}
+
+export interface PortfolioPerformance {
+  startDate: string;
+  endDate: string;
+  twr: number;
+  annualizedTwr: number | null;
+  xirr: number | null;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  income: number;
+  fees: number;
+  totalPnl: number;
+  marketValue: number;
+  costBasis: number;
+  symbols: SymbolPerformance[];
+  series: PerformancePoint[];
+}
+
+interface LedgerEntry extends PortfolioTransactionInput {
+  symbol: string;
+}
+
+interface SymbolState {
+  quantity: number;
+  costBasis: number;
+  realizedPnl: number;
+  income: number;
+  fees: number;
+  mark: number | null;
+  priceIndex: number;
+  marketValue: number;
+  contribution: number;
+}
+
+/**
+ * Returns today's date as YYYY-MM-DD in local time
+ */
+export const todayIsoDate = (): string => {
+  const today = new Date();
+  const yyyy = today.getFullYear();
+  const mm = String(today.getMonth() + 1).padStart(2, '0');
+  const dd = String(today.getDate()).padStart(2, '0');
+  return `${yyyy}-${mm}-${dd}`;
+};
+
+/**
+ * Normalizes a date or timestamp string to YYYY-MM-DD
+ */
+export const toIsoDate = (value: string): string => value.slice(0, 10);
+
+const dateToTime = (date: string): number => Date.parse(`${toIsoDate(date)}T00:00:00Z`);
+
+/**
+ * Flattens a per-symbol ledger into one list sorted by date, then by same-day action order
+ * (splits first, acquisitions before disposals). Rows missing the fields their action needs are dropped.
+ */
+export const flattenLedger = (ledger: PortfolioLedger): LedgerEntry[] => {
+  const entries: LedgerEntry[] = [];
+  Object.entries(ledger).forEach(([symbol, transactions]) => {
+    (transactions || []).forEach((tx) => {
+      if (!isValidTransaction(tx)) return;
+      entries.push({ ...tx, date: toIsoDate(tx.date), symbol: symbol.toUpperCase() });
+    });
+  });
+
+  return entries.sort((a, b) => {
+    if (a.date !== b.date) return a.date < b.date ? -1 : 1;
+    return compareActions(a.action, b.action);
+  });
+};
+
+/**
+ * Computes the open quantity and average cost basis of every symbol in a ledger.
+ * Acquisitions add units at their price, disposals remove units at average cost,
+ * splits multiply units without changing basis; cash actions leave the position unchanged.
+ * @param ledger - Transactions keyed by symbol
+ * @returns Positions keyed by upper-case symbol
+ */
+export const aggregateLedger = (ledger: PortfolioLedger): Record<string, PortfolioAggregatePosition> => {
+  const positions: Record<string, PortfolioAggregatePosition> = {};
+
+  flattenLedger(ledger).forEach((entry) => {
+    const p = positions[entry.symbol] || (positions[entry.symbol] = { symbol: entry.symbol, total_quantity: 0, total_cost_basis: 0 });
+
+    switch (entry.action) {
+      case 'BUY':
+      case 'TRANSFER_IN':
+      case 'STAKING_REWARD':
+        p.total_quantity += entry.quantity;
+        p.total_cost_basis += entry.quantity * entry.price;
+        break;
+      case 'SELL':
+      case 'TRANSFER_OUT': {
+        const quantity = Math.min(entry.quantity, p.total_quantity);
+        if (quantity <= 0) break;
+        p.total_cost_basis -= (p.total_cost_basis / p.total_quantity) * quantity;
+        p.total_quantity -= quantity;
+        if (p.total_quantity < 1e-12) {
+          p.total_quantity = 0;
+          p.total_cost_basis = 0;
+        }
+        break;
+      }
+      case 'SPLIT':
+        p.total_quantity *= entry.quantity;
+        break;
+    }
+  });
+
+  return positions;
+};
+
+/**
+ * Computes the annualized money-weighted return (XIRR) of a series of dated cash flows
+ * @param flows - Cash flows; at least one must be negative and one positive
+ * @returns The annualized rate as a fraction, or null if it cannot be solved
+ */
+export const xirr = (flows: CashFlow[]): number | null => {
+  const valid = flows.filter(f => Number.isFinite(f.amount) && f.amount !== 0);
+  if (!valid.some(f => f.amount < 0) || !valid.some(f => f.amount > 0)) return null;
+
+  const t0 = Math.min(...valid.map(f => dateToTime(f.date)));
+  const years = valid.map(f => (dateToTime(f.date) - t0) / (365 * DAY_MS));
+
+  const npv = (rate: number) => valid.reduce((sum, f, i) => sum + f.amount / Math.pow(1 + rate, years[i]), 0);
+  const dNpv = (rate: number) => valid.reduce((sum, f, i) => sum - (years[i] * f.amount) / Math.pow(1 + rate, years[i] + 1), 0);
+
+  // Newton-Raphson first, it converges in a handful of steps for typical ledgers
+  let rate = 0.1;
+  for (let i = 0; i < 100; i++) {
+    const value = npv(rate);
+    const derivative = dNpv(rate);
+    if (!Number.isFinite(value) || !Number.isFinite(derivative) || derivative === 0) break;
+    const next = rate - value / derivative;
+    if (!Number.isFinite(next) || next <= -1) break;
+    if (Math.abs(next - rate) < 1e-10) return next;
+    rate = next;
+  }
+
+  // Fall back to bisection over a wide bracket
+  let low = -0.9999;
+  let high = 100;
+  let npvLow = npv(low);
+  if (npvLow * npv(high) > 0) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const npvMid = npv(mid);
+    if (Math.abs(npvMid) < 1e-9 || (high - low) / 2 < 1e-10) return mid;
+    if (npvLow * npvMid < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      npvLow = npvMid;
+    }
+  }
+  return (low + high) / 2;
+};
+
+/**
+ * Replays a portfolio ledger day by day against daily closes and computes time-weighted and
+ * money-weighted returns, realized/unrealized P&L (average cost) and per-symbol contribution.
+ * Positions are marked at the latest close on or before each day, falling back to the last
+ * trade price until a close is available. Today's mark uses `latestPrices` when provided.
+ * Dividends and interest count as cash paid out and fees as cash paid in, so both move the
+ * returns; staking rewards add units at fair value without a flow; transfers are flows at market value.
+ * @param ledger - Transactions keyed by symbol
+ * @param prices - Daily closes keyed by symbol
+ * @param latestPrices - Optional live prices keyed by symbol, used for the final valuation
+ * @param asOf - Valuation date (YYYY-MM-DD), defaults to today
+ * @returns The performance summary, or null if the ledger is empty
+ */
+export const computePortfolioPerformance = (
+  ledger: PortfolioLedger,
+  prices: PriceHistory,
+  latestPrices: Record<string, number> = {},
+  asOf: string = todayIsoDate()
+): PortfolioPerformance | null => {
+  const entries = flattenLedger(ledger).filter(e => e.date <= asOf);
+  if (entries.length === 0) return null;
+
+  const startDate = entries[0].date;
+  const symbols = Array.from(new Set(entries.map(e => e.symbol)));
+
+  const sortedPrices: PriceHistory = {};
+  symbols.forEach((symbol) => {
+    sortedPrices[symbol] = [...(prices[symbol] || [])]
+      .filter(p => Number.isFinite(p.close) && p.close > 0)
+      .map(p => ({ date: toIsoDate(p.date), close: p.close }))
+      .sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+  });
+
+  const dateSet = new Set<string>([asOf]);
+  entries.forEach(e => dateSet.add(e.date));
+  symbols.forEach((symbol) => {
+    sortedPrices[symbol].forEach((p) => {
+      if (p.date >= startDate && p.date <= asOf) dateSet.add(p.date);
+    });
+  });
+  const dates = Array.from(dateSet).sort();
+
+  const state: Record<string, SymbolState> = {};
+  symbols.forEach((symbol) => {
+    state[symbol] = { quantity: 0, costBasis: 0, realizedPnl: 0, income: 0, fees: 0, mark: null, priceIndex: -1, marketValue: 0, contribution: 0 };
+  });
+
+  const entriesByDate = new Map<string, LedgerEntry[]>();
+  entries.forEach((entry) => {
+    const list = entriesByDate.get(entry.date) || [];
+    list.push(entry);
+    entriesByDate.set(entry.date, list);
+  });
+
+  const series: PerformancePoint[] = [];
+  const cashFlows: CashFlow[] = [];
+  let twrIndex = 1;
+
+  dates.forEach((date) => {
+    const beginValues: Record<string, number> = {};
+    const flows: Record<string, number> = {};
+
+    symbols.forEach((symbol) => {
+      const s = state[symbol];
+      beginValues[symbol] = s.marketValue;
+      flows[symbol] = 0;
+
+      // Advance the mark to the latest close on or before this date
+      const history = sortedPrices[symbol];
+      while (s.priceIndex + 1 < history.length && history[s.priceIndex + 1].date <= date) {
+        s.priceIndex += 1;
+        s.mark = history[s.priceIndex].close;
+      }
+      if (date === asOf && Number.isFinite(latestPrices[symbol]) && latestPrices[symbol] > 0) {
+        s.mark = latestPrices[symbol];
+      }
+    });
+
+    (entriesByDate.get(date) || []).forEach((entry) => {
+      const s = state[entry.symbol];
+
+      // Relieves units at average cost and returns the basis removed
+      const relieve = (requested: number): { quantity: number; basis: number } => {
+        const quantity = Math.min(requested, s.quantity);
+        if (quantity <= 0) return { quantity: 0, basis: 0 };
+        const basis = (s.costBasis / s.quantity) * quantity;
+        s.costBasis -= basis;
+        s.quantity -= quantity;
+        if (s.quantity < 1e-12) {
+          s.quantity = 0;
+          s.costBasis = 0;
+        }
+        return { quantity, basis };
+      };
+
+      switch (entry.action) {
+        case 'BUY': {
+          const amount = entry.quantity * entry.price;
+          s.quantity += entry.quantity;
+          s.costBasis += amount;
+          flows[entry.symbol] += amount;
+          cashFlows.push({ date, amount: -amount });
+          break;
+        }
+        case 'SELL': {
+          const { quantity, basis } = relieve(entry.quantity);
+          if (quantity <= 0) return;
+          const proceeds = quantity * entry.price;
+          s.realizedPnl += proceeds - basis;
+          flows[entry.symbol] -= proceeds;
+          cashFlows.push({ date, amount: proceeds });
+          break;
+        }
+        case 'TRANSFER_IN': {
+          // Carried-over basis at `price`; the flow is the market value brought in
+          const value = entry.quantity * (s.mark ?? entry.price);
+          s.quantity += entry.quantity;
+          s.costBasis += entry.quantity * entry.price;
+          flows[entry.symbol] += value;
+          cashFlows.push({ date, amount: -value });
+          break;
+        }
+        case 'TRANSFER_OUT': {
+          const { quantity } = relieve(entry.quantity);
+          if (quantity <= 0) return;
+          const value = quantity * (s.mark ?? entry.price);
+          flows[entry.symbol] -= value;
+          cashFlows.push({ date, amount: value });
+          break;
+        }
+        case 'STAKING_REWARD':
+          // New units at fair value are income, not a flow, so they lift the return
+          s.quantity += entry.quantity;
+          s.costBasis += entry.quantity * entry.price;
+          s.income += entry.quantity * entry.price;
+          break;
+        case 'DIVIDEND':
+        case 'INTEREST': {
+          const amount = entry.amount as number;
+          s.income += amount;
+          flows[entry.symbol] -= amount;
+          cashFlows.push({ date, amount });
+          return;
+        }
+        case 'FEE': {
+          const amount = entry.amount as number;
+          s.fees += amount;
+          flows[entry.symbol] += amount;
+          cashFlows.push({ date, amount: -amount });
+          return;
+        }
+        case 'SPLIT':
+          s.quantity *= entry.quantity;
+          if (s.priceIndex < 0 && s.mark !== null) s.mark /= entry.quantity;
+          return;
+      }
+
+      // Without a close yet, the trade price is the best available mark
+      if (s.priceIndex < 0 && entry.price > 0) {
+        s.mark = entry.price;
+      }
+    });
+
+    let beginValue = 0;
+    let endValue = 0;
+    let netFlow = 0;
+    let costBasis = 0;
+    symbols.forEach((symbol) => {
+      const s = state[symbol];
+      s.marketValue = s.quantity * (s.mark ?? 0);
+      beginValue += beginValues[symbol];
+      endValue += s.marketValue;
+      netFlow += flows[symbol];
+      costBasis += s.costBasis;
+    });
+
+    // Flows are treated as happening at the start of the day; a day that starts and ends
+    // empty (e.g. a fee with no position) has no return to measure
+    const denominator = beginValue + Math.max(netFlow, 0);
+    if (denominator > 0 && (beginValue > 0 || endValue > 0)) {
+      twrIndex *= 1 + (endValue - beginValue - netFlow) / denominator;
+      symbols.forEach((symbol) => {
+        const s = state[symbol];
+        s.contribution += (s.marketValue - beginValues[symbol] - flows[symbol]) / denominator;
+      });
+    }
+
+    series.push({ date, marketValue: endValue, costBasis, netFlow, twrIndex });
+  });
+
+  const last = series[series.length - 1];
+  if (last.marketValue > 0) {
+    cashFlows.push({ date: asOf, amount: last.marketValue });
+  }
+
+  const symbolResults: SymbolPerformance[] = symbols.map((symbol) => {
+    const s = state[symbol];
+    const unrealizedPnl = s.marketValue - s.costBasis;
+    return {
+      symbol,
+      quantity: s.quantity,
+      costBasis: s.costBasis,
+      marketValue: s.marketValue,
+      realizedPnl: s.realizedPnl,
+      unrealizedPnl,
+      income: s.income,
+      fees: s.fees,
+      totalPnl: s.realizedPnl + unrealizedPnl + s.income - s.fees,
+      contribution: s.contribution,
+    };
+  });
+
+  const realizedPnl = symbolResults.reduce((sum, s) => sum + s.realizedPnl, 0);
+  const unrealizedPnl = symbolResults.reduce((sum, s) => sum + s.unrealizedPnl, 0);
+  const income = symbolResults.reduce((sum, s) => sum + s.income, 0);
+  const fees = symbolResults.reduce((sum, s) => sum + s.fees, 0);
+  const twr = twrIndex - 1;
+  const spanDays = (dateToTime(asOf) - dateToTime(startDate)) / DAY_MS;
+
+  return {
+    startDate,
+    endDate: asOf,
+    twr,
+    annualizedTwr: spanDays >= 365 ? Math.pow(twrIndex, 365 / spanDays) - 1 : null,
+    xirr: xirr(cashFlows),
+    realizedPnl,
+    unrealizedPnl,
+    income,
+    fees,
+    totalPnl: realizedPnl + unrealizedPnl + income - fees,
+    marketValue: last.marketValue,
+    costBasis: last.costBasis,
+    symbols: symbolResults,
+    series,
+  };
+};
@@ -0,0 +1,186 @@
+// Portfolio-level risk aggregation from per-symbol ivol, predicted_beta and daily closes
+
+import { PriceHistory } from '../types/portfolio';
+
+export interface RiskHolding {
+  symbol: string;
+  value: number;
+  ivol: number | null; // annualized idiosyncratic volatility, in percent
+  beta: number | null;
+  reportedRiskContribution: number | null; // risk_contribution as published by the ranks endpoints, in percent
+}
+
+export interface RiskContributionRow {
+  symbol: string;
+  weight: number; // fraction of portfolio value
+  beta: number | null;
+  ivol: number | null;
+  marginalRisk: number | null; // d(portfolio vol) / d(weight), annualized fraction
+  riskShare: number | null; // share of portfolio variance, as a fraction
+  reportedRiskContribution: number | null;
+  concentrated: boolean;
+}
+
+export interface PortfolioRiskSummary {
+  totalValue: number;
+  beta: number | null;
+  volatility: number | null; // annualized, fraction
+  systematicShare: number | null; // fraction of variance explained by the market factor
+  coverage: number; // fraction of portfolio value with both beta and ivol
+  rows: RiskContributionRow[];
+  concentrated: RiskContributionRow[];
+}
+
+export interface HistoricalVaR {
+  confidence: number;
+  observations: number;
+  startDate: string | null;
+  endDate: string | null;
+  var: number | null; // one-day loss as a positive fraction
+  cvar: number | null; // mean loss beyond VaR, positive fraction
+  realizedVolatility: number | null; // annualized, fraction
+}
+
+/**
+ * Aggregates per-symbol beta and idiosyncratic volatility under a single-factor model:
+ * portfolio variance = (Σ wβ)² σm² + Σ w² ivol². Each holding's share of that variance is
+ * its risk contribution; holdings above `concentrationThreshold` are flagged.
+ * Holdings missing beta or ivol are left out of the model and reported through `coverage`.
+ * @param holdings - Market value and risk inputs per symbol
+ * @param marketVolatility - Annualized market volatility, as a fraction (e.g. 0.16)
+ * @param concentrationThreshold - Risk share above which a holding is flagged, as a fraction
+ */
+export const computePortfolioRisk = (
+  holdings: RiskHolding[],
+  marketVolatility: number,
+  concentrationThreshold: number
+): PortfolioRiskSummary => {
+  const totalValue = holdings.reduce((sum, h) => sum + Math.max(h.value, 0), 0);
+  const weightOf = (h: RiskHolding) => (totalValue > 0 ? Math.max(h.value, 0) / totalValue : 0);
+
+  const modeled = holdings.filter(h => h.beta !== null && h.ivol !== null && h.value > 0);
+  const coverage = modeled.reduce((sum, h) => sum + weightOf(h), 0);
+
+  // Renormalize so the model describes the covered part of the portfolio
+  const modelWeight = (h: RiskHolding) => (coverage > 0 ? weightOf(h) / coverage : 0);
+  const marketVariance = marketVolatility * marketVolatility;
+
+  const beta = coverage > 0 ? modeled.reduce((sum, h) => sum + modelWeight(h) * (h.beta as number), 0) : null;
+  const systematicVariance = beta !== null ? beta * beta * marketVariance : 0;
+  const idiosyncraticVariance = modeled.reduce((sum, h) => {
+    const w = modelWeight(h);
+    const ivol = (h.ivol as number) / 100;
+    return sum + w * w * ivol * ivol;
+  }, 0);
+  const variance = systematicVariance + idiosyncraticVariance;
+  const volatility = coverage > 0 ? Math.sqrt(variance) : null;
+
+  const rows: RiskContributionRow[] = holdings.map(h => {
+    const isModeled = beta !== null && volatility !== null && volatility > 0 && h.beta !== null && h.ivol !== null && h.value > 0;
+    let marginalRisk: number | null = null;
+    let riskShare: number | null = null;
+
+    if (isModeled) {
+      const w = modelWeight(h);
+      const ivol = (h.ivol as number) / 100;
+      // Covariance of the holding with the portfolio under the factor model
+      const covariance = (h.beta as number) * (beta as number) * marketVariance + w * ivol * ivol;
+      marginalRisk = covariance / (volatility as number);
+      riskShare = (w * covariance) / variance;
+    }
+
+    return {
+      symbol: h.symbol,
+      weight: weightOf(h),
+      beta: h.beta,
+      ivol: h.ivol,
+      marginalRisk,
+      riskShare,
+      reportedRiskContribution: h.reportedRiskContribution,
+      concentrated: riskShare !== null && riskShare > concentrationThreshold,
+    };
+  });
+
+  return {
+    totalValue,
+    beta,
+    volatility,
+    systematicShare: variance > 0 ? systematicVariance / variance : null,
+    coverage,
+    rows,
+    concentrated: rows.filter(r => r.concentrated),
+  };
+};
+
+/**
+ * Builds daily returns of the current holdings held at constant weights. On days where a
+ * symbol has no return (missing close), the remaining weights are rescaled.
+ * @param weights - Current weight per symbol, as a fraction
+ * @param prices - Daily closes per symbol
+ * @returns Portfolio returns in date order, keyed by the later of the two closes
+ */
+export const computeWeightedDailyReturns = (
+  weights: Record<string, number>,
+  prices: PriceHistory
+): Array<{ date: string; value: number }> => {
+  const returnsByDate = new Map<string, { sum: number; weight: number }>();
+
+  Object.entries(weights).forEach(([symbol, weight]) => {
+    const closes = prices[symbol] || [];
+    if (weight <= 0) return;
+    for (let i = 1; i < closes.length; i++) {
+      const prev = closes[i - 1].close;
+      if (prev <= 0) continue;
+      const entry = returnsByDate.get(closes[i].date) || { sum: 0, weight: 0 };
+      entry.sum += weight * (closes[i].close / prev - 1);
+      entry.weight += weight;
+      returnsByDate.set(closes[i].date, entry);
+    }
+  });
+
+  const totalWeight = Object.values(weights).reduce((sum, w) => sum + Math.max(w, 0), 0);
+
+  return Array.from(returnsByDate.entries())
+    // Skip days where less than half of the portfolio has a price
+    .filter(([, entry]) => totalWeight > 0 && entry.weight >= totalWeight / 2)
+    .map(([date, entry]) => ({ date, value: entry.sum / entry.weight }))
+    .sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+};
+
+/**
+ * Historical one-day value at risk and expected shortfall
+ * @param returns - Daily portfolio returns in date order
+ * @param confidence - Confidence level, e.g. 0.95
+ * @param periodsPerYear - 252 for stocks, 365 for crypto; used for realized volatility
+ */
+export const computeHistoricalVaR = (
+  returns: Array<{ date: string; value: number }>,
+  confidence: number,
+  periodsPerYear: number
+): HistoricalVaR => {
+  const n = returns.length;
+  const result: HistoricalVaR = {
+    confidence,
+    observations: n,
+    startDate: n > 0 ? returns[0].date : null,
+    endDate: n > 0 ? returns[n - 1].date : null,
+    var: null,
+    cvar: null,
+    realizedVolatility: null,
+  };
+  if (n < 2) return result;
+
+  const values = returns.map(r => r.value);
+  const mean = values.reduce((sum, v) => sum + v, 0) / n;
+  const variance = values.reduce((sum, v) => sum + (v - mean) * (v - mean), 0) / (n - 1);
+  result.realizedVolatility = Math.sqrt(variance * periodsPerYear);
+
+  // The tail holds the worst (1 - confidence) share of days, at least one observation
+  const sorted = [...values].sort((a, b) => a - b);
+  const tailSize = Math.max(1, Math.floor(n * (1 - confidence)));
+  const tail = sorted.slice(0, tailSize);
+  result.var = Math.max(0, -tail[tail.length - 1]);
+  result.cvar = Math.max(0, -tail.reduce((sum, v) => sum + v, 0) / tail.length);
+
+  return result;
+};
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { assignDeciles, buildRankStudy, RankObservation, spearmanCorrelation, toRankObservations } from './rankStudy';
+
+describe('spearmanCorrelation', () => {
+  it('correlates ranks, ties sharing the average position', () => {
+    // Ranks of the second series are 1, 2, 3.5, 5, 3.5: 8 / sqrt(10 * 9.5)
+    expect(spearmanCorrelation([1, 2, 3, 4, 5], [5, 6, 7, 8, 7])).toBeCloseTo(8 / Math.sqrt(95), 10);
+    expect(spearmanCorrelation([1, 2, 3], [30, 20, 10])).toBeCloseTo(-1, 10);
+    expect(spearmanCorrelation([1, 10, 100], [1, 2, 3])).toBeCloseTo(1, 10);
+  });
+
+  it('is null with fewer than 3 pairs or a constant side', () => {
+    expect(spearmanCorrelation([1, 2], [1, 2])).toBeNull();
+    expect(spearmanCorrelation([1, 2, 3], [4, 4, 4])).toBeNull();
+    expect(spearmanCorrelation([1, 2, 3], [1, 2])).toBeNull();
+  });
+});
+
+describe('assignDeciles', () => {
+  it('buckets by percentile and keeps ties together', () => {
+    expect(assignDeciles([10, 20, 30, 40], 2)).toEqual([1, 1, 2, 2]);
+    expect(assignDeciles([5, 5, 5, 1], 2)).toEqual([2, 2, 2, 1]);
+    expect(assignDeciles([10, 9, 8, 7, 6, 5, 4, 3, 2, 1])).toEqual([10, 9, 8, 7, 6, 5, 4, 3, 2, 1]);
+  });
+});
+
+describe('toRankObservations', () => {
+  it('measures forward returns over trading days and skips days without a rank', () => {
+    const observations = toRankObservations('AAPL', [
+      { date: '2024-01-03', rankFundamental: 20, rankTechnical: null, close: 110 },
+      { date: '2024-01-01', rankFundamental: 10, rankTechnical: null, close: 100 },
+      { date: '2024-01-02', rankFundamental: 15, rankTechnical: null, close: null },
+      { date: '2024-01-04', rankFundamental: null, rankTechnical: null, close: 121 },
+    ], 'rankFundamental', [1, 2]);
+    expect(observations.map(o => [o.date, o.rank, o.forwardReturns[1], o.forwardReturns[2]])).toEqual([
+      ['2024-01-01', 10, expect.closeTo(0.1, 10), expect.closeTo(0.21, 10)],
+      ['2024-01-03', 20, expect.closeTo(0.1, 10), null],
+    ]);
+  });
+});
+
+describe('buildRankStudy', () => {
+  const observation = (symbol: string, date: string, rank: number, forward: number | null): RankObservation => ({
+    symbol,
+    date,
+    rank,
+    forwardReturns: { 1: forward },
+  });
+  // Returns rise with the rank in January; one February row has no forward return yet
+  const study = buildRankStudy([
+    observation('A', '2024-01-02', 1, -0.1),
+    observation('A', '2024-01-03', 2, -0.05),
+    observation('A', '2024-01-04', 3, 0),
+    observation('A', '2024-01-05', 4, 0.05),
+    observation('A', '2024-01-08', 5, 0.1),
+    observation('B', '2024-02-01', 3, null),
+  ], [1], 2);
+
+  it('splits the ranks into deciles and averages the known returns of each', () => {
+    expect(study.symbols).toBe(2);
+    expect(study.observations).toBe(6);
+    expect(study.medianRank).toBe(3);
+    expect(study.deciles.map(d => [d.decile, d.minRank, d.maxRank, d.count])).toEqual([
+      [1, 1, 2, 2],
+      [2, 3, 5, 4],
+    ]);
+    expect(study.deciles[0].averageReturn[1]).toBeCloseTo(-0.075, 10);
+    expect(study.deciles[0].positiveRate[1]).toBe(0);
+    expect(study.deciles[1].averageReturn[1]).toBeCloseTo(0.05, 10);
+    expect(study.deciles[1].positiveRate[1]).toBeCloseTo(2 / 3, 10);
+  });
+
+  it('reports IC, hit rate and the top-minus-bottom spread per horizon and month', () => {
+    const [summary] = study.horizons;
+    expect(summary.observations).toBe(5);
+    expect(summary.ic).toBeCloseTo(1, 10);
+    // The rank at the median makes no call
+    expect(summary.hitRate).toBe(1);
+    expect(summary.spread).toBeCloseTo(0.125, 10);
+    expect(summary.periods).toEqual([{ period: '2024-01', count: 5, ic: expect.closeTo(1, 10), hitRate: 1 }]);
+  });
+
+  it('leaves months with too few observations without IC and hit rate', () => {
+    const sparse = buildRankStudy([
+      observation('A', '2024-01-02', 1, -0.1),
+      observation('A', '2024-01-03', 2, 0.1),
+      observation('A', '2024-01-04', 3, 0.2),
+    ], [1], 2);
+    expect(sparse.horizons[0].periods).toEqual([{ period: '2024-01', count: 3, ic: null, hitRate: null }]);
+    expect(sparse.horizons[0].ic).toBeCloseTo(1, 10);
+  });
+});
@@ -0,0 +1,240 @@
+// Rank-vs-forward-return study: buckets historical ranks into deciles and measures the
+// forward returns that followed, with hit rate and information coefficient per month
+
+import { RankHistoryPoint } from '../types/marketData';
+
+export const STUDY_HORIZONS = [5, 20, 60];
+
+export const DECILE_COUNT = 10;
+
+// Fewest observations a month needs before its IC and hit rate are reported
+export const MIN_PERIOD_OBSERVATIONS = 5;
+
+export type RankStudyMetric = 'rankFundamental' | 'rankTechnical';
+
+export interface RankObservation {
+  symbol: string;
+  date: string;
+  rank: number;
+  forwardReturns: Record<number, number | null>; // by horizon in trading days, as fractions
+}
+
+export interface DecileStat {
+  decile: number; // 1 holds the lowest ranks, DECILE_COUNT the highest
+  minRank: number;
+  maxRank: number;
+  count: number;
+  averageReturn: Record<number, number | null>;
+  positiveRate: Record<number, number | null>; // share of forward returns above 0
+}
+
+export interface PeriodStat {
+  period: string; // YYYY-MM
+  count: number;
+  ic: number | null;
+  hitRate: number | null;
+}
+
+export interface HorizonSummary {
+  horizon: number;
+  observations: number;
+  ic: number | null; // Spearman correlation of rank and forward return over every observation
+  hitRate: number | null;
+  spread: number | null; // average return of the top decile minus that of the bottom one
+  periods: PeriodStat[];
+}
+
+export interface RankStudy {
+  symbols: number;
+  observations: number;
+  medianRank: number | null;
+  deciles: DecileStat[];
+  horizons: HorizonSummary[];
+}
+
+/**
+ * Observations of one ticker: each day with a rank and a close, with the return from that
+ * close to the one `horizon` trading days later. Days without a close are not trading days.
+ */
+export const toRankObservations = (
+  symbol: string,
+  history: RankHistoryPoint[],
+  metric: RankStudyMetric,
+  horizons: number[] = STUDY_HORIZONS
+): RankObservation[] => {
+  const days = [...history]
+    .filter((point): point is RankHistoryPoint & { close: number } => point.close !== null && point.close > 0)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const observations: RankObservation[] = [];
+  days.forEach((point, i) => {
+    const rank = point[metric];
+    if (rank === null) return;
+
+    const forwardReturns: Record<number, number | null> = {};
+    horizons.forEach((horizon) => {
+      const later = days[i + horizon];
+      forwardReturns[horizon] = later ? later.close / point.close - 1 : null;
+    });
+    observations.push({ symbol, date: point.date, rank, forwardReturns });
+  });
+  return observations;
+};
+
+/**
+ * Ranks of values from 1 to n, ties sharing the average of the positions they span
+ */
+const fractionalRanks = (values: number[]): number[] => {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length);
+
+  let start = 0;
+  while (start < order.length) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) end++;
+    const averagePosition = (start + end) / 2 + 1;
+    for (let k = start; k <= end; k++) ranks[order[k].index] = averagePosition;
+    start = end + 1;
+  }
+  return ranks;
+};
+
+/**
+ * Spearman rank correlation
+ * @returns null with fewer than 3 pairs or when either side is constant
+ */
+export const spearmanCorrelation = (xs: number[], ys: number[]): number | null => {
+  if (xs.length !== ys.length || xs.length < 3) return null;
+
+  const rx = fractionalRanks(xs);
+  const ry = fractionalRanks(ys);
+  const mean = (xs.length + 1) / 2;
+
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < rx.length; i++) {
+    covariance += (rx[i] - mean) * (ry[i] - mean);
+    varianceX += (rx[i] - mean) ** 2;
+    varianceY += (ry[i] - mean) ** 2;
+  }
+  if (varianceX === 0 || varianceY === 0) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+};
+
+/**
+ * Decile of each value by its percentile among all of them, from 1 to `count`. Equal values
+ * always land in the same decile.
+ */
+export const assignDeciles = (values: number[], count: number = DECILE_COUNT): number[] => {
+  const ranks = fractionalRanks(values);
+  return ranks.map(rank => Math.min(count, Math.floor(((rank - 0.5) / values.length) * count) + 1));
+};
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+/**
+ * Share of calls that were right: a rank above the median calls for a rise and one below it
+ * for a fall. Ranks equal to the median make no call.
+ */
+const hitRateOf = (pairs: Array<{ rank: number; forward: number }>, medianRank: number): number | null => {
+  const calls = pairs.filter(pair => pair.rank !== medianRank);
+  if (calls.length === 0) return null;
+  const hits = calls.filter(pair => (pair.rank > medianRank ? pair.forward > 0 : pair.forward < 0)).length;
+  return hits / calls.length;
+};
+
+/**
+ * Runs the study over observations pooled from one or several tickers. Forward returns of
+ * consecutive days overlap, so the monthly figures are not independent samples.
+ */
+export const buildRankStudy = (
+  observations: RankObservation[],
+  horizons: number[] = STUDY_HORIZONS,
+  decileCount: number = DECILE_COUNT
+): RankStudy => {
+  const medianRank = median(observations.map(o => o.rank));
+  const decileOf = assignDeciles(observations.map(o => o.rank), decileCount);
+
+  const deciles: DecileStat[] = [];
+  for (let decile = 1; decile <= decileCount; decile++) {
+    const members = observations.filter((_, i) => decileOf[i] === decile);
+    if (members.length === 0) continue;
+
+    const averageReturn: Record<number, number | null> = {};
+    const positiveRate: Record<number, number | null> = {};
+    horizons.forEach((horizon) => {
+      const returns = members
+        .map(m => m.forwardReturns[horizon])
+        .filter((value): value is number => value !== null && value !== undefined);
+      averageReturn[horizon] = average(returns);
+      positiveRate[horizon] = returns.length > 0 ? returns.filter(value => value > 0).length / returns.length : null;
+    });
+
+    deciles.push({
+      decile,
+      minRank: members.reduce((min, m) => Math.min(min, m.rank), Infinity),
+      maxRank: members.reduce((max, m) => Math.max(max, m.rank), -Infinity),
+      count: members.length,
+      averageReturn,
+      positiveRate,
+    });
+  }
+
+  const horizonSummaries = horizons.map((horizon): HorizonSummary => {
+    const pairs = observations
+      .filter(o => o.forwardReturns[horizon] !== null && o.forwardReturns[horizon] !== undefined)
+      .map(o => ({ date: o.date, rank: o.rank, forward: o.forwardReturns[horizon] as number }));
+
+    const byPeriod = new Map<string, typeof pairs>();
+    pairs.forEach((pair) => {
+      const period = pair.date.slice(0, 7);
+      const members = byPeriod.get(period);
+      if (members) {
+        members.push(pair);
+      } else {
+        byPeriod.set(period, [pair]);
+      }
+    });
+
+    const periods = Array.from(byPeriod.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([period, members]): PeriodStat => {
+        const enough = members.length >= MIN_PERIOD_OBSERVATIONS;
+        return {
+          period,
+          count: members.length,
+          ic: enough ? spearmanCorrelation(members.map(m => m.rank), members.map(m => m.forward)) : null,
+          hitRate: enough && medianRank !== null ? hitRateOf(members, medianRank) : null,
+        };
+      });
+
+    const top = deciles[deciles.length - 1]?.averageReturn[horizon] ?? null;
+    const bottom = deciles[0]?.averageReturn[horizon] ?? null;
+
+    return {
+      horizon,
+      observations: pairs.length,
+      ic: spearmanCorrelation(pairs.map(p => p.rank), pairs.map(p => p.forward)),
+      hitRate: medianRank !== null ? hitRateOf(pairs, medianRank) : null,
+      spread: deciles.length > 1 && top !== null && bottom !== null ? top - bottom : null,
+      periods,
+    };
+  });
+
+  return {
+    symbols: new Set(observations.map(o => o.symbol)).size,
+    observations: observations.length,
+    medianRank,
+    deciles,
+    horizons: horizonSummaries,
+  };
+};
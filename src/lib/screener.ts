@@ -0,0 +1,263 @@
+// Screener filters over watchlist and ranks rows, e.g. "rankTechnical > 80 AND ivol < 0.4"
+
+import { CryptoRankData, LatestPriceData, RanksData, ReturnPeriod } from '../types/marketData';
+
+export type ScreenerAssetType = 'crypto' | 'stocks';
+
+export type ScreenerOperator = '>' | '>=' | '<' | '<=' | '=' | '!=' | 'contains';
+
+export type ScreenerJoin = 'AND' | 'OR';
+
+export interface ScreenerCondition {
+  join: ScreenerJoin; // how the condition combines with the previous one; ignored on the first
+  field: string;
+  operator: ScreenerOperator;
+  value: string;
+}
+
+export interface ScreenerField {
+  key: string;
+  label: string;
+  assetTypes: ScreenerAssetType[];
+}
+
+// Values a screen is evaluated against, keyed by field
+export type ScreenerRow = Record<string, string | number | boolean | null>;
+
+export interface SavedScreen {
+  id: string;
+  name: string;
+  assetType: ScreenerAssetType;
+  expression: string;
+}
+
+// Longest operators first so ">=" is not read as ">"
+export const SCREENER_OPERATORS: ScreenerOperator[] = ['>=', '<=', '!=', '>', '<', '=', 'contains'];
+
+const RETURN_PERIODS: ReturnPeriod[] = ['1d', '7d', '30d', '60d', '90d', '120d'];
+
+const BOTH: ScreenerAssetType[] = ['crypto', 'stocks'];
+
+export const SCREENER_FIELDS: ScreenerField[] = [
+  { key: 'price', label: 'Latest price', assetTypes: BOTH },
+  ...RETURN_PERIODS.map(period => ({ key: `return_${period}`, label: `${period} return (%)`, assetTypes: BOTH })),
+  { key: 'rankFundamental', label: 'Fundamental rank', assetTypes: ['stocks'] },
+  { key: 'rankTechnical', label: 'Technical rank', assetTypes: ['stocks'] },
+  { key: 'mcap', label: 'Market cap', assetTypes: ['stocks'] },
+  { key: 'sector', label: 'Sector', assetTypes: ['stocks'] },
+  { key: 'industry', label: 'Industry', assetTypes: ['stocks'] },
+  { key: 'tag', label: 'Tag', assetTypes: ['stocks'] },
+  { key: 'isADR', label: 'ADR', assetTypes: ['stocks'] },
+  { key: 'isActive', label: 'Active', assetTypes: ['stocks'] },
+  { key: 'td__Support', label: 'Support', assetTypes: ['stocks'] },
+  { key: 'td__Resistance', label: 'Resistance', assetTypes: ['stocks'] },
+  { key: 'tec_riskRangeLow', label: 'Risk range low', assetTypes: ['stocks'] },
+  { key: 'tec_riskRangeHigh', label: 'Risk range high', assetTypes: ['stocks'] },
+  { key: 'crypto_ranks', label: 'Crypto rank', assetTypes: ['crypto'] },
+  { key: 'lppl_side', label: 'LPPL side', assetTypes: ['crypto'] },
+  { key: 'lppl_pos_conf', label: 'LPPL pos conf', assetTypes: ['crypto'] },
+  { key: 'lppl_neg_conf', label: 'LPPL neg conf', assetTypes: ['crypto'] },
+  { key: 'strategy_side', label: 'Strategy side', assetTypes: ['crypto'] },
+  { key: 'strategy_profit_per_trade', label: 'Strategy profit/trade', assetTypes: ['crypto'] },
+  { key: 'strategy_expectancy', label: 'Strategy expectancy', assetTypes: ['crypto'] },
+  { key: 'strategy_profit_factor', label: 'Strategy profit factor', assetTypes: ['crypto'] },
+  { key: 'volume', label: 'Volume', assetTypes: ['crypto'] },
+  { key: 'ivol', label: 'IVol', assetTypes: BOTH },
+  { key: 'predicted_beta', label: 'Beta', assetTypes: BOTH },
+  { key: 'risk_contribution', label: 'Risk contribution', assetTypes: BOTH },
+  { key: 'ai_sentiment', label: 'AI sentiment', assetTypes: BOTH },
+  { key: 'ai_decision', label: 'AI decision', assetTypes: BOTH },
+];
+
+/**
+ * Fields that can be screened for an asset type
+ */
+export const screenerFieldsFor = (assetType: ScreenerAssetType): ScreenerField[] =>
+  SCREENER_FIELDS.filter(field => field.assetTypes.includes(assetType));
+
+const returnFields = (latest: LatestPriceData | undefined): ScreenerRow => {
+  const row: ScreenerRow = { price: latest?.latestPrice ?? null };
+  RETURN_PERIODS.forEach((period) => {
+    row[`return_${period}`] = latest?.returns[period] ?? null;
+  });
+  return row;
+};
+
+/**
+ * Screener row of a stock from its ranks row and latest price
+ */
+export const toStockScreenerRow = (ranks: RanksData | undefined, latest: LatestPriceData | undefined): ScreenerRow => ({
+  ...returnFields(latest),
+  rankFundamental: ranks?.rankFundamental ?? null,
+  rankTechnical: ranks?.rankTechnical ?? null,
+  mcap: ranks?.mcap ?? null,
+  sector: ranks?.sector ?? null,
+  industry: ranks?.industry ?? null,
+  tag: ranks?.tag || null,
+  isADR: ranks ? ranks.isADR : null,
+  isActive: ranks ? ranks.isActive : null,
+  td__Support: ranks?.td__Support ?? null,
+  td__Resistance: ranks?.td__Resistance ?? null,
+  tec_riskRangeLow: ranks?.tec_riskRangeLow ?? null,
+  tec_riskRangeHigh: ranks?.tec_riskRangeHigh ?? null,
+  ivol: ranks?.ivol ?? null,
+  predicted_beta: ranks?.predicted_beta ?? null,
+  risk_contribution: ranks?.risk_contribution ?? null,
+  ai_sentiment: ranks?.ai_sentiment ?? null,
+  ai_decision: ranks?.ai_decision ?? null,
+});
+
+/**
+ * Screener row of a coin from its merged crypto ranks and latest price. Without a latest
+ * quote the price falls back to the close of the ranks row.
+ */
+export const toCryptoScreenerRow = (ranks: CryptoRankData | undefined, latest: LatestPriceData | undefined): ScreenerRow => ({
+  ...returnFields(latest),
+  price: latest?.latestPrice ?? ranks?.close ?? null,
+  crypto_ranks: ranks?.crypto_ranks ?? null,
+  lppl_side: ranks?.lppl_side ?? null,
+  lppl_pos_conf: ranks?.lppl_pos_conf ?? null,
+  lppl_neg_conf: ranks?.lppl_neg_conf ?? null,
+  strategy_side: ranks?.strategy_side ?? null,
+  strategy_profit_per_trade: ranks?.strategy_profit_per_trade ?? null,
+  strategy_expectancy: ranks?.strategy_expectancy ?? null,
+  strategy_profit_factor: ranks?.strategy_profit_factor ?? null,
+  volume: ranks?.volume ?? null,
+  ivol: ranks?.ivol ?? null,
+  predicted_beta: ranks?.predicted_beta ?? null,
+  risk_contribution: ranks?.risk_contribution ?? null,
+  ai_sentiment: ranks?.ai_sentiment ?? null,
+  ai_decision: ranks?.ai_decision ?? null,
+});
+
+const toNumber = (value: string | number | boolean): number | null => {
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string' && value.trim() === '') return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+};
+
+const compare = (left: number, right: number, operator: ScreenerOperator): boolean => {
+  switch (operator) {
+    case '>': return left > right;
+    case '>=': return left >= right;
+    case '<': return left < right;
+    case '<=': return left <= right;
+    case '=': return left === right;
+    case '!=': return left !== right;
+    case 'contains': return false;
+  }
+};
+
+/**
+ * Checks one condition. Values are compared as numbers when both sides are numeric and as
+ * case-insensitive text otherwise; a row without the field never matches.
+ */
+export const matchesCondition = (row: ScreenerRow, condition: ScreenerCondition): boolean => {
+  const actual = row[condition.field];
+  if (actual === null || actual === undefined) return false;
+
+  const expected = condition.value.trim();
+  if (typeof actual === 'boolean' && ['true', 'false'].includes(expected.toLowerCase())) {
+    const flag = expected.toLowerCase() === 'true';
+    return condition.operator === '!=' ? actual !== flag : condition.operator === '=' && actual === flag;
+  }
+
+  const left = toNumber(actual);
+  const right = toNumber(expected);
+  if (condition.operator !== 'contains' && left !== null && right !== null) {
+    return compare(left, right, condition.operator);
+  }
+
+  const text = String(actual).toLowerCase();
+  const target = expected.toLowerCase();
+  switch (condition.operator) {
+    case '=': return text === target;
+    case '!=': return text !== target;
+    case 'contains': return text.includes(target);
+    default: return compare(text.localeCompare(target), 0, condition.operator);
+  }
+};
+
+/**
+ * Evaluates a screen with AND binding tighter than OR, so "a AND b OR c" reads "(a AND b) OR c"
+ * @returns true for an empty screen
+ */
+export const matchesScreen = (row: ScreenerRow, conditions: ScreenerCondition[]): boolean => {
+  if (conditions.length === 0) return true;
+
+  const groups: ScreenerCondition[][] = [];
+  conditions.forEach((condition, index) => {
+    if (index === 0 || condition.join === 'OR') {
+      groups.push([condition]);
+    } else {
+      groups[groups.length - 1].push(condition);
+    }
+  });
+
+  return groups.some(group => group.every(condition => matchesCondition(row, condition)));
+};
+
+/**
+ * Parses a screen written as conditions joined by AND / OR, e.g.
+ * "rankTechnical > 80 AND ivol < 0.4 OR sector contains tech". Field names are matched
+ * case-insensitively against the fields of the asset type.
+ * @returns The conditions, or an error describing the first part that could not be read
+ */
+export const parseScreenerExpression = (
+  expression: string,
+  assetType: ScreenerAssetType
+): { conditions: ScreenerCondition[]; error: string | null } => {
+  const trimmed = expression.trim();
+  if (!trimmed) return { conditions: [], error: null };
+
+  const fields = screenerFieldsFor(assetType);
+  // Joins inside quoted values, e.g. sector = "Oil and Gas", are left alone
+  const parts = trimmed.split(/\s+(AND|OR)\s+(?=(?:[^"]*"[^"]*")*[^"]*$)/i);
+  const conditions: ScreenerCondition[] = [];
+
+  for (let i = 0; i < parts.length; i += 2) {
+    const part = parts[i].trim();
+    const join = i === 0 ? 'AND' : (parts[i - 1].toUpperCase() as ScreenerJoin);
+
+    const match = part.match(/^([A-Za-z0-9_]+)\s*(>=|<=|!=|>|<|=|\s+contains\s+)\s*(.+)$/i);
+    if (!match) {
+      return { conditions: [], error: `Cannot read "${part}"; expected e.g. rankTechnical > 80` };
+    }
+
+    const field = fields.find(f => f.key.toLowerCase() === match[1].toLowerCase());
+    if (!field) {
+      return { conditions: [], error: `Unknown ${assetType === 'crypto' ? 'crypto' : 'stock'} field "${match[1]}"` };
+    }
+
+    const operator = match[2].trim().toLowerCase() as ScreenerOperator;
+    const value = match[3].trim().replace(/^(['"])(.*)\1$/, '$2');
+    conditions.push({ join, field: field.key, operator, value });
+  }
+
+  return { conditions, error: null };
+};
+
+/**
+ * Writes conditions back in the form parseScreenerExpression reads
+ */
+export const formatScreenerExpression = (conditions: ScreenerCondition[]): string =>
+  conditions
+    .map((condition, index) => {
+      const clause = `${condition.field} ${condition.operator} ${/\s/.test(condition.value) ? `"${condition.value}"` : condition.value}`;
+      return index === 0 ? clause : `${condition.join} ${clause}`;
+    })
+    .join(' ');
+
+/**
+ * Validates screens read back from storage, dropping malformed entries
+ */
+export const parseStoredScreens = (value: unknown): SavedScreen[] => {
+  if (!Array.isArray(value)) return [];
+  return value.filter((screen): screen is SavedScreen =>
+    typeof screen?.id === 'string' &&
+    typeof screen.name === 'string' &&
+    (screen.assetType === 'crypto' || screen.assetType === 'stocks') &&
+    typeof screen.expression === 'string'
+  );
+};
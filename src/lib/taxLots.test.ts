@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { PortfolioLedger, PortfolioTransactionInput } from '../types/portfolio';
+import {
+  assignLotIds,
+  isLongTerm,
+  matchTaxLots,
+  realizedGainsToCsv,
+  summarizeRealizedGains,
+  withTransactionIds,
+} from './taxLots';
+
+// Three lots of 10 at 100, 150 and 120, then a sale of 15 at 200
+const lots: PortfolioTransactionInput[] = [
+  { id: 'a', date: '2023-01-10', action: 'BUY', quantity: 10, price: 100 },
+  { id: 'b', date: '2023-06-01', action: 'BUY', quantity: 10, price: 150 },
+  { id: 'c', date: '2024-01-05', action: 'BUY', quantity: 10, price: 120 },
+];
+const sale = (overrides: Partial<PortfolioTransactionInput> = {}): PortfolioLedger => ({
+  AAPL: [...lots, { date: '2024-03-01', action: 'SELL', quantity: 15, price: 200, ...overrides }],
+});
+
+const relieved = (ledger: PortfolioLedger, method: Parameters<typeof matchTaxLots>[1]) =>
+  matchTaxLots(ledger, method).realized.map(r => [r.lotId, r.quantity, r.costBasis, r.gain, r.term]);
+
+describe('matchTaxLots', () => {
+  it('relieves the oldest lots first under FIFO', () => {
+    expect(relieved(sale(), 'FIFO')).toEqual([
+      ['a', 10, 1000, 1000, 'long'],
+      ['b', 5, 750, 250, 'short'],
+    ]);
+    expect(matchTaxLots(sale(), 'FIFO').openLots.map(lot => [lot.id, lot.remaining])).toEqual([
+      ['b', 5],
+      ['c', 10],
+    ]);
+  });
+
+  it('relieves the newest lots first under LIFO', () => {
+    expect(relieved(sale(), 'LIFO')).toEqual([
+      ['c', 10, 1200, 800, 'short'],
+      ['b', 5, 750, 250, 'short'],
+    ]);
+  });
+
+  it('relieves the costliest lots first under HIFO', () => {
+    expect(relieved(sale(), 'HIFO')).toEqual([
+      ['b', 10, 1500, 500, 'short'],
+      ['c', 5, 600, 400, 'short'],
+    ]);
+  });
+
+  it('relieves the named lot first and the rest FIFO under specific identification', () => {
+    expect(relieved(sale({ lot_id: 'c' }), 'SPECIFIC')).toEqual([
+      ['c', 10, 1200, 800, 'short'],
+      ['a', 5, 500, 500, 'long'],
+    ]);
+    // Other methods ignore the named lot
+    expect(relieved(sale({ lot_id: 'c' }), 'FIFO')[0][0]).toBe('a');
+  });
+
+  it('reports the quantity no lot covers', () => {
+    const result = matchTaxLots(sale({ quantity: 40 }), 'FIFO');
+    expect(result.openLots).toEqual([]);
+    expect(result.unmatchedSells).toEqual([{ symbol: 'AAPL', date: '2024-03-01', quantity: 10 }]);
+  });
+
+  it('rescales lots on a split and realizes nothing on a transfer out', () => {
+    const result = matchTaxLots({
+      XYZ: [
+        { id: 'x', date: '2023-01-02', action: 'BUY', quantity: 10, price: 100 },
+        { date: '2023-02-01', action: 'SPLIT', quantity: 2, price: 0 },
+        { date: '2023-03-01', action: 'SELL', quantity: 5, price: 60 },
+        { date: '2023-04-01', action: 'TRANSFER_OUT', quantity: 5, price: 70 },
+      ],
+    }, 'FIFO');
+    expect(result.realized.map(r => [r.quantity, r.proceeds, r.costBasis, r.gain])).toEqual([[5, 300, 250, 50]]);
+    expect(result.openLots.map(lot => [lot.quantity, lot.remaining, lot.costPerUnit])).toEqual([[20, 10, 50]]);
+  });
+});
+
+describe('withTransactionIds', () => {
+  it('keeps the date#n id of legacy lot rows unless a saved row already has it', () => {
+    const rows = withTransactionIds([
+      { date: '2024-01-02', action: 'BUY', quantity: 1, price: 10 },
+      { date: '2024-01-02', action: 'BUY', quantity: 2, price: 11 },
+      { date: '2024-01-03', action: 'SELL', quantity: 1, price: 12 },
+      { id: '2024-01-02#2', date: '2024-01-02', action: 'BUY', quantity: 3, price: 12 },
+    ]);
+    expect(rows[0].id).toBe('2024-01-02#1');
+    expect(rows[1].id).not.toBe('2024-01-02#2');
+    expect(rows[2].id).not.toMatch(/#/);
+    expect(rows[3].id).toBe('2024-01-02#2');
+    expect(new Set(rows.map(row => row.id)).size).toBe(4);
+  });
+});
+
+describe('assignLotIds', () => {
+  it('names lot-opening rows by their id or their position that day', () => {
+    expect(assignLotIds([
+      { date: '2024-01-02', action: 'BUY', quantity: 1, price: 10 },
+      { date: '2024-01-02', action: 'SELL', quantity: 1, price: 10 },
+      { id: 'x', date: '2024-01-02', action: 'STAKING_REWARD', quantity: 1, price: 10 },
+      { date: '2024-01-02', action: 'TRANSFER_IN', quantity: 1, price: 10 },
+    ])).toEqual(['2024-01-02#1', null, 'x', '2024-01-02#3']);
+  });
+});
+
+describe('isLongTerm', () => {
+  it('needs more than one year of holding', () => {
+    expect(isLongTerm('2023-01-10', '2024-01-10')).toBe(false);
+    expect(isLongTerm('2023-01-10', '2024-01-11')).toBe(true);
+    expect(isLongTerm('2024-02-29', '2025-02-28')).toBe(false);
+    expect(isLongTerm('2024-02-29', '2025-03-01')).toBe(true);
+  });
+});
+
+describe('realized gains report', () => {
+  const { realized } = matchTaxLots(sale(), 'FIFO');
+
+  it('totals short and long-term gains', () => {
+    expect(summarizeRealizedGains(realized)).toEqual({
+      shortTermGain: 250,
+      longTermGain: 1000,
+      totalGain: 1250,
+      proceeds: 3000,
+      costBasis: 1750,
+    });
+  });
+
+  it('lists short-term rows first', () => {
+    expect(realizedGainsToCsv(realized).split('\n')).toEqual([
+      'Term,Symbol,Lot,Quantity,Date Acquired,Date Sold,Proceeds,Cost Basis,Gain/Loss',
+      'Short-term,AAPL,b,5,2023-06-01,2024-03-01,1000.00,750.00,250.00',
+      'Long-term,AAPL,a,10,2023-01-10,2024-03-01,2000.00,1000.00,1000.00',
+    ]);
+  });
+});
@@ -0,0 +1,269 @@
+// Tax-lot matching of SELL transactions against open lots and realized gains reporting
+
+import { PortfolioLedger, PortfolioTransactionInput } from '../types/portfolio';
+import { toCsv } from './csv';
+import { flattenLedger } from './portfolioPerformance';
+import { isDisposalAction, isLotOpeningAction } from './transactionActions';
+
+export type LotMethod = 'FIFO' | 'LIFO' | 'HIFO' | 'SPECIFIC';
+
+export const LOT_METHOD_LABELS: Record<LotMethod, string> = {
+  FIFO: 'First In, First Out',
+  LIFO: 'Last In, First Out',
+  HIFO: 'Highest Cost, First Out',
+  SPECIFIC: 'Specific Identification',
+};
+
+export interface TaxLot {
+  id: string;
+  symbol: string;
+  acquired: string; // YYYY-MM-DD
+  quantity: number; // original quantity
+  remaining: number;
+  costPerUnit: number;
+}
+
+export interface RealizedGain {
+  symbol: string;
+  lotId: string;
+  acquired: string;
+  sold: string;
+  quantity: number;
+  proceeds: number;
+  costBasis: number;
+  gain: number;
+  term: 'short' | 'long';
+}
+
+export interface TaxLotResult {
+  openLots: TaxLot[];
+  realized: RealizedGain[];
+  unmatchedSells: Array<{ symbol: string; date: string; quantity: number }>;
+}
+
+export interface RealizedGainsSummary {
+  shortTermGain: number;
+  longTermGain: number;
+  totalGain: number;
+  proceeds: number;
+  costBasis: number;
+}
+
+const QUANTITY_EPSILON = 1e-9;
+
+/**
+ * Builds the lot id rows saved before transactions carried an id were named by: the date plus
+ * the row's position among that day's lot-opening rows
+ * @param date - Transaction date (YYYY-MM-DD)
+ * @param sequence - 1-based position among lot-opening rows on that date
+ */
+export const formatLotId = (date: string, sequence: number): string => `${date}#${sequence}`;
+
+/**
+ * New id for a transaction row, saved with it so lots stay named the same when other rows
+ * are reordered or deleted
+ */
+export const createTransactionId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// date#n ids of the lot-opening rows, in ledger order, as they were named before rows carried ids
+const positionalLotIds = (transactions: PortfolioTransactionInput[]): Array<string | null> => {
+  const perDate = new Map<string, number>();
+  return transactions.map((tx) => {
+    if (!isLotOpeningAction(tx.action)) return null;
+    const date = tx.date.slice(0, 10);
+    const sequence = (perDate.get(date) || 0) + 1;
+    perDate.set(date, sequence);
+    return formatLotId(date, sequence);
+  });
+};
+
+/**
+ * Gives rows loaded from the API an id where they have none. Lot-opening rows saved before ids
+ * existed keep the date#n id that specific-ID disposals already name them by; every other row,
+ * or one whose date#n id is taken, gets a new id.
+ * @param transactions - A single symbol's transactions, in ledger order
+ */
+export const withTransactionIds = (transactions: PortfolioTransactionInput[]): PortfolioTransactionInput[] => {
+  const positional = positionalLotIds(transactions);
+  const taken = new Set(transactions.map(tx => tx.id).filter((id): id is string => !!id));
+  return transactions.map((tx, index) => {
+    if (tx.id) return tx;
+    const legacy = positional[index];
+    const id = legacy && !taken.has(legacy) ? legacy : createTransactionId();
+    taken.add(id);
+    return { ...tx, id };
+  });
+};
+
+/**
+ * Lot ids of the lot-opening rows (BUY, TRANSFER_IN, STAKING_REWARD) of a single symbol's
+ * transactions: each row's own id, or its date#n id for a row that has none yet
+ * @returns Lot ids indexed like the input array; other rows map to null
+ */
+export const assignLotIds = (transactions: PortfolioTransactionInput[]): Array<string | null> => {
+  const positional = positionalLotIds(transactions);
+  return transactions.map((tx, index) => (positional[index] ? tx.id || positional[index] : null));
+};
+
+/**
+ * Whether a disposal qualifies as long-term: held for more than one year
+ */
+export const isLongTerm = (acquired: string, sold: string): boolean => {
+  const [year, month, day] = acquired.split('-').map(Number);
+  const anniversary = `${String(year + 1).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  return sold > anniversary;
+};
+
+const orderLots = (lots: TaxLot[], method: LotMethod): TaxLot[] => {
+  const open = lots.filter(lot => lot.remaining > QUANTITY_EPSILON);
+  switch (method) {
+    case 'LIFO':
+      return [...open].reverse();
+    case 'HIFO':
+      return [...open].sort((a, b) => b.costPerUnit - a.costPerUnit);
+    default:
+      // FIFO, and the fallback for specific identification when no lot is named
+      return open;
+  }
+};
+
+/**
+ * Matches every SELL in the ledger against open lots of the same symbol.
+ * Under specific identification a SELL relieves the lot named by its `lot_id` first,
+ * and any remainder (or a SELL without a lot) falls back to FIFO.
+ * Transfers in and staking rewards open lots at their stated price, a split rescales the open
+ * lots, and a transfer out relieves lots like a sale but realizes no gain.
+ * @param ledger - Transactions keyed by symbol
+ * @param method - Lot relief method
+ * @returns Remaining open lots, realized gains per lot relieved, and SELL quantity with no lot to match
+ */
+export const matchTaxLots = (ledger: PortfolioLedger, method: LotMethod): TaxLotResult => {
+  // Rows without an id are named by their position in their own symbol's ledger, so tag rows before flattening
+  const tagged: PortfolioLedger = {};
+  Object.entries(ledger).forEach(([symbol, transactions]) => {
+    const ids = assignLotIds(transactions || []);
+    tagged[symbol] = (transactions || []).map((tx, index) => (ids[index] ? { ...tx, lot_id: ids[index]! } : tx));
+  });
+
+  const lotsBySymbol: Record<string, TaxLot[]> = {};
+  const realized: RealizedGain[] = [];
+  const unmatchedSells: TaxLotResult['unmatchedSells'] = [];
+
+  flattenLedger(tagged).forEach((entry) => {
+    const lots = lotsBySymbol[entry.symbol] || (lotsBySymbol[entry.symbol] = []);
+
+    if (entry.action === 'SPLIT') {
+      lots.forEach((lot) => {
+        lot.quantity *= entry.quantity;
+        lot.remaining *= entry.quantity;
+        lot.costPerUnit /= entry.quantity;
+      });
+      return;
+    }
+
+    if (isLotOpeningAction(entry.action)) {
+      lots.push({
+        id: entry.lot_id || formatLotId(entry.date, lots.length + 1),
+        symbol: entry.symbol,
+        acquired: entry.date,
+        quantity: entry.quantity,
+        remaining: entry.quantity,
+        costPerUnit: entry.price,
+      });
+      return;
+    }
+
+    // Dividends, interest and fees do not touch lots
+    if (!isDisposalAction(entry.action)) return;
+
+    let toSell = entry.quantity;
+    const relieve = (lot: TaxLot) => {
+      const quantity = Math.min(lot.remaining, toSell);
+      if (quantity <= QUANTITY_EPSILON) return;
+      lot.remaining -= quantity;
+      toSell -= quantity;
+      if (entry.action === 'TRANSFER_OUT') return;
+      const proceeds = quantity * entry.price;
+      const costBasis = quantity * lot.costPerUnit;
+      realized.push({
+        symbol: entry.symbol,
+        lotId: lot.id,
+        acquired: lot.acquired,
+        sold: entry.date,
+        quantity,
+        proceeds,
+        costBasis,
+        gain: proceeds - costBasis,
+        term: isLongTerm(lot.acquired, entry.date) ? 'long' : 'short',
+      });
+    };
+
+    if (method === 'SPECIFIC' && entry.lot_id) {
+      const named = lots.find(lot => lot.id === entry.lot_id);
+      if (named) relieve(named);
+    }
+
+    for (const lot of orderLots(lots, method === 'SPECIFIC' ? 'FIFO' : method)) {
+      if (toSell <= QUANTITY_EPSILON) break;
+      relieve(lot);
+    }
+
+    if (toSell > QUANTITY_EPSILON) {
+      unmatchedSells.push({ symbol: entry.symbol, date: entry.date, quantity: toSell });
+    }
+  });
+
+  const openLots = Object.values(lotsBySymbol)
+    .flat()
+    .filter(lot => lot.remaining > QUANTITY_EPSILON);
+
+  return { openLots, realized, unmatchedSells };
+};
+
+/**
+ * Lists the tax years that have realized gains, most recent first
+ */
+export const getTaxYears = (realized: RealizedGain[]): number[] =>
+  Array.from(new Set(realized.map(r => Number(r.sold.slice(0, 4))))).sort((a, b) => b - a);
+
+/**
+ * Filters realized gains to disposals within a tax year
+ */
+export const filterByTaxYear = (realized: RealizedGain[], taxYear: number | null): RealizedGain[] =>
+  taxYear === null ? realized : realized.filter(r => Number(r.sold.slice(0, 4)) === taxYear);
+
+/**
+ * Totals realized gains split into short-term and long-term
+ */
+export const summarizeRealizedGains = (realized: RealizedGain[]): RealizedGainsSummary =>
+  realized.reduce<RealizedGainsSummary>((summary, r) => ({
+    shortTermGain: summary.shortTermGain + (r.term === 'short' ? r.gain : 0),
+    longTermGain: summary.longTermGain + (r.term === 'long' ? r.gain : 0),
+    totalGain: summary.totalGain + r.gain,
+    proceeds: summary.proceeds + r.proceeds,
+    costBasis: summary.costBasis + r.costBasis,
+  }), { shortTermGain: 0, longTermGain: 0, totalGain: 0, proceeds: 0, costBasis: 0 });
+
+/**
+ * Serializes realized gains as a Form 8949 style CSV, short-term rows first
+ */
+export const realizedGainsToCsv = (realized: RealizedGain[]): string => {
+  const sorted = [...realized].sort((a, b) =>
+    a.term !== b.term ? (a.term === 'short' ? -1 : 1) : a.sold.localeCompare(b.sold) || a.symbol.localeCompare(b.symbol)
+  );
+
+  return toCsv([
+    ['Term', 'Symbol', 'Lot', 'Quantity', 'Date Acquired', 'Date Sold', 'Proceeds', 'Cost Basis', 'Gain/Loss'],
+    ...sorted.map(r => [
+      r.term === 'short' ? 'Short-term' : 'Long-term',
+      r.symbol,
+      r.lotId,
+      r.quantity,
+      r.acquired,
+      r.sold,
+      r.proceeds.toFixed(2),
+      r.costBasis.toFixed(2),
+      r.gain.toFixed(2),
+    ]),
+  ]);
+};
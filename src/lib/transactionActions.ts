@@ -0,0 +1,74 @@
+// Ledger action metadata shared by the transaction editor, performance engine and tax lots
+
+import { PortfolioTransactionInput, TransactionAction } from '../types/portfolio';
+
+export const TRANSACTION_ACTIONS: TransactionAction[] = [
+  'BUY',
+  'SELL',
+  'DIVIDEND',
+  'INTEREST',
+  'STAKING_REWARD',
+  'FEE',
+  'SPLIT',
+  'TRANSFER_IN',
+  'TRANSFER_OUT',
+];
+
+export const TRANSACTION_ACTION_LABELS: Record<TransactionAction, string> = {
+  BUY: 'Buy',
+  SELL: 'Sell',
+  DIVIDEND: 'Dividend',
+  INTEREST: 'Interest',
+  STAKING_REWARD: 'Staking Reward',
+  FEE: 'Fee',
+  SPLIT: 'Split',
+  TRANSFER_IN: 'Transfer In',
+  TRANSFER_OUT: 'Transfer Out',
+};
+
+// Same-day processing order: splits apply to the position held at the open, acquisitions
+// come before income and disposals so a buy and a sell on one day match each other
+const ACTION_ORDER: Record<TransactionAction, number> = {
+  SPLIT: 0,
+  BUY: 1,
+  TRANSFER_IN: 2,
+  STAKING_REWARD: 3,
+  DIVIDEND: 4,
+  INTEREST: 5,
+  FEE: 6,
+  SELL: 7,
+  TRANSFER_OUT: 8,
+};
+
+/**
+ * Compares two actions by their same-day processing order
+ */
+export const compareActions = (a: TransactionAction, b: TransactionAction): number => ACTION_ORDER[a] - ACTION_ORDER[b];
+
+/**
+ * Whether the action carries a cash `amount` instead of quantity and price
+ */
+export const isCashAction = (action: TransactionAction): boolean =>
+  action === 'DIVIDEND' || action === 'INTEREST' || action === 'FEE';
+
+/**
+ * Whether the action opens a new tax lot
+ */
+export const isLotOpeningAction = (action: TransactionAction): boolean =>
+  action === 'BUY' || action === 'TRANSFER_IN' || action === 'STAKING_REWARD';
+
+/**
+ * Whether the action relieves units from open lots
+ */
+export const isDisposalAction = (action: TransactionAction): boolean =>
+  action === 'SELL' || action === 'TRANSFER_OUT';
+
+/**
+ * Whether a transaction has the fields its action needs
+ */
+export const isValidTransaction = (tx: PortfolioTransactionInput): boolean => {
+  if (!tx?.date || !TRANSACTION_ACTIONS.includes(tx.action)) return false;
+  if (isCashAction(tx.action)) return Number.isFinite(tx.amount) && (tx.amount as number) > 0;
+  if (tx.action === 'SPLIT') return Number.isFinite(tx.quantity) && tx.quantity > 0;
+  return Number.isFinite(tx.quantity) && tx.quantity > 0 && Number.isFinite(tx.price) && tx.price >= 0;
+};
@@ -0,0 +1,183 @@
+// Watchlist alert rules and their evaluation against the latest market data
+
+export type AlertRuleType =
+  | 'price_above'
+  | 'price_below'
+  | 'daily_move'
+  | 'rank_above'
+  | 'rank_below'
+  | 'support_break'
+  | 'resistance_break';
+
+export type AlertAssetType = 'crypto' | 'stocks';
+
+export interface AlertRule {
+  id: string;
+  watchlistId: string;
+  symbol: string; // upper-case
+  assetType: AlertAssetType;
+  type: AlertRuleType;
+  threshold: number | null; // price level, percent move or rank; unused for support/resistance breaks
+  enabled: boolean;
+  createdAt: string;
+  conditionMet: boolean; // state at the last evaluation; a rule fires when this turns true
+  lastTriggeredAt: string | null;
+}
+
+// Values a rule is evaluated against; null when the endpoints have none
+export interface AlertSnapshot {
+  price: number | null;
+  change1d: number | null; // percent
+  rank: number | null; // crypto_ranks for crypto, rankTechnical for stocks
+  support: number | null;
+  resistance: number | null;
+}
+
+export interface AlertEvent {
+  rule: AlertRule;
+  message: string;
+  description: string;
+}
+
+export const ALERT_RULE_TYPES: AlertRuleType[] = [
+  'price_above',
+  'price_below',
+  'daily_move',
+  'rank_above',
+  'rank_below',
+  'support_break',
+  'resistance_break',
+];
+
+export const ALERT_RULE_LABELS: Record<AlertRuleType, string> = {
+  price_above: 'Price rises above',
+  price_below: 'Price falls below',
+  daily_move: 'Daily move exceeds (%)',
+  rank_above: 'Rank rises above',
+  rank_below: 'Rank falls below',
+  support_break: 'Price breaks support',
+  resistance_break: 'Price breaks resistance',
+};
+
+// Support and resistance levels are only published for stocks
+export const STOCK_ONLY_RULE_TYPES: AlertRuleType[] = ['support_break', 'resistance_break'];
+
+/**
+ * Whether a rule type needs a threshold value
+ */
+export const ruleNeedsThreshold = (type: AlertRuleType): boolean => !STOCK_ONLY_RULE_TYPES.includes(type);
+
+/**
+ * Name of the rank a rule type is evaluated against for an asset type
+ */
+export const rankFieldLabel = (assetType: AlertAssetType): string => (assetType === 'crypto' ? 'crypto_ranks' : 'rankTechnical');
+
+/**
+ * One-line description of a rule, e.g. "BTC price rises above 70000"
+ */
+export const describeRule = (rule: Pick<AlertRule, 'symbol' | 'assetType' | 'type' | 'threshold'>): string => {
+  switch (rule.type) {
+    case 'price_above':
+      return `${rule.symbol} price rises above ${rule.threshold}`;
+    case 'price_below':
+      return `${rule.symbol} price falls below ${rule.threshold}`;
+    case 'daily_move':
+      return `${rule.symbol} moves more than ${rule.threshold}% in a day`;
+    case 'rank_above':
+      return `${rule.symbol} ${rankFieldLabel(rule.assetType)} rises above ${rule.threshold}`;
+    case 'rank_below':
+      return `${rule.symbol} ${rankFieldLabel(rule.assetType)} falls below ${rule.threshold}`;
+    case 'support_break':
+      return `${rule.symbol} price breaks below support`;
+    case 'resistance_break':
+      return `${rule.symbol} price breaks above resistance`;
+  }
+};
+
+/**
+ * Key of a symbol's snapshot in the map passed to evaluateAlertRules
+ */
+export const snapshotKey = (assetType: AlertAssetType, symbol: string): string => `${assetType}:${symbol.toUpperCase()}`;
+
+const formatValue = (value: number, decimals = 2): string => value.toFixed(decimals);
+
+/**
+ * Checks a rule against a snapshot
+ * @returns Whether the condition holds and what was observed, or null if the data needed is missing
+ */
+const checkRule = (rule: AlertRule, snapshot: AlertSnapshot): { met: boolean; observed: string } | null => {
+  const { price, change1d, rank, support, resistance } = snapshot;
+  const threshold = rule.threshold;
+
+  switch (rule.type) {
+    case 'price_above':
+    case 'price_below':
+      if (price === null || threshold === null) return null;
+      return { met: rule.type === 'price_above' ? price > threshold : price < threshold, observed: `Price ${formatValue(price)}` };
+    case 'daily_move':
+      if (change1d === null || threshold === null) return null;
+      return { met: Math.abs(change1d) >= Math.abs(threshold), observed: `1d change ${change1d >= 0 ? '+' : ''}${formatValue(change1d)}%` };
+    case 'rank_above':
+    case 'rank_below':
+      if (rank === null || threshold === null) return null;
+      return { met: rule.type === 'rank_above' ? rank > threshold : rank < threshold, observed: `${rankFieldLabel(rule.assetType)} ${formatValue(rank, 1)}` };
+    case 'support_break':
+      if (price === null || support === null) return null;
+      return { met: price < support, observed: `Price ${formatValue(price)}, support ${formatValue(support)}` };
+    case 'resistance_break':
+      if (price === null || resistance === null) return null;
+      return { met: price > resistance, observed: `Price ${formatValue(price)}, resistance ${formatValue(resistance)}` };
+  }
+};
+
+/**
+ * Evaluates enabled rules against the latest snapshots. A rule fires when its condition turns
+ * true and stays quiet until the condition has been false again, so a level that is held does
+ * not fire on every poll. Rules without data keep their previous state.
+ * @param rules - All rules
+ * @param snapshots - Latest values keyed by `${assetType}:${symbol}`
+ * @param now - Evaluation time, ISO string
+ * @returns The rules with updated state, and an event per rule that fired
+ */
+export const evaluateAlertRules = (
+  rules: AlertRule[],
+  snapshots: Record<string, AlertSnapshot>,
+  now: string
+): { rules: AlertRule[]; events: AlertEvent[] } => {
+  const events: AlertEvent[] = [];
+
+  const updated = rules.map((rule) => {
+    if (!rule.enabled) return rule;
+    const snapshot = snapshots[snapshotKey(rule.assetType, rule.symbol)];
+    const result = snapshot ? checkRule(rule, snapshot) : null;
+    if (!result || result.met === rule.conditionMet) return rule;
+
+    if (!result.met) return { ...rule, conditionMet: false };
+
+    const fired = { ...rule, conditionMet: true, lastTriggeredAt: now };
+    events.push({ rule: fired, message: `Alert: ${describeRule(rule)}`, description: result.observed });
+    return fired;
+  });
+
+  return { rules: updated, events };
+};
+
+/**
+ * Validates rules read back from storage, dropping malformed entries
+ */
+export const parseStoredRules = (value: unknown): AlertRule[] => {
+  if (!Array.isArray(value)) return [];
+  return value.filter((rule): rule is AlertRule =>
+    typeof rule?.id === 'string' &&
+    typeof rule.watchlistId === 'string' &&
+    typeof rule.symbol === 'string' &&
+    (rule.assetType === 'crypto' || rule.assetType === 'stocks') &&
+    ALERT_RULE_TYPES.includes(rule.type) &&
+    (rule.threshold === null || Number.isFinite(rule.threshold))
+  ).map(rule => ({
+    ...rule,
+    enabled: rule.enabled !== false,
+    conditionMet: rule.conditionMet === true,
+    lastTriggeredAt: typeof rule.lastTriggeredAt === 'string' ? rule.lastTriggeredAt : null,
+  }));
+};
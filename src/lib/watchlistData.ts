@@ -0,0 +1,98 @@
+// Watchlist API helpers shared by the watchlist view, the shared-watchlist page and the ranks leaderboard
+
+import { WatchlistExport, WatchlistType } from './watchlistTransfer';
+
+// API configuration
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '/api';
+const API_KEY = import.meta.env.VITE_API_KEY;
+
+export interface StoredWatchlist {
+  id: string;
+  name: string;
+  type: WatchlistType;
+  symbols: string[];
+}
+
+/**
+ * Loads the watchlists of a wallet
+ * @param username - Wallet address that owns the watchlists
+ * @throws Error if the request fails
+ */
+export const fetchWatchlists = async (username: string): Promise<StoredWatchlist[]> => {
+  const response = await fetch(`${API_BASE_URL}/watchlists?username=${encodeURIComponent(username)}`, {
+    method: 'GET',
+    headers: {
+      'Authorization': `Bearer ${API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to load watchlists: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return Array.isArray(data) ? data : [];
+};
+
+/**
+ * Adds a symbol to a watchlist
+ * @param username - Wallet address that owns the watchlist
+ * @throws Error if the symbol is rejected
+ */
+export const addWatchlistSymbol = async (username: string, watchlistId: string, symbol: string): Promise<void> => {
+  const response = await fetch(`${API_BASE_URL}/watchlists/${watchlistId}/symbols?username=${encodeURIComponent(username)}&symbol=${encodeURIComponent(symbol)}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to add symbol ${symbol}: ${response.status}`);
+  }
+};
+
+/**
+ * Creates a watchlist for a wallet from an export and adds its symbols one by one
+ * @param username - Wallet address that will own the watchlist
+ * @param watchlist - Name, type and symbols of the new watchlist
+ * @returns The created watchlist as stored by the API
+ * @throws Error if the watchlist cannot be created or a symbol is rejected
+ */
+export const createWatchlistFromExport = async (username: string, watchlist: WatchlistExport): Promise<StoredWatchlist> => {
+  const response = await fetch(`${API_BASE_URL}/watchlists`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      name: watchlist.name,
+      type: watchlist.type,
+      symbols: [],
+      username: username
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to create watchlist: ${response.status}`);
+  }
+
+  const created: StoredWatchlist = (await response.json()).watchlist;
+
+  for (const symbol of watchlist.symbols) {
+    await addWatchlistSymbol(username, created.id, symbol);
+  }
+
+  const updatedResponse = await fetch(`${API_BASE_URL}/watchlists/${created.id}?username=${encodeURIComponent(username)}`, {
+    method: 'GET',
+    headers: {
+      'Authorization': `Bearer ${API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  return updatedResponse.ok ? await updatedResponse.json() : { ...created, symbols: watchlist.symbols };
+};
@@ -0,0 +1,172 @@
+// Watchlist export, import and share-link encoding
+
+import { ColumnSetting } from './columnConfig';
+import { parseCsv, toCsv } from './csv';
+
+export type WatchlistType = 'crypto' | 'stocks';
+
+// A watchlist as it travels between wallets: no id or owner, only what is needed to recreate it
+export interface WatchlistExport {
+  version: 1;
+  name: string;
+  type: WatchlistType;
+  symbols: string[];
+  columnConfig: ColumnSetting[] | null;
+}
+
+// Path of the read-only page a share link opens; the watchlist travels in the URL fragment
+export const SHARED_WATCHLIST_PATH = '/watchlist/shared';
+
+const CSV_HEADER = ['name', 'type', 'symbol', 'columns'];
+
+const normalizeSymbols = (symbols: unknown[]): string[] =>
+  Array.from(new Set(
+    symbols
+      .filter((symbol): symbol is string => typeof symbol === 'string')
+      .map(symbol => symbol.trim().toUpperCase())
+      .filter(symbol => symbol.length > 0)
+  ));
+
+const parseColumnConfig = (value: unknown): ColumnSetting[] | null => {
+  if (!Array.isArray(value)) return null;
+  const config = value
+    .filter(col => typeof col?.key === 'string')
+    .map((col, index) => ({
+      key: col.key as string,
+      visible: col.visible !== false,
+      order: Number.isFinite(col.order) ? Number(col.order) : index,
+    }));
+  return config.length > 0 ? config : null;
+};
+
+/**
+ * Validates a watchlist read from a file or share link
+ * @throws Error naming the first missing or invalid field
+ */
+export const parseWatchlistExport = (value: unknown): WatchlistExport => {
+  if (typeof value !== 'object' || value === null) {
+    throw new Error('Not a watchlist export');
+  }
+  const data = value as Record<string, unknown>;
+
+  const name = typeof data.name === 'string' ? data.name.trim() : '';
+  if (!name) throw new Error('Watchlist export has no name');
+  if (data.type !== 'crypto' && data.type !== 'stocks') {
+    throw new Error('Watchlist type must be "crypto" or "stocks"');
+  }
+  if (!Array.isArray(data.symbols)) throw new Error('Watchlist export has no symbol list');
+
+  return {
+    version: 1,
+    name,
+    type: data.type,
+    symbols: normalizeSymbols(data.symbols),
+    columnConfig: parseColumnConfig(data.columnConfig),
+  };
+};
+
+/**
+ * Serializes a watchlist to pretty-printed JSON
+ */
+export const watchlistToJson = (watchlist: WatchlistExport): string => JSON.stringify(watchlist, null, 2);
+
+/**
+ * Serializes a watchlist to CSV, one row per symbol. The visible columns are written in
+ * display order, separated by "|", on the first row only.
+ */
+export const watchlistToCsv = (watchlist: WatchlistExport): string => {
+  const columns = (watchlist.columnConfig || [])
+    .filter(col => col.visible)
+    .sort((a, b) => a.order - b.order)
+    .map(col => col.key)
+    .join('|');
+
+  return toCsv([
+    CSV_HEADER,
+    ...watchlist.symbols.map((symbol, index) => [watchlist.name, watchlist.type, symbol, index === 0 ? columns : '']),
+  ]);
+};
+
+/**
+ * Reads a watchlist from CSV written by watchlistToCsv. A file with only a symbol column is
+ * accepted too; its name and type then come from the fallbacks.
+ * @throws Error if there is no symbol column or the type is missing
+ */
+export const parseWatchlistCsv = (text: string, fallback: { name: string; type?: WatchlistType }): WatchlistExport => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) throw new Error('The file is empty');
+
+  const index = (name: string) => header.findIndex(h => h.trim().toLowerCase() === name);
+  const symbolIndex = index('symbol');
+  if (symbolIndex < 0) throw new Error('The CSV has no "symbol" column');
+
+  const first = rows[0] || [];
+  const columns = index('columns') >= 0 ? (first[index('columns')] || '').split('|').map(c => c.trim()).filter(Boolean) : [];
+
+  return parseWatchlistExport({
+    name: (index('name') >= 0 && first[index('name')]?.trim()) || fallback.name,
+    type: (index('type') >= 0 && first[index('type')]?.trim().toLowerCase()) || fallback.type,
+    symbols: rows.map(row => row[symbolIndex]),
+    // Only the visible columns are written to CSV; the rest keep their place after them, hidden
+    columnConfig: columns.length > 0 ? columns.map((key, order) => ({ key, visible: true, order })) : null,
+  });
+};
+
+/**
+ * Reads a watchlist export file, JSON or CSV depending on its content
+ * @param text - File contents
+ * @param filename - Used as the name of a CSV without a name column
+ * @param fallbackType - Type of a CSV without a type column
+ * @throws Error if the file is not a valid export
+ */
+export const parseWatchlistFile = (text: string, filename: string, fallbackType?: WatchlistType): WatchlistExport => {
+  if (text.trim().startsWith('{')) {
+    try {
+      return parseWatchlistExport(JSON.parse(text));
+    } catch (err) {
+      throw err instanceof SyntaxError ? new Error('The file is not valid JSON') : err;
+    }
+  }
+  return parseWatchlistCsv(text, { name: filename.replace(/\.[^.]+$/, ''), type: fallbackType });
+};
+
+const toBase64Url = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (token: string): string => {
+  const base64 = token.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
+
+/**
+ * Builds a read-only share link. The watchlist is encoded in the URL fragment, so it is
+ * never sent to the server and the link works for any wallet.
+ * @param origin - Site origin, e.g. window.location.origin
+ */
+export const buildShareUrl = (origin: string, watchlist: WatchlistExport): string =>
+  `${origin}${SHARED_WATCHLIST_PATH}#${toBase64Url(JSON.stringify(watchlist))}`;
+
+/**
+ * Decodes the watchlist carried by a share link fragment
+ * @param hash - location.hash, with or without the leading "#"
+ * @throws Error if the fragment is missing or does not hold a watchlist
+ */
+export const decodeShareHash = (hash: string): WatchlistExport => {
+  const token = hash.replace(/^#/, '');
+  if (!token) throw new Error('The link does not contain a watchlist');
+
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(fromBase64Url(token));
+  } catch {
+    throw new Error('The link is damaged or incomplete');
+  }
+  return parseWatchlistExport(decoded);
+};
@@ -0,0 +1,161 @@
+// What-if simulation of hypothetical BUY/SELL orders against the current holdings
+
+import { computePortfolioRisk, PortfolioRiskSummary } from './portfolioRisk';
+
+export interface WhatIfHolding {
+  symbol: string;
+  quantity: number;
+  costBasis: number; // base currency
+  price: number | null; // base currency
+  beta: number | null;
+  ivol: number | null; // percent, as published by the ranks endpoints
+  sector: string | null;
+}
+
+export interface WhatIfOrder {
+  id: string;
+  symbol: string;
+  action: 'BUY' | 'SELL';
+  quantity: number;
+  price: number; // base currency
+}
+
+export interface WhatIfPosition {
+  quantity: number;
+  value: number;
+  costBasis: number;
+  weight: number; // fraction of portfolio value
+  riskShare: number | null; // fraction of portfolio variance
+}
+
+export interface WhatIfRow {
+  symbol: string;
+  before: WhatIfPosition;
+  after: WhatIfPosition;
+}
+
+export interface SectorWeight {
+  sector: string;
+  before: number;
+  after: number;
+}
+
+export interface WhatIfResult {
+  rows: WhatIfRow[];
+  sectors: SectorWeight[];
+  before: PortfolioRiskSummary;
+  after: PortfolioRiskSummary;
+  costBasisBefore: number;
+  costBasisAfter: number;
+  netCash: number; // cash spent by the orders, negative when they raise cash
+  executed: WhatIfOrder[]; // orders as applied: sells capped at the quantity held, orders with no effect left out
+  warnings: string[];
+}
+
+const QUANTITY_EPSILON = 1e-9;
+
+const UNCLASSIFIED_SECTOR = 'Unclassified';
+
+const toPositions = (holdings: WhatIfHolding[], risk: PortfolioRiskSummary): Record<string, WhatIfPosition> => {
+  const positions: Record<string, WhatIfPosition> = {};
+  holdings.forEach((h, i) => {
+    const row = risk.rows[i];
+    positions[h.symbol] = {
+      quantity: h.quantity,
+      value: h.quantity * (h.price ?? 0),
+      costBasis: h.costBasis,
+      weight: row?.weight ?? 0,
+      riskShare: row?.riskShare ?? null,
+    };
+  });
+  return positions;
+};
+
+const riskOf = (holdings: WhatIfHolding[], marketVolatility: number) =>
+  computePortfolioRisk(
+    holdings.map(h => ({
+      symbol: h.symbol,
+      value: h.quantity * (h.price ?? 0),
+      ivol: h.ivol,
+      beta: h.beta,
+      reportedRiskContribution: null,
+    })),
+    marketVolatility,
+    1
+  );
+
+/**
+ * Applies hypothetical orders to the current holdings and compares weights, cost basis,
+ * beta, sector mix and risk contributions before and after. Nothing is saved.
+ * Sells relieve units at average cost; selling more than is held sells the whole position
+ * and adds a warning, and the order is listed in `executed` at the quantity actually sold.
+ * @param holdings - Current positions with prices and risk inputs, in the base currency
+ * @param orders - Orders in entry order
+ * @param marketVolatility - Annualized market volatility, as a fraction
+ */
+export const simulateOrders = (
+  holdings: WhatIfHolding[],
+  orders: WhatIfOrder[],
+  marketVolatility: number
+): WhatIfResult => {
+  const afterHoldings = holdings.map(h => ({ ...h }));
+  const bySymbol = new Map(afterHoldings.map(h => [h.symbol, h]));
+  const warnings: string[] = [];
+  const executed: WhatIfOrder[] = [];
+  let netCash = 0;
+
+  orders.forEach((order) => {
+    const h = bySymbol.get(order.symbol);
+    if (!h || !(order.quantity > 0) || !(order.price >= 0)) return;
+
+    if (order.action === 'BUY') {
+      h.quantity += order.quantity;
+      h.costBasis += order.quantity * order.price;
+      netCash += order.quantity * order.price;
+      executed.push(order);
+      return;
+    }
+
+    const quantity = Math.min(order.quantity, h.quantity);
+    if (order.quantity - quantity > QUANTITY_EPSILON) {
+      warnings.push(`Sell of ${order.quantity} ${order.symbol} exceeds the ${h.quantity} held; only ${quantity} sold`);
+    }
+    if (quantity <= QUANTITY_EPSILON) return;
+    h.costBasis -= (h.costBasis / h.quantity) * quantity;
+    h.quantity -= quantity;
+    if (h.quantity < QUANTITY_EPSILON) {
+      h.quantity = 0;
+      h.costBasis = 0;
+    }
+    netCash -= quantity * order.price;
+    executed.push({ ...order, quantity });
+  });
+
+  const before = riskOf(holdings, marketVolatility);
+  const after = riskOf(afterHoldings, marketVolatility);
+  const beforePositions = toPositions(holdings, before);
+  const afterPositions = toPositions(afterHoldings, after);
+
+  const sectorWeights = new Map<string, SectorWeight>();
+  holdings.forEach((h) => {
+    const sector = h.sector || UNCLASSIFIED_SECTOR;
+    const entry = sectorWeights.get(sector) || { sector, before: 0, after: 0 };
+    entry.before += beforePositions[h.symbol].weight;
+    entry.after += afterPositions[h.symbol].weight;
+    sectorWeights.set(sector, entry);
+  });
+
+  return {
+    rows: holdings.map(h => ({ symbol: h.symbol, before: beforePositions[h.symbol], after: afterPositions[h.symbol] })),
+    sectors: Array.from(sectorWeights.values())
+      .filter(s => s.before > 0 || s.after > 0)
+      .sort((a, b) => b.after - a.after),
+    before,
+    after,
+    costBasisBefore: holdings.reduce((sum, h) => sum + h.costBasis, 0),
+    costBasisAfter: afterHoldings.reduce((sum, h) => sum + h.costBasis, 0),
+    netCash,
+    executed,
+    warnings,
+  };
+};
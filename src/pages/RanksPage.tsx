@@ -0,0 +1,8 @@
+import React from 'react';
+import Ranks from '../components/Ranks';
+
+const RanksPage: React.FC = () => {
+  return <Ranks />;
+};
+
+export default RanksPage;
@@ -0,0 +1,8 @@
+import React from 'react';
+import SharedWatchlist from '../components/SharedWatchlist';
+
+const SharedWatchlistPage: React.FC = () => {
+  return <SharedWatchlist />;
+};
+
+export default SharedWatchlistPage;
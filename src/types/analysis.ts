@@ -0,0 +1,25 @@
+// AI analysis results returned by /analysis/run and the history kept of them
+
+export type AnalysisAssetType = 'crypto' | 'stocks';
+
+export interface AnalysisResult {
+  ticker: string;
+  company: string;
+  asset_type: string;
+  timestamp: string;
+  sentiment_score: number | null;
+  sentiment_analysis: string | null;
+  news_items: string | null;
+  decision_score: string;
+  positive_reasons: string[];
+  negative_reasons: string[];
+}
+
+// A stored run; `timestamp` is when the analysis completed, falling back to when it was stored
+export interface AnalysisHistoryEntry {
+  id: string;
+  ticker: string; // upper-case
+  assetType: AnalysisAssetType;
+  timestamp: string;
+  result: AnalysisResult;
+}
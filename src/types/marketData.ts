@@ -0,0 +1,136 @@
+// Market data returned by the price, history, ranks and threshold endpoints
+
+// Closes 1, 7, 30, 60, 90 and 120 days back, used to compute trailing returns
+export interface XDaysCloses {
+  close_1d: number | null;
+  close_7d: number | null;
+  close_30d: number | null;
+  close_60d: number | null;
+  close_90d: number | null;
+  close_120d: number | null;
+}
+
+export interface CryptoXDaysData extends XDaysCloses {
+  baseCurrency: string;
+}
+
+export interface StockXDaysData extends XDaysCloses {
+  symbol: string;
+}
+
+export type ReturnPeriod = '1d' | '7d' | '30d' | '60d' | '90d' | '120d';
+
+// Row of /latest_crypto_price and /latest_stock_price
+export interface LatestPriceQuote {
+  symbol: string;
+  close: number;
+  return30d: number | null;
+}
+
+// Latest price with trailing returns computed from the x-days closes
+export interface LatestPriceData {
+  symbol: string;
+  latestPrice: number;
+  returns: Record<ReturnPeriod, number | null>;
+}
+
+// AI analysis fields joined onto the ranks rows
+export interface AiRankFields {
+  ai_sentiment?: number | null;
+  ai_decision?: number | null;
+  ai_age?: string | null;
+}
+
+// Row of /ranks (stocks)
+export interface RanksData extends AiRankFields {
+  ticker: string;
+  date?: string;
+  industry?: string;
+  isADR: boolean;
+  isActive: boolean;
+  mcap: number | null;
+  name: string;
+  permaTicker: string;
+  rankFundamental: number | null;
+  rankTechnical: number | null;
+  reportingCurrency: string;
+  sector: string | null;
+  statementLastUpdated: string;
+  tag: string;
+  td__Resistance: number | null;
+  td__Support: number | null;
+  tec_riskRangeHigh: number | null;
+  tec_riskRangeInd: number | null;
+  tec_riskRangeLow: number | null;
+  ivol: number | null;
+  predicted_beta: number | null;
+  risk_contribution: number | null;
+}
+
+// Latest values of /crypto_ranks for one coin, merged across its rows
+export interface CryptoRankData extends AiRankFields {
+  baseCurrency: string;
+  date: string | null;
+  crypto_ranks: number | null;
+  lppl_side: string | number | null;
+  lppl_pos_conf: number | null;
+  lppl_neg_conf: number | null;
+  strategy_side: string | number | null;
+  strategy_profit_per_trade: number | null;
+  strategy_expectancy: number | null;
+  strategy_profit_factor: number | null;
+  quoteCurrency: string | null;
+  open: number | null;
+  high: number | null;
+  low: number | null;
+  close: number | null;
+  volume: number | null;
+  ivol: number | null;
+  predicted_beta: number | null;
+  risk_contribution: number | null;
+}
+
+// Daily price bar, as carried by the /ranks and /crypto_ranks history rows
+export interface OHLCVData {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+// One day of a ticker's /ranks history: its ranks and closing price
+export interface RankHistoryPoint {
+  date: string; // calendar day, YYYY-MM-DD
+  rankFundamental: number | null;
+  rankTechnical: number | null;
+  close: number | null;
+}
+
+// One day of a coin's /crypto_ranks history, merged across the rows published that day
+export interface CryptoRankHistoryPoint {
+  date: string; // calendar day, YYYY-MM-DD
+  crypto_ranks: number | null;
+  close: number | null;
+}
+
+// Latest ranks of a symbol with those of the day before, for day-over-day changes
+export interface RanksWithPrevious<T> {
+  latest: T;
+  previous: T | null; // null when only one day has been published
+}
+
+// Row of /crypto_thresholds
+export interface CryptoThreshold {
+  baseCurrency: string;
+  min_entry_threshold: number;
+  min_exit_threshold: number;
+}
+
+// Row of /stock_thresholds
+export interface StockThreshold {
+  symbol: string;
+  entry_threshold: number;
+  exit_threshold: number;
+}
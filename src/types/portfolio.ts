@@ -0,0 +1,67 @@
+// Portfolio ledger and pricing types shared by the Portfolio page and its analytics
+
+// Asset class of a single symbol; decides which data and ranks endpoints it is read from
+export type AssetClass = 'crypto' | 'stocks';
+
+// 'mixed' portfolios hold both asset classes and store the class per symbol
+export type PortfolioType = AssetClass | 'mixed';
+
+// Ledger actions. BUY, SELL, TRANSFER_IN and TRANSFER_OUT move `quantity` units at `price`;
+// STAKING_REWARD adds units at their fair value `price`; SPLIT multiplies the position by `quantity`;
+// DIVIDEND, INTEREST and FEE carry a cash `amount` and leave quantity and price at 0
+export type TransactionAction =
+  | 'BUY'
+  | 'SELL'
+  | 'DIVIDEND'
+  | 'INTEREST'
+  | 'STAKING_REWARD'
+  | 'FEE'
+  | 'SPLIT'
+  | 'TRANSFER_IN'
+  | 'TRANSFER_OUT';
+
+// Portfolio transactions per symbol
+export interface PortfolioTransactionInput {
+  id?: string; // stable row id, saved with the row; disposals name the lot a row opened by it
+  date: string; // YYYY-MM-DD
+  action: TransactionAction;
+  quantity: number;
+  price: number;
+  amount?: number; // DIVIDEND, INTEREST and FEE only
+  currency?: string; // currency of price and amount; defaults to the symbol's price currency
+  lot_id?: string; // SELL and TRANSFER_OUT only: lot to relieve first under specific identification
+}
+
+export interface PortfolioAggregatePosition {
+  symbol: string;
+  total_quantity: number;
+  total_cost_basis: number;
+}
+
+// Full transaction ledger of a portfolio, keyed by upper-case symbol
+export type PortfolioLedger = Record<string, PortfolioTransactionInput[]>;
+
+// Daily close for a single symbol
+export interface PricePoint {
+  date: string; // YYYY-MM-DD
+  close: number;
+}
+
+// Daily closes keyed by upper-case symbol, sorted by date ascending
+export type PriceHistory = Record<string, PricePoint[]>;
+
+// One unit of a currency expressed in the portfolio's base currency on a date
+export interface FxRatePoint {
+  date: string; // YYYY-MM-DD
+  rate: number;
+}
+
+// FX history keyed by upper-case currency code, sorted by date ascending
+export type FxRateTable = Record<string, FxRatePoint[]>;
+
+// Everything needed to restate ledger rows and prices in a portfolio's base currency
+export interface CurrencyConversion {
+  base: string;
+  rates: FxRateTable;
+  symbolCurrencies: Record<string, string>; // price currency keyed by upper-case symbol
+}